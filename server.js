@@ -5,10 +5,11 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { randomUUID } from 'crypto';
 import { fileURLToPath } from 'url';
-import { dirname, join, delimiter } from 'path';
+import { dirname, join, delimiter, normalize, isAbsolute } from 'path';
 import { spawn, execFileSync } from 'child_process';
 import { writeFileSync, mkdirSync, readFileSync, rmSync, existsSync } from 'fs';
-import { tmpdir } from 'os';
+import { cpus, tmpdir } from 'os';
+import { WebSocketServer, WebSocket } from 'ws';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -44,6 +45,7 @@ db.exec(`
     share_id TEXT UNIQUE,
     is_public INTEGER DEFAULT 0,
     last_opened_file TEXT DEFAULT 'main.ml',
+    limits TEXT NOT NULL DEFAULT '{}',
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
@@ -58,6 +60,10 @@ const userColumns = db.prepare('PRAGMA table_info(users)').all();
 if (!userColumns.some((column) => column.name === 'ui_prefs')) {
   db.exec(`ALTER TABLE users ADD COLUMN ui_prefs TEXT NOT NULL DEFAULT '{}'`);
 }
+const projectColumns = db.prepare('PRAGMA table_info(projects)').all();
+if (!projectColumns.some((column) => column.name === 'limits')) {
+  db.exec(`ALTER TABLE projects ADD COLUMN limits TEXT NOT NULL DEFAULT '{}'`);
+}
 
 const PANEL_WIDTH_LIMITS = {
   fileTree: { min: 180, max: 420 },
@@ -68,10 +74,53 @@ function clamp(value, min, max) {
   return Math.min(max, Math.max(min, value));
 }
 
-function parseUiPrefs(rawPrefs) {
-  if (!rawPrefs) return {};
+// ── Execution limits ────────────────────────────────────────────────────────
+// Runs use the limits the client sends (the project's, else the user's
+// defaults), clamped to ceilings the server admin can lower or raise through
+// the environment. Steps and call depth only apply to the browser interpreter.
+// Keep the defaults in sync with src/utils/executionLimits.ts
+const DEFAULT_EXECUTION_LIMITS = {
+  timeoutMs: 10000,
+  maxSteps: 1000000,
+  maxRecursionDepth: 5000,
+  maxOutputKb: 1024,
+  maxMemoryMb: 256,
+};
+
+function limitFromEnv(name, fallback) {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const EXECUTION_LIMIT_CEILINGS = {
+  timeoutMs: limitFromEnv('CARAML_MAX_TIMEOUT_MS', 60000),
+  maxSteps: limitFromEnv('CARAML_MAX_STEPS', 100000000),
+  maxRecursionDepth: limitFromEnv('CARAML_MAX_RECURSION_DEPTH', 50000),
+  maxOutputKb: limitFromEnv('CARAML_MAX_OUTPUT_KB', 10240),
+  maxMemoryMb: limitFromEnv('CARAML_MAX_MEMORY_MB', 2048),
+};
+
+// Keep the known limits that are positive numbers, rounded and within the ceilings
+function sanitizeLimits(limits) {
+  const next = {};
+  if (!limits || typeof limits !== 'object') return next;
+  for (const key of Object.keys(DEFAULT_EXECUTION_LIMITS)) {
+    if (Number.isFinite(limits[key]) && limits[key] > 0) {
+      next[key] = Math.round(Math.min(limits[key], EXECUTION_LIMIT_CEILINGS[key]));
+    }
+  }
+  return next;
+}
+
+// The limits a run gets: the requested ones over the defaults
+function resolveLimits(requested) {
+  return { ...sanitizeLimits(DEFAULT_EXECUTION_LIMITS), ...sanitizeLimits(requested) };
+}
+
+function parseJsonObject(raw) {
+  if (!raw) return {};
   try {
-    const parsed = JSON.parse(rawPrefs);
+    const parsed = JSON.parse(raw);
     return parsed && typeof parsed === 'object' ? parsed : {};
   } catch {
     return {};
@@ -107,6 +156,10 @@ function mergeUiPrefs(existingPrefs, incomingPrefs) {
       ...sanitizePanelWidths(incoming.panelWidths),
     };
   }
+  // Limits are replaced as a whole, so a limit can be cleared
+  if (incoming.limits !== undefined) {
+    merged.limits = sanitizeLimits(incoming.limits);
+  }
 
   return merged;
 }
@@ -118,7 +171,15 @@ function serializeUser(userRow) {
     email: userRow.email,
     avatar_color: userRow.avatar_color,
     created_at: userRow.created_at,
-    ui_prefs: parseUiPrefs(userRow.ui_prefs),
+    ui_prefs: parseJsonObject(userRow.ui_prefs),
+  };
+}
+
+function serializeProject(projectRow) {
+  return {
+    ...projectRow,
+    files: JSON.parse(projectRow.files),
+    limits: sanitizeLimits(parseJsonObject(projectRow.limits)),
   };
 }
 
@@ -252,7 +313,7 @@ app.put('/api/auth/preferences', authenticate, (req, res) => {
     ).get(req.user.id);
     if (!user) return res.status(404).json({ error: 'User not found' });
 
-    const currentPrefs = parseUiPrefs(user.ui_prefs);
+    const currentPrefs = parseJsonObject(user.ui_prefs);
     const mergedPrefs = mergeUiPrefs(currentPrefs, req.body);
 
     db.prepare('UPDATE users SET ui_prefs = ? WHERE id = ?')
@@ -358,7 +419,7 @@ let () =
       .run(id, req.user.id, name, description || '', files);
 
     const project = db.prepare('SELECT * FROM projects WHERE id = ?').get(id);
-    res.json({ project: { ...project, files: JSON.parse(project.files) } });
+    res.json({ project: serializeProject(project) });
   } catch (err) {
     console.error('Create project error:', err);
     res.status(500).json({ error: 'Internal server error' });
@@ -369,7 +430,7 @@ app.get('/api/projects/:id', authenticate, (req, res) => {
   try {
     const project = db.prepare('SELECT * FROM projects WHERE id = ? AND user_id = ?').get(req.params.id, req.user.id);
     if (!project) return res.status(404).json({ error: 'Project not found' });
-    res.json({ project: { ...project, files: JSON.parse(project.files) } });
+    res.json({ project: serializeProject(project) });
   } catch (err) {
     console.error('Get project error:', err);
     res.status(500).json({ error: 'Internal server error' });
@@ -381,7 +442,7 @@ app.put('/api/projects/:id', authenticate, (req, res) => {
     const project = db.prepare('SELECT * FROM projects WHERE id = ? AND user_id = ?').get(req.params.id, req.user.id);
     if (!project) return res.status(404).json({ error: 'Project not found' });
 
-    const { name, description, files, last_opened_file } = req.body;
+    const { name, description, files, last_opened_file, limits } = req.body;
     const updates = [];
     const params = [];
 
@@ -389,6 +450,7 @@ app.put('/api/projects/:id', authenticate, (req, res) => {
     if (description !== undefined) { updates.push('description = ?'); params.push(description); }
     if (files !== undefined) { updates.push('files = ?'); params.push(JSON.stringify(files)); }
     if (last_opened_file !== undefined) { updates.push('last_opened_file = ?'); params.push(last_opened_file); }
+    if (limits !== undefined) { updates.push('limits = ?'); params.push(JSON.stringify(sanitizeLimits(limits))); }
 
     updates.push('updated_at = CURRENT_TIMESTAMP');
     params.push(req.params.id);
@@ -396,7 +458,7 @@ app.put('/api/projects/:id', authenticate, (req, res) => {
     db.prepare(`UPDATE projects SET ${updates.join(', ')} WHERE id = ?`).run(...params);
 
     const updated = db.prepare('SELECT * FROM projects WHERE id = ?').get(req.params.id);
-    res.json({ project: { ...updated, files: JSON.parse(updated.files) } });
+    res.json({ project: serializeProject(updated) });
   } catch (err) {
     console.error('Update project error:', err);
     res.status(500).json({ error: 'Internal server error' });
@@ -461,6 +523,7 @@ app.get('/api/shared/:shareId', optionalAuth, (req, res) => {
         name: project.name,
         description: project.description,
         files: JSON.parse(project.files),
+        limits: sanitizeLimits(parseJsonObject(project.limits)),
         author_name: project.author_name,
         is_owner: req.user ? req.user.id === project.user_id : false,
         created_at: project.created_at,
@@ -485,11 +548,11 @@ app.post('/api/shared/:shareId/fork', authenticate, (req, res) => {
     if (!project) return res.status(404).json({ error: 'Shared project not found' });
 
     const newId = randomUUID();
-    db.prepare('INSERT INTO projects (id, user_id, name, description, files) VALUES (?, ?, ?, ?, ?)')
-      .run(newId, req.user.id, `${project.name} (fork)`, project.description, project.files);
+    db.prepare('INSERT INTO projects (id, user_id, name, description, files, limits) VALUES (?, ?, ?, ?, ?, ?)')
+      .run(newId, req.user.id, `${project.name} (fork)`, project.description, project.files, project.limits);
 
     const forked = db.prepare('SELECT * FROM projects WHERE id = ?').get(newId);
-    res.json({ project: { ...forked, files: JSON.parse(forked.files) } });
+    res.json({ project: serializeProject(forked) });
   } catch (err) {
     console.error('Fork project error:', err);
     res.status(500).json({ error: 'Internal server error' });
@@ -594,10 +657,188 @@ function resolveTool(toolName, overrideEnvVar, env) {
   return resolveOnPath(toolName, env);
 }
 
+// ── Sandbox ─────────────────────────────────────────────────────────────────
+// Every tool that handles user code runs in its own run directory with a
+// cleaned environment and rlimits on CPU time, memory, file size and process
+// count. Where Linux allows it, the tool also gets no network, its own PID
+// namespace and a read-only view of the filesystem in which only the run
+// directory is writable, /tmp is private and the database is hidden: through
+// bubblewrap, or through unprivileged user namespaces with unshare.
+// CARAML_SANDBOX picks one (bwrap, unshare or none); with
+// CARAML_REQUIRE_SANDBOX=1, programs are not run natively without isolation.
+const SANDBOX_MAX_FILE_MB = limitFromEnv('CARAML_SANDBOX_MAX_FILE_MB', 64);
+const SANDBOX_MAX_PROCESSES = limitFromEnv('CARAML_SANDBOX_MAX_PROCESSES', 64);
+// Formatting, merlin and dune builds get more memory than programs
+const TOOL_MEMORY_MB = 2048;
+
+// Variables the tools need; the server's own, secrets included, stay outside
+const SANDBOX_ENV_KEYS = [
+  'LANG', 'LC_ALL', 'LC_CTYPE', 'OPAM_SWITCH_PREFIX', 'OCAMLPATH', 'OCAMLLIB',
+  'OCAMLFIND_CONF', 'CAML_LD_LIBRARY_PATH', 'OCAML_TOPLEVEL_PATH',
+];
+// Shadowed by an empty tmpfs, so runs can't see each other's files
+const SANDBOX_PRIVATE_DIRS = [...new Set(['/tmp', tmpdir()])];
+const SANDBOX_HIDDEN_FILES = ['caraml.db', 'caraml.db-wal', 'caraml.db-shm'].map((name) => join(__dirname, name));
+const UNSHARE_FLAGS = ['--user', '--map-root-user', '--mount', '--net', '--pid', '--fork', '--kill-child', '--mount-proc'];
+
+function shellQuote(value) {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Run inside the namespaces unshare creates, in the run directory: make every
+// mount read-only except a bind mount of the run directory, then shadow the
+// private directories and the hidden files
+const UNSHARE_SETUP = [
+  'set -e',
+  'mount --make-rprivate /',
+  'mount --bind "$PWD" "$PWD"',
+  `for m in $(awk '{print $2}' /proc/self/mounts); do`,
+  '  case "$m" in "$PWD"|/proc|/proc/*|/sys|/sys/*|/dev|/dev/*) ;; *) mount -o remount,bind,ro "$m" 2>/dev/null || true;; esac',
+  'done',
+  'cd "$PWD"',
+  ...SANDBOX_PRIVATE_DIRS.map((dir) => `mount -t tmpfs tmpfs ${shellQuote(dir)}`),
+  // The run directory is still the working directory; give it back its path.
+  // Canonicalizing `.` would give that path, which is now in the empty tmpfs
+  'mkdir -p "$PWD" && mount --no-canonicalize --bind . "$PWD"',
+  ...SANDBOX_HIDDEN_FILES.map((file) => `if [ -e ${shellQuote(file)} ]; then mount --bind /dev/null ${shellQuote(file)}; fi`),
+  'set +e',
+];
+
+function bwrapArgs(cwd) {
+  const args = ['--ro-bind', '/', '/', '--dev', '/dev', '--proc', '/proc', '--unshare-all', '--die-with-parent'];
+  for (const dir of SANDBOX_PRIVATE_DIRS) args.push('--tmpfs', dir);
+  args.push('--bind', cwd, cwd, '--chdir', cwd);
+  for (const file of SANDBOX_HIDDEN_FILES) {
+    if (existsSync(file)) args.push('--ro-bind', '/dev/null', file);
+  }
+  return args;
+}
+
+// Whether the sandbox starts, and a tool inside it can read a file of its run
+// directory by absolute path, as the run endpoints pass them
+function sandboxWorks(command, sandboxArgs) {
+  // `sandboxArgs(runDir)` are the arguments that run the rest of the command line inside
+  const runDir = join(tmpdir(), `caraml-probe-${randomUUID()}`);
+  try {
+    mkdirSync(runDir, { recursive: true });
+    const probe = join(runDir, 'probe.txt');
+    writeFileSync(probe, 'caraml');
+    const output = execFileSync(command, [...sandboxArgs(runDir), '/bin/cat', probe], {
+      cwd: runDir,
+      timeout: 5000,
+      stdio: ['ignore', 'pipe', 'ignore'],
+    });
+    return output.toString() === 'caraml';
+  } catch {
+    return false;
+  } finally {
+    try { rmSync(runDir, { recursive: true, force: true }); } catch {}
+  }
+}
+
+// The first isolation method that works here, unless CARAML_SANDBOX names one
+function detectSandbox(env) {
+  const requested = process.env.CARAML_SANDBOX;
+  if (process.platform !== 'linux' || requested === 'none') return { kind: 'none', path: null };
+
+  if (!requested || requested === 'bwrap') {
+    const bwrap = resolveOnPath('bwrap', env);
+    if (bwrap && sandboxWorks(bwrap, (runDir) => [...bwrapArgs(runDir), '--'])) {
+      return { kind: 'bwrap', path: bwrap };
+    }
+  }
+  if (!requested || requested === 'unshare') {
+    const unshare = resolveOnPath('unshare', env);
+    const setup = [...UNSHARE_SETUP, 'exec "$@"'].join('\n');
+    if (unshare && sandboxWorks(unshare, () => [...UNSHARE_FLAGS, '--', '/bin/sh', '-c', setup, 'sh'])) {
+      return { kind: 'unshare', path: unshare };
+    }
+  }
+  if (requested) console.warn(`  [sandbox] CARAML_SANDBOX=${requested} is not available here`);
+  return { kind: 'none', path: null };
+}
+
+function sandboxEnv(cwd) {
+  const pathKey = getPathKey(TOOL_ENV);
+  const env = { [pathKey]: TOOL_ENV[pathKey], HOME: cwd, TMPDIR: '/tmp' };
+  for (const key of SANDBOX_ENV_KEYS) {
+    if (TOOL_ENV[key] !== undefined) env[key] = TOOL_ENV[key];
+  }
+  return env;
+}
+
+// Spawn a tool in the sandbox. `options.cwd` is the run directory, and
+// `limits` gives the CPU time and memory it may use.
+function spawnSandboxed(command, args, options, limits) {
+  const { cwd } = options;
+  // Windows has neither sh nor namespaces: only the run directory and the time limit apply
+  if (process.platform === 'win32') return spawn(command, args, { ...options, env: TOOL_ENV });
+
+  const rlimits = [
+    `ulimit -t ${Math.ceil(limits.timeoutMs / 1000)}`,
+    // The data segment covers the heap and anonymous mappings, but not address
+    // space that is only reserved, as the OCaml 5 runtime does at startup
+    `ulimit -d ${limits.maxMemoryMb * 1024}`,
+    // In 512-byte blocks
+    `ulimit -f ${SANDBOX_MAX_FILE_MB * 2048}`,
+    // Without a user namespace, the count would cover all of the server user's processes
+    // (bash calls the process count -u, dash -p)
+    ...(SANDBOX.kind === 'none' ? [] : [`{ ulimit -u ${SANDBOX_MAX_PROCESSES} || ulimit -p ${SANDBOX_MAX_PROCESSES}; }`]),
+  ].map((line) => `${line} 2>/dev/null`);
+  const script = [...(SANDBOX.kind === 'unshare' ? UNSHARE_SETUP : []), ...rlimits, 'exec "$@"'].join('\n');
+  const inner = ['/bin/sh', '-c', script, 'sh', command, ...args];
+
+  const sandboxArgs = SANDBOX.kind === 'bwrap' ? [...bwrapArgs(cwd), '--', ...inner]
+    : SANDBOX.kind === 'unshare' ? [...UNSHARE_FLAGS, '--', ...inner]
+    : inner.slice(1);
+  return spawn(SANDBOX.path || inner[0], sandboxArgs, { ...options, env: sandboxEnv(cwd) });
+}
+
+// Like spawnSandboxed, resolving with the tool's output once it exits
+function execSandboxed(command, args, { cwd, input = '', timeout }) {
+  return new Promise((resolve, reject) => {
+    const child = spawnSandboxed(command, args, { cwd, timeout, stdio: ['pipe', 'pipe', 'pipe'] }, {
+      timeoutMs: timeout,
+      maxMemoryMb: TOOL_MEMORY_MB,
+    });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (data) => { stdout += data.toString(); });
+    child.stderr.on('data', (data) => { stderr += data.toString(); });
+    child.stdin.on('error', () => {});
+    child.stdin.end(input);
+    child.on('error', reject);
+    child.on('close', (exitCode) => {
+      if (exitCode === 0) return resolve(stdout);
+      const error = new Error(stderr.trim() || `${command} exited with code ${exitCode}`);
+      error.stderr = stderr;
+      reject(error);
+    });
+  });
+}
+
+// Send a signal to the tool itself rather than the sandbox processes around it
+function signalSandboxed(child, signal) {
+  let pid = child.pid;
+  try {
+    for (;;) {
+      const [next] = readFileSync(`/proc/${pid}/task/${pid}/children`, 'utf8').split(/\s+/).filter(Boolean);
+      if (!next) break;
+      pid = Number(next);
+    }
+    process.kill(pid, signal);
+  } catch {
+    child.kill(signal);
+  }
+}
+
 const TOOL_ENV = buildToolEnv();
-const OCAML_PATH = resolveTool('ocaml', 'CARAML_OCAML_PATH', TOOL_ENV);
+const SANDBOX = detectSandbox(TOOL_ENV);
+const NATIVE_RUNS_ALLOWED = SANDBOX.kind !== 'none' || process.env.CARAML_REQUIRE_SANDBOX !== '1';
+const OCAML_PATH = NATIVE_RUNS_ALLOWED ? resolveTool('ocaml', 'CARAML_OCAML_PATH', TOOL_ENV) : null;
 const OCAMLMERLIN_PATH = resolveTool('ocamlmerlin', 'CARAML_OCAMLMERLIN_PATH', TOOL_ENV);
 const OCAMLFORMAT_PATH = resolveTool('ocamlformat', 'CARAML_OCAMLFORMAT_PATH', TOOL_ENV);
+const DUNE_PATH = NATIVE_RUNS_ALLOWED ? resolveTool('dune', 'CARAML_DUNE_PATH', TOOL_ENV) : null;
 const OCAML_VERSION = OCAML_PATH ? (() => {
   try {
     return execFileSync(OCAML_PATH, ['-version'], {
@@ -615,6 +856,10 @@ console.log('  OCaml toolchain:');
 console.log(`    ocaml:       ${OCAML_PATH || '(not found — fallback to browser interpreter)'}`);
 console.log(`    ocamlmerlin: ${OCAMLMERLIN_PATH || '(not found — basic completions only)'}`);
 console.log(`    ocamlformat: ${OCAMLFORMAT_PATH || '(not found — formatting disabled)'}`);
+console.log(`    dune:        ${DUNE_PATH || '(not found — project builds disabled)'}`);
+console.log(`    sandbox:     ${SANDBOX.kind !== 'none' ? `${SANDBOX.kind} (${SANDBOX.path})`
+  : NATIVE_RUNS_ALLOWED ? '(none — native runs are NOT isolated from the server)'
+  : '(none — native runs disabled by CARAML_REQUIRE_SANDBOX)'}`);
 console.log('');
 
 // ── /api/capabilities — report what tools are available ─────────────────────
@@ -624,21 +869,266 @@ app.get('/api/capabilities', (req, res) => {
     ocamlVersion: OCAML_VERSION,
     merlin: !!OCAMLMERLIN_PATH,
     ocamlformat: !!OCAMLFORMAT_PATH,
+    dune: !!DUNE_PATH,
+    limitCeilings: EXECUTION_LIMIT_CEILINGS,
+    // How native runs are isolated; `required` means they are refused without isolation
+    sandbox: { kind: SANDBOX.kind, required: process.env.CARAML_REQUIRE_SANDBOX === '1' },
+  });
+});
+
+// ── Compiler diagnostics ────────────────────────────────────────────────────
+// OCaml error format: File "code.ml", line X, characters Y-Z:
+// optionally followed by a source excerpt before the Error/Warning line
+// (dune also reports multi-line spans as "lines X-W")
+function parseCompilerErrors(stderr) {
+  const errors = [];
+  if (!stderr) return errors;
+
+  const errorRegex = /File "([^"]*)", lines? (\d+)(?:-\d+)?, characters? (\d+)[-–](\d+):\s*\n(?:[^\n]*\n)*?((?:Error|Warning).*?)(?=\nFile "|$)/gs;
+  let match;
+  while ((match = errorRegex.exec(stderr)) !== null) {
+    errors.push({
+      file: match[1],
+      line: parseInt(match[2]),
+      column: parseInt(match[3]),
+      message: match[5].trim(),
+    });
+  }
+  // If no structured errors found, add the raw stderr
+  if (errors.length === 0 && stderr.trim()) {
+    // Try simpler error pattern
+    const simpleError = stderr.match(/Error: (.*)/);
+    if (simpleError) {
+      errors.push({ line: 0, column: 0, message: simpleError[1].trim() });
+    } else {
+      errors.push({ line: 0, column: 0, message: stderr.trim() });
+    }
+  }
+  return errors;
+}
+
+// ── Run output ──────────────────────────────────────────────────────────────
+// Collect a child's stdout and stderr, killing it once together they pass `maxOutputKb`
+function collectOutput(child, maxOutputKb = Infinity) {
+  const maxLength = maxOutputKb * 1024;
+  const collected = { stdout: '', stderr: '', outputLimited: false };
+  const receive = (stream) => (data) => {
+    if (collected.outputLimited) return;
+    collected[stream] += data.toString();
+    const excess = collected.stdout.length + collected.stderr.length - maxLength;
+    if (excess > 0) {
+      collected[stream] = collected[stream].slice(0, -excess);
+      collected.outputLimited = true;
+      child.kill('SIGKILL');
+    }
+  };
+  child.stdout.on('data', receive('stdout'));
+  child.stderr.on('data', receive('stderr'));
+  return collected;
+}
+
+// Errors for the limits a run ran into, worded like the browser interpreter's
+function limitErrors({ outputLimited, timedOut }, limits) {
+  const errors = [];
+  if (outputLimited) {
+    errors.push({ line: 0, column: 0, message: `Output limit exceeded (${limits.maxOutputKb} KB)` });
+  }
+  if (timedOut) {
+    errors.push({ line: 0, column: 0, message: `Execution time limit exceeded (${limits.timeoutMs / 1000}s)` });
+  }
+  return errors;
+}
+
+// ── Job queue ───────────────────────────────────────────────────────────────
+// Every request that starts a native tool takes a slot first. At most
+// MAX_CONCURRENT_JOBS run at once and MAX_JOBS_PER_USER per user; the rest
+// wait in FIFO order, except that a user at their cap doesn't hold up the jobs
+// queued behind theirs. A full queue answers 429.
+const MAX_CONCURRENT_JOBS = limitFromEnv('CARAML_MAX_CONCURRENT_JOBS', cpus().length || 1);
+const MAX_JOBS_PER_USER = limitFromEnv('CARAML_MAX_JOBS_PER_USER', 2);
+const MAX_QUEUED_JOBS = limitFromEnv('CARAML_MAX_QUEUED_JOBS', 100);
+const MAX_QUEUED_JOBS_PER_USER = 10;
+const JOB_ID_PATTERN = /^[\w-]{8,64}$/;
+
+const jobQueue = [];
+const runningJobsByOwner = new Map();
+// Jobs the client gave an id, so it can ask for their queue position
+const trackedJobs = new Map();
+let runningJobCount = 0;
+
+const jobMetrics = {
+  startedAt: new Date().toISOString(),
+  started: 0,
+  completed: 0,
+  rejected: 0,
+  cancelled: 0,
+  totalWaitMs: 0,
+  maxWaitMs: 0,
+  totalRunMs: 0,
+  byKind: {},
+};
+
+// Signed-in users are counted by account, everyone else by address
+function jobOwner(req) {
+  return req.user ? `user:${req.user.id}` : `ip:${req.ip}`;
+}
+
+function countJob(kind, field) {
+  jobMetrics[field] += 1;
+  jobMetrics.byKind[kind] ??= { started: 0, completed: 0, rejected: 0, cancelled: 0 };
+  jobMetrics.byKind[kind][field] += 1;
+}
+
+function startQueuedJobs() {
+  for (let i = 0; i < jobQueue.length && runningJobCount < MAX_CONCURRENT_JOBS;) {
+    const job = jobQueue[i];
+    if ((runningJobsByOwner.get(job.owner) ?? 0) >= MAX_JOBS_PER_USER) {
+      i++;
+      continue;
+    }
+    jobQueue.splice(i, 1);
+    runningJobCount += 1;
+    runningJobsByOwner.set(job.owner, (runningJobsByOwner.get(job.owner) ?? 0) + 1);
+    job.state = 'running';
+    job.startedAt = Date.now();
+    const waitMs = job.startedAt - job.queuedAt;
+    jobMetrics.totalWaitMs += waitMs;
+    jobMetrics.maxWaitMs = Math.max(jobMetrics.maxWaitMs, waitMs);
+    countJob(job.kind, 'started');
+    job.start(job);
+  }
+}
+
+function finishJob(job) {
+  if (job.state !== 'running') return;
+  job.state = 'done';
+  runningJobCount -= 1;
+  const owned = runningJobsByOwner.get(job.owner) - 1;
+  if (owned > 0) runningJobsByOwner.set(job.owner, owned);
+  else runningJobsByOwner.delete(job.owner);
+  if (job.id) trackedJobs.delete(job.id);
+  jobMetrics.totalRunMs += Date.now() - job.startedAt;
+  countJob(job.kind, 'completed');
+  startQueuedJobs();
+}
+
+// Why a new job for `owner` can't be queued, or null if it can
+function queueFullMessage(owner) {
+  const queuedByOwner = jobQueue.filter((job) => job.owner === owner).length;
+  if (queuedByOwner >= MAX_QUEUED_JOBS_PER_USER) return 'Too many of your runs are waiting; wait for them to finish';
+  if (jobQueue.length >= MAX_QUEUED_JOBS) return 'The server is busy; try again in a moment';
+  return null;
+}
+
+// Queue a job; `start` is called with it once it may run
+function queueJob(owner, kind, id, start) {
+  const controller = new AbortController();
+  const job = {
+    id,
+    owner,
+    kind,
+    state: 'queued',
+    queuedAt: Date.now(),
+    startedAt: 0,
+    signal: controller.signal,
+    start,
+    finish: () => finishJob(job),
+    // Drop the job if it is still waiting, or abort `signal` if it runs
+    cancel: () => {
+      if (job.state === 'queued') {
+        jobQueue.splice(jobQueue.indexOf(job), 1);
+        job.state = 'done';
+        if (id) trackedJobs.delete(id);
+        countJob(kind, 'cancelled');
+      } else if (job.state === 'running') {
+        controller.abort();
+      }
+    },
+  };
+  if (id) trackedJobs.set(id, job);
+  jobQueue.push(job);
+  startQueuedJobs();
+  return job;
+}
+
+/**
+ * Wait for a slot to run a `kind` job for this request. Resolves with the job,
+ * whose `finish()` must be called once its processes are done, or with null
+ * when the request was answered with a 429 or the client went away while
+ * waiting. `job.signal` aborts if the client goes away while it runs.
+ */
+function acquireJob(req, res, kind) {
+  const owner = jobOwner(req);
+  const fullMessage = queueFullMessage(owner);
+  if (fullMessage) {
+    countJob(kind, 'rejected');
+    res.status(429).set('Retry-After', '5').json({ error: fullMessage });
+    return Promise.resolve(null);
+  }
+
+  const requestedId = req.body?.jobId;
+  const id = typeof requestedId === 'string' && JOB_ID_PATTERN.test(requestedId) && !trackedJobs.has(requestedId)
+    ? requestedId
+    : null;
+
+  return new Promise((resolve) => {
+    const job = queueJob(owner, kind, id, resolve);
+    res.on('close', () => {
+      if (res.writableEnded) return;
+      if (job.state === 'queued') resolve(null);
+      job.cancel();
+    });
+  });
+}
+
+// ── /api/jobs/:id — queue position of a waiting job ─────────────────────────
+app.get('/api/jobs/:id', (req, res) => {
+  const job = trackedJobs.get(req.params.id);
+  if (!job) return res.status(404).json({ error: 'Job not found' });
+  if (job.state === 'queued') {
+    return res.json({ state: 'queued', position: jobQueue.indexOf(job) + 1 });
+  }
+  res.json({ state: 'running' });
+});
+
+// ── /api/metrics — job queue load and totals ────────────────────────────────
+app.get('/api/metrics', (req, res) => {
+  const { totalWaitMs, totalRunMs, ...totals } = jobMetrics;
+  res.json({
+    running: runningJobCount,
+    queued: jobQueue.length,
+    limits: {
+      maxConcurrent: MAX_CONCURRENT_JOBS,
+      maxPerUser: MAX_JOBS_PER_USER,
+      maxQueued: MAX_QUEUED_JOBS,
+      maxQueuedPerUser: MAX_QUEUED_JOBS_PER_USER,
+    },
+    ...totals,
+    averageWaitMs: jobMetrics.started ? Math.round(totalWaitMs / jobMetrics.started) : 0,
+    averageRunMs: jobMetrics.completed ? Math.round(totalRunMs / jobMetrics.completed) : 0,
+    toplevelSessions: toplevelSessions.size,
   });
 });
 
 // ── /api/execute — run OCaml code via the real toplevel ─────────────────────
-app.post('/api/execute', (req, res) => {
-  const { code } = req.body;
+app.post('/api/execute', optionalAuth, async (req, res) => {
+  const { code, stdin = '' } = req.body;
   if (!code || typeof code !== 'string') {
     return res.status(400).json({ error: 'Code is required' });
   }
+  if (typeof stdin !== 'string') {
+    return res.status(400).json({ error: 'stdin must be a string' });
+  }
 
   if (!OCAML_PATH) {
     return res.json({ backend: false, message: 'OCaml not available on server, using browser interpreter' });
   }
 
-  const timeout = 10000; // 10 seconds max
+  const job = await acquireJob(req, res, 'execute');
+  if (!job) return;
+
+  const limits = resolveLimits(req.body.limits);
+  const timeout = limits.timeoutMs;
   const startTime = Date.now();
 
   // Create a temp file for the code
@@ -650,19 +1140,20 @@ app.post('/api/execute', (req, res) => {
   // Using the OCaml toplevel in script mode
   writeFileSync(tmpFile, code);
 
-  // Run via ocaml toplevel
-  const child = spawn(OCAML_PATH, [tmpFile], {
+  // Run via ocaml toplevel, naming the file relative to the run directory as the
+  // other endpoints do
+  const child = spawnSandboxed(OCAML_PATH, ['code.ml'], {
     cwd: tmpDir,
-    env: TOOL_ENV,
     timeout: timeout,
     stdio: ['pipe', 'pipe', 'pipe'],
-  });
+  }, limits);
 
-  let stdout = '';
-  let stderr = '';
+  const collected = collectOutput(child, limits.maxOutputKb);
+  job.signal.addEventListener('abort', () => child.kill('SIGKILL'));
 
-  child.stdout.on('data', (data) => { stdout += data.toString(); });
-  child.stderr.on('data', (data) => { stderr += data.toString(); });
+  // The program reads the given input; closing stdin makes further reads hit End_of_file
+  child.stdin.on('error', () => {});
+  child.stdin.end(stdin);
 
   const killTimer = setTimeout(() => {
     child.kill('SIGKILL');
@@ -670,35 +1161,18 @@ app.post('/api/execute', (req, res) => {
 
   child.on('close', (exitCode) => {
     clearTimeout(killTimer);
+    job.finish();
     const executionTimeMs = Date.now() - startTime;
 
     // Clean up temp files
     try { rmSync(tmpDir, { recursive: true, force: true }); } catch {}
 
-    // Parse errors from stderr
-    const errors = [];
-    if (stderr) {
-      // OCaml error format: File "code.ml", line X, characters Y-Z:
-      const errorRegex = /File ".*?", line (\d+), characters? (\d+)[-–](\d+):\s*\n((?:Error|Warning).*?)(?=\nFile "|$)/gs;
-      let match;
-      while ((match = errorRegex.exec(stderr)) !== null) {
-        errors.push({
-          line: parseInt(match[1]),
-          column: parseInt(match[2]),
-          message: match[4].trim(),
-        });
-      }
-      // If no structured errors found, add the raw stderr
-      if (errors.length === 0 && stderr.trim()) {
-        // Try simpler error pattern
-        const simpleError = stderr.match(/Error: (.*)/);
-        if (simpleError) {
-          errors.push({ line: 0, column: 0, message: simpleError[1].trim() });
-        } else {
-          errors.push({ line: 0, column: 0, message: stderr.trim() });
-        }
-      }
-    }
+    // Parse errors from stderr; there is only one file, so drop its name
+    const { stdout, stderr } = collected;
+    const errors = [
+      ...parseCompilerErrors(stderr).map(({ file, ...error }) => error),
+      ...limitErrors({ outputLimited: collected.outputLimited, timedOut: executionTimeMs >= timeout }, limits),
+    ];
 
     res.json({
       backend: true,
@@ -712,6 +1186,7 @@ app.post('/api/execute', (req, res) => {
 
   child.on('error', (err) => {
     clearTimeout(killTimer);
+    job.finish();
     try { rmSync(tmpDir, { recursive: true, force: true }); } catch {}
     res.json({
       backend: true,
@@ -724,33 +1199,241 @@ app.post('/api/execute', (req, res) => {
   });
 });
 
+// ── /api/build — build and run a dune project ───────────────────────────────
+const DEFAULT_DUNE_PROJECT = '(lang dune 3.0)\n';
+
+// Run a tool in the sandbox with `input` on its stdin, killing it after `timeout` ms
+// or when `signal` aborts. Given a run's `limits`, its memory and output limits apply as well.
+function runTool(toolPath, args, cwd, timeout, input = '', limits = null, signal = null) {
+  return new Promise((resolve) => {
+    const child = spawnSandboxed(toolPath, args, {
+      cwd,
+      timeout,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }, limits ?? { timeoutMs: timeout, maxMemoryMb: TOOL_MEMORY_MB });
+    const startTime = Date.now();
+
+    const collected = collectOutput(child, limits?.maxOutputKb);
+    signal?.addEventListener('abort', () => child.kill('SIGKILL'));
+    child.stdin.on('error', () => {});
+    child.stdin.end(input);
+
+    const killTimer = setTimeout(() => { child.kill('SIGKILL'); }, timeout);
+    child.on('close', (exitCode) => {
+      clearTimeout(killTimer);
+      resolve({ ...collected, exitCode, timedOut: Date.now() - startTime >= timeout });
+    });
+    child.on('error', (err) => {
+      clearTimeout(killTimer);
+      resolve({ ...collected, stderr: err.message, exitCode: 1, timedOut: false });
+    });
+  });
+}
+
+// Project paths must stay inside the build directory
+function isSafeProjectPath(filename) {
+  if (!filename || isAbsolute(filename)) return false;
+  const normalized = normalize(filename);
+  return !normalized.split(/[\\/]/).includes('..');
+}
+
+// The executable to run: the first `(executable (name x))` or `(executables (names x ...))`
+function findDuneExecutable(files) {
+  const duneFiles = Object.keys(files).filter((name) => name === 'dune' || name.endsWith('/dune')).sort();
+  for (const duneFile of duneFiles) {
+    const match = files[duneFile].content.match(/\(executables?\s[\s\S]*?\(names?\s+(\w+)/);
+    if (match) {
+      const dir = duneFile === 'dune' ? '.' : `./${duneFile.slice(0, -'/dune'.length)}`;
+      return `${dir}/${match[1]}.exe`;
+    }
+  }
+  return null;
+}
+
+app.post('/api/build', optionalAuth, async (req, res) => {
+  const { files, stdin = '' } = req.body;
+  const limits = resolveLimits(req.body.limits);
+  if (!files || typeof files !== 'object') {
+    return res.status(400).json({ error: 'Files are required' });
+  }
+  if (typeof stdin !== 'string') {
+    return res.status(400).json({ error: 'stdin must be a string' });
+  }
+  for (const [filename, file] of Object.entries(files)) {
+    if (!isSafeProjectPath(filename) || typeof file?.content !== 'string') {
+      return res.status(400).json({ error: `Invalid file: ${filename}` });
+    }
+  }
+
+  if (!DUNE_PATH) {
+    return res.json({ backend: false, message: 'dune not available on server, using browser interpreter' });
+  }
+
+  const executable = findDuneExecutable(files);
+  if (!executable) {
+    return res.status(400).json({ error: 'No executable stanza found in the dune files' });
+  }
+
+  const job = await acquireJob(req, res, 'build');
+  if (!job) return;
+
+  const startTime = Date.now();
+  const tmpDir = join(tmpdir(), `caraml-build-${randomUUID()}`);
+
+  try {
+    for (const [filename, file] of Object.entries(files)) {
+      const target = join(tmpDir, filename);
+      mkdirSync(dirname(target), { recursive: true });
+      writeFileSync(target, file.content);
+    }
+    if (!files['dune-project']) {
+      writeFileSync(join(tmpDir, 'dune-project'), DEFAULT_DUNE_PROJECT);
+    }
+
+    // Build first so compiler errors are reported separately from the program's stderr
+    const build = await runTool(DUNE_PATH, ['build', '--root', '.', '--display', 'quiet', '--no-print-directory'], tmpDir, 60000, '', null, job.signal);
+    if (build.exitCode !== 0) {
+      return res.json({
+        backend: true,
+        stage: 'build',
+        stdout: '',
+        stderr: build.stderr,
+        exitCode: build.exitCode,
+        errors: parseCompilerErrors(build.stderr),
+        executionTimeMs: Date.now() - startTime,
+      });
+    }
+
+    const run = await runTool(DUNE_PATH, ['exec', '--root', '.', '--display', 'quiet', '--no-print-directory', '--', executable], tmpDir, limits.timeoutMs, stdin, limits, job.signal);
+    res.json({
+      backend: true,
+      stage: 'exec',
+      stdout: run.stdout,
+      stderr: run.stderr,
+      exitCode: run.exitCode,
+      errors: [...(run.exitCode === 0 ? [] : parseCompilerErrors(run.stderr)), ...limitErrors(run, limits)],
+      executionTimeMs: Date.now() - startTime,
+    });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  } finally {
+    job.finish();
+    try { rmSync(tmpDir, { recursive: true, force: true }); } catch {}
+  }
+});
+
+// ── Toplevel output parsing ─────────────────────────────────────────────────
+// Split what the toplevel printed into program output, `val` bindings and errors
+function parseToplevelOutput(stdout, stderr) {
+  // Clean stdout: remove version header
+  let fullOutput = stdout
+    .replace(/^OCaml version.*\n/m, '')
+    .replace(/^Enter "#help;;".*\n/m, '');
+
+  // Parse toplevel output to extract val declarations
+  const values = [];
+  const valRegex = /val\s+(\w+)\s*:\s*([^=]+)=\s*(.*)/g;
+  let match;
+  while ((match = valRegex.exec(fullOutput)) !== null) {
+    values.push({
+      name: match[1].trim(),
+      type: match[2].trim(),
+      value: match[3].trim(),
+    });
+  }
+
+  // Parse type declarations
+  const typeRegex = /type\s+(.*)/g;
+  while ((match = typeRegex.exec(fullOutput)) !== null) {
+    values.push({ name: '_type', type: 'type', value: 'type ' + match[1].trim() });
+  }
+
+  // Parse exception declarations
+  const excRegex = /exception\s+(.*)/g;
+  while ((match = excRegex.exec(fullOutput)) !== null) {
+    values.push({ name: '_exc', type: 'exception', value: 'exception ' + match[1].trim() });
+  }
+
+  // Parse "- : type = value" (anonymous expressions)
+  const anonRegex = /- : ([^=]+)=\s*(.*)/g;
+  while ((match = anonRegex.exec(fullOutput)) !== null) {
+    values.push({ name: '-', type: match[1].trim(), value: match[2].trim() });
+  }
+
+  // Parse errors
+  const errors = [];
+  if (stderr) {
+    const errorRegex = /File ".*?", line (\d+), characters? (\d+)[-–](\d+):\s*\n((?:Error|Warning)[^\n]*(?:\n(?!File )[^\n]*)*)/gs;
+    let m;
+    while ((m = errorRegex.exec(stderr)) !== null) {
+      errors.push({ line: parseInt(m[1]), column: parseInt(m[2]), message: m[4].trim() });
+    }
+    if (errors.length === 0 && stderr.trim()) {
+      const lines = stderr.trim().split('\n');
+      const errMsg = lines.find(l => l.startsWith('Error:')) || lines.join(' ');
+      errors.push({ line: 0, column: 0, message: errMsg });
+    }
+  }
+
+  // Clean stdout: remove version header, prompts, and val declarations to get program output
+  let cleanedOutput = stdout
+    .replace(/^OCaml version.*\n/m, '')
+    .replace(/^Enter "#help;;".*\n/m, '')
+    .replace(/\n+$/g, '\n');
+
+  // Extract stdout output (text printed by the program, not val declarations)
+  const programOutput = cleanedOutput
+    .replace(/val\s+\w+\s*:.*\n?/g, '')
+    .replace(/type\s+.*\n?/g, '')
+    .replace(/exception\s+.*\n?/g, '')
+    .replace(/- : [^=]+=.*\n?/g, '')
+    .replace(/^#\s*/gm, '')
+    .trim();
+
+  return { output: programOutput, values, errors };
+}
+
 // ── /api/toplevel — interactive OCaml toplevel (phrases) ────────────────────
-app.post('/api/toplevel', (req, res) => {
-  const { code } = req.body;
+app.post('/api/toplevel', optionalAuth, async (req, res) => {
+  const { code, stdin = '' } = req.body;
   if (!code || typeof code !== 'string') {
     return res.status(400).json({ error: 'Code is required' });
   }
+  if (typeof stdin !== 'string') {
+    return res.status(400).json({ error: 'stdin must be a string' });
+  }
 
   if (!OCAML_PATH) {
     return res.json({ backend: false });
   }
 
-  const timeout = 10000;
+  const job = await acquireJob(req, res, 'toplevel');
+  if (!job) return;
+
+  const limits = resolveLimits(req.body.limits);
+  const timeout = limits.timeoutMs;
   const startTime = Date.now();
 
+  // With program input, the code can't share stdin with it: it goes in a file
+  // that is #use'd, and the toplevel (which reads a line at a time) leaves the
+  // lines after the directive for the program to read
+  const tmpDir = join(tmpdir(), `caraml-${randomUUID()}`);
+  mkdirSync(tmpDir, { recursive: true });
+  if (stdin) writeFileSync(join(tmpDir, 'code.ml'), code);
+  const cleanup = () => {
+    try { rmSync(tmpDir, { recursive: true, force: true }); } catch {}
+  };
+
   // Run code through ocaml toplevel interactively
   // We pipe code to stdin and read the toplevel's output
-  const child = spawn(OCAML_PATH, ['-noprompt', '-color', 'never'], {
-    env: TOOL_ENV,
+  const child = spawnSandboxed(OCAML_PATH, ['-noprompt', '-color', 'never'], {
+    cwd: tmpDir,
     timeout: timeout,
     stdio: ['pipe', 'pipe', 'pipe'],
-  });
+  }, limits);
 
-  let stdout = '';
-  let stderr = '';
-
-  child.stdout.on('data', (data) => { stdout += data.toString(); });
-  child.stderr.on('data', (data) => { stderr += data.toString(); });
+  const collected = collectOutput(child, limits.maxOutputKb);
+  job.signal.addEventListener('abort', () => child.kill('SIGKILL'));
 
   // Add ;; at the end if not present
   let codeToSend = code.trim();
@@ -758,99 +1441,339 @@ app.post('/api/toplevel', (req, res) => {
     codeToSend += ';;';
   }
 
-  child.stdin.write(codeToSend + '\n');
-  child.stdin.end();
+  child.stdin.on('error', () => {});
+  if (stdin) {
+    child.stdin.end(`#use "code.ml";; exit 0;;\n${stdin}`);
+  } else {
+    child.stdin.write(codeToSend + '\n');
+    child.stdin.end();
+  }
 
   const killTimer = setTimeout(() => { child.kill('SIGKILL'); }, timeout);
 
   child.on('close', (exitCode) => {
     clearTimeout(killTimer);
+    job.finish();
+    cleanup();
     const executionTimeMs = Date.now() - startTime;
+    const { output, values, errors } = parseToplevelOutput(collected.stdout, collected.stderr);
+    errors.push(...limitErrors({ outputLimited: collected.outputLimited, timedOut: executionTimeMs >= timeout }, limits));
 
-    // Clean stdout: remove version header
-    let fullOutput = stdout
-      .replace(/^OCaml version.*\n/m, '')
-      .replace(/^Enter "#help;;".*\n/m, '');
-
-    // Parse toplevel output to extract val declarations
-    const values = [];
-    const valRegex = /val\s+(\w+)\s*:\s*([^=]+)=\s*(.*)/g;
-    let match;
-    while ((match = valRegex.exec(fullOutput)) !== null) {
-      values.push({
-        name: match[1].trim(),
-        type: match[2].trim(),
-        value: match[3].trim(),
-      });
+    res.json({
+      backend: true,
+      output,
+      rawOutput: collected.stdout,
+      values,
+      errors,
+      exitCode,
+      executionTimeMs,
+    });
+  });
+
+  child.on('error', (err) => {
+    clearTimeout(killTimer);
+    job.finish();
+    cleanup();
+    res.json({ backend: true, output: '', values: [], errors: [{ line: 0, column: 0, message: err.message }], exitCode: 1, executionTimeMs: Date.now() - startTime });
+  });
+});
+
+// ── Persistent toplevel processes ───────────────────────────────────────────
+// A long-lived `ocaml` process whose bindings survive between phrases. Each
+// phrase is followed by a marker printed on both streams; the phrase is done
+// once both markers have arrived. Output is streamed with the markers removed.
+function createToplevel({ onStdout, onStderr, onExit }) {
+  const runDir = join(tmpdir(), `caraml-session-${randomUUID()}`);
+  mkdirSync(runDir, { recursive: true });
+  // Sessions outlive runs, so they get the default memory limit rather than a
+  // project's, and CPU time for as long as they may stay idle
+  const child = spawnSandboxed(OCAML_PATH, ['-noprompt', '-color', 'never'], {
+    cwd: runDir,
+    stdio: ['pipe', 'pipe', 'pipe'],
+  }, { ...resolveLimits(), timeoutMs: SESSION_IDLE_TIMEOUT });
+  const streams = {
+    stdout: { captured: '', held: '', done: false, emit: onStdout },
+    stderr: { captured: '', held: '', done: false, emit: onStderr },
+  };
+  let pending = null;
+  let exited = false;
+
+  // Forward a phrase's output as it arrives, holding back a trailing piece
+  // that could be the start of its marker. Output between phrases (the
+  // startup banner) is dropped.
+  const receive = (stream, chunk) => {
+    if (!pending || stream.done) return;
+    let text = stream.held + chunk;
+    stream.held = '';
+    const at = text.indexOf(pending.marker);
+    if (at >= 0) {
+      text = text.slice(0, at);
+      stream.done = true;
+    } else {
+      for (let keep = Math.min(text.length, pending.marker.length - 1); keep > 0; keep--) {
+        if (pending.marker.startsWith(text.slice(-keep))) {
+          stream.held = text.slice(-keep);
+          text = text.slice(0, -keep);
+          break;
+        }
+      }
     }
+    stream.captured += text;
+    if (text) stream.emit?.(text);
+    settle();
+  };
 
-    // Parse type declarations
-    const typeRegex = /type\s+(.*)/g;
-    while ((match = typeRegex.exec(fullOutput)) !== null) {
-      values.push({ name: '_type', type: 'type', value: 'type ' + match[1].trim() });
+  const settle = () => {
+    if (!pending || !streams.stdout.done || !streams.stderr.done) return;
+    const { resolve } = pending;
+    const result = { stdout: streams.stdout.captured, stderr: streams.stderr.captured };
+    pending = null;
+    for (const stream of Object.values(streams)) {
+      stream.captured = '';
+      stream.held = '';
+      stream.done = false;
     }
+    resolve(result);
+  };
+
+  child.stdout.on('data', (data) => receive(streams.stdout, data.toString()));
+  child.stderr.on('data', (data) => receive(streams.stderr, data.toString()));
+  const handleExit = (code) => {
+    if (exited) return;
+    exited = true;
+    try { rmSync(runDir, { recursive: true, force: true }); } catch {}
+    pending?.resolve(null);
+    pending = null;
+    onExit?.(code);
+  };
+  child.on('close', handleExit);
+  child.on('error', () => handleExit(1));
+  // Writes after the toplevel died are reported through onExit instead
+  child.stdin.on('error', () => {});
+
+  return {
+    get busy() { return pending !== null; },
+    // Resolves with the phrase's full stdout/stderr, or null if the toplevel exited
+    eval(code) {
+      if (exited) return Promise.resolve(null);
+      const marker = `__caraml_done_${randomUUID().replace(/-/g, '')}__`;
+      let phrase = code.trim();
+      if (!phrase.endsWith(';;')) phrase += ';;';
+      return new Promise((resolve) => {
+        pending = { marker, resolve };
+        child.stdin.write(`${phrase}\nlet () = print_endline "${marker}"; prerr_endline "${marker}";;\n`);
+      });
+    },
+    // The toplevel turns SIGINT into an `Interrupted.` error and keeps its state
+    interrupt() {
+      if (!exited) signalSandboxed(child, 'SIGINT');
+    },
+    kill() {
+      child.kill('SIGKILL');
+    },
+  };
+}
+
+// ── /api/toplevel/session — toplevel sessions over WebSocket ────────────────
+// Client → server: { type: 'eval', id, code, limits? } | { type: 'interrupt' } | { type: 'reset' }
+// Server → client: { type: 'ready', sessionId } | { type: 'stdout' | 'stderr', data }
+//   | { type: 'done', id, output, values, errors, executionTimeMs }
+//   | { type: 'error', id?, message } | { type: 'exit', code }
+//
+// Browsers can't set headers on a WebSocket, so the client offers the
+// `caraml` subprotocol and its sign-in token as a second one, `token.<jwt>`.
+// Sessions are for signed-in users on an allowed origin, a few per user, and
+// each phrase takes a slot in the job queue while it runs.
+const TOPLEVEL_SESSION_PATH = '/api/toplevel/session';
+const TOPLEVEL_PROTOCOL = 'caraml';
+const TOKEN_PROTOCOL_PREFIX = 'token.';
+const MAX_TOPLEVEL_SESSIONS = 20;
+const MAX_TOPLEVEL_SESSIONS_PER_USER = limitFromEnv('CARAML_MAX_TOPLEVEL_SESSIONS_PER_USER', 2);
+const SESSION_IDLE_TIMEOUT = 10 * 60 * 1000;
+// After its time limit a phrase is interrupted; if it still hasn't finished
+// after this long (an unterminated comment or string swallows the marker),
+// the toplevel is replaced
+const PHRASE_KILL_GRACE_MS = 2000;
+// Pages served from elsewhere than the server itself, e.g. the Vite dev server
+const ALLOWED_ORIGINS = (process.env.CARAML_ALLOWED_ORIGINS || 'http://localhost:5173,http://127.0.0.1:5173')
+  .split(',').map((origin) => origin.trim()).filter(Boolean);
+const toplevelSessions = new Map();
+
+// The page must come from this server or an allowed origin, so other sites can't open sessions
+function isAllowedOrigin(req) {
+  const origin = req.headers.origin;
+  if (!origin) return false;
+  if (ALLOWED_ORIGINS.includes(origin)) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+// The user whose token the client offered as a subprotocol, or null
+function sessionUser(req) {
+  const protocols = (req.headers['sec-websocket-protocol'] || '').split(',').map((p) => p.trim());
+  const token = protocols.find((p) => p.startsWith(TOKEN_PROTOCOL_PREFIX))?.slice(TOKEN_PROTOCOL_PREFIX.length);
+  if (!token) return null;
+  try {
+    return jwt.verify(token, JWT_SECRET);
+  } catch {
+    return null;
+  }
+}
 
-    // Parse exception declarations
-    const excRegex = /exception\s+(.*)/g;
-    while ((match = excRegex.exec(fullOutput)) !== null) {
-      values.push({ name: '_exc', type: 'exception', value: 'exception ' + match[1].trim() });
+function startToplevelSession(socket, owner) {
+  const id = randomUUID();
+  const send = (message) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+  // `phrase` is the phrase being run or waiting for a job slot, with when it started running
+  const session = { id, socket, owner, toplevel: null, phrase: null, lastActivity: Date.now() };
+
+  const spawnToplevel = () => {
+    const toplevel = createToplevel({
+      onStdout: (data) => send({ type: 'stdout', data }),
+      onStderr: (data) => send({ type: 'stderr', data }),
+      onExit: (code) => {
+        // A reset replaces the process; only report exits of the current one
+        if (session.toplevel === toplevel) send({ type: 'exit', code });
+      },
+    });
+    session.toplevel = toplevel;
+  };
+  spawnToplevel();
+
+  const runPhrase = async (message, job) => {
+    const limits = resolveLimits(message.limits);
+    const toplevel = session.toplevel;
+    const startTime = Date.now();
+    session.phrase.startedAt = startTime;
+    let timedOut = false;
+    let replaced = false;
+    const interruptTimer = setTimeout(() => {
+      timedOut = true;
+      toplevel.interrupt();
+    }, limits.timeoutMs);
+    const killTimer = setTimeout(() => {
+      replaced = true;
+      spawnToplevel();
+      toplevel.kill();
+    }, limits.timeoutMs + PHRASE_KILL_GRACE_MS);
+    job.signal.addEventListener('abort', () => toplevel.kill());
+
+    try {
+      const result = await toplevel.eval(message.code);
+      if (replaced) {
+        const seconds = limits.timeoutMs / 1000;
+        return send({ type: 'error', id: message.id, message: `Execution time limit exceeded (${seconds}s); the toplevel was restarted, so earlier bindings are gone` });
+      }
+      if (!result) {
+        return send({ type: 'error', id: message.id, message: 'The toplevel exited; reset the session to continue' });
+      }
+      const { output, values, errors } = parseToplevelOutput(result.stdout, result.stderr);
+      errors.push(...limitErrors({ outputLimited: false, timedOut }, limits));
+      return send({ type: 'done', id: message.id, output, values, errors, executionTimeMs: Date.now() - startTime });
+    } finally {
+      clearTimeout(interruptTimer);
+      clearTimeout(killTimer);
+      session.phrase = null;
+      session.lastActivity = Date.now();
+      job.finish();
     }
+  };
 
-    // Parse "- : type = value" (anonymous expressions)
-    const anonRegex = /- : ([^=]+)=\s*(.*)/g;
-    while ((match = anonRegex.exec(fullOutput)) !== null) {
-      values.push({ name: '-', type: match[1].trim(), value: match[2].trim() });
+  socket.on('message', (raw) => {
+    session.lastActivity = Date.now();
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return send({ type: 'error', message: 'Invalid message' });
     }
 
-    // Parse errors
-    const errors = [];
-    if (stderr) {
-      const errorRegex = /File ".*?", line (\d+), characters? (\d+)[-–](\d+):\s*\n((?:Error|Warning)[^\n]*(?:\n(?!File )[^\n]*)*)/gs;
-      let m;
-      while ((m = errorRegex.exec(stderr)) !== null) {
-        errors.push({ line: parseInt(m[1]), column: parseInt(m[2]), message: m[4].trim() });
-      }
-      if (errors.length === 0 && stderr.trim()) {
-        const lines = stderr.trim().split('\n');
-        const errMsg = lines.find(l => l.startsWith('Error:')) || lines.join(' ');
-        errors.push({ line: 0, column: 0, message: errMsg });
+    switch (message.type) {
+      case 'eval': {
+        if (typeof message.code !== 'string' || !message.code.trim()) {
+          return send({ type: 'error', id: message.id, message: 'Code is required' });
+        }
+        if (session.phrase) {
+          return send({ type: 'error', id: message.id, message: 'The previous phrase is still running' });
+        }
+        const fullMessage = queueFullMessage(session.owner);
+        if (fullMessage) {
+          countJob('session', 'rejected');
+          return send({ type: 'error', id: message.id, message: fullMessage });
+        }
+        session.phrase = { startedAt: null, job: null };
+        session.phrase.job = queueJob(session.owner, 'session', null, (job) => runPhrase(message, job));
+        return;
       }
+      case 'interrupt':
+        session.toplevel.interrupt();
+        return;
+      case 'reset':
+        session.toplevel.kill();
+        spawnToplevel();
+        return send({ type: 'ready', sessionId: id });
+      default:
+        return send({ type: 'error', message: `Unknown message type: ${message.type}` });
     }
+  });
 
-    // Clean stdout: remove version header, prompts, and val declarations to get program output
-    let cleanedOutput = stdout
-      .replace(/^OCaml version.*\n/m, '')
-      .replace(/^Enter "#help;;".*\n/m, '')
-      .replace(/\n+$/g, '\n');
-
-    // Extract stdout output (text printed by the program, not val declarations)
-    const programOutput = cleanedOutput
-      .replace(/val\s+\w+\s*:.*\n?/g, '')
-      .replace(/type\s+.*\n?/g, '')
-      .replace(/exception\s+.*\n?/g, '')
-      .replace(/- : [^=]+=.*\n?/g, '')
-      .replace(/^#\s*/gm, '')
-      .trim();
+  socket.on('close', () => {
+    toplevelSessions.delete(id);
+    session.phrase?.job.cancel();
+    session.toplevel.kill();
+  });
 
-    res.json({
-      backend: true,
-      output: programOutput,
-      rawOutput: stdout,
-      values,
-      errors,
-      exitCode,
-      executionTimeMs,
-    });
+  toplevelSessions.set(id, session);
+  send({ type: 'ready', sessionId: id });
+}
+
+// Reap sessions nobody has used for a while, and ones whose phrase outlived
+// any time limit (the phrase timers should have ended it long before)
+setInterval(() => {
+  const now = Date.now();
+  const stuckAfter = EXECUTION_LIMIT_CEILINGS.timeoutMs + 2 * PHRASE_KILL_GRACE_MS;
+  for (const session of toplevelSessions.values()) {
+    const startedAt = session.phrase?.startedAt;
+    if (startedAt && now - startedAt > stuckAfter) {
+      session.socket.close(1011, 'Phrase stuck');
+    } else if (!session.phrase && now - session.lastActivity > SESSION_IDLE_TIMEOUT) {
+      session.socket.close(1000, 'Session idle');
+    }
+  }
+}, 60 * 1000).unref();
+
+function attachToplevelSessions(server) {
+  const wss = new WebSocketServer({
+    noServer: true,
+    handleProtocols: (protocols) => protocols.has(TOPLEVEL_PROTOCOL) ? TOPLEVEL_PROTOCOL : false,
   });
+  const refuse = (socket, status) => {
+    socket.write(`HTTP/1.1 ${status}\r\n\r\n`);
+    socket.destroy();
+  };
 
-  child.on('error', (err) => {
-    clearTimeout(killTimer);
-    res.json({ backend: true, output: '', values: [], errors: [{ line: 0, column: 0, message: err.message }], exitCode: 1, executionTimeMs: Date.now() - startTime });
+  server.on('upgrade', (req, socket, head) => {
+    if (new URL(req.url, 'http://localhost').pathname !== TOPLEVEL_SESSION_PATH) {
+      socket.destroy();
+      return;
+    }
+    if (!isAllowedOrigin(req)) return refuse(socket, '403 Forbidden');
+    req.user = sessionUser(req);
+    if (!req.user) return refuse(socket, '401 Unauthorized');
+    if (!OCAML_PATH || toplevelSessions.size >= MAX_TOPLEVEL_SESSIONS) return refuse(socket, '503 Service Unavailable');
+    const owner = jobOwner(req);
+    const owned = [...toplevelSessions.values()].filter((session) => session.owner === owner).length;
+    if (owned >= MAX_TOPLEVEL_SESSIONS_PER_USER) return refuse(socket, '429 Too Many Requests');
+    wss.handleUpgrade(req, socket, head, (ws) => startToplevelSession(ws, owner));
   });
-});
+}
 
 // ── /api/format — format OCaml code with ocamlformat ────────────────────────
-app.post('/api/format', (req, res) => {
+app.post('/api/format', optionalAuth, async (req, res) => {
   const { code } = req.body;
   if (!code) return res.status(400).json({ error: 'Code is required' });
 
@@ -858,6 +1781,9 @@ app.post('/api/format', (req, res) => {
     return res.status(501).json({ error: 'ocamlformat not available' });
   }
 
+  const job = await acquireJob(req, res, 'format');
+  if (!job) return;
+
   try {
     const tmpDir = join(tmpdir(), `caraml-fmt-${randomUUID()}`);
     mkdirSync(tmpDir, { recursive: true });
@@ -868,22 +1794,22 @@ app.post('/api/format', (req, res) => {
     writeFileSync(confFile, 'profile = default\nmargin = 80\n');
     writeFileSync(tmpFile, code);
 
-    const formatted = execFileSync(OCAMLFORMAT_PATH, [tmpFile], {
-      encoding: 'utf8',
-      timeout: 5000,
+    const formatted = await execSandboxed(OCAMLFORMAT_PATH, ['code.ml'], {
       cwd: tmpDir,
-      env: TOOL_ENV,
+      timeout: 5000,
     });
 
     rmSync(tmpDir, { recursive: true, force: true });
     res.json({ formatted });
   } catch (err) {
     res.status(422).json({ error: err.stderr?.toString() || err.message || 'Format failed' });
+  } finally {
+    job.finish();
   }
 });
 
 // ── Merlin helper: run a merlin command ─────────────────────────────────────
-function runMerlin(command, code) {
+async function runMerlin(command, code) {
   const tmpDir = join(tmpdir(), `caraml-merlin-${randomUUID()}`);
   mkdirSync(tmpDir, { recursive: true });
   const tmpFile = join(tmpDir, 'code.ml');
@@ -891,12 +1817,10 @@ function runMerlin(command, code) {
 
   try {
     // Merlin protocol: ocamlmerlin single <command> [args] -filename <file> < <file>
-    const result = execFileSync(OCAMLMERLIN_PATH, ['single', ...command, '-filename', 'code.ml'], {
-      encoding: 'utf8',
-      timeout: 5000,
+    const result = await execSandboxed(OCAMLMERLIN_PATH, ['single', ...command, '-filename', 'code.ml'], {
       cwd: tmpDir,
       input: code,
-      env: TOOL_ENV,
+      timeout: 5000,
     });
     rmSync(tmpDir, { recursive: true, force: true });
     return JSON.parse(result);
@@ -907,14 +1831,17 @@ function runMerlin(command, code) {
 }
 
 // ── /api/merlin/complete — get completions via merlin ───────────────────────
-app.post('/api/merlin/complete', (req, res) => {
+app.post('/api/merlin/complete', optionalAuth, async (req, res) => {
   const { code, position, prefix } = req.body;
   if (!OCAMLMERLIN_PATH) {
     return res.json({ backend: false, completions: [] });
   }
 
+  const job = await acquireJob(req, res, 'merlin');
+  if (!job) return;
+
   try {
-    const parsed = runMerlin([
+    const parsed = await runMerlin([
       'complete-prefix',
       '-position', `${position.line}:${position.column}`,
       '-prefix', prefix || '',
@@ -934,18 +1861,23 @@ app.post('/api/merlin/complete', (req, res) => {
     }
   } catch (err) {
     res.json({ backend: true, completions: [], error: err.message });
+  } finally {
+    job.finish();
   }
 });
 
 // ── /api/merlin/type — get type of expression at position ───────────────────
-app.post('/api/merlin/type', (req, res) => {
+app.post('/api/merlin/type', optionalAuth, async (req, res) => {
   const { code, position } = req.body;
   if (!OCAMLMERLIN_PATH) {
     return res.json({ backend: false });
   }
 
+  const job = await acquireJob(req, res, 'merlin');
+  if (!job) return;
+
   try {
-    const parsed = runMerlin([
+    const parsed = await runMerlin([
       'type-enclosing',
       '-position', `${position.line}:${position.column}`,
     ], code);
@@ -957,18 +1889,23 @@ app.post('/api/merlin/type', (req, res) => {
     }
   } catch (err) {
     res.json({ backend: true, type: null, error: err.message });
+  } finally {
+    job.finish();
   }
 });
 
 // ── /api/merlin/errors — get type errors via merlin ─────────────────────────
-app.post('/api/merlin/errors', (req, res) => {
+app.post('/api/merlin/errors', optionalAuth, async (req, res) => {
   const { code } = req.body;
   if (!OCAMLMERLIN_PATH) {
     return res.json({ backend: false, errors: [] });
   }
 
+  const job = await acquireJob(req, res, 'merlin');
+  if (!job) return;
+
   try {
-    const parsed = runMerlin(['errors'], code);
+    const parsed = await runMerlin(['errors'], code);
 
     if (parsed.class === 'return' && Array.isArray(parsed.value)) {
       const errors = parsed.value.map(e => ({
@@ -985,6 +1922,8 @@ app.post('/api/merlin/errors', (req, res) => {
     }
   } catch (err) {
     res.json({ backend: true, errors: [], error: err.message });
+  } finally {
+    job.finish();
   }
 });
 
@@ -1390,7 +2329,8 @@ app.get('*', (req, res) => {
 });
 
 // ── Start Server ────────────────────────────────────────────────────────────
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`\n  🐫 Caraml server running at http://localhost:${PORT}`);
   console.log(`  📁 Database: ${join(__dirname, 'caraml.db')}\n`);
 });
+attachToplevelSessions(server);
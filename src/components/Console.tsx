@@ -1,21 +1,129 @@
-import { useRef, useEffect, useState } from 'react';
+import { useRef, useEffect, useState, type KeyboardEvent } from 'react';
 import { useStore } from '../store';
-import { interpret } from '../interpreter';
-import { Terminal, Trash2, Copy, Check, Clock, AlertCircle, CheckCircle2, Server, Cpu } from 'lucide-react';
+import type { ExecutionResult } from '../types';
+import { Terminal, Trash2, Copy, Check, Clock, AlertCircle, ChevronDown, ChevronRight, AlertTriangle, CheckCircle2, Server, Cpu, RotateCcw, Loader2, Square, Keyboard } from 'lucide-react';
+
+function formatResult(result: ExecutionResult): string {
+  let text = '';
+  if (result.output) text += result.output;
+  if (result.values.length > 0) {
+    text += result.values.map(v => {
+      if (v.name === '-') return `- : ${v.type} = ${v.value}`;
+      if (v.type === 'type') return v.value;
+      if (v.type === 'exception') return v.value;
+      if (v.type === 'module') return v.value;
+      return `val ${v.name} : ${v.type} = ${v.value}`;
+    }).join('\n') + '\n';
+  }
+  return text;
+}
+
+/** Program output, toplevel bindings and errors of one run or REPL phrase. */
+function ResultView({ result }: { result: ExecutionResult }) {
+  return (
+    <>
+      {/* Standard output */}
+      {result.output && (
+        <pre className="text-slate-300 whitespace-pre-wrap">{result.output}</pre>
+      )}
+
+      {/* Values */}
+      {result.values.map((v, i) => (
+        <div key={i} className="flex flex-wrap gap-1">
+          {v.type === 'type' ? (
+            <span className="text-brand-400">{v.value}</span>
+          ) : v.type === 'exception' ? (
+            <span className="text-amber-400">{v.value}</span>
+          ) : v.type === 'module' ? (
+            <pre className="text-brand-400 whitespace-pre-wrap">{v.value}</pre>
+          ) : (
+            <>
+              <span className="text-slate-500">{v.name === '-' ? '-' : `val ${v.name}`}</span>
+              <span className="text-slate-600">:</span>
+              <span className="text-brand-400">{v.type}</span>
+              <span className="text-slate-600">=</span>
+              <span className="text-emerald-400">{v.value}</span>
+            </>
+          )}
+        </div>
+      ))}
+
+      {/* Errors */}
+      {result.errors?.map((err, i) => <ErrorView key={i} error={err} />)}
+
+      {/* Warnings */}
+      {result.warnings?.map((warning, i) => (
+        <div key={i} className="flex items-start gap-2 text-amber-400">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+          <div>
+            {warning.line > 0 && (
+              <span className="text-amber-500 text-xs">{warning.file ? `${warning.file}, line` : 'Line'} {warning.line}: </span>
+            )}
+            <span className="whitespace-pre-wrap">{warning.message}</span>
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
+
+/** An error; an uncaught exception's backtrace unfolds under it. */
+function ErrorView({ error }: { error: ExecutionResult['errors'][number] }) {
+  const [showTrace, setShowTrace] = useState(false);
+  const frames = error.backtrace ?? [];
+  return (
+    <div className="flex items-start gap-2 text-rose-400">
+      <AlertCircle size={14} className="shrink-0 mt-0.5" />
+      <div>
+        {error.line > 0 && (
+          <span className="text-rose-500 text-xs">{error.file ? `${error.file}, line` : 'Line'} {error.line}: </span>
+        )}
+        <span>{error.message}</span>
+        {frames.length > 0 && (
+          <>
+            <button
+              onClick={() => setShowTrace(!showTrace)}
+              className="flex items-center gap-1 text-xs text-rose-500/80 hover:text-rose-400 transition-colors"
+            >
+              {showTrace ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              Backtrace ({frames.length} {frames.length === 1 ? 'frame' : 'frames'})
+            </button>
+            {showTrace && (
+              <pre className="text-xs text-rose-300/80 pl-4 whitespace-pre-wrap">
+                {frames.map((frame, j) =>
+                  `${j === 0 ? 'Raised at' : 'Called from'} ${frame.name}${frame.line > 0 ? `, ${frame.file ? `${frame.file}, line` : 'line'} ${frame.line}` : ''}`
+                ).join('\n')}
+              </pre>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
 
 export function Console() {
-  const { executionResult, consoleFontSize, capabilities } = useStore();
+  const {
+    executionResult, consoleFontSize, capabilities,
+    replEntries, replHistory, isReplBusy, evalReplPhrase, interruptRepl, resetRepl,
+    programInput, setProgramInput,
+  } = useStore();
   const scrollRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
   const [copied, setCopied] = useState(false);
+  const [input, setInput] = useState('');
+  const [showProgramInput, setShowProgramInput] = useState(false);
+  // Position while recalling history with up/down; null when editing a new phrase
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
 
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [executionResult]);
+  }, [executionResult, replEntries]);
 
   const handleCopy = () => {
-    if (!executionResult) return;
+    if (!executionResult && replEntries.length === 0) return;
     const text = formatOutput();
     navigator.clipboard.writeText(text);
     setCopied(true);
@@ -23,20 +131,40 @@ export function Console() {
   };
 
   const formatOutput = (): string => {
-    if (!executionResult) return '';
-    let result = '';
-    if (executionResult.output) result += executionResult.output;
-    if (executionResult.values.length > 0) {
-      result += executionResult.values.map(v => {
-        if (v.name === '-') return `- : ${v.type} = ${v.value}`;
-        if (v.type === 'type') return v.value;
-        if (v.type === 'exception') return v.value;
-        return `val ${v.name} : ${v.type} = ${v.value}`;
-      }).join('\n') + '\n';
+    let result = executionResult ? formatResult(executionResult) : '';
+    for (const entry of replEntries) {
+      result += `# ${entry.input}\n${formatResult(entry.result)}`;
     }
     return result;
   };
 
+  const handleInputKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (!input.trim() || isReplBusy) return;
+      void evalReplPhrase(input);
+      setInput('');
+      setHistoryIndex(null);
+    } else if (e.key === 'ArrowUp') {
+      if (replHistory.length === 0) return;
+      e.preventDefault();
+      const next = historyIndex === null ? replHistory.length - 1 : Math.max(0, historyIndex - 1);
+      setHistoryIndex(next);
+      setInput(replHistory[next]);
+    } else if (e.key === 'ArrowDown') {
+      if (historyIndex === null) return;
+      e.preventDefault();
+      const next = historyIndex + 1;
+      if (next >= replHistory.length) {
+        setHistoryIndex(null);
+        setInput('');
+      } else {
+        setHistoryIndex(next);
+        setInput(replHistory[next]);
+      }
+    }
+  };
+
   const hasErrors = executionResult?.errors && executionResult.errors.length > 0;
 
   return (
@@ -69,11 +197,24 @@ export function Console() {
               </span>
             </>
           )}
+          <button
+            onClick={() => setShowProgramInput(!showProgramInput)}
+            className={`btn-icon p-1 ${showProgramInput || programInput ? 'text-brand-400' : ''}`}
+            title="Program input (stdin)"
+          >
+            <Keyboard size={12} />
+          </button>
           <button onClick={handleCopy} className="btn-icon p-1" title="Copy output">
             {copied ? <Check size={12} className="text-emerald-400" /> : <Copy size={12} />}
           </button>
+          <button onClick={() => void resetRepl()} className="btn-icon p-1" title="Reset REPL session">
+            <RotateCcw size={12} />
+          </button>
           <button
-            onClick={() => useStore.getState().setExecutionResult(null)}
+            onClick={() => {
+              useStore.getState().setExecutionResult(null);
+              useStore.setState({ replEntries: [] });
+            }}
             className="btn-icon p-1"
             title="Clear"
           >
@@ -82,53 +223,65 @@ export function Console() {
         </div>
       </div>
 
+      {/* Program input, read by read_line and Scanf.scanf on each run */}
+      {showProgramInput && (
+        <div className="border-b border-ide-border">
+          <textarea
+            value={programInput}
+            onChange={(e) => setProgramInput(e.target.value)}
+            placeholder="Input for read_line, read_int, Scanf.scanf..."
+            spellCheck={false}
+            rows={3}
+            className="w-full resize-y bg-ide-bg px-3 py-1.5 font-mono outline-none text-slate-200 placeholder:text-slate-700"
+            style={{ fontSize: consoleFontSize }}
+          />
+        </div>
+      )}
+
       {/* Console Output */}
-      <div ref={scrollRef} className="flex-1 overflow-auto p-3 font-mono" style={{ fontSize: consoleFontSize }}>
-        {!executionResult ? (
+      <div
+        ref={scrollRef}
+        className="flex-1 overflow-auto p-3 font-mono"
+        style={{ fontSize: consoleFontSize }}
+        onClick={() => { if (!window.getSelection()?.toString()) inputRef.current?.focus(); }}
+      >
+        {!executionResult && replEntries.length === 0 ? (
           <div className="text-slate-600 italic text-sm">
-            Press Ctrl+Enter or click Run to execute your code...
+            Press Ctrl+Enter or click Run to execute your code, or type a phrase below...
           </div>
         ) : (
           <div className="space-y-1">
-            {/* Standard output */}
-            {executionResult.output && (
-              <pre className="text-slate-300 whitespace-pre-wrap">{executionResult.output}</pre>
-            )}
-
-            {/* Values */}
-            {executionResult.values.map((v, i) => (
-              <div key={i} className="flex flex-wrap gap-1">
-                {v.type === 'type' ? (
-                  <span className="text-brand-400">{v.value}</span>
-                ) : v.type === 'exception' ? (
-                  <span className="text-amber-400">{v.value}</span>
-                ) : (
-                  <>
-                    <span className="text-slate-500">{v.name === '-' ? '-' : `val ${v.name}`}</span>
-                    <span className="text-slate-600">:</span>
-                    <span className="text-brand-400">{v.type}</span>
-                    <span className="text-slate-600">=</span>
-                    <span className="text-emerald-400">{v.value}</span>
-                  </>
-                )}
-              </div>
-            ))}
+            {executionResult && <ResultView result={executionResult} />}
 
-            {/* Errors */}
-            {executionResult.errors?.map((err, i) => (
-              <div key={i} className="flex items-start gap-2 text-rose-400">
-                <AlertCircle size={14} className="shrink-0 mt-0.5" />
-                <div>
-                  {err.line > 0 && (
-                    <span className="text-rose-500 text-xs">Line {err.line}: </span>
-                  )}
-                  <span>{err.message}</span>
-                </div>
+            {/* REPL transcript */}
+            {replEntries.map((entry, i) => (
+              <div key={i} className="space-y-1">
+                <pre className="text-slate-400 whitespace-pre-wrap"><span className="text-slate-600"># </span>{entry.input}</pre>
+                <ResultView result={entry.result} />
               </div>
             ))}
           </div>
         )}
       </div>
+
+      {/* REPL input */}
+      <div className="flex items-center gap-2 px-3 py-1.5 border-t border-ide-border font-mono" style={{ fontSize: consoleFontSize }}>
+        {isReplBusy ? <Loader2 size={12} className="animate-spin text-slate-500" /> : <span className="text-slate-600">#</span>}
+        <input
+          ref={inputRef}
+          value={input}
+          onChange={(e) => { setInput(e.target.value); setHistoryIndex(null); }}
+          onKeyDown={handleInputKeyDown}
+          placeholder="let x = 3;;"
+          spellCheck={false}
+          className="flex-1 bg-transparent outline-none text-slate-200 placeholder:text-slate-700"
+        />
+        {isReplBusy && (
+          <button onClick={interruptRepl} className="btn-icon p-1" title="Interrupt (like Ctrl+C in the toplevel)">
+            <Square size={10} />
+          </button>
+        )}
+      </div>
     </div>
   );
 }
@@ -133,10 +133,14 @@ export const ocamlCompletions = [
   { label: 'print_float', kind: 'Function', insertText: 'print_float ${1:x}', insertTextRules: 4, detail: 'float -> unit' },
   { label: 'print_newline', kind: 'Function', insertText: 'print_newline ()', insertTextRules: 4, detail: 'unit -> unit' },
   { label: 'Printf.printf', kind: 'Function', insertText: 'Printf.printf "${1:format}" ${2:args}', insertTextRules: 4, detail: 'Formatted output' },
+  { label: 'Printf.sprintf', kind: 'Function', insertText: 'Printf.sprintf "${1:format}" ${2:args}', insertTextRules: 4, detail: 'Formatted string' },
+  { label: 'Format.printf', kind: 'Function', insertText: 'Format.printf "@[${1:format}@]@." ${2:args}', insertTextRules: 4, detail: 'Pretty-printed output' },
   { label: 'string_of_int', kind: 'Function', insertText: 'string_of_int ${1:n}', insertTextRules: 4, detail: 'int -> string' },
   { label: 'int_of_string', kind: 'Function', insertText: 'int_of_string ${1:s}', insertTextRules: 4, detail: 'string -> int' },
   { label: 'float_of_int', kind: 'Function', insertText: 'float_of_int ${1:n}', insertTextRules: 4, detail: 'int -> float' },
   { label: 'failwith', kind: 'Function', insertText: 'failwith "${1:message}"', insertTextRules: 4, detail: 'string -> \'a' },
+  { label: 'Printexc.to_string', kind: 'Function', insertText: 'Printexc.to_string ${1:exn}', insertTextRules: 4, detail: 'exn -> string' },
+  { label: 'Fun.protect', kind: 'Function', insertText: 'Fun.protect ~finally:(fun () -> ${1:cleanup}) (fun () -> ${2:body})', insertTextRules: 4, detail: "finally:(unit -> unit) -> (unit -> 'a) -> 'a" },
 
   // List module
   { label: 'List.map', kind: 'Function', insertText: 'List.map (fun ${1:x} -> ${2:body}) ${3:list}', insertTextRules: 4, detail: "('a -> 'b) -> 'a list -> 'b list" },
@@ -162,6 +166,21 @@ export const ocamlCompletions = [
   { label: 'Array.init', kind: 'Function', insertText: 'Array.init ${1:n} (fun ${2:i} -> ${3:body})', insertTextRules: 4, detail: "int -> (int -> 'a) -> 'a array" },
   { label: 'Array.length', kind: 'Function', insertText: 'Array.length ${1:arr}', insertTextRules: 4, detail: "'a array -> int" },
 
+  // Containers
+  { label: 'Hashtbl.create', kind: 'Function', insertText: 'Hashtbl.create ${1:16}', insertTextRules: 4, detail: "int -> ('a, 'b) Hashtbl.t" },
+  { label: 'Hashtbl.replace', kind: 'Function', insertText: 'Hashtbl.replace ${1:tbl} ${2:key} ${3:value}', insertTextRules: 4, detail: "('a, 'b) Hashtbl.t -> 'a -> 'b -> unit" },
+  { label: 'Hashtbl.find_opt', kind: 'Function', insertText: 'Hashtbl.find_opt ${1:tbl} ${2:key}', insertTextRules: 4, detail: "('a, 'b) Hashtbl.t -> 'a -> 'b option" },
+  { label: 'Buffer.create', kind: 'Function', insertText: 'Buffer.create ${1:16}', insertTextRules: 4, detail: 'int -> Buffer.t' },
+  { label: 'Stack.create', kind: 'Function', insertText: 'Stack.create ()', insertTextRules: 4, detail: "unit -> 'a Stack.t" },
+  { label: 'Queue.create', kind: 'Function', insertText: 'Queue.create ()', insertTextRules: 4, detail: "unit -> 'a Queue.t" },
+  { label: 'Option.value', kind: 'Function', insertText: 'Option.value ${1:opt} ~default:${2:default}', insertTextRules: 4, detail: "'a option -> default:'a -> 'a" },
+
+  // Lazy values and streams
+  { label: 'lazy', kind: 'Keyword', insertText: 'lazy (${1:expr})', insertTextRules: 4, detail: 'Suspended computation' },
+  { label: 'Lazy.force', kind: 'Function', insertText: 'Lazy.force ${1:suspension}', insertTextRules: 4, detail: "'a lazy_t -> 'a" },
+  { label: 'Seq.unfold', kind: 'Function', insertText: 'Seq.unfold (fun ${1:state} -> ${2:Some (x, next)}) ${3:init}', insertTextRules: 4, detail: "('b -> ('a * 'b) option) -> 'b -> 'a Seq.t" },
+  { label: 'Seq.take', kind: 'Function', insertText: 'Seq.take ${1:n} ${2:seq}', insertTextRules: 4, detail: "int -> 'a Seq.t -> 'a Seq.t" },
+
   // Snippets
   { label: 'module', kind: 'Snippet', insertText: 'module ${1:Name} = struct\n    ${2:body}\nend', insertTextRules: 4, detail: 'Module declaration' },
   { label: 'sig', kind: 'Snippet', insertText: 'sig\n    ${1:body}\nend', insertTextRules: 4, detail: 'Module signature' },
@@ -336,10 +355,11 @@ export function registerOcamlLanguage(monaco: any) {
 
 export function Editor({ onRun }: EditorProps) {
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const debugDecorationsRef = useRef<editor.IEditorDecorationsCollection | null>(null);
   const onRunRef = useRef(onRun);
   const {
     currentProject, activeFile, updateFileContent, editorFontSize,
-    executionResult,
+    executionResult, breakpoints, debugSession, traceIndex,
   } = useStore();
 
   const content = currentProject?.files[activeFile]?.content || '';
@@ -354,6 +374,14 @@ export function Editor({ onRun }: EditorProps) {
 
   const handleEditorMount: OnMount = (editor, monaco) => {
     editorRef.current = editor;
+    debugDecorationsRef.current = editor.createDecorationsCollection();
+
+    // Clicking the glyph margin toggles a breakpoint
+    editor.onMouseDown((e) => {
+      if (e.target.type !== monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN || !e.target.position) return;
+      const { activeFile: file, toggleBreakpoint } = useStore.getState();
+      if (file) toggleBreakpoint(file, e.target.position.lineNumber);
+    });
 
     // Key bindings
     editor.addAction({
@@ -431,24 +459,63 @@ export function Editor({ onRun }: EditorProps) {
     const model = editorRef.current.getModel();
     if (!model) return;
 
-    if (executionResult?.errors && executionResult.errors.length > 0) {
-      const markers = executionResult.errors.map((err: any) => ({
-        severity: monaco.MarkerSeverity.Error,
+    // Project runs tag each error with its file; only mark the open one
+    const inActiveFile = (err: { file?: string }) => !err.file || err.file === activeFile;
+    const errors = executionResult?.errors.filter(inActiveFile) ?? [];
+    const warnings = executionResult?.warnings?.filter(inActiveFile) ?? [];
+    if (errors.length > 0 || warnings.length > 0) {
+      const toMarker = (severity: number) => (err: { line: number; column: number; message: string }) => ({
+        severity,
         startLineNumber: err.line || 1,
         startColumn: err.column || 1,
         endLineNumber: err.line || 1,
         endColumn: 1000,
         message: err.message,
-      }));
+      });
+      const markers = [
+        ...errors.map(toMarker(monaco.MarkerSeverity.Error)),
+        ...warnings.map(toMarker(monaco.MarkerSeverity.Warning)),
+      ];
       monaco.editor.setModelMarkers(model, 'ocaml', markers);
     } else {
       monaco.editor.setModelMarkers(model, 'ocaml', []);
     }
-  }, [executionResult]);
+  }, [executionResult, activeFile]);
+
+  // Breakpoints, the line the debugger is paused on and the scrubbed trace event
+  useEffect(() => {
+    const collection = debugDecorationsRef.current;
+    if (!editorRef.current || !collection) return;
+
+    const decorations: editor.IModelDeltaDecoration[] = (breakpoints[activeFile] ?? []).map(line => ({
+      range: { startLineNumber: line, startColumn: 1, endLineNumber: line, endColumn: 1 },
+      options: { glyphMarginClassName: 'debug-breakpoint-glyph', glyphMarginHoverMessage: { value: 'Breakpoint' } },
+    }));
+    const pause = debugSession?.recording.pauses[debugSession.index];
+    if (pause && (pause.file ?? debugSession.file) === activeFile) {
+      decorations.push({
+        range: { startLineNumber: pause.line, startColumn: 1, endLineNumber: pause.line, endColumn: 1 },
+        options: { isWholeLine: true, className: 'debug-current-line', glyphMarginClassName: 'debug-current-glyph' },
+      });
+      editorRef.current.revealLineInCenterIfOutsideViewport(pause.line);
+    }
+    // The event picked in the Memory panel's trace scrubber
+    const event = traceIndex !== null ? executionResult?.trace?.events[traceIndex] : undefined;
+    if (event && (event.file ?? activeFile) === activeFile) {
+      decorations.push({
+        range: { startLineNumber: event.line, startColumn: 1, endLineNumber: event.line, endColumn: 1 },
+        options: { isWholeLine: true, className: 'trace-current-line' },
+      });
+      editorRef.current.revealLineInCenterIfOutsideViewport(event.line);
+    }
+    collection.set(decorations);
+  }, [breakpoints, debugSession, activeFile, executionResult, traceIndex]);
 
   const handleChange = useCallback((value: string | undefined) => {
     if (value !== undefined && activeFile) {
       updateFileContent(activeFile, value);
+      // The recorded pauses no longer match the code
+      if (useStore.getState().debugSession) useStore.getState().stopDebug();
     }
   }, [activeFile, updateFileContent]);
 
@@ -4,25 +4,37 @@ import {
   ArrowLeft, Save, Share2, Play, Loader2, Settings, LogOut, User, FolderOpen,
   PanelLeftClose, PanelLeftOpen, PanelBottomClose, PanelBottomOpen, BrainCircuit,
   Keyboard, AlignLeft, Server, Cpu, GraduationCap,
+  Bug, StepForward, ArrowDownToLine, ArrowUpFromLine, Square,
 } from 'lucide-react';
 import { useState, useRef, useEffect } from 'react';
+import type { ExecutionLimits } from '../types';
+import { EXECUTION_LIMIT_FIELDS, resolveExecutionLimits, type ExecutionLimitKey } from '../utils/executionLimits';
+
+const SANDBOX_DESCRIPTIONS = {
+  bwrap: 'Native runs have no network and a read-only filesystem except their own directory',
+  unshare: 'Native runs have no network and a read-only filesystem except their own directory',
+  none: 'Native runs only get resource limits; they can reach the network and the server\'s files',
+};
 
 interface HeaderProps {
   mode?: 'dashboard' | 'ide' | 'shared';
   onRun?: () => void;
+  onStop?: () => void;
+  onDebug?: () => void;
   onFormat?: () => void;
   projectName?: string;
 }
 
-export function Header({ mode = 'dashboard', onRun, onFormat, projectName }: HeaderProps) {
+export function Header({ mode = 'dashboard', onRun, onStop, onDebug, onFormat, projectName }: HeaderProps) {
   const navigate = useNavigate();
   const {
-    user, logout, saveProject, isDirty, isRunning, lastSaved,
+    user, logout, saveProject, isDirty, isRunning, queuePosition, lastSaved,
     showFileTree, showConsole, showMemoryPanel,
     toggleFileTree, toggleConsole, toggleMemoryPanel,
     setShowAuthModal, setShowShareModal, currentProject,
     editorFontSize, setEditorFontSize,
     capabilities, learnOcaml,
+    debugSession, debugStep, stopDebug,
   } = useStore();
 
   const [showSettings, setShowSettings] = useState(false);
@@ -72,10 +84,47 @@ export function Header({ mode = 'dashboard', onRun, onFormat, projectName }: Hea
       {/* Center - IDE Controls */}
       {mode === 'ide' && (
         <div className="flex items-center gap-1">
-          <button onClick={onRun} disabled={isRunning} className="btn-primary btn-sm gap-1.5" title="Run (Ctrl+Enter)">
-            {isRunning ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
-            <span className="hidden sm:inline">Run</span>
-          </button>
+          {isRunning && queuePosition !== null && (
+            <span className="flex items-center gap-1.5 px-2 text-xs text-amber-400" title="Waiting for the server to run it">
+              <Loader2 size={12} className="animate-spin" />
+              Queued (#{queuePosition})
+            </span>
+          )}
+          {isRunning && onStop ? (
+            <button onClick={onStop} className="btn-danger btn-sm gap-1.5" title="Stop">
+              <Square size={12} />
+              <span className="hidden sm:inline">Stop</span>
+            </button>
+          ) : (
+            <button onClick={onRun} disabled={isRunning} className="btn-primary btn-sm gap-1.5" title="Run (Ctrl+Enter)">
+              {isRunning ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
+              <span className="hidden sm:inline">Run</span>
+            </button>
+          )}
+          {debugSession ? (
+            <div className="flex items-center gap-0.5 px-1 rounded-lg bg-amber-500/10 border border-amber-500/30">
+              <button onClick={() => debugStep('continue')} className="btn-icon p-1.5 text-amber-400" title="Continue (F5)">
+                <Play size={14} />
+              </button>
+              <button onClick={() => debugStep('over')} className="btn-icon p-1.5" title="Step Over (F10)">
+                <StepForward size={14} />
+              </button>
+              <button onClick={() => debugStep('into')} className="btn-icon p-1.5" title="Step Into (F11)">
+                <ArrowDownToLine size={14} />
+              </button>
+              <button onClick={() => debugStep('out')} className="btn-icon p-1.5" title="Step Out (Shift+F11)">
+                <ArrowUpFromLine size={14} />
+              </button>
+              <button onClick={stopDebug} className="btn-icon p-1.5 text-rose-400" title="Stop Debugging (Shift+F5)">
+                <Square size={12} />
+              </button>
+            </div>
+          ) : onDebug && (
+            <button onClick={onDebug} disabled={isRunning} className="btn-ghost btn-sm gap-1.5" title="Debug in the browser interpreter (F5)">
+              <Bug size={14} />
+              <span className="hidden sm:inline">Debug</span>
+            </button>
+          )}
           <button onClick={saveProject} className="btn-secondary btn-sm gap-1.5" title="Save (Ctrl+S)">
             <Save size={14} />
             <span className="hidden sm:inline">Save</span>
@@ -121,7 +170,7 @@ export function Header({ mode = 'dashboard', onRun, onFormat, projectName }: Hea
               <Settings size={16} />
             </button>
             {showSettings && (
-              <div className="absolute right-0 top-full mt-1 w-64 bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-3 z-50 animate-fade-in">
+              <div className="absolute right-0 top-full mt-1 w-72 bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-3 z-50 animate-fade-in">
                 <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Editor Settings</h4>
                 <div className="space-y-3">
                   <div className="flex items-center justify-between">
@@ -138,6 +187,7 @@ export function Header({ mode = 'dashboard', onRun, onFormat, projectName }: Hea
                       >+</button>
                     </div>
                   </div>
+                  <ExecutionLimitsSettings />
                   <div className="pt-2 border-t border-slate-700 space-y-2">
                     <div className="flex items-center gap-2 text-xs text-slate-500">
                       <Keyboard size={12} />
@@ -166,6 +216,19 @@ export function Header({ mode = 'dashboard', onRun, onFormat, projectName }: Hea
                           <div className={`w-1.5 h-1.5 rounded-full ${capabilities.ocamlformat ? 'bg-emerald-400' : 'bg-slate-600'}`} />
                           <span className={capabilities.ocamlformat ? 'text-slate-300' : 'text-slate-600'}>ocamlformat</span>
                         </div>
+                        <div className="flex items-center gap-2 text-xs">
+                          <div className={`w-1.5 h-1.5 rounded-full ${capabilities.dune ? 'bg-emerald-400' : 'bg-slate-600'}`} />
+                          <span className={capabilities.dune ? 'text-slate-300' : 'text-slate-600'}>dune</span>
+                        </div>
+                        <div className="flex items-center gap-2 text-xs" title={SANDBOX_DESCRIPTIONS[capabilities.sandbox.kind]}>
+                          <div className={`w-1.5 h-1.5 rounded-full ${capabilities.sandbox.kind !== 'none' ? 'bg-emerald-400' : capabilities.ocaml ? 'bg-amber-400' : 'bg-slate-600'}`} />
+                          <span className={capabilities.sandbox.kind !== 'none' ? 'text-slate-300' : capabilities.ocaml ? 'text-amber-300' : 'text-slate-600'}>
+                            {capabilities.sandbox.kind === 'bwrap' ? 'Sandbox (bubblewrap)'
+                              : capabilities.sandbox.kind === 'unshare' ? 'Sandbox (namespaces)'
+                              : capabilities.sandbox.required ? 'No sandbox: native runs disabled'
+                              : 'No sandbox: native runs not isolated'}
+                          </span>
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -234,3 +297,71 @@ export function Header({ mode = 'dashboard', onRun, onFormat, projectName }: Hea
     </header>
   );
 }
+
+/**
+ * Execution limits of the current project, or the user's defaults for all
+ * projects. An empty field inherits: project fields from the defaults, and
+ * defaults from the built-in limits.
+ */
+function ExecutionLimitsSettings() {
+  const { user, currentProject, capabilities, setProjectLimits, setDefaultLimits } = useStore();
+  const [scope, setScope] = useState<'project' | 'user'>('project');
+
+  const ceilings = capabilities.limitCeilings;
+  const overrides: Partial<ExecutionLimits> = (scope === 'project' ? currentProject?.limits : user?.ui_prefs?.limits) ?? {};
+  const inherited = resolveExecutionLimits(scope === 'project' ? user?.ui_prefs?.limits : undefined, undefined, ceilings);
+
+  const commit = (key: ExecutionLimitKey, raw: string) => {
+    const value = Number(raw);
+    const next = { ...overrides };
+    if (raw.trim() === '' || !Number.isFinite(value) || value <= 0) delete next[key];
+    else next[key] = Math.min(Math.round(value), ceilings[key]);
+    if (next[key] === overrides[key]) return;
+    void (scope === 'project' ? setProjectLimits(next) : setDefaultLimits(next));
+  };
+
+  return (
+    <div className="pt-2 border-t border-slate-700 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Execution Limits</h4>
+        <div className="flex rounded-md overflow-hidden border border-slate-700">
+          {(['project', 'user'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setScope(option)}
+              disabled={option === 'user' && !user}
+              className={`px-2 py-0.5 text-[10px] ${scope === option ? 'bg-slate-600 text-slate-100' : 'text-slate-400 hover:bg-slate-700'}`}
+            >
+              {option === 'project' ? 'Project' : 'Defaults'}
+            </button>
+          ))}
+        </div>
+      </div>
+      {EXECUTION_LIMIT_FIELDS.map(({ key, label, unit }) => (
+        <div key={key} className="flex items-center justify-between gap-2">
+          <label htmlFor={`limit-${key}`} className="text-sm text-slate-300">{label}</label>
+          <div className="flex items-center gap-1.5">
+            <input
+              // Remount when the stored value changes, so the field shows it
+              key={`${scope}-${overrides[key] ?? ''}`}
+              id={`limit-${key}`}
+              type="number"
+              min={1}
+              max={ceilings[key]}
+              defaultValue={overrides[key] ?? ''}
+              placeholder={String(inherited[key])}
+              onBlur={(e) => commit(key, e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              className="w-24 px-2 py-0.5 text-xs text-right bg-slate-900 border border-slate-700 rounded-md text-slate-200 placeholder-slate-600 focus:border-brand-500 outline-none"
+            />
+            <span className="w-5 text-[10px] text-slate-500">{unit}</span>
+          </div>
+        </div>
+      ))}
+      <p className="text-[10px] text-slate-600">
+        Empty fields use the {scope === 'project' ? 'defaults' : 'built-in limits'}. Steps and call depth only apply in the browser,
+        where memory is the total that arrays, lists, records, refs, containers and built strings allocate during a run.
+      </p>
+    </div>
+  );
+}
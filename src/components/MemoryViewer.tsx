@@ -1,11 +1,85 @@
 import { useStore } from '../store';
 import {
-  BrainCircuit, Layers, Database, Code2, ChevronDown, ChevronRight, Tag
+  BrainCircuit, Layers, Database, Code2, ChevronDown, ChevronRight, Tag,
+  History, StepBack, StepForward, Download,
 } from 'lucide-react';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
+import { memoryStateAt } from '../interpreter';
+import type { ExecutionTrace, TraceEvent } from '../types';
+
+/** One line summary of a trace event, in OCaml-ish notation. */
+function describeEvent(event: TraceEvent): string {
+  switch (event.kind) {
+    case 'call': return `→ ${event.name} (${event.value})`;
+    case 'return': return `← ${event.name} returns ${event.value}`;
+    case 'bind': return `let ${event.name} = ${event.value}`;
+    case 'assign': return `${event.name} := ${event.value}   (was ${event.previous})`;
+    case 'arrayset':
+    case 'fieldset': return `${event.name} <- ${event.value}   (was ${event.previous})`;
+  }
+}
+
+function exportTrace(trace: ExecutionTrace) {
+  const blob = new Blob([JSON.stringify(trace, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'trace.json';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Scrub through a recorded run; the last position is the end of the run. */
+function TraceScrubber({ trace, index, onChange }: {
+  trace: ExecutionTrace; index: number | null; onChange: (index: number | null) => void;
+}) {
+  const end = trace.events.length;
+  const position = index ?? end;
+  const go = (next: number) => onChange(next >= end ? null : Math.max(0, next));
+  const event = index !== null ? trace.events[index] : null;
+
+  return (
+    <div className="px-3 py-2 border-b border-ide-border text-xs font-mono space-y-1.5">
+      <div className="flex items-center gap-1.5">
+        <History size={12} className="text-slate-500 shrink-0" />
+        <button onClick={() => go(position - 1)} disabled={position === 0} className="btn-icon p-1 disabled:opacity-30" title="Previous event">
+          <StepBack size={12} />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={end}
+          value={position}
+          onChange={(e) => go(Number(e.target.value))}
+          className="flex-1 accent-violet-500"
+        />
+        <button onClick={() => go(position + 1)} disabled={position === end} className="btn-icon p-1 disabled:opacity-30" title="Next event">
+          <StepForward size={12} />
+        </button>
+        <span className="text-slate-500 text-[10px] w-16 text-right shrink-0">{position}/{end}{trace.truncated ? '+' : ''}</span>
+        <button onClick={() => exportTrace(trace)} className="btn-icon p-1" title="Export trace as JSON">
+          <Download size={12} />
+        </button>
+      </div>
+      <div className={`truncate ${event ? 'text-violet-300' : 'text-slate-600 italic'}`} title={event ? describeEvent(event) : undefined}>
+        {event
+          ? <><span className="text-slate-500">{event.file ? `${event.file}:` : 'L'}{event.line} </span>{describeEvent(event)}</>
+          : trace.truncated ? 'End of run (trace capped; later events not recorded)' : 'End of run'}
+      </div>
+    </div>
+  );
+}
 
 export function MemoryViewer() {
-  const { memoryState } = useStore();
+  const { memoryState: finalState, debugSession, executionResult, traceIndex, setTraceIndex, showTrace, toggleTrace } = useStore();
+  const pause = debugSession?.recording.pauses[debugSession.index];
+  const trace = showTrace && !debugSession && executionResult?.trace?.events.length ? executionResult.trace : null;
+  // While scrubbing, show memory as it was right after the selected event
+  const scrubbedState = useMemo(
+    () => trace && traceIndex !== null ? memoryStateAt(trace.events, traceIndex) : null,
+    [trace, traceIndex],
+  );
+  const memoryState = scrubbedState ?? finalState;
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
     new Set(['stack', 'heap', 'types'])
   );
@@ -17,6 +91,17 @@ export function MemoryViewer() {
     setExpandedSections(next);
   };
 
+  // Runs only record a trace while the scrubber is open, as it takes time and memory
+  const traceButton = (
+    <button
+      onClick={toggleTrace}
+      className={`btn-icon p-1 ${showTrace ? 'text-violet-400' : ''}`}
+      title={showTrace ? 'Close time travel' : 'Time travel: record the next runs to step back through them'}
+    >
+      <History size={12} />
+    </button>
+  );
+
   if (!memoryState) {
     return (
       <div className="flex flex-col h-full bg-ide-panel">
@@ -25,6 +110,7 @@ export function MemoryViewer() {
             <BrainCircuit size={12} />
             <span>Memory</span>
           </div>
+          {traceButton}
         </div>
         <div className="flex-1 flex items-center justify-center p-4">
           <div className="text-center text-slate-600">
@@ -45,8 +131,23 @@ export function MemoryViewer() {
           <BrainCircuit size={12} />
           <span>Memory</span>
         </div>
+        <div className="flex items-center gap-1.5">
+          {pause && (
+            <span className="badge bg-amber-500/20 text-amber-400 normal-case tracking-normal" title={`Call depth ${pause.depth}`}>
+              Paused at {pause.file ? `${pause.file}:` : 'line '}{pause.line}
+            </span>
+          )}
+          {traceButton}
+        </div>
       </div>
 
+      {trace && <TraceScrubber trace={trace} index={traceIndex} onChange={setTraceIndex} />}
+      {showTrace && !trace && !debugSession && (
+        <div className="px-3 py-2 border-b border-ide-border text-xs text-slate-600 italic">
+          Run the program to record a trace
+        </div>
+      )}
+
       <div className="flex-1 overflow-auto p-2 text-xs font-mono">
         {/* Stack / Environment */}
         <SectionHeader
@@ -125,7 +226,14 @@ export function MemoryViewer() {
                         <tr key={i} className="hover:bg-slate-800/50">
                           <td className="pl-4 py-0.5 text-amber-500/70 align-top">0x{obj.id.toString(16).padStart(3, '0')}</td>
                           <td className="py-0.5 text-brand-400 align-top whitespace-pre-wrap break-words">{obj.type}</td>
-                          <td className="py-0.5 text-emerald-400 align-top whitespace-pre-wrap break-words">{obj.value}</td>
+                          <td className={`py-0.5 align-top whitespace-pre-wrap break-words ${obj.lazy === 'unforced' ? 'text-slate-500 italic' : 'text-emerald-400'}`}>
+                            {obj.lazy && (
+                              <span className={`mr-1.5 px-1 rounded text-[10px] not-italic ${obj.lazy === 'forced' ? 'bg-emerald-500/10 text-emerald-500' : 'bg-slate-700/50 text-slate-400'}`}>
+                                {obj.lazy}
+                              </span>
+                            )}
+                            {obj.value}
+                          </td>
                         </tr>
                       ))}
                     </tbody>
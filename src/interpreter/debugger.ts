@@ -0,0 +1,97 @@
+import type { Evaluator, StepHook } from './evaluator';
+import type { ExecutionResult, MemoryDelta, MemoryState } from '../types';
+import { EMPTY_MEMORY_STATE, deltaSize, diffMemoryState } from './memoryDelta';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Step Debugger
+// ═══════════════════════════════════════════════════════════════════════════
+//
+// The program runs to completion once, with a pause recorded every time
+// evaluation reaches a new line or call depth. Stepping, continuing and
+// breakpoints then move between the recorded pauses; since a run sees the
+// same input every time, this is the same as suspending the evaluator.
+// Each pause keeps only what changed since the one before, and how much
+// output there was, so that long recordings stay small.
+
+/** A point where the debugger can stop, with the state at that moment. */
+export interface DebugPause {
+  line: number;
+  /** Project runs: the file the line belongs to. */
+  file?: string;
+  /** Call depth; 0 for top-level phrases. */
+  depth: number;
+  /** The output at this point is the first `outputLength` characters of the run's output. */
+  outputLength: number;
+  /** The memory state, relative to the previous pause; see `memoryStateAt`. */
+  memory: MemoryDelta;
+}
+
+export interface DebugRecording {
+  pauses: DebugPause[];
+  /** The pause or size limit was reached; later pauses were not recorded. */
+  truncated: boolean;
+  result: ExecutionResult;
+}
+
+export type StepMode = 'into' | 'over' | 'out' | 'continue';
+
+/** Snapshots are kept for every pause, so long runs stop recording here. */
+export const MAX_DEBUG_PAUSES = 5_000;
+
+/** Recording also stops once the pauses' memory deltas add up to this many characters. */
+export const MAX_DEBUG_SIZE = 4_000_000;
+
+/** Collects pauses from an evaluator's step hook. */
+export class PauseRecorder {
+  readonly pauses: DebugPause[] = [];
+  truncated = false;
+  private lastLine = -1;
+  private lastDepth = -1;
+  private lastState: MemoryState = EMPTY_MEMORY_STATE;
+  private size = 0;
+
+  constructor(private evaluator: Evaluator) {}
+
+  readonly hook: StepHook = (node, env) => {
+    const depth = this.evaluator.getCallDepth();
+    if (node.line <= 0 || (node.line === this.lastLine && depth === this.lastDepth)) return;
+    this.lastLine = node.line;
+    this.lastDepth = depth;
+    if (this.truncated || this.pauses.length >= MAX_DEBUG_PAUSES) {
+      this.truncated = true;
+      return;
+    }
+    const { outputLength, memoryState } = this.evaluator.snapshot(env);
+    const memory = diffMemoryState(this.lastState, memoryState);
+    this.size += deltaSize(memory);
+    if (this.size > MAX_DEBUG_SIZE) {
+      this.truncated = true;
+      return;
+    }
+    this.lastState = memoryState;
+    this.pauses.push({ line: node.line, depth, outputLength, memory });
+  };
+}
+
+/**
+ * Where to stop next from pause `from`: `into` takes the next pause, `over`
+ * the next one not inside a deeper call, `out` the next one in a caller, and
+ * `continue` the next one on a breakpoint. -1 means the program runs to the end.
+ */
+export function nextPause(
+  pauses: DebugPause[],
+  from: number,
+  mode: StepMode,
+  isBreakpoint: (pause: DebugPause) => boolean,
+): number {
+  const depth = from >= 0 ? pauses[from].depth : 0;
+  for (let i = from + 1; i < pauses.length; i++) {
+    const pause = pauses[i];
+    // Breakpoints interrupt every kind of step, as in other debuggers
+    if (isBreakpoint(pause)) return i;
+    if (mode === 'into') return i;
+    if (mode === 'over' && pause.depth <= depth) return i;
+    if (mode === 'out' && pause.depth < depth) return i;
+  }
+  return -1;
+}
@@ -1,74 +1,215 @@
 import {
-  ASTNode, Value, Environment, Pattern,
+  ASTNode, Value, Environment, Pattern, PatternBinder, patternBinders, LetBinding, letBindings, TypeDeclNode, TypeDefinition, FieldDecl, showTypeDefinition, showTypeExpr, typeDecls, MatchCase, Param, Arg, ArgValue, ParamLabel, LabeledApplication,
   VInt, VFloat, VString, VBool, VUnit, VList, VTuple, VFun, VRecFun, VRef, VConstructor, VBuiltin, VRecord, VArray,
-  RuntimeError, MatchFailure, OCamlError,
+  VModule, VFunctor, ModuleValue, ScanfNode, VMap, VSet, VHashtbl, VChannel, VBuffer, VFormatter, VStack, VQueue, ModuleExpr, ModuleTypeExpr, SignatureItem,
+  VException, VLazy, RuntimeError, OCamlError,
 } from './types';
-import type { MemoryState, StackFrame as StackFrameType, VariableInfo, HeapObject } from '../types';
+import { Lexer } from './lexer';
+import { Parser } from './parser';
+import { parseFormat, formatArity, formatConversion, layoutText, layoutDirective, type FormatItem } from './format';
+import { installStdlibModules, hashtblFunctions, stringWords, type StdlibHost } from './stdlib';
+import { mkInt, intOperation, parseInteger } from './integers';
+import { OCamlException, mkException, locatedException, raise, exceptionToString } from './exceptions';
+import { EMPTY_MEMORY_STATE, deltaSize, diffMemoryState } from './memoryDelta';
+import type { MemoryState, StackFrame as StackFrameType, VariableInfo, HeapObject, ExecutionTrace, TraceEvent, ExecutionLimits, BacktraceFrame } from '../types';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // OCaml Evaluator
 // ═══════════════════════════════════════════════════════════════════════════
 
+/** Receives each node just before it is evaluated, with its environment. */
+export type StepHook = (node: ASTNode, env: Environment) => void;
+
+/** Called every 1000 steps with the step count and the output printed since the last call. */
+export type ProgressHook = (steps: number, output: string) => void;
+
+/** Each trace event keeps the changes to memory, so a run records at most this many. */
+export const MAX_TRACE_EVENTS = 2_000;
+
+/** Recording also stops once the events' memory deltas add up to this many characters. */
+export const MAX_TRACE_SIZE = 4_000_000;
+
+/** Debugger pauses and trace events keep values cut to about this many characters. */
+const PREVIEW_LENGTH = 200;
+
+/** Deep recursion would give a backtrace per call; only the innermost frames are kept. */
+const MAX_BACKTRACE_FRAMES = 50;
+
+/** Where a printf-like function prints. */
+interface FormatOutput {
+  write: (text: string) => void;
+  /** What %a and %t printers get first: a channel, a buffer, a formatter, or () for sprintf. */
+  printerArg: Value;
+  /** Format functions lay out their boxes and breaks on a formatter. */
+  formatter?: VFormatter;
+  /** The result of the call, once everything is printed. */
+  done: () => Value;
+}
+
 export class Evaluator {
+  // The innermost toplevel scope; `globalScopes` lists them all, the stdlib's first
   private env: Environment;
+  private globalScopes: Environment[];
   private output: string[] = [];
   private callStack: { name: string; line: number; env: Environment }[] = [];
   private heapObjects: { id: number; type: string; value: string; refCount: number }[] = [];
   private nextHeapId = 1;
-  private typeDefinitions: Map<string, { params: string[]; variants: { name: string; type?: string }[] }> = new Map();
+  // Mutable records, arrays and containers by heap id; they can change after allocation, so they're displayed live
+  private heapValues: Map<number, Value> = new Map();
+  private typeDefinitions: Map<string, { params: string[]; definition: TypeDefinition }> = new Map();
   private exceptionTypes: Map<string, string | undefined> = new Map();
+  // Record field → its type, and whether records of that type have mutable fields
+  private recordTypes: Map<string, { type: string; mutable: boolean }> = new Map();
   private stepCount = 0;
   private maxSteps = 1_000_000;
   private recursionDepth = 0;
+  // Line of the builtin being run: functions it calls back were called from there
+  private builtinLine = 0;
   private maxRecursionDepth = 5_000;
   private startTime = 0;
   private maxExecutionTimeMs = 10_000; // 10 seconds wall-clock limit
-  private declaredValues: { name: string; type: string; value: string }[] = [];
+  private outputSize = 0;
+  private maxOutputSize = 1_024 * 1_024;
+  // Words allocated by arrays, lists, records, refs, containers and built strings, an estimate of the program's memory use
+  private allocatedWords = 0;
+  private maxAllocatedWords = 256 * 1_024 * 1_024 / 8;
+  // `bound` is the value a name was bound to, displayed once the run is over
+  private declaredValues: { name: string; type: string; value: string; bound?: Value }[] = [];
+  private declaredTypes: Map<string, string> = new Map();
+  // Program input, consumed by read_line and Scanf.scanf
+  private stdin = { text: '', pos: 0 };
+  // Called before each node is evaluated while debugging
+  private stepHook: StepHook | null = null;
+  private tracing = false;
+  private trace: ExecutionTrace | null = null;
+  // The memory state at the last trace event, and the size of the events so far
+  private traceState: MemoryState = EMPTY_MEMORY_STATE;
+  private traceSize = 0;
+  private progressHook: ProgressHook | null = null;
+  // How many output chunks the progress hook has already been given
+  private reportedOutput = 0;
 
   constructor() {
     this.env = new Environment(null, 'global');
+    this.globalScopes = [this.env];
     this.installStdlib();
   }
 
-  evaluate(nodes: ASTNode[]): { output: string; values: { name: string; type: string; value: string }[]; memoryState: MemoryState; errors: any[] } {
+  getGlobalEnvironment(): Environment {
+    return this.env;
+  }
+
+  getTypeDefinitions(): ReadonlyMap<string, { params: string[]; definition: TypeDefinition }> {
+    return this.typeDefinitions;
+  }
+
+  /** Set the text programs read from standard input. */
+  setStdin(text: string): void {
+    this.stdin = { text, pos: 0 };
+  }
+
+  /** Override the step, call depth, time, output and memory limits. */
+  setLimits(limits: Partial<ExecutionLimits>): void {
+    if (limits.maxSteps) this.maxSteps = limits.maxSteps;
+    if (limits.maxRecursionDepth) this.maxRecursionDepth = limits.maxRecursionDepth;
+    if (limits.timeoutMs) this.maxExecutionTimeMs = limits.timeoutMs;
+    if (limits.maxOutputKb) this.maxOutputSize = limits.maxOutputKb * 1_024;
+    if (limits.maxMemoryMb) this.maxAllocatedWords = limits.maxMemoryMb * 1_024 * 1_024 / 8;
+  }
+
+  /** Record calls, returns, bindings and writes of each run as an ExecutionTrace. */
+  setTracing(enabled: boolean): void {
+    this.tracing = enabled;
+  }
+
+  /** Report progress and partial output of long runs. */
+  setProgressHook(hook: ProgressHook | null): void {
+    this.progressHook = hook;
+  }
+
+  /** Observe evaluation step by step; `null` turns stepping off. */
+  setStepHook(hook: StepHook | null): void {
+    this.stepHook = hook;
+  }
+
+  /**
+   * Evaluate top-level phrases. `staticTypes` holds the signatures inferred by
+   * the TypeChecker; runtime inference is only used for phrases it didn't type.
+   */
+  evaluate(nodes: ASTNode[], staticTypes: Map<ASTNode | LetBinding | PatternBinder, string> = new Map()): { output: string; values: { name: string; type: string; value: string }[]; memoryState: MemoryState; errors: any[]; trace?: ExecutionTrace; evaluated: number } {
     this.output = [];
     this.declaredValues = [];
+    this.declaredTypes = new Map();
     this.heapObjects = [];
+    this.heapValues = new Map();
     this.nextHeapId = 1;
     this.callStack = [{ name: 'toplevel', line: 0, env: this.env }];
     this.stepCount = 0;
     this.recursionDepth = 0;
     this.startTime = Date.now();
+    this.outputSize = 0;
+    this.allocatedWords = 0;
+    this.trace = this.tracing ? { events: [], truncated: false } : null;
+    this.traceState = EMPTY_MEMORY_STATE;
+    this.traceSize = 0;
+    this.reportedOutput = 0;
 
     const errors: any[] = [];
+    // How many phrases ran to the end, before one raised
+    let evaluated = 0;
 
     for (const node of nodes) {
       try {
-        const result = this.eval(node, this.env);
+        const { value: result, scope } = this.evalDefinition(node, this.env);
+        if (scope !== this.env) {
+          this.env = scope;
+          this.globalScopes.push(scope);
+          this.callStack[0].env = scope;
+        }
 
         // Record top-level declarations
-        if (node.kind === 'let' || node.kind === 'letrec') {
-          const name = (node as any).name;
-          if (name && name !== '_' && name !== '()') {
-            // For mutable types (ref), we'll update the display at the end
-            this.declaredValues.push({ name, type: '', value: '' });
+        if ((node.kind === 'let' || node.kind === 'letrec') && !node.inExpr) {
+          const binders = letBindings(node).flatMap((b): { name: string; key: LetBinding | PatternBinder }[] => b.pattern
+            ? patternBinders(b.pattern).map(p => ({ name: p.name, key: p }))
+            : [{ name: b.name, key: b }]);
+          for (const { name, key } of binders) {
+            if (!name || name === '_' || name === '()') continue;
+            // Displayed at the end, so refs show their final contents; a later
+            // binding of the same name doesn't change what this one was bound to
+            const type = staticTypes.get(key) ?? '';
+            if (type) this.declaredTypes.set(name, type);
+            this.declaredValues.push({ name, type, value: '', bound: this.env.get(name) });
           }
         } else if (node.kind === 'typedecl') {
-          const td = node as any;
-          this.declaredValues.push({ name: td.name, type: 'type', value: this.formatTypeDecl(td) });
+          for (const td of typeDecls(node)) {
+            this.declaredValues.push({ name: td.name, type: 'type', value: this.formatTypeDecl(td) });
+          }
         } else if (node.kind === 'exceptiondecl') {
           const ed = node as any;
           this.declaredValues.push({ name: ed.name, type: 'exception', value: ed.type ? `exception ${ed.name} of ${ed.type}` : `exception ${ed.name}` });
-        } else if (node.kind !== 'open') {
+        } else if (node.kind === 'moduledecl') {
+          const sig = staticTypes.get(node);
+          if (sig) this.recordModuleTypes(node.name, sig);
+          this.declaredValues.push({ name: node.name, type: 'module', value: sig ? `module ${node.name} : ${sig}` : `module ${node.name}` });
+        } else if (node.kind === 'moduletypedecl') {
+          this.declaredValues.push({ name: node.name, type: 'module', value: `module type ${node.name} = ${this.formatModuleType(node.signature)}` });
+        } else if (node.kind !== 'open' && node.kind !== 'include') {
           // Anonymous expression result
           if (result.tag !== 'unit') {
-            const type = this.inferType(result);
+            const type = staticTypes.get(node) ?? this.inferType(result);
             const display = this.displayValue(result);
             this.declaredValues.push({ name: '-', type, value: display });
           }
         }
+        evaluated++;
       } catch (e: any) {
-        if (e instanceof OCamlError) {
+        if (e instanceof OCamlException) {
+          // Raised by a top-level phrase itself, outside any call
+          if (e.backtrace.length === 0) e.backtrace = this.backtrace(e.line);
+          const message = `Exception: ${this.displayValue(e.exn)}`;
+          errors.push({ line: e.line, column: e.column, message, backtrace: e.backtrace });
+          this.output.push(message);
+        } else if (e instanceof OCamlError) {
           errors.push({ line: e.line, column: e.column, message: `${e.kind}: ${e.message}` });
           this.output.push(`${e.kind}: ${e.message}`);
         } else {
@@ -80,40 +221,103 @@ export class Evaluator {
     }
 
     // Refresh declared values to get final state (important for refs)
-    const finalValues = this.declaredValues.map(dv => {
-      if (dv.type === 'type' || dv.type === 'exception' || dv.name === '-') return dv;
-      const val = this.env.get(dv.name);
-      if (val) {
-        return { name: dv.name, type: this.inferType(val), value: this.displayValue(val) };
-      }
-      return dv;
-    });
+    const finalValues = this.declaredValues.map(({ name, type, value, bound }) => bound
+      ? { name, type: type || this.inferType(bound), value: this.displayValue(bound) }
+      : { name, type, value });
 
     return {
       output: this.output.join(''),
       values: finalValues,
       memoryState: this.getMemoryState(),
       errors,
+      trace: this.trace ?? undefined,
+      evaluated,
     };
   }
 
-  private formatTypeDecl(td: any): string {
-    if (td.variants.length === 0) return `type ${td.name}`;
-    if (td.variants[0].name.startsWith('{')) return `type ${td.name} = ${td.variants[0].name}`;
-    return `type ${td.name} = ${td.variants.map((v: any) => v.type ? `${v.name} of ${v.type}` : v.name).join(' | ')}`;
+  /** Pick the member types out of a printed signature (`  val x : int` lines). */
+  private recordModuleTypes(name: string, sig: string): void {
+    for (const line of sig.split('\n')) {
+      const m = /^  val (\S+) : (.*)$/.exec(line);
+      if (m) this.declaredTypes.set(`${name}.${m[1]}`, m[2]);
+    }
+  }
+
+  private formatModuleType(mt: ModuleTypeExpr): string {
+    if (mt.kind === 'signame') return mt.name;
+    if (mt.kind === 'functortype') return `functor (${mt.param} : ${this.formatModuleType(mt.paramType)}) -> ${this.formatModuleType(mt.result)}`;
+    const lines = mt.items.map(item => {
+      if (item.kind === 'valspec') return `  val ${item.name} : ${item.type}`;
+      if (item.kind === 'exceptiondecl') return `  exception ${item.name}${item.type ? ` of ${item.type}` : ''}`;
+      return '  ' + this.formatTypeDecl(item);
+    });
+    return ['sig', ...lines, 'end'].join('\n');
+  }
+
+  private formatTypeDecl(td: TypeDeclNode): string {
+    const params = td.params.length === 0 ? '' : td.params.length === 1 ? `${td.params[0]} ` : `(${td.params.join(', ')}) `;
+    const head = `type ${params}${td.name}`;
+    const constraints = (td.constraints ?? []).map(c => ` constraint ${c.param} = ${showTypeExpr(c.type)}`).join('');
+    if (td.definition.kind === 'abstract') return head + constraints;
+    return `${head} = ${showTypeDefinition(td.definition)}${constraints}`;
+  }
+
+  // ── Resource Limits ─────────────────────────────────────────────────────
+  /** Append program output; the run stops once it reaches the output limit. */
+  private write(text: string): void {
+    const room = this.maxOutputSize - this.outputSize;
+    if (text.length > room) {
+      this.output.push(text.slice(0, room));
+      this.outputSize = this.maxOutputSize;
+      throw new RuntimeError(`Output limit exceeded (${this.maxOutputSize / 1_024} KB)`);
+    }
+    this.outputSize += text.length;
+    this.output.push(text);
+  }
+
+  /**
+   * Account for `words` newly allocated words (a header plus one per field).
+   * Large allocations call it before building the value, so they hit the limit first.
+   */
+  private allocate(words: number, line = this.builtinLine): void {
+    this.allocatedWords += Math.max(0, words);
+    if (this.allocatedWords > this.maxAllocatedWords) {
+      throw new RuntimeError(`Memory limit exceeded (${this.maxAllocatedWords * 8 / 1_024 / 1_024} MB)`, line);
+    }
+  }
+
+  /** Allocate a mutable value on the heap, where the Memory panel shows its current contents. */
+  private allocateObject<T extends VRecord | VArray | VHashtbl | VBuffer | VStack | VQueue | VLazy>(value: T, type: string, words: number, line = 0): T {
+    this.allocate(words, line);
+    value.id = this.nextHeapId++;
+    this.heapObjects.push({ id: value.id, type, value: this.heapDisplay(value), refCount: 1 });
+    this.heapValues.set(value.id, value);
+    return value;
   }
 
   // ── Core Evaluation ─────────────────────────────────────────────────────
-  private eval(node: ASTNode, env: Environment): Value {
+  // Count a step of evaluation against the limits, and let the debugger see it
+  private step(node: ASTNode, env: Environment): void {
     this.stepCount++;
     if (this.stepCount > this.maxSteps) {
       throw new RuntimeError('Maximum execution steps exceeded (possible infinite loop)', node.line);
     }
     // Check time limit every 1000 steps (avoid calling Date.now too often)
-    if (this.stepCount % 1000 === 0 && Date.now() - this.startTime > this.maxExecutionTimeMs) {
-      throw new RuntimeError(`Execution time limit exceeded (${this.maxExecutionTimeMs / 1000}s)`, node.line);
+    if (this.stepCount % 1000 === 0) {
+      if (Date.now() - this.startTime > this.maxExecutionTimeMs) {
+        throw new RuntimeError(`Execution time limit exceeded (${this.maxExecutionTimeMs / 1000}s)`, node.line);
+      }
+      if (this.progressHook) {
+        const output = this.output.slice(this.reportedOutput).join('');
+        this.reportedOutput = this.output.length;
+        this.progressHook(this.stepCount, output);
+      }
     }
+    if (this.stepHook) this.stepHook(node, env);
+  }
 
+  private eval(node: ASTNode, env: Environment): Value {
+    this.step(node, env);
     switch (node.kind) {
       case 'literal': return this.evalLiteral(node);
       case 'unit': return { tag: 'unit' };
@@ -137,17 +341,25 @@ export class Evaluator {
       case 'typedecl': return this.evalTypeDecl(node); // returns unit
       case 'exceptiondecl': return this.evalExceptionDecl(node);
       case 'raise': return this.evalRaise(node, env);
+      case 'assert': return this.evalAssert(node, env);
+      case 'lazy': return this.suspend(() => this.callBody(node.expr, env, node.line, 'lazy'), node.line);
       case 'trywith': return this.evalTryWith(node, env);
       case 'begin': return this.eval((node as any).expr, env);
       case 'record': return this.evalRecord(node, env);
       case 'fieldaccess': return this.evalFieldAccess(node, env);
+      case 'fieldset': return this.evalFieldSet(node, env);
       case 'for': return this.evalFor(node, env);
       case 'while': return this.evalWhile(node, env);
       case 'array': return this.evalArray(node, env);
       case 'arrayaccess': return this.evalArrayAccess(node, env);
       case 'arrayset': return this.evalArraySet(node, env);
-      case 'open': return { tag: 'unit' };
-      case 'printf': return this.evalPrintf(node, env);
+      case 'open': return this.evalOpen(node, env);
+      case 'include': return this.evalInclude(node, env);
+      case 'moduledecl': return this.evalModuleDecl(node, env);
+      case 'moduletypedecl':
+        env.setModuleType(node.name, node.signature);
+        return { tag: 'unit' };
+      case 'scanf': return this.evalScanf(node, env);
       default:
         throw new RuntimeError(`Unknown node kind: ${(node as any).kind}`, (node as any).line);
     }
@@ -155,7 +367,7 @@ export class Evaluator {
 
   private evalLiteral(node: any): Value {
     switch (node.type) {
-      case 'int': return { tag: 'int', value: node.value };
+      case 'int': case 'int32': case 'int64': return { tag: node.type, value: node.value };
       case 'float': return { tag: 'float', value: node.value };
       case 'string': return { tag: 'string', value: node.value };
       case 'char': return { tag: 'char', value: node.value };
@@ -173,117 +385,139 @@ export class Evaluator {
     return val;
   }
 
-  private evalLet(node: any, env: Environment): Value {
-    const bodyVal = node.params.length > 0
-      ? this.makeFun(node.params, node.body, env)
-      : this.eval(node.body, env);
+  // A definition (`let` without `in`) binds into `into`, its body being evaluated in `env`
+  private evalLet(node: any, env: Environment, into: Environment = env): Value {
+    // With `and`, every body is evaluated before any name is bound
+    const bindings = letBindings(node);
+    const values = bindings.map(b => {
+      const val = b.params.length > 0 ? this.makeFun(b.params, b.body, env) : this.eval(b.body, env);
+      // `let f = fun x -> ...` names its closure too
+      const named = !b.pattern && b.name !== '_' && b.name !== '()';
+      return val.tag === 'fun' && !val.name && named ? { ...val, name: b.name } : val;
+    });
+    const target = node.inExpr ? env.extend('let') : into;
+    bindings.forEach((b, i) => this.bindLet(b, values[i], target));
+    // Top-level `let () = expr` is evaluated for its side effects; its value is the body's
+    return node.inExpr ? this.eval(node.inExpr, target) : values[0];
+  }
 
-    if (node.inExpr) {
-      const newEnv = env.extend('let');
-      if (node.name !== '()' && node.name !== '_') {
-        newEnv.set(node.name, bodyVal);
-      }
-      return this.eval(node.inExpr, newEnv);
-    }
+  /**
+   * Evaluate a toplevel or structure item in `scope`, returning the scope the
+   * items after it are evaluated in. A definition that shadows a visible name
+   * starts a new scope, so the closures defined so far keep seeing the old
+   * value, as does its own right-hand side unless it is `rec`.
+   */
+  private evalDefinition(node: ASTNode, scope: Environment): { value: Value; scope: Environment } {
+    const shadows = node.kind === 'let' || node.kind === 'letrec'
+      ? !node.inExpr && letBindings(node).some(b => (b.pattern ? patternBinders(b.pattern).map(p => p.name) : [b.name])
+        .some(name => scope.get(name) !== undefined))
+      : node.kind === 'moduledecl' && scope.getModule(node.name) !== undefined;
+    if (!shadows) return { value: this.eval(node, scope), scope };
+    const next = scope.extend(scope.name);
+    if (node.kind === 'letrec') return { value: this.eval(node, next), scope: next };
+    this.step(node, scope);
+    const value = node.kind === 'let' ? this.evalLet(node, scope, next) : this.evalModuleDecl(node, scope, next);
+    return { value, scope: next };
+  }
 
-    // Top-level binding
-    if (node.name === '()') {
-      // let () = expr → evaluate for side effects
-      return bodyVal;
-    }
-    if (node.name !== '_') {
-      env.set(node.name, bodyVal);
+  private bindLet(binding: LetBinding, val: Value, env: Environment): void {
+    if (binding.pattern) {
+      this.bindPattern(binding.pattern, val, env, binding.line);
+      if (this.trace) {
+        for (const { name } of patternBinders(binding.pattern)) {
+          this.traceEvent('bind', binding.line, name, this.preview(env.get(name)!), env);
+        }
+      }
+      return;
     }
-    return bodyVal;
+    if (binding.name === '()' || binding.name === '_') return;
+    env.set(binding.name, val);
+    if (this.trace) this.traceEvent('bind', binding.line, binding.name, this.preview(val), env);
   }
 
   private evalLetRec(node: any, env: Environment): Value {
-    if (node.params.length > 0) {
-      const recFun: VRecFun = { tag: 'recfun', name: node.name, params: node.params, body: node.body, env };
-      if (node.inExpr) {
-        const newEnv = env.extend('letrec');
-        newEnv.set(node.name, recFun);
-        recFun.env = newEnv;
-        return this.eval(node.inExpr, newEnv);
-      }
-      env.set(node.name, recFun);
-      recFun.env = env;
+    // The functions of `let rec ... and ...` share one environment, so they can call each other
+    const bindings = letBindings(node);
+    const target = node.inExpr ? env.extend('letrec') : env;
+    const values: (Value | null)[] = bindings.map(b => {
+      if (b.params.length === 0) return null;
+      const recFun: VRecFun = { tag: 'recfun', name: b.name, params: b.params, body: b.body, env: target };
+      if (b.name !== '_') target.set(b.name, recFun);
+      if (this.trace) this.traceEvent('bind', b.line, b.name, '<fun>', target);
       return recFun;
-    }
-
-    // Non-function let rec (e.g., let rec x = lazy evaluation — just evaluate normally)
-    const val = this.eval(node.body, env);
-    if (node.inExpr) {
-      const newEnv = env.extend('letrec');
-      newEnv.set(node.name, val);
-      return this.eval(node.inExpr, newEnv);
-    }
-    env.set(node.name, val);
-    return val;
+    });
+    // Non-function let rec: a `lazy` body only captures `target`, so by the
+    // time it is forced it can refer to itself (let rec ones = lazy (Cons (1, ones)))
+    bindings.forEach((b, i) => {
+      if (values[i]) return;
+      const val = this.eval(b.body, target);
+      values[i] = val;
+      this.bindLet(b, val, target);
+    });
+    return node.inExpr ? this.eval(node.inExpr, target) : values[0]!;
   }
 
   private evalFun(node: any, env: Environment): Value {
     return { tag: 'fun', params: node.params, body: node.body, env };
   }
 
-  private makeFun(params: Pattern[], body: ASTNode, env: Environment): Value {
+  private makeFun(params: Param[], body: ASTNode, env: Environment): Value {
     return { tag: 'fun', params, body, env };
   }
 
   private evalApp(node: any, env: Environment): Value {
     const func = this.eval(node.func, env);
-    const args = node.args.map((a: ASTNode) => this.eval(a, env));
+    const args: ArgValue[] = node.args.map((a: Arg) => ({ ...a, value: this.eval(a.value, env) }));
 
-    return this.applyFunction(func, args, node.line);
+    // Anonymous functions bound with `let f x = ...` are shown under the name they were called by
+    let head = node.func;
+    while (head.kind === 'app') head = head.func;
+    return this.applyFunction(func, args, node.line, head.kind === 'var' ? head.name : undefined);
   }
 
-  private applyFunction(func: Value, args: Value[], line: number): Value {
-    for (const arg of args) {
-      func = this.applyOne(func, arg, line);
+  private applyFunction(func: Value, args: ArgValue[], line: number, name?: string): Value {
+    let pending = args;
+    while (pending.length > 0) {
+      const labeled = this.asLabeled(func);
+      if (labeled) return this.applyLabeled(labeled, pending, line, name);
+      // Labeled arguments wait for a function that takes them
+      const i = pending.findIndex(a => !a.label);
+      if (i < 0) {
+        throw new RuntimeError(`This function has no parameter labeled ${pending[0].optional ? '?' : '~'}${pending[0].label}`, line);
+      }
+      func = this.applyOne(func, pending[i].value, line, name);
+      pending = [...pending.slice(0, i), ...pending.slice(i + 1)];
     }
     return func;
   }
 
-  private applyOne(func: Value, arg: Value, line: number): Value {
+  private applyOne(func: Value, arg: Value, line: number, name: string = 'lambda'): Value {
+    const labeled = this.asLabeled(func);
+    if (labeled) return this.applyLabeled(labeled, [{ value: arg }], line, name);
+
     if (func.tag === 'fun') {
       const newEnv = func.env.extend('fn');
-      this.bindPattern(func.params[0], arg, newEnv, line);
+      this.bindPattern(func.params[0].pattern, arg, newEnv, line);
       if (func.params.length > 1) {
-        return { tag: 'fun', params: func.params.slice(1), body: func.body, env: newEnv };
+        return { tag: 'fun', params: func.params.slice(1), body: func.body, env: newEnv, name: func.name };
       }
-      this.recursionDepth++;
-      if (this.recursionDepth > this.maxRecursionDepth) {
-        throw new RuntimeError(`Maximum recursion depth exceeded (${this.maxRecursionDepth})`, line);
-      }
-      this.callStack.push({ name: 'lambda', line, env: newEnv });
-      const result = this.eval(func.body, newEnv);
-      this.callStack.pop();
-      this.recursionDepth--;
-      return result;
+      return this.callBody(func.body, newEnv, line, func.name ?? name);
     }
 
     if (func.tag === 'recfun') {
       const newEnv = func.env.extend(func.name);
       newEnv.set(func.name, func);
-      this.bindPattern(func.params[0], arg, newEnv, line);
+      this.bindPattern(func.params[0].pattern, arg, newEnv, line);
       if (func.params.length > 1) {
-        return { tag: 'fun', params: func.params.slice(1), body: func.body, env: newEnv };
-      }
-      this.recursionDepth++;
-      if (this.recursionDepth > this.maxRecursionDepth) {
-        throw new RuntimeError(`Maximum recursion depth exceeded (${this.maxRecursionDepth})`, line);
+        return { tag: 'fun', params: func.params.slice(1), body: func.body, env: newEnv, name: func.name };
       }
-      this.callStack.push({ name: func.name, line, env: newEnv });
-      const result = this.eval(func.body, newEnv);
-      this.callStack.pop();
-      this.recursionDepth--;
-      return result;
+      return this.callBody(func.body, newEnv, line, func.name);
     }
 
     if (func.tag === 'builtin') {
       const applied = [...func.applied, arg];
       if (applied.length >= func.arity) {
-        return func.fn(applied);
+        return this.callBuiltin(func, applied, line);
       }
       return { ...func, applied };
     }
@@ -292,13 +526,129 @@ export class Evaluator {
       return { tag: 'constructor', name: func.name, value: arg };
     }
 
+    if (func.tag === 'exn') return mkException(func.name, arg);
+
     throw new RuntimeError(`Trying to apply a non-function value: ${this.displayValue(func)}`, line);
   }
 
+  private callBody(body: ASTNode, env: Environment, line: number, name: string): Value {
+    this.recursionDepth++;
+    if (this.recursionDepth > this.maxRecursionDepth) {
+      throw new RuntimeError(`Maximum recursion depth exceeded (${this.maxRecursionDepth})`, line);
+    }
+    this.callStack.push({ name, line: line || this.builtinLine, env });
+    try {
+      if (this.trace) this.traceEvent('call', body.line, name, null, env);
+      const result = this.eval(body, env);
+      if (this.trace) this.traceEvent('return', line, name, this.preview(result), env);
+      return result;
+    } catch (e) {
+      // The innermost call an exception leaves records where it came from
+      if (e instanceof OCamlException && e.backtrace.length === 0) e.backtrace = this.backtrace(e.line);
+      throw e;
+    } finally {
+      this.callStack.pop();
+      this.recursionDepth--;
+    }
+  }
+
+  /** Run a builtin; an exception it raises is located at the call. */
+  private callBuiltin(func: VBuiltin, args: Value[], line: number): Value {
+    const outer = this.builtinLine;
+    if (line) this.builtinLine = line;
+    try {
+      return func.fn(args);
+    } catch (e) {
+      if (e instanceof OCamlException && e.line === 0) e.line = line;
+      throw e;
+    } finally {
+      this.builtinLine = outer;
+    }
+  }
+
+  /** The frames an exception raised at `line` unwinds, innermost first. */
+  private backtrace(line: number): BacktraceFrame[] {
+    const frames: BacktraceFrame[] = [];
+    for (let i = this.callStack.length - 1; i >= 0 && frames.length < MAX_BACKTRACE_FRAMES; i--) {
+      frames.push({ name: this.callStack[i].name, line });
+      line = this.callStack[i].line;
+    }
+    return frames;
+  }
+
+  // ── Labeled Application ─────────────────────────────────────────────────
+  // A function with labeled or optional parameters collects its arguments in
+  // slots, one per parameter, and runs once every slot is filled.
+
+  private asLabeled(func: Value): VFun | VRecFun | VBuiltin | null {
+    if (func.tag === 'builtin') return func.labels ? func : null;
+    if (func.tag === 'fun' || func.tag === 'recfun') return func.params.some(p => p.label !== undefined) ? func : null;
+    return null;
+  }
+
+  private applyLabeled(func: VFun | VRecFun | VBuiltin, args: ArgValue[], line: number, name: string = 'lambda'): Value {
+    const params: ParamLabel[] = func.tag === 'builtin' ? func.labels! : func.params;
+    const { supplied, extra } = this.supplyArgs(params, func.labeled ?? { supplied: [], extra: [] }, args);
+    if (supplied.some(v => v === undefined)) return { ...func, labeled: { supplied, extra } };
+
+    const none: Value = { tag: 'constructor', name: 'None' };
+    let result: Value;
+    if (func.tag === 'builtin') {
+      result = this.callBuiltin(func, supplied.map(v => v ?? none), line);
+    } else {
+      const newEnv = func.env.extend(func.tag === 'recfun' ? func.name : 'fn');
+      if (func.tag === 'recfun') newEnv.set(func.name, { ...func, labeled: undefined });
+      func.params.forEach((p, i) => {
+        let arg = supplied[i] ?? none;
+        if (p.default) {
+          // Parameters are bound in order, so a default can use the ones before it
+          arg = arg.tag === 'constructor' && arg.name === 'Some' ? arg.value! : this.eval(p.default, newEnv);
+        }
+        this.bindPattern(p.pattern, arg, newEnv, line);
+      });
+      result = this.callBody(func.body, newEnv, line, func.name ?? name);
+    }
+    return extra.length > 0 ? this.applyFunction(result, extra, line, name) : result;
+  }
+
+  /**
+   * Put arguments in the parameter slots still open: `~l:v` goes to the first
+   * parameter labeled l (as `Some v` if it is optional), an unlabeled argument
+   * to the first unlabeled parameter, omitting the optional ones before it
+   * that no argument names. An omitted optional parameter gets null;
+   * arguments with no slot are kept for the function's result.
+   */
+  private supplyArgs(params: ParamLabel[], state: LabeledApplication, args: ArgValue[]): LabeledApplication {
+    const supplied = params.map((_, i) => state.supplied[i]);
+    const extra: ArgValue[] = [...state.extra];
+    const slotFor = (label: string | undefined) => params.findIndex((p, j) => supplied[j] === undefined && p.label === label);
+    const supply = (i: number, arg: ArgValue) => {
+      supplied[i] = params[i].optional && !arg.optional ? { tag: 'constructor', name: 'Some', value: arg.value } : arg.value;
+    };
+
+    const positional: ArgValue[] = [];
+    for (const arg of args) {
+      const i = arg.label ? slotFor(arg.label) : -1;
+      if (i >= 0) supply(i, arg);
+      else if (arg.label) extra.push(arg);
+      else positional.push(arg);
+    }
+    for (const arg of positional) {
+      const i = slotFor(undefined);
+      if (i < 0) {
+        extra.push(arg);
+        continue;
+      }
+      params.forEach((p, j) => { if (j < i && p.optional && supplied[j] === undefined) supplied[j] = null; });
+      supply(i, arg);
+    }
+    return { supplied, extra };
+  }
+
   // ── Pattern Matching ────────────────────────────────────────────────────
   private bindPattern(pat: Pattern, val: Value, env: Environment, line: number): void {
     if (!this.matchPattern(pat, val, env)) {
-      throw new MatchFailure(line);
+      throw new OCamlException(locatedException('Match_failure', line), line);
     }
   }
 
@@ -328,7 +678,7 @@ export class Evaluator {
         return this.matchPattern(pat.head, val.elements[0], env) &&
                this.matchPattern(pat.tail, { tag: 'list', elements: val.elements.slice(1) }, env);
       case 'pconstructor':
-        if (val.tag !== 'constructor') return false;
+        if (val.tag !== 'constructor' && val.tag !== 'exn') return false;
         if (val.name !== pat.name) return false;
         if (pat.arg) {
           if (val.value === undefined) return false;
@@ -342,16 +692,59 @@ export class Evaluator {
           return true;
         }
         return this.matchPattern(pat.right, val, env);
+      case 'palias':
+        if (!this.matchPattern(pat.pattern, val, env)) return false;
+        env.set(pat.name, val);
+        return true;
+      case 'precord':
+        if (val.tag === 'ref') return pat.fields.every(f => f.name === 'contents' && this.matchPattern(f.pattern, val.value, env));
+        if (val.tag !== 'record') return false;
+        return pat.fields.every(f => {
+          const field = val.fields.get(f.name);
+          return field !== undefined && this.matchPattern(f.pattern, field, env);
+        });
+      case 'parray':
+        if (val.tag !== 'array' || val.elements.length !== pat.elements.length) return false;
+        return pat.elements.every((p, i) => this.matchPattern(p, val.elements[i], env));
+      case 'prange':
+        return val.tag === 'char' && val.value >= pat.from && val.value <= pat.to;
+      case 'pconstraint':
+        return this.matchPattern(pat.pattern, val, env);
+      case 'plazy':
+        return val.tag === 'lazy' && this.matchPattern(pat.pattern, this.force(val, 0), env);
       default:
         return false;
     }
   }
 
   private evalMatch(node: any, env: Environment): Value {
-    const val = this.eval(node.expr, env);
-    for (const c of node.cases) {
-      const matchEnv = env.extend('match');
-      if (this.matchPattern(c.pattern, val, matchEnv)) {
+    const cases: MatchCase[] = node.cases;
+    const handlers = cases.filter(c => c.pattern.kind === 'pexception');
+    let val: Value;
+    if (handlers.length === 0) {
+      val = this.eval(node.expr, env);
+    } else {
+      // `exception` cases catch what the scrutinee raises, not what the other cases do
+      try {
+        val = this.eval(node.expr, env);
+      } catch (e) {
+        if (!(e instanceof OCamlException)) throw e;
+        const handled = this.evalCases(handlers, e.exn, env, 'catch');
+        if (handled === undefined) throw e;
+        return handled;
+      }
+    }
+    const result = this.evalCases(cases.filter(c => c.pattern.kind !== 'pexception'), val, env, 'match');
+    if (result === undefined) throw new OCamlException(locatedException('Match_failure', node.line), node.line);
+    return result;
+  }
+
+  /** The body of the first case that matches, or undefined when none does. */
+  private evalCases(cases: MatchCase[], val: Value, env: Environment, scope: string): Value | undefined {
+    for (const c of cases) {
+      const matchEnv = env.extend(scope);
+      const pattern = c.pattern.kind === 'pexception' ? c.pattern.pattern : c.pattern;
+      if (this.matchPattern(pattern, val, matchEnv)) {
         if (c.guard) {
           const guardVal = this.eval(c.guard, matchEnv);
           if (guardVal.tag !== 'bool' || !guardVal.value) continue;
@@ -359,7 +752,7 @@ export class Evaluator {
         return this.eval(c.body, matchEnv);
       }
     }
-    throw new MatchFailure(node.line);
+    return undefined;
   }
 
   // ── Binary Operations ───────────────────────────────────────────────────
@@ -382,20 +775,13 @@ export class Evaluator {
 
     const right = this.eval(node.right, env);
 
-    // Integer arithmetic
-    if (node.op === '+' && left.tag === 'int' && right.tag === 'int')
-      return { tag: 'int', value: left.value + right.value };
-    if (node.op === '-' && left.tag === 'int' && right.tag === 'int')
-      return { tag: 'int', value: left.value - right.value };
-    if (node.op === '*' && left.tag === 'int' && right.tag === 'int')
-      return { tag: 'int', value: left.value * right.value };
-    if (node.op === '/' && left.tag === 'int' && right.tag === 'int') {
-      if (right.value === 0) throw new RuntimeError('Division by zero', node.line);
-      return { tag: 'int', value: Math.trunc(left.value / right.value) };
-    }
-    if (node.op === 'mod' && left.tag === 'int' && right.tag === 'int') {
-      if (right.value === 0) throw new RuntimeError('Division by zero', node.line);
-      return { tag: 'int', value: left.value % right.value };
+    // Integer arithmetic, wrapping around at 63 bits
+    if (left.tag === 'int' && right.tag === 'int') {
+      if ((node.op === '/' || node.op === 'mod') && right.value === 0n) {
+        throw new OCamlException(mkException('Division_by_zero'), node.line);
+      }
+      const value = intOperation(node.op, left.value, right.value);
+      if (value !== undefined) return { tag: 'int', value };
     }
 
     // Float arithmetic
@@ -409,12 +795,16 @@ export class Evaluator {
       return { tag: 'float', value: left.value / right.value };
 
     // String concatenation
-    if (node.op === '^' && left.tag === 'string' && right.tag === 'string')
+    if (node.op === '^' && left.tag === 'string' && right.tag === 'string') {
+      this.allocate(stringWords(left.value.length + right.value.length), node.line);
       return { tag: 'string', value: left.value + right.value };
+    }
 
-    // List append
-    if (node.op === '@' && left.tag === 'list' && right.tag === 'list')
+    // List append: the left list is copied
+    if (node.op === '@' && left.tag === 'list' && right.tag === 'list') {
+      this.allocate(3 * left.elements.length, node.line);
       return { tag: 'list', elements: [...left.elements, ...right.elements] };
+    }
 
     // Comparison (polymorphic)
     if (['=', '<>', '<', '>', '<=', '>=', '==', '!='].includes(node.op)) {
@@ -438,7 +828,9 @@ export class Evaluator {
   }
 
   private compareValues(a: Value, b: Value): number {
-    if (a.tag === 'int' && b.tag === 'int') return a.value - b.value;
+    if ((a.tag === 'int' || a.tag === 'int32' || a.tag === 'int64') && a.tag === b.tag) {
+      return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+    }
     if (a.tag === 'float' && b.tag === 'float') return a.value - b.value;
     if (a.tag === 'string' && b.tag === 'string') return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
     if (a.tag === 'char' && b.tag === 'char') return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
@@ -458,7 +850,7 @@ export class Evaluator {
       }
       return 0;
     }
-    if (a.tag === 'constructor' && b.tag === 'constructor') {
+    if ((a.tag === 'constructor' && b.tag === 'constructor') || (a.tag === 'exn' && b.tag === 'exn')) {
       if (a.name !== b.name) return a.name < b.name ? -1 : 1;
       if (a.value && b.value) return this.compareValues(a.value, b.value);
       return 0;
@@ -468,7 +860,7 @@ export class Evaluator {
 
   private evalUnary(node: any, env: Environment): Value {
     const val = this.eval(node.expr, env);
-    if (node.op === '-' && val.tag === 'int') return { tag: 'int', value: -val.value };
+    if (node.op === '-' && val.tag === 'int') return mkInt(-val.value);
     if (node.op === '-' && val.tag === 'float') return { tag: 'float', value: -val.value };
     if (node.op === '-.' && val.tag === 'float') return { tag: 'float', value: -val.value };
     if (node.op === 'not' && val.tag === 'bool') return { tag: 'bool', value: !val.value };
@@ -487,14 +879,18 @@ export class Evaluator {
     return { tag: 'tuple', elements: node.elements.map((e: ASTNode) => this.eval(e, env)) };
   }
 
+  // A cons cell is a header, the head and the tail
   private evalList(node: any, env: Environment): Value {
-    return { tag: 'list', elements: node.elements.map((e: ASTNode) => this.eval(e, env)) };
+    const elements = node.elements.map((e: ASTNode) => this.eval(e, env));
+    this.allocate(3 * elements.length, node.line);
+    return { tag: 'list', elements };
   }
 
   private evalCons(node: any, env: Environment): Value {
     const head = this.eval(node.head, env);
     const tail = this.eval(node.tail, env);
     if (tail.tag !== 'list') throw new RuntimeError(':: expects a list as second argument', node.line);
+    this.allocate(3, node.line);
     return { tag: 'list', elements: [head, ...tail.elements] };
   }
 
@@ -507,7 +903,11 @@ export class Evaluator {
   }
 
   private evalRef(node: any, env: Environment): Value {
-    const val = this.eval(node.expr, env);
+    return this.makeRef(this.eval(node.expr, env), node.line);
+  }
+
+  private makeRef(val: Value, line: number): Value {
+    this.allocate(2, line);
     const id = this.nextHeapId++;
     const ref: VRef = { tag: 'ref', value: val, id };
     this.heapObjects.push({ id, type: `${this.inferType(val)} ref`, value: this.displayValue(val), refCount: 1 });
@@ -524,6 +924,12 @@ export class Evaluator {
     const ref = this.eval(node.ref, env);
     const val = this.eval(node.value, env);
     if (ref.tag !== 'ref') throw new RuntimeError(':= expects a reference', node.line);
+    return this.assignRef(ref, val, node.ref, node.line, env);
+  }
+
+  /** `target` is the expression the ref came from, which traces name it by. */
+  private assignRef(ref: VRef, val: Value, target: ASTNode, line: number, env: Environment): Value {
+    const previous = this.trace ? this.preview(ref.value) : undefined;
     ref.value = val;
     // Update heap display
     const heapObj = this.heapObjects.find(h => h.id === ref.id);
@@ -531,56 +937,100 @@ export class Evaluator {
       heapObj.value = this.displayValue(val);
       heapObj.type = `${this.inferType(val)} ref`;
     }
+    if (this.trace) {
+      const name = target.kind === 'var' ? target.name : this.heapAddress(ref.id);
+      this.traceEvent('assign', line, name, this.preview(val), env, previous);
+    }
     return { tag: 'unit' };
   }
 
   private evalConstructor(node: any, env: Environment): Value {
+    // Qualified constructors (Shape.Circle) are stored by their short name
+    const name = node.name.slice(node.name.lastIndexOf('.') + 1);
+    const exception = env.get(name)?.tag === 'exn';
     if (node.arg) {
       const arg = this.eval(node.arg, env);
-      return { tag: 'constructor', name: node.name, value: arg };
+      return exception ? mkException(name, arg) : { tag: 'constructor', name, value: arg };
     }
-    return { tag: 'constructor', name: node.name };
+    return exception ? mkException(name) : { tag: 'constructor', name };
   }
 
   private evalTypeDecl(node: any): Value {
-    this.typeDefinitions.set(node.name, { params: node.params, variants: node.variants });
+    for (const td of typeDecls(node)) this.declareType(td);
+    return { tag: 'unit' };
+  }
+
+  private declareType(node: TypeDeclNode): void {
+    const def = node.definition;
+    this.typeDefinitions.set(node.name, { params: node.params, definition: def });
+    if (def.kind === 'record') this.declareFields(node.name, def.fields);
+    if (def.kind !== 'variant') return;
     // Register constructors in environment
-    for (const v of node.variants) {
-      if (/^[A-Z]/.test(v.name)) {
-        if (v.type) {
-          // Constructor with argument
-          this.env.set(v.name, { tag: 'constructor', name: v.name } as VConstructor);
-        } else {
-          // Constructor without argument
-          this.env.set(v.name, { tag: 'constructor', name: v.name } as VConstructor);
-        }
-      }
+    for (const c of def.constructors) {
+      if (c.record) this.declareFields(`${node.name}.${c.name}`, c.record);
+      this.env.set(c.name, { tag: 'constructor', name: c.name } as VConstructor);
     }
-    return { tag: 'unit' };
+  }
+
+  private declareFields(type: string, fields: FieldDecl[]): void {
+    // Records of a type with a mutable field live on the heap
+    const mutable = fields.some(f => f.mutable);
+    for (const field of fields) this.recordTypes.set(field.name, { type, mutable });
   }
 
   private evalExceptionDecl(node: any): Value {
     this.exceptionTypes.set(node.name, node.type);
-    this.env.set(node.name, { tag: 'constructor', name: node.name } as VConstructor);
+    this.env.set(node.name, mkException(node.name));
     return { tag: 'unit' };
   }
 
   private evalRaise(node: any, env: Environment): never {
     const val = this.eval(node.expr, env);
+    if (val.tag !== 'exn') throw new RuntimeError('raise expects an exception', node.line);
     throw new OCamlException(val, node.line);
   }
 
+  /** A suspension of `thunk`, on the heap until it is forced. */
+  private suspend(thunk: () => Value, line: number): VLazy {
+    return this.allocateObject({ tag: 'lazy', id: 0, thunk }, "'a lazy_t", 2, line);
+  }
+
+  /** Lazy.force: run a suspension once and keep its value, or re-raise what it raised. */
+  private force(lz: VLazy, line: number): Value {
+    if (lz.value) return lz.value;
+    if (lz.raised) throw new OCamlException(lz.raised, line);
+    // Forcing a suspension from its own body
+    if (lz.forcing) throw new OCamlException(mkException('Undefined'), line);
+    lz.forcing = true;
+    try {
+      lz.value = lz.thunk!();
+      lz.thunk = undefined;
+      return lz.value;
+    } catch (e) {
+      if (e instanceof OCamlException) {
+        lz.raised = e.exn;
+        lz.thunk = undefined;
+      }
+      throw e;
+    } finally {
+      lz.forcing = false;
+    }
+  }
+
+  private evalAssert(node: any, env: Environment): Value {
+    const cond = this.eval(node.expr, env);
+    if (cond.tag !== 'bool') throw new RuntimeError('assert expects a boolean', node.line);
+    if (!cond.value) throw new OCamlException(locatedException('Assert_failure', node.line, node.column - 1), node.line);
+    return { tag: 'unit' };
+  }
+
   private evalTryWith(node: any, env: Environment): Value {
     try {
       return this.eval(node.expr, env);
     } catch (e) {
       if (e instanceof OCamlException) {
-        for (const c of node.cases) {
-          const matchEnv = env.extend('catch');
-          if (this.matchPattern(c.pattern, e.value, matchEnv)) {
-            return this.eval(c.body, matchEnv);
-          }
-        }
+        const handled = this.evalCases(node.cases, e.exn, env, 'catch');
+        if (handled !== undefined) return handled;
         throw e; // Re-throw if no match
       }
       throw e;
@@ -588,26 +1038,38 @@ export class Evaluator {
   }
 
   private evalRecord(node: any, env: Environment): Value {
+    // A ref is the record { contents = v }, unless the program declared a record with that field
+    if (node.fields.length === 1 && node.fields[0].name === 'contents' && !this.recordTypes.has('contents')) {
+      if (node.base) this.eval(node.base, env);
+      return this.makeRef(this.eval(node.fields[0].value, env), node.line);
+    }
     const fields = new Map<string, Value>();
+    if (node.base) {
+      // { base with ... } copies the base record
+      const base = this.eval(node.base, env);
+      if (base.tag !== 'record') throw new RuntimeError('Record update on non-record', node.line);
+      for (const [name, val] of base.fields) fields.set(name, val);
+    }
     for (const f of node.fields) {
       fields.set(f.name, this.eval(f.value, env));
     }
-    return { tag: 'record', fields };
+    const record: VRecord = { tag: 'record', fields };
+    // Records with mutable fields are shared by reference, so they go on the heap
+    const owner = this.recordTypes.get(node.fields[0]?.name);
+    if (owner?.mutable) this.allocateObject(record, owner.type, fields.size + 1, node.line);
+    else this.allocate(fields.size + 1, node.line);
+    return record;
   }
 
   private evalFieldAccess(node: any, env: Environment): Value {
-    const obj = this.eval(node.expr, env);
-
     // Module access
-    if (obj.tag === 'constructor') {
-      const fullName = obj.name + '.' + node.field;
-      const val = env.get(fullName);
-      if (val) return val;
-
-      // Handle module functions
-      return this.resolveModuleAccess(obj.name, node.field, node.line);
+    if (node.expr.kind === 'constructor' && !node.expr.arg) {
+      return this.resolveModuleAccess(node.expr.name, node.field, node.line, env);
     }
 
+    const obj = this.eval(node.expr, env);
+
+    if (obj.tag === 'ref' && node.field === 'contents') return obj.value;
     if (obj.tag === 'record') {
       const val = obj.fields.get(node.field);
       if (val === undefined) throw new RuntimeError(`Unknown field ${node.field}`, node.line);
@@ -617,6 +1079,21 @@ export class Evaluator {
     throw new RuntimeError(`Cannot access field ${node.field}`, node.line);
   }
 
+  private evalFieldSet(node: any, env: Environment): Value {
+    const obj = this.eval(node.expr, env);
+    const val = this.eval(node.value, env);
+    if (obj.tag === 'ref' && node.field === 'contents') return this.assignRef(obj, val, node.expr, node.line, env);
+    if (obj.tag !== 'record') throw new RuntimeError(`Cannot assign field ${node.field}`, node.line);
+    if (!obj.fields.has(node.field)) throw new RuntimeError(`Unknown field ${node.field}`, node.line);
+    const previous = this.trace ? this.preview(obj.fields.get(node.field)!) : undefined;
+    obj.fields.set(node.field, val);
+    if (this.trace) {
+      const owner = node.expr.kind === 'var' ? node.expr.name : obj.id !== undefined ? this.heapAddress(obj.id) : '_';
+      this.traceEvent('fieldset', node.line, `${owner}.${node.field}`, this.preview(val), env, previous);
+    }
+    return { tag: 'unit' };
+  }
+
   private evalFor(node: any, env: Environment): Value {
     const start = this.eval(node.start, env);
     const end = this.eval(node.end, env);
@@ -625,12 +1102,14 @@ export class Evaluator {
     const forEnv = env.extend('for');
     if (node.up) {
       for (let i = start.value; i <= end.value; i++) {
-        forEnv.set(node.var, { tag: 'int', value: i });
+        forEnv.set(node.var, mkInt(i));
+        if (this.stepHook) this.stepHook(node, forEnv);
         this.eval(node.body, forEnv);
       }
     } else {
       for (let i = start.value; i >= end.value; i--) {
-        forEnv.set(node.var, { tag: 'int', value: i });
+        forEnv.set(node.var, mkInt(i));
+        if (this.stepHook) this.stepHook(node, forEnv);
         this.eval(node.body, forEnv);
       }
     }
@@ -649,9 +1128,7 @@ export class Evaluator {
 
   private evalArray(node: any, env: Environment): Value {
     const elements = node.elements.map((e: ASTNode) => this.eval(e, env));
-    const id = this.nextHeapId++;
-    this.heapObjects.push({ id, type: 'array', value: `[|${elements.map((e: Value) => this.displayValue(e)).join('; ')}|]`, refCount: 1 });
-    return { tag: 'array', elements, id };
+    return this.allocateObject<VArray>({ tag: 'array', elements, id: 0 }, 'array', elements.length + 1, node.line);
   }
 
   private evalArrayAccess(node: any, env: Environment): Value {
@@ -659,9 +1136,10 @@ export class Evaluator {
     const idx = this.eval(node.index, env);
     if (arr.tag !== 'array') throw new RuntimeError('Array access on non-array', node.line);
     if (idx.tag !== 'int') throw new RuntimeError('Array index must be integer', node.line);
-    if (idx.value < 0 || idx.value >= arr.elements.length)
-      throw new RuntimeError(`Index out of bounds: ${idx.value}`, node.line);
-    return arr.elements[idx.value];
+    if (idx.value < 0 || idx.value >= arr.elements.length) {
+      throw new OCamlException(mkException('Invalid_argument', { tag: 'string', value: 'index out of bounds' }), node.line);
+    }
+    return arr.elements[Number(idx.value)];
   }
 
   private evalArraySet(node: any, env: Environment): Value {
@@ -670,76 +1148,323 @@ export class Evaluator {
     const val = this.eval(node.value, env);
     if (arr.tag !== 'array') throw new RuntimeError('Array set on non-array', node.line);
     if (idx.tag !== 'int') throw new RuntimeError('Array index must be integer', node.line);
-    if (idx.value < 0 || idx.value >= arr.elements.length)
-      throw new RuntimeError(`Index out of bounds: ${idx.value}`, node.line);
-    arr.elements[idx.value] = val;
+    if (idx.value < 0 || idx.value >= arr.elements.length) {
+      throw new OCamlException(mkException('Invalid_argument', { tag: 'string', value: 'index out of bounds' }), node.line);
+    }
+    const previous = this.trace ? this.preview(arr.elements[Number(idx.value)]) : undefined;
+    arr.elements[Number(idx.value)] = val;
+    if (this.trace) {
+      const name = `${node.array.kind === 'var' ? node.array.name : this.heapAddress(arr.id)}.(${idx.value})`;
+      this.traceEvent('arrayset', node.line, name, this.preview(val), env, previous);
+    }
     return { tag: 'unit' };
   }
 
-  // ── Printf ──────────────────────────────────────────────────────────────
-  private evalPrintf(node: any, env: Environment): Value {
-    const fmt = node.format;
-    const args = node.args.map((a: ASTNode) => this.eval(a, env));
-    let result = '';
-    let argIdx = 0;
+  // ── Scanf ───────────────────────────────────────────────────────────────
+  private evalScanf(node: ScanfNode, env: Environment): Value {
+    let input = this.stdin;
+    if (node.source) {
+      const source = this.eval(node.source, env);
+      if (source.tag !== 'string') throw new RuntimeError('Scanf.sscanf: expected string', node.line);
+      input = { text: source.value, pos: 0 };
+    }
+    const args = node.args.map(a => this.eval(a, env));
+    // The input is only read once the continuation is supplied
+    const scan = (k: Value): Value =>
+      this.scanFormat(node.format, input, node.line).reduce((f, v) => this.applyOne(f, v, node.line), k);
+    if (args.length === 0) {
+      return { tag: 'builtin', name: 'scanf', arity: 1, fn: (a) => scan(a[0]), applied: [] };
+    }
+    return args.slice(1).reduce((f, a) => this.applyOne(f, a, node.line), scan(args[0]));
+  }
+
+  /**
+   * Match a Scanf format against the input, returning the converted values.
+   * A space skips any whitespace; other characters must match exactly.
+   */
+  private scanFormat(format: string, input: { text: string; pos: number }, line: number): Value[] {
+    const values: Value[] = [];
+    const endOfFile = (): never => { throw new OCamlException(mkException('End_of_file'), line); };
+    const failure = (message: string): never => {
+      throw new OCamlException(mkException('Scan_failure', { tag: 'string', value: `scanf: bad input at char number ${input.pos}: ${message}` }), line);
+    };
+    // Read a token matching `pattern` at the current position, within `width` characters
+    const token = (pattern: RegExp, width: number, what: string): string => {
+      if (input.pos >= input.text.length) endOfFile();
+      const match = pattern.exec(input.text.slice(input.pos, width > 0 ? input.pos + width : undefined));
+      if (!match || match.index !== 0 || match[0] === '') failure(`character '${input.text[input.pos]}' is not ${what}`);
+      input.pos += match![0].length;
+      return match![0];
+    };
 
     let i = 0;
-    while (i < fmt.length) {
-      if (fmt[i] === '%' && i + 1 < fmt.length) {
-        i++;
-        const spec = fmt[i];
-        switch (spec) {
-          case 'd': case 'i':
-            result += argIdx < args.length && args[argIdx].tag === 'int' ? args[argIdx].value.toString() : '?';
-            argIdx++;
-            break;
-          case 'f':
-            result += argIdx < args.length && args[argIdx].tag === 'float' ? args[argIdx].value.toString() : '?';
-            argIdx++;
-            break;
-          case 's':
-            result += argIdx < args.length && args[argIdx].tag === 'string' ? args[argIdx].value : '?';
-            argIdx++;
-            break;
-          case 'c':
-            result += argIdx < args.length && args[argIdx].tag === 'char' ? args[argIdx].value : '?';
-            argIdx++;
-            break;
-          case 'b':
-            result += argIdx < args.length && args[argIdx].tag === 'bool' ? args[argIdx].value.toString() : '?';
-            argIdx++;
-            break;
-          case '%':
-            result += '%';
-            break;
-          case 'n':
-            result += '\n';
-            break;
-          default:
-            result += '%' + spec;
+    while (i < format.length) {
+      const ch = format[i++];
+      if (ch === ' ') {
+        while (input.pos < input.text.length && /\s/.test(input.text[input.pos])) input.pos++;
+        continue;
+      }
+      if (ch !== '%' || format[i] === '%') {
+        if (ch === '%') i++;
+        if (input.pos >= input.text.length) endOfFile();
+        if (input.text[input.pos] !== ch) failure(`looking for '${ch}', found '${input.text[input.pos]}'`);
+        input.pos++;
+        continue;
+      }
+
+      const skip = format[i] === '_';
+      if (skip) i++;
+      let width = '';
+      while (/\d/.test(format[i] ?? '')) width += format[i++];
+      const limit = width ? parseInt(width) : 0;
+      const spec = format[i++];
+
+      let value: Value;
+      switch (spec) {
+        case 'd': case 'i': case 'u':
+          value = mkInt(BigInt(token(/[+-]?\d+/, limit, 'a decimal digit')));
+          break;
+        case 'x':
+          value = mkInt(BigInt('0x' + token(/[0-9a-fA-F]+/, limit, 'a hexadecimal digit')));
+          break;
+        case 'f': case 'e': case 'g':
+          value = { tag: 'float', value: parseFloat(token(/[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/, limit, 'a digit')) };
+          break;
+        case 'b':
+          value = { tag: 'bool', value: token(/true|false/, limit, 'a boolean') === 'true' };
+          break;
+        case 'c':
+          if (input.pos >= input.text.length) endOfFile();
+          value = { tag: 'char', value: input.text[input.pos++] };
+          break;
+        case 's': {
+          // "%s@c" reads up to (and consumes) the delimiter c; plain "%s" stops at whitespace
+          let text: string;
+          if (format[i] === '@' && i + 1 < format.length) {
+            const delim = input.text.indexOf(format[i + 1], input.pos);
+            text = input.text.slice(input.pos, delim < 0 ? undefined : delim);
+            input.pos = delim < 0 ? input.text.length : delim + 1;
+            i += 2;
+          } else {
+            text = /^\S*/.exec(input.text.slice(input.pos, limit > 0 ? input.pos + limit : undefined))![0];
+            input.pos += text.length;
+          }
+          value = { tag: 'string', value: text };
+          break;
         }
-      } else {
-        result += fmt[i];
+        case '[': {
+          const close = format.indexOf(']', i + 1);
+          const set = format.slice(i, close < 0 ? undefined : close);
+          i = close < 0 ? format.length : close + 1;
+          const text = new RegExp(`^[${set.replace(/[\\\]]/g, '\\$&')}]*`).exec(input.text.slice(input.pos))![0];
+          input.pos += text.length;
+          value = { tag: 'string', value: text };
+          break;
+        }
+        default:
+          throw new RuntimeError(`Scanf: unsupported conversion %${spec}`, line);
       }
-      i++;
+      if (!skip) values.push(value);
     }
+    return values;
+  }
 
-    this.output.push(result);
-    return { tag: 'unit' };
+  /** Read one line of stdin without its newline; End_of_file once it is exhausted. */
+  private readLine(): string {
+    const { text, pos } = this.stdin;
+    if (pos >= text.length) raise('End_of_file');
+    const end = text.indexOf('\n', pos);
+    const line = text.slice(pos, end < 0 ? undefined : end).replace(/\r$/, '');
+    this.stdin.pos = end < 0 ? text.length : end + 1;
+    return line;
+  }
+
+  // ── Printf and Format ───────────────────────────────────────────────────
+  /**
+   * A printf-like function applied to its format: it takes the arguments the
+   * conversions need, then prints. Each call gets a fresh `output`, so a
+   * partial application like `Printf.sprintf "%d"` can be used many times.
+   */
+  private printFormat(format: Value, pretty: boolean, output: () => FormatOutput): Value {
+    if (format.tag !== 'string') throw new RuntimeError('printf: expected format string');
+    const items = parseFormat(format.value, pretty);
+    const run = (args: Value[]): Value => {
+      const out = output();
+      this.renderFormat(items, args, out);
+      return out.done();
+    };
+    const arity = formatArity(items);
+    return arity === 0 ? run([]) : { tag: 'builtin', name: 'printf', arity, fn: run, applied: [] };
+  }
+
+  private renderFormat(items: FormatItem[], args: Value[], out: FormatOutput): void {
+    let next = 0;
+    const count = (spec: number | '*' | undefined): number | undefined => {
+      if (spec !== '*') return spec;
+      const n = args[next++];
+      return n.tag === 'int' ? Number(n.value) : undefined;
+    };
+    // Conversions are rendered first, so a break knows how long the text after it is;
+    // %a and %t become their printer and its argument
+    const pieces = items.map((item): string | FormatItem | Value[] => {
+      if (item.kind === 'text') return item.text;
+      if (item.kind !== 'conversion') return item;
+      const width = count(item.width);
+      const precision = count(item.precision);
+      if (item.conversion === 'a') return [args[next++], args[next++]];
+      if (item.conversion === 't') return [args[next++]];
+      return formatConversion(item.conversion, item.flags, width, precision, args[next++]);
+    });
+
+    const { formatter } = out;
+    const write = (text: string) => formatter ? layoutText(formatter, text, out.write) : out.write(text);
+    pieces.forEach((piece, i) => {
+      if (typeof piece === 'string') {
+        write(piece);
+      } else if (Array.isArray(piece)) {
+        const [printer, ...rest] = piece;
+        const result = [out.printerArg, ...rest].reduce((f, a) => this.applyOne(f, a, 0), printer);
+        // sprintf's printers return their text
+        if (result.tag === 'string') write(result.value);
+      } else if (formatter) {
+        let ahead = 0;
+        for (let j = i + 1; j < pieces.length && typeof pieces[j] === 'string'; j++) ahead += (pieces[j] as string).length;
+        layoutDirective(formatter, piece, ahead, out.write);
+      }
+    });
   }
 
   // ── Module Access ───────────────────────────────────────────────────────
-  private resolveModuleAccess(module: string, field: string, line: number): Value {
+  private resolveModuleAccess(module: string, field: string, line: number, env: Environment): Value {
     const key = `${module}.${field}`;
-    const val = this.env.get(key);
+    // A module's own members come first: a user's Stack hides the stdlib one
+    const declared = env.getModule(module.split('.')[0]) ? this.resolveModule(module, env) : undefined;
+    const member = declared?.env.bindings.get(field);
+    if (member) return member;
+    const val = env.get(key);
     if (val) return val;
     throw new RuntimeError(`Unbound value ${key}`, line);
   }
 
+  /** Look up a module path (M or M.N). Stdlib modules are assembled from their flat `List.x` bindings. */
+  private resolveModule(path: string, env: Environment): VModule | undefined {
+    const [head, ...rest] = path.split('.');
+    let mod: ModuleValue | undefined = env.getModule(head) ?? this.stdlibModule(head);
+    for (const name of rest) {
+      mod = mod?.tag === 'module' ? mod.env.modules.get(name) : undefined;
+    }
+    return mod?.tag === 'module' ? mod : undefined;
+  }
+
+  private stdlibModule(name: string): VModule | undefined {
+    const prefix = name + '.';
+    const scope = new Environment(null, name);
+    for (const [key, val] of this.globalScopes[0].bindings) {
+      if (key.startsWith(prefix)) scope.set(key.slice(prefix.length), val);
+    }
+    return scope.bindings.size > 0 ? { tag: 'module', name, env: scope } : undefined;
+  }
+
+  private evalModuleExpr(expr: ModuleExpr, env: Environment, name: string, line: number): ModuleValue {
+    switch (expr.kind) {
+      case 'modpath': {
+        const [head, ...rest] = expr.path.split('.');
+        const mod = rest.length === 0 ? env.getModule(head) ?? this.stdlibModule(head) : this.resolveModulePath(expr.path, env);
+        if (!mod) throw new RuntimeError(`Unbound module ${expr.path}`, line);
+        return mod;
+      }
+      case 'structure': {
+        const modEnv = env.extend(name);
+        let scope = modEnv;
+        for (const item of expr.items) {
+          scope = this.evalDefinition(item, scope).scope;
+        }
+        if (scope === modEnv) return { tag: 'module', name, env: modEnv };
+        // Shadowing items opened scopes of their own: the members are the last binding of each name
+        const scopes: Environment[] = [];
+        for (let s: Environment = scope; s !== modEnv; s = s.parent!) scopes.unshift(s);
+        const members = env.extend(name);
+        for (const s of [modEnv, ...scopes]) {
+          for (const [key, val] of s.bindings) members.set(key, val);
+          for (const [key, mod] of s.modules) members.setModule(key, mod);
+          for (const [key, mt] of s.moduleTypes) members.setModuleType(key, mt);
+        }
+        return { tag: 'module', name, env: members };
+      }
+      case 'constraint': {
+        const mod = this.expectStructure(this.evalModuleExpr(expr.body, env, name, line), line);
+        // Only the values listed in the signature stay visible
+        const visible = new Environment(env, name);
+        for (const item of this.signatureItems(expr.signature, env, line)) {
+          const val = item.kind === 'valspec' ? mod.env.bindings.get(item.name) : undefined;
+          if (val) visible.set(item.name, val);
+        }
+        return { tag: 'module', name, env: visible };
+      }
+      case 'functor':
+        return {
+          tag: 'functor',
+          name,
+          apply: (arg) => {
+            const bodyEnv = env.extend(name);
+            bodyEnv.setModule(expr.param, arg);
+            return this.expectStructure(this.evalModuleExpr(expr.body, bodyEnv, name, line), line);
+          },
+        };
+      case 'apply': {
+        const functor = this.evalModuleExpr(expr.functor, env, name, line);
+        if (functor.tag !== 'functor') throw new RuntimeError('This module is not a functor', line);
+        const arg = this.expectStructure(this.evalModuleExpr(expr.arg, env, name, line), line);
+        return { ...functor.apply(arg), name };
+      }
+    }
+  }
+
+  private resolveModulePath(path: string, env: Environment): ModuleValue | undefined {
+    const dot = path.lastIndexOf('.');
+    return this.resolveModule(path.slice(0, dot), env)?.env.modules.get(path.slice(dot + 1));
+  }
+
+  private expectStructure(mod: ModuleValue, line: number): VModule {
+    if (mod.tag === 'functor') throw new RuntimeError(`Functor ${mod.name} must be applied before use`, line);
+    return mod;
+  }
+
+  private signatureItems(mt: ModuleTypeExpr, env: Environment, line: number): SignatureItem[] {
+    if (mt.kind === 'signature') return mt.items;
+    if (mt.kind === 'functortype') throw new RuntimeError('A structure was expected, not a functor', line);
+    const dot = mt.name.lastIndexOf('.');
+    const named = dot < 0
+      ? env.getModuleType(mt.name)
+      : this.resolveModule(mt.name.slice(0, dot), env)?.env.moduleTypes.get(mt.name.slice(dot + 1));
+    if (!named) throw new RuntimeError(`Unbound module type ${mt.name}`, line);
+    return this.signatureItems(named, env, line);
+  }
+
+  private evalModuleDecl(node: any, env: Environment, into: Environment = env): Value {
+    into.setModule(node.name, this.evalModuleExpr(node.body, env, node.name, node.line));
+    return { tag: 'unit' };
+  }
+
+  private evalOpen(node: any, env: Environment): Value {
+    const mod = this.resolveModule(node.module, env);
+    if (!mod) throw new RuntimeError(`Unbound module ${node.module}`, node.line);
+    env.open(mod.env);
+    return { tag: 'unit' };
+  }
+
+  private evalInclude(node: any, env: Environment): Value {
+    const mod = this.expectStructure(this.evalModuleExpr(node.module, env, 'include', node.line), node.line);
+    for (const [name, val] of mod.env.bindings) env.set(name, val);
+    for (const [name, sub] of mod.env.modules) env.setModule(name, sub);
+    for (const [name, mt] of mod.env.moduleTypes) env.setModuleType(name, mt);
+    return { tag: 'unit' };
+  }
+
   // ── Type Inference (basic) ──────────────────────────────────────────────
   inferType(val: Value): string {
     switch (val.tag) {
-      case 'int': return 'int';
+      case 'int': case 'int32': case 'int64': return val.tag;
       case 'float': return 'float';
       case 'string': return 'string';
       case 'char': return 'char';
@@ -756,6 +1481,8 @@ export class Evaluator {
       case 'constructor':
         if (val.value) return val.name;
         return val.name;
+      case 'exn': return 'exn';
+      case 'lazy': return val.value ? `${this.inferType(val.value)} lazy_t` : "'a lazy_t";
       case 'builtin': return this.inferBuiltinType(val);
       case 'record': return 'record';
       case 'array':
@@ -780,52 +1507,184 @@ export class Evaluator {
   }
 
   // ── Value Display ───────────────────────────────────────────────────────
-  displayValue(val: Value, depth: number = 0): string {
+  /**
+   * The value as the toplevel prints it. With a `budget`, each scalar printed
+   * uses up its length, and elements past the budget are shown as `...`.
+   */
+  displayValue(val: Value, depth: number = 0, budget?: { left: number }): string {
     if (depth > 10) return '...';
+    switch (val.tag) {
+      case 'list':
+        if (val.elements.length === 0) return '[]';
+        return `[${this.displayElements(val.elements, '; ', depth, budget)}]`;
+      case 'tuple':
+        return `(${this.displayElements(val.elements, ', ', depth, budget)})`;
+      case 'ref': return `{contents = ${this.displayValue(val.value, depth + 1, budget)}}`;
+      case 'constructor': case 'exn':
+        if (val.value) return `${val.name} ${this.displayArgument(val.value, depth + 1, budget)}`;
+        return val.name;
+      case 'lazy': return val.value ? `lazy ${this.displayArgument(val.value, depth + 1, budget)}` : '<lazy>';
+      case 'record': {
+        const fields: string[] = [];
+        for (const [k, v] of val.fields) {
+          if (budget && budget.left <= 0) {
+            fields.push('...');
+            break;
+          }
+          fields.push(`${k} = ${this.displayValue(v, depth + 1, budget)}`);
+        }
+        return `{${fields.join('; ')}}`;
+      }
+      case 'array':
+        return `[|${this.displayElements(val.elements, '; ', depth, budget)}|]`;
+    }
+    const text = this.displayScalar(val, budget?.left);
+    if (budget) budget.left -= text.length;
+    return text;
+  }
+
+  /** Values without parts; a long string is cut to `room` characters. */
+  private displayScalar(val: Value, room = Infinity): string {
     switch (val.tag) {
       case 'int': return val.value.toString();
+      case 'int32': return `${val.value}l`;
+      case 'int64': return `${val.value}L`;
       case 'float': {
         const s = val.value.toString();
         return s.includes('.') ? s : s + '.';
       }
-      case 'string': return `"${val.value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t')}"`;
+      case 'string': {
+        const cut = val.value.length > room ? val.value.slice(0, Math.max(0, room)) : val.value;
+        const text = cut.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t');
+        return cut === val.value ? `"${text}"` : `"${text}..."`;
+      }
       case 'char': return `'${val.value}'`;
       case 'bool': return val.value ? 'true' : 'false';
       case 'unit': return '()';
-      case 'list':
-        if (val.elements.length === 0) return '[]';
-        return `[${val.elements.map(e => this.displayValue(e, depth + 1)).join('; ')}]`;
-      case 'tuple':
-        return `(${val.elements.map(e => this.displayValue(e, depth + 1)).join(', ')})`;
       case 'fun': return '<fun>';
       case 'recfun': return '<fun>';
-      case 'ref': return `{contents = ${this.displayValue(val.value, depth + 1)}}`;
-      case 'constructor':
-        if (val.value) return `${val.name} ${this.displayValue(val.value, depth + 1)}`;
-        return val.name;
       case 'builtin': return `<fun>`;
-      case 'record': {
-        const fields = Array.from(val.fields.entries()).map(([k, v]) => `${k} = ${this.displayValue(v, depth + 1)}`);
-        return `{${fields.join('; ')}}`;
-      }
-      case 'array':
-        return `[|${val.elements.map(e => this.displayValue(e, depth + 1)).join('; ')}|]`;
+      case 'module': return '<module>';
+      case 'functor': return '<functor>';
+      case 'map': case 'set': case 'hashtbl': case 'stack': case 'queue': case 'channel': case 'buffer': case 'formatter':
+        return '<abstr>';
       default: return '<unknown>';
     }
   }
 
+  /** The value cut to about PREVIEW_LENGTH characters, as recorded pauses and trace events keep it. */
+  private preview(val: Value): string {
+    return this.displayValue(val, 0, { left: PREVIEW_LENGTH });
+  }
+
+  /** Elements of a list, tuple or array, up to what the budget allows. */
+  private displayElements(elements: Value[], separator: string, depth: number, budget?: { left: number }): string {
+    const parts: string[] = [];
+    for (const element of elements) {
+      if (budget && budget.left <= 0) {
+        parts.push('...');
+        break;
+      }
+      parts.push(this.displayValue(element, depth + 1, budget));
+    }
+    return parts.join(separator);
+  }
+
+  // ── Execution Trace ─────────────────────────────────────────────────────
+  /** Record an event of the current run; a call's `value` lists the arguments in scope. */
+  private traceEvent(kind: TraceEvent['kind'], line: number, name: string, value: string | null, env: Environment, previous?: string): void {
+    const trace = this.trace;
+    if (!trace) return;
+    if (trace.truncated || trace.events.length >= MAX_TRACE_EVENTS) {
+      trace.truncated = true;
+      return;
+    }
+    const { memoryState } = this.snapshot(env);
+    if (value === null) {
+      const frame = memoryState.stack[memoryState.stack.length - 1];
+      // Innermost first in the frame; arguments read better in call order
+      value = frame.variables.filter(v => v.value !== '<fun>').reverse().map(v => `${v.name} = ${v.value}`).join(', ');
+    }
+    const memory = diffMemoryState(this.traceState, memoryState);
+    this.traceSize += deltaSize(memory) + value.length + (previous?.length ?? 0);
+    if (this.traceSize > MAX_TRACE_SIZE) {
+      trace.truncated = true;
+      return;
+    }
+    this.traceState = memoryState;
+    trace.events.push({ kind, line, depth: this.getCallDepth(), name, value, previous, memory });
+  }
+
+  /** How the Memory panel labels heap objects. */
+  private heapAddress(id: number): string {
+    return `0x${id.toString(16).padStart(3, '0')}`;
+  }
+
   // ── Memory State ────────────────────────────────────────────────────────
-  getMemoryState(): MemoryState {
+  /** Depth of the call stack; 0 while evaluating top-level phrases. */
+  getCallDepth(): number {
+    return this.callStack.length - 1;
+  }
+
+  /**
+   * How much has been printed so far and the memory state as seen from `env`,
+   * for a debugger pause. Values are cut short, as many pauses are kept.
+   */
+  snapshot(env: Environment): { outputLength: number; memoryState: MemoryState } {
+    const memoryState = this.getMemoryState(true);
+    // Local bindings (let ... in, loop variables, arguments) visible from `env`
+    const locals: VariableInfo[] = [];
+    const seen = new Set<string>();
+    for (let scope: Environment | null = env; scope && !this.globalScopes.includes(scope); scope = scope.parent) {
+      for (const [name, val] of scope.bindings) {
+        if (seen.has(name)) continue;
+        seen.add(name);
+        locals.push({ name, value: this.preview(val), type: this.inferType(val) });
+      }
+    }
+    const top = this.callStack[this.callStack.length - 1];
+    if (top.name !== 'toplevel') {
+      // getMemoryState listed the frame's own bindings; the locals include them
+      if (top.env.bindings.size > 0) memoryState.stack.pop();
+      memoryState.stack.push({ name: top.name, variables: locals, line: top.line });
+    } else if (locals.length > 0) {
+      memoryState.stack.push({ name: 'toplevel', variables: locals });
+    }
+    return { outputLength: this.outputSize, memoryState };
+  }
+
+  /** With `preview`, values are cut to about PREVIEW_LENGTH characters. */
+  getMemoryState(preview = false): MemoryState {
+    const budget = () => preview ? { left: PREVIEW_LENGTH } : undefined;
+    const show = (val: Value) => preview ? this.preview(val) : this.displayValue(val);
     const stack: StackFrameType[] = [];
 
     // Global environment
     const globalVars: VariableInfo[] = [];
-    for (const [name, val] of this.env.bindings) {
+    // The bindings and modules still visible, where a later scope shadows an earlier one
+    const bindings = new Map<string, Value>();
+    const modules = new Map<string, ModuleValue>();
+    for (const scope of this.globalScopes) {
+      for (const [name, val] of scope.bindings) bindings.set(name, val);
+      for (const [name, mod] of scope.modules) modules.set(name, mod);
+    }
+    for (const [name, val] of bindings) {
       if (!this.isStdlibName(name)) {
         globalVars.push({
           name,
-          value: this.displayValue(val),
-          type: this.inferType(val),
+          value: show(val),
+          type: this.declaredTypes.get(name) ?? this.inferType(val),
+        });
+      }
+    }
+    for (const [modName, mod] of modules) {
+      if (mod.tag !== 'module' || mod.env.parent === null) continue; // functor or stdlib module
+      for (const [name, val] of mod.env.bindings) {
+        const qualified = `${modName}.${name}`;
+        globalVars.push({
+          name: qualified,
+          value: show(val),
+          type: this.declaredTypes.get(qualified) ?? this.inferType(val),
         });
       }
     }
@@ -840,7 +1699,7 @@ export class Evaluator {
       for (const [name, val] of frame.env.bindings) {
         vars.push({
           name,
-          value: this.displayValue(val),
+          value: show(val),
           type: this.inferType(val),
         });
       }
@@ -851,74 +1710,147 @@ export class Evaluator {
 
     const typeDefsArr = Array.from(this.typeDefinitions.entries()).map(([name, def]) => ({
       name,
-      definition: def.variants.map(v => v.type ? `${v.name} of ${v.type}` : v.name).join(' | '),
+      definition: showTypeDefinition(def.definition),
     }));
 
     return {
       stack,
-      heap: this.heapObjects,
+      heap: this.heapObjects.map(obj => {
+        const value = this.heapValues.get(obj.id);
+        if (value?.tag === 'lazy') {
+          const forced = value.value !== undefined || value.raised !== undefined;
+          const type = value.value ? this.inferType(value) : obj.type;
+          return { ...obj, type, value: this.heapDisplay(value, budget()), lazy: forced ? 'forced' as const : 'unforced' as const };
+        }
+        if (value) return { ...obj, value: this.heapDisplay(value, budget()) };
+        // Refs keep the text of their contents, updated on each assignment
+        return preview && obj.value.length > PREVIEW_LENGTH ? { ...obj, value: `${obj.value.slice(0, PREVIEW_LENGTH)}...` } : { ...obj };
+      }),
       environment: globalVars,
       typeDefinitions: typeDefsArr,
     };
   }
 
+  /** A constructor's or `lazy`'s argument, parenthesized when it is itself an application or negative. */
+  private displayArgument(val: Value, depth: number, budget?: { left: number }): string {
+    const text = this.displayValue(val, depth, budget);
+    const applied = ((val.tag === 'constructor' || val.tag === 'exn') && val.value !== undefined) || (val.tag === 'lazy' && val.value !== undefined);
+    return applied || text.startsWith('-') ? `(${text})` : text;
+  }
+
+  /** The contents of a heap object, as the Memory panel shows them; containers, which print as <abstr>, show their elements. */
+  private heapDisplay(val: Value, budget?: { left: number }): string {
+    switch (val.tag) {
+      case 'hashtbl': {
+        const bindings: string[] = [];
+        for (const [k, v] of Array.from(val.buckets.values()).flat()) {
+          if (budget && budget.left <= 0) {
+            bindings.push('...');
+            break;
+          }
+          bindings.push(`${this.displayValue(k, 0, budget)} -> ${this.displayValue(v, 0, budget)}`);
+        }
+        return `[${bindings.join('; ')}]`;
+      }
+      case 'buffer': return this.displayValue({ tag: 'string', value: val.contents }, 0, budget);
+      case 'stack': case 'queue': return this.displayValue({ tag: 'list', elements: val.elements }, 0, budget);
+      case 'lazy':
+        if (val.value) return this.displayValue(val.value, 0, budget);
+        return val.raised ? `raised ${this.displayValue(val.raised, 0, budget)}` : '<not yet computed>';
+      default: return this.displayValue(val, 0, budget);
+    }
+  }
+
   private isStdlibName(name: string): boolean {
     return name.startsWith('List.') || name.startsWith('Array.') || name.startsWith('String.') ||
-           name.startsWith('Char.') || name.startsWith('Hashtbl.') || name.startsWith('Buffer.') ||
+           name.startsWith('Char.') || name.startsWith('Int.') || name.startsWith('Hashtbl.') || name.startsWith('Buffer.') ||
+           name.startsWith('Printf.') || name.startsWith('Format.') || name.startsWith('Stack.') || name.startsWith('Queue.') ||
+           name.startsWith('Option.') || name.startsWith('Result.') || name.startsWith('Seq.') ||
+           name.startsWith('Int32.') || name.startsWith('Int64.') || name.startsWith('Printexc.') || name.startsWith('Fun.') || name.startsWith('Lazy.') ||
            ['print_string', 'print_int', 'print_float', 'print_char', 'print_endline', 'print_newline',
             'string_of_int', 'string_of_float', 'int_of_string', 'float_of_string', 'int_of_float',
             'float_of_int', 'char_of_int', 'int_of_char', 'string_of_bool', 'bool_of_string',
             'String.length', 'String.sub', 'String.concat', 'String.make', 'String.uppercase_ascii',
             'String.lowercase_ascii', 'String.contains',
             'fst', 'snd', 'min', 'max', 'abs', 'abs_float', 'sqrt', 'succ', 'pred',
-            'failwith', 'invalid_arg', 'ignore',
-            'Some', 'None', 'Failure', 'Invalid_argument', 'Not_found', 'Exit',
+            'failwith', 'invalid_arg', 'ignore', 'compare', 'max_int', 'min_int', 'lnot',
+            'Some', 'None', 'Ok', 'Error', 'Empty', 'Division_by_zero', 'Failure', 'Invalid_argument', 'Not_found', 'Exit', 'End_of_file', 'Scan_failure',
+            'Match_failure', 'Assert_failure', 'Finally_raised', 'Undefined',
+            'read_line', 'read_int', 'read_float', 'read_int_opt', 'read_float_opt',
+            'stdout', 'stderr', 'output_string', 'flush', 'format_of_string', 'string_of_format',
            ].includes(name);
   }
 
   // ── Standard Library ────────────────────────────────────────────────────
   private installStdlib(): void {
     const env = this.env;
-    const mkBuiltin = (name: string, arity: number, fn: (args: Value[]) => Value): VBuiltin => ({
-      tag: 'builtin', name, arity, fn, applied: []
-    });
+    const mkBuiltin = (name: string, arity: number, fn: (args: Value[]) => Value): VBuiltin => {
+      const labels = signatureLabels(name, arity);
+      return labels ? { tag: 'builtin', name, arity, fn, applied: [], labels } : { tag: 'builtin', name, arity, fn, applied: [] };
+    };
 
     // Print functions
     env.set('print_string', mkBuiltin('string -> unit', 1, (args) => {
-      if (args[0].tag === 'string') this.output.push(args[0].value);
+      if (args[0].tag === 'string') this.write(args[0].value);
       return { tag: 'unit' };
     }));
 
     env.set('print_int', mkBuiltin('int -> unit', 1, (args) => {
-      if (args[0].tag === 'int') this.output.push(args[0].value.toString());
+      if (args[0].tag === 'int') this.write(args[0].value.toString());
       return { tag: 'unit' };
     }));
 
     env.set('print_float', mkBuiltin('float -> unit', 1, (args) => {
-      if (args[0].tag === 'float') this.output.push(args[0].value.toString());
+      if (args[0].tag === 'float') this.write(args[0].value.toString());
       return { tag: 'unit' };
     }));
 
     env.set('print_char', mkBuiltin('char -> unit', 1, (args) => {
-      if (args[0].tag === 'char') this.output.push(args[0].value);
+      if (args[0].tag === 'char') this.write(args[0].value);
       return { tag: 'unit' };
     }));
 
     env.set('print_endline', mkBuiltin('string -> unit', 1, (args) => {
-      if (args[0].tag === 'string') this.output.push(args[0].value + '\n');
+      if (args[0].tag === 'string') this.write(args[0].value + '\n');
       return { tag: 'unit' };
     }));
 
     env.set('print_newline', mkBuiltin('unit -> unit', 1, (_) => {
-      this.output.push('\n');
+      this.write('\n');
       return { tag: 'unit' };
     }));
 
     env.set('prerr_endline', mkBuiltin('string -> unit', 1, (args) => {
-      if (args[0].tag === 'string') this.output.push(args[0].value + '\n');
+      if (args[0].tag === 'string') this.write(args[0].value + '\n');
       return { tag: 'unit' };
     }));
 
+    // Standard input
+    env.set('End_of_file', mkException('End_of_file'));
+    env.set('Scan_failure', mkException('Scan_failure'));
+    const parseNumber = (text: string, kind: 'int' | 'float'): Value | null => {
+      const trimmed = text.trim();
+      if (kind === 'int') {
+        const n = parseInteger(trimmed);
+        return n === null ? null : mkInt(n);
+      }
+      if (!/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(trimmed)) return null;
+      return { tag: 'float', value: parseFloat(trimmed) };
+    };
+    env.set('read_line', mkBuiltin('unit -> string', 1, () => ({ tag: 'string', value: this.readLine() })));
+    env.set('read_int', mkBuiltin('unit -> int', 1, () => parseNumber(this.readLine(), 'int')
+      ?? raise('Failure', 'int_of_string')));
+    env.set('read_float', mkBuiltin('unit -> float', 1, () => parseNumber(this.readLine(), 'float')
+      ?? raise('Failure', 'float_of_string')));
+    env.set('read_int_opt', mkBuiltin('unit -> int option', 1, () => {
+      const n = parseNumber(this.readLine(), 'int');
+      return n ? { tag: 'constructor', name: 'Some', value: n } : { tag: 'constructor', name: 'None' };
+    }));
+    env.set('read_float_opt', mkBuiltin('unit -> float option', 1, () => {
+      const n = parseNumber(this.readLine(), 'float');
+      return n ? { tag: 'constructor', name: 'Some', value: n } : { tag: 'constructor', name: 'None' };
+    }));
+
     // Conversion functions
     env.set('string_of_int', mkBuiltin('int -> string', 1, (args) => {
       if (args[0].tag === 'int') return { tag: 'string', value: args[0].value.toString() };
@@ -932,9 +1864,9 @@ export class Evaluator {
 
     env.set('int_of_string', mkBuiltin('string -> int', 1, (args) => {
       if (args[0].tag === 'string') {
-        const n = parseInt(args[0].value);
-        if (isNaN(n)) throw new RuntimeError('int_of_string: invalid argument');
-        return { tag: 'int', value: n };
+        const n = parseInteger(args[0].value);
+        if (n === null) raise('Failure', 'int_of_string');
+        return mkInt(n);
       }
       throw new RuntimeError('int_of_string: expected string');
     }));
@@ -942,29 +1874,29 @@ export class Evaluator {
     env.set('float_of_string', mkBuiltin('string -> float', 1, (args) => {
       if (args[0].tag === 'string') {
         const n = parseFloat(args[0].value);
-        if (isNaN(n)) throw new RuntimeError('float_of_string: invalid argument');
+        if (isNaN(n)) raise('Failure', 'float_of_string');
         return { tag: 'float', value: n };
       }
       throw new RuntimeError('float_of_string: expected string');
     }));
 
     env.set('int_of_float', mkBuiltin('float -> int', 1, (args) => {
-      if (args[0].tag === 'float') return { tag: 'int', value: Math.trunc(args[0].value) };
+      if (args[0].tag === 'float') return mkInt(args[0].value);
       throw new RuntimeError('int_of_float: expected float');
     }));
 
     env.set('float_of_int', mkBuiltin('int -> float', 1, (args) => {
-      if (args[0].tag === 'int') return { tag: 'float', value: args[0].value };
+      if (args[0].tag === 'int') return { tag: 'float', value: Number(args[0].value) };
       throw new RuntimeError('float_of_int: expected int');
     }));
 
     env.set('char_of_int', mkBuiltin('int -> char', 1, (args) => {
-      if (args[0].tag === 'int') return { tag: 'char', value: String.fromCharCode(args[0].value) };
+      if (args[0].tag === 'int') return { tag: 'char', value: String.fromCharCode(Number(args[0].value)) };
       throw new RuntimeError('char_of_int: expected int');
     }));
 
     env.set('int_of_char', mkBuiltin('char -> int', 1, (args) => {
-      if (args[0].tag === 'char') return { tag: 'int', value: args[0].value.charCodeAt(0) };
+      if (args[0].tag === 'char') return mkInt(args[0].value.charCodeAt(0));
       throw new RuntimeError('int_of_char: expected char');
     }));
 
@@ -975,7 +1907,8 @@ export class Evaluator {
 
     // Math functions
     env.set('abs', mkBuiltin('int -> int', 1, (args) => {
-      if (args[0].tag === 'int') return { tag: 'int', value: Math.abs(args[0].value) };
+      // abs min_int is min_int, as it has no positive counterpart
+      if (args[0].tag === 'int') return mkInt(args[0].value < 0n ? -args[0].value : args[0].value);
       throw new RuntimeError('abs: expected int');
     }));
 
@@ -990,12 +1923,12 @@ export class Evaluator {
     }));
 
     env.set('succ', mkBuiltin('int -> int', 1, (args) => {
-      if (args[0].tag === 'int') return { tag: 'int', value: args[0].value + 1 };
+      if (args[0].tag === 'int') return mkInt(args[0].value + 1n);
       throw new RuntimeError('succ: expected int');
     }));
 
     env.set('pred', mkBuiltin('int -> int', 1, (args) => {
-      if (args[0].tag === 'int') return { tag: 'int', value: args[0].value - 1 };
+      if (args[0].tag === 'int') return mkInt(args[0].value - 1n);
       throw new RuntimeError('pred: expected int');
     }));
 
@@ -1021,42 +1954,101 @@ export class Evaluator {
     // Option type
     env.set('Some', { tag: 'constructor', name: 'Some' } as VConstructor);
     env.set('None', { tag: 'constructor', name: 'None' } as VConstructor);
+    env.set('Ok', { tag: 'constructor', name: 'Ok' } as VConstructor);
+    env.set('Error', { tag: 'constructor', name: 'Error' } as VConstructor);
 
     // Exception constructors
-    env.set('Failure', { tag: 'constructor', name: 'Failure' } as VConstructor);
-    env.set('Invalid_argument', { tag: 'constructor', name: 'Invalid_argument' } as VConstructor);
-    env.set('Not_found', { tag: 'constructor', name: 'Not_found' } as VConstructor);
-    env.set('Exit', { tag: 'constructor', name: 'Exit' } as VConstructor);
+    env.set('Failure', mkException('Failure'));
+    env.set('Invalid_argument', mkException('Invalid_argument'));
+    env.set('Not_found', mkException('Not_found'));
+    env.set('Exit', mkException('Exit'));
+    env.set('Division_by_zero', mkException('Division_by_zero'));
+    env.set('Empty', mkException('Empty'));
+    env.set('Match_failure', mkException('Match_failure'));
+    env.set('Assert_failure', mkException('Assert_failure'));
+    env.set('Finally_raised', mkException('Finally_raised'));
 
     env.set('failwith', mkBuiltin('string -> _', 1, (args) => {
-      throw new OCamlException({ tag: 'constructor', name: 'Failure', value: args[0] }, 0);
+      throw new OCamlException(mkException('Failure', args[0]));
     }));
 
     env.set('invalid_arg', mkBuiltin('string -> _', 1, (args) => {
-      throw new OCamlException({ tag: 'constructor', name: 'Invalid_argument', value: args[0] }, 0);
+      throw new OCamlException(mkException('Invalid_argument', args[0]));
+    }));
+
+    env.set('Printexc.to_string', mkBuiltin('exn -> string', 1, (args) => {
+      if (args[0].tag === 'exn') return { tag: 'string', value: exceptionToString(args[0]) };
+      throw new RuntimeError('Printexc.to_string: expected exn');
+    }));
+
+    // Backtraces are always recorded
+    env.set('Printexc.record_backtrace', mkBuiltin('bool -> unit', 1, () => ({ tag: 'unit' })));
+
+    env.set('Fun.protect', mkBuiltin("finally:(unit -> unit) -> (unit -> 'a) -> 'a", 2, (args) => {
+      const unit: Value = { tag: 'unit' };
+      // An exception escaping `finally` is wrapped in Finally_raised
+      const release = (): void => {
+        try {
+          this.applyOne(args[0], unit, 0);
+        } catch (e) {
+          if (e instanceof OCamlException) throw new OCamlException(mkException('Finally_raised', e.exn), e.line);
+          throw e;
+        }
+      };
+      let result: Value;
+      try {
+        result = this.applyOne(args[1], unit, 0);
+      } catch (e) {
+        if (e instanceof OCamlException) release();
+        throw e;
+      }
+      release();
+      return result;
+    }));
+
+    // Lazy
+    const suspension = (v: Value, fn: string): VLazy => {
+      if (v.tag === 'lazy') return v;
+      throw new RuntimeError(`${fn}: expected lazy value`);
+    };
+    env.set('Undefined', mkException('Undefined'));
+    env.set('Lazy.force', mkBuiltin("'a lazy_t -> 'a", 1, (args) => this.force(suspension(args[0], 'Lazy.force'), 0)));
+    env.set('Lazy.from_val', mkBuiltin("'a -> 'a lazy_t", 1, (args) => {
+      const lz = this.suspend(() => args[0], 0);
+      this.force(lz, 0);
+      return lz;
+    }));
+    env.set('Lazy.from_fun', mkBuiltin("(unit -> 'a) -> 'a lazy_t", 1, (args) =>
+      this.suspend(() => this.applyOne(args[0], { tag: 'unit' }, 0), 0)));
+    env.set('Lazy.is_val', mkBuiltin("'a lazy_t -> bool", 1, (args) =>
+      ({ tag: 'bool', value: suspension(args[0], 'Lazy.is_val').value !== undefined })));
+    env.set('Lazy.map', mkBuiltin("('a -> 'b) -> 'a lazy_t -> 'b lazy_t", 2, (args) => {
+      const lz = suspension(args[1], 'Lazy.map');
+      return this.suspend(() => this.applyOne(args[0], this.force(lz, 0), 0), 0);
     }));
 
     env.set('ignore', mkBuiltin("'a -> unit", 1, (_) => ({ tag: 'unit' })));
 
     // ── List module ─────────────────────────────────────────────────────
     env.set('List.length', mkBuiltin("'a list -> int", 1, (args) => {
-      if (args[0].tag === 'list') return { tag: 'int', value: args[0].elements.length };
+      if (args[0].tag === 'list') return mkInt(args[0].elements.length);
       throw new RuntimeError('List.length: expected list');
     }));
 
     env.set('List.hd', mkBuiltin("'a list -> 'a", 1, (args) => {
       if (args[0].tag === 'list' && args[0].elements.length > 0) return args[0].elements[0];
-      throw new RuntimeError('List.hd: empty list');
+      raise('Failure', 'hd');
     }));
 
     env.set('List.tl', mkBuiltin("'a list -> 'a list", 1, (args) => {
       if (args[0].tag === 'list' && args[0].elements.length > 0) return { tag: 'list', elements: args[0].elements.slice(1) };
-      throw new RuntimeError('List.tl: empty list');
+      raise('Failure', 'tl');
     }));
 
     env.set('List.rev', mkBuiltin("'a list -> 'a list", 1, (args) => {
-      if (args[0].tag === 'list') return { tag: 'list', elements: [...args[0].elements].reverse() };
-      throw new RuntimeError('List.rev: expected list');
+      if (args[0].tag !== 'list') throw new RuntimeError('List.rev: expected list');
+      this.allocate(3 * args[0].elements.length);
+      return { tag: 'list', elements: [...args[0].elements].reverse() };
     }));
 
     env.set('List.map', mkBuiltin("('a -> 'b) -> 'a list -> 'b list", 2, (args) => {
@@ -1064,6 +2056,7 @@ export class Evaluator {
       const list = args[1];
       if (list.tag !== 'list') throw new RuntimeError('List.map: expected list');
       const result = list.elements.map(e => this.applyOne(fn, e, 0));
+      this.allocate(3 * result.length);
       return { tag: 'list', elements: result };
     }));
 
@@ -1072,9 +2065,10 @@ export class Evaluator {
       const list = args[1];
       if (list.tag !== 'list') throw new RuntimeError('List.mapi: expected list');
       const result = list.elements.map((e, i) => {
-        const partialFn = this.applyOne(fn, { tag: 'int', value: i }, 0);
+        const partialFn = this.applyOne(fn, mkInt(i), 0);
         return this.applyOne(partialFn, e, 0);
       });
+      this.allocate(3 * result.length);
       return { tag: 'list', elements: result };
     }));
 
@@ -1086,6 +2080,7 @@ export class Evaluator {
         const v = this.applyOne(fn, e, 0);
         return v.tag === 'bool' && v.value;
       });
+      this.allocate(3 * result.length);
       return { tag: 'list', elements: result };
     }));
 
@@ -1124,9 +2119,9 @@ export class Evaluator {
     env.set('List.nth', mkBuiltin("'a list -> int -> 'a", 2, (args) => {
       if (args[0].tag !== 'list') throw new RuntimeError('List.nth: expected list');
       if (args[1].tag !== 'int') throw new RuntimeError('List.nth: expected int');
-      if (args[1].value < 0 || args[1].value >= args[0].elements.length)
-        throw new RuntimeError('List.nth: index out of bounds');
-      return args[0].elements[args[1].value];
+      if (args[1].value < 0) raise('Invalid_argument', 'List.nth');
+      if (args[1].value >= args[0].elements.length) raise('Failure', 'nth');
+      return args[0].elements[Number(args[1].value)];
     }));
 
     env.set('List.mem', mkBuiltin("'a -> 'a list -> bool", 2, (args) => {
@@ -1140,8 +2135,9 @@ export class Evaluator {
       const sorted = [...args[1].elements].sort((a, b) => {
         const result = this.applyOne(this.applyOne(fn, a, 0), b, 0);
         if (result.tag !== 'int') throw new RuntimeError('List.sort: comparison must return int');
-        return result.value;
+        return Number(result.value);
       });
+      this.allocate(3 * sorted.length);
       return { tag: 'list', elements: sorted };
     }));
 
@@ -1152,7 +2148,7 @@ export class Evaluator {
           return e.elements[1];
         }
       }
-      throw new OCamlException({ tag: 'constructor', name: 'Not_found' }, 0);
+      raise('Not_found');
     }));
 
     env.set('List.concat', mkBuiltin("'a list list -> 'a list", 1, (args) => {
@@ -1161,6 +2157,7 @@ export class Evaluator {
       for (const e of args[0].elements) {
         if (e.tag === 'list') result.push(...e.elements);
       }
+      this.allocate(3 * result.length);
       return { tag: 'list', elements: result };
     }));
 
@@ -1184,34 +2181,43 @@ export class Evaluator {
 
     env.set('List.init', mkBuiltin("int -> (int -> 'a) -> 'a list", 2, (args) => {
       if (args[0].tag !== 'int') throw new RuntimeError('List.init: expected int');
+      if (args[0].value < 0) raise('Invalid_argument', 'List.init');
+      this.allocate(3 * Number(args[0].value));
       const result: Value[] = [];
       for (let i = 0; i < args[0].value; i++) {
-        result.push(this.applyOne(args[1], { tag: 'int', value: i }, 0));
+        result.push(this.applyOne(args[1], mkInt(i), 0));
       }
       return { tag: 'list', elements: result };
     }));
 
     // ── String module ───────────────────────────────────────────────────
     env.set('String.length', mkBuiltin('string -> int', 1, (args) => {
-      if (args[0].tag === 'string') return { tag: 'int', value: args[0].value.length };
+      if (args[0].tag === 'string') return mkInt(args[0].value.length);
       throw new RuntimeError('String.length: expected string');
     }));
 
     env.set('String.sub', mkBuiltin('string -> int -> int -> string', 3, (args) => {
-      if (args[0].tag === 'string' && args[1].tag === 'int' && args[2].tag === 'int')
-        return { tag: 'string', value: args[0].value.substring(args[1].value, args[1].value + args[2].value) };
+      if (args[0].tag === 'string' && args[1].tag === 'int' && args[2].tag === 'int') {
+        const [start, length] = [Number(args[1].value), Number(args[2].value)];
+        if (start < 0 || length < 0 || start + length > args[0].value.length) raise('Invalid_argument', 'String.sub / Bytes.sub');
+        return { tag: 'string', value: args[0].value.substr(start, length) };
+      }
       throw new RuntimeError('String.sub: invalid arguments');
     }));
 
     env.set('String.make', mkBuiltin('int -> char -> string', 2, (args) => {
-      if (args[0].tag === 'int' && args[1].tag === 'char')
-        return { tag: 'string', value: args[1].value.repeat(args[0].value) };
-      throw new RuntimeError('String.make: invalid arguments');
+      if (args[0].tag !== 'int' || args[1].tag !== 'char') throw new RuntimeError('String.make: invalid arguments');
+      const length = Number(args[0].value);
+      if (length < 0) raise('Invalid_argument', 'String.make / Bytes.make');
+      this.allocate(stringWords(length));
+      return { tag: 'string', value: args[1].value.repeat(length) };
     }));
 
     env.set('String.concat', mkBuiltin('string -> string list -> string', 2, (args) => {
       if (args[0].tag === 'string' && args[1].tag === 'list') {
         const parts = args[1].elements.map(e => e.tag === 'string' ? e.value : '');
+        const length = parts.reduce((n, part) => n + part.length, 0) + Math.max(0, parts.length - 1) * args[0].value.length;
+        this.allocate(stringWords(length));
         return { tag: 'string', value: parts.join(args[0].value) };
       }
       throw new RuntimeError('String.concat: invalid arguments');
@@ -1235,15 +2241,15 @@ export class Evaluator {
 
     // ── Array module ────────────────────────────────────────────────────
     env.set('Array.length', mkBuiltin("'a array -> int", 1, (args) => {
-      if (args[0].tag === 'array') return { tag: 'int', value: args[0].elements.length };
+      if (args[0].tag === 'array') return mkInt(args[0].elements.length);
       throw new RuntimeError('Array.length: expected array');
     }));
 
     env.set('Array.get', mkBuiltin("'a array -> int -> 'a", 2, (args) => {
       if (args[0].tag === 'array' && args[1].tag === 'int') {
         if (args[1].value < 0 || args[1].value >= args[0].elements.length)
-          throw new RuntimeError('Array.get: index out of bounds');
-        return args[0].elements[args[1].value];
+          raise('Invalid_argument', 'index out of bounds');
+        return args[0].elements[Number(args[1].value)];
       }
       throw new RuntimeError('Array.get: invalid arguments');
     }));
@@ -1251,8 +2257,8 @@ export class Evaluator {
     env.set('Array.set', mkBuiltin("'a array -> int -> 'a -> unit", 3, (args) => {
       if (args[0].tag === 'array' && args[1].tag === 'int') {
         if (args[1].value < 0 || args[1].value >= args[0].elements.length)
-          throw new RuntimeError('Array.set: index out of bounds');
-        args[0].elements[args[1].value] = args[2];
+          raise('Invalid_argument', 'index out of bounds');
+        args[0].elements[Number(args[1].value)] = args[2];
         return { tag: 'unit' };
       }
       throw new RuntimeError('Array.set: invalid arguments');
@@ -1260,18 +2266,21 @@ export class Evaluator {
 
     env.set('Array.make', mkBuiltin("int -> 'a -> 'a array", 2, (args) => {
       if (args[0].tag !== 'int') throw new RuntimeError('Array.make: expected int');
-      const id = this.nextHeapId++;
-      return { tag: 'array', elements: Array(args[0].value).fill(args[1]), id };
+      const length = Number(args[0].value);
+      if (length < 0) raise('Invalid_argument', 'Array.make');
+      this.allocate(length + 1);
+      return this.allocateObject<VArray>({ tag: 'array', elements: Array(length).fill(args[1]), id: 0 }, 'array', 0);
     }));
 
     env.set('Array.init', mkBuiltin("int -> (int -> 'a) -> 'a array", 2, (args) => {
       if (args[0].tag !== 'int') throw new RuntimeError('Array.init: expected int');
+      if (args[0].value < 0) raise('Invalid_argument', 'Array.init');
+      this.allocate(Number(args[0].value) + 1);
       const elements: Value[] = [];
       for (let i = 0; i < args[0].value; i++) {
-        elements.push(this.applyOne(args[1], { tag: 'int', value: i }, 0));
+        elements.push(this.applyOne(args[1], mkInt(i), 0));
       }
-      const id = this.nextHeapId++;
-      return { tag: 'array', elements, id };
+      return this.allocateObject<VArray>({ tag: 'array', elements, id: 0 }, 'array', 0);
     }));
 
     env.set('Array.to_list', mkBuiltin("'a array -> 'a list", 1, (args) => {
@@ -1281,31 +2290,435 @@ export class Evaluator {
 
     env.set('Array.of_list', mkBuiltin("'a list -> 'a array", 1, (args) => {
       if (args[0].tag === 'list') {
-        const id = this.nextHeapId++;
-        return { tag: 'array', elements: [...args[0].elements], id };
+        return this.allocateObject<VArray>({ tag: 'array', elements: [...args[0].elements], id: 0 }, 'array', args[0].elements.length + 1);
       }
       throw new RuntimeError('Array.of_list: expected list');
     }));
 
     // ── Char module ─────────────────────────────────────────────────────
     env.set('Char.chr', mkBuiltin('int -> char', 1, (args) => {
-      if (args[0].tag === 'int') return { tag: 'char', value: String.fromCharCode(args[0].value) };
+      if (args[0].tag === 'int') return { tag: 'char', value: String.fromCharCode(Number(args[0].value)) };
       throw new RuntimeError('Char.chr: expected int');
     }));
 
     env.set('Char.code', mkBuiltin('char -> int', 1, (args) => {
-      if (args[0].tag === 'char') return { tag: 'int', value: args[0].value.charCodeAt(0) };
+      if (args[0].tag === 'char') return mkInt(args[0].value.charCodeAt(0));
       throw new RuntimeError('Char.code: expected char');
     }));
+
+    // ── Comparison ──────────────────────────────────────────────────────
+    const compare = (args: Value[]): VInt => mkInt(Math.sign(this.compareValues(args[0], args[1])));
+    const equal = (args: Value[]): VBool => ({ tag: 'bool', value: this.compareValues(args[0], args[1]) === 0 });
+    env.set('compare', mkBuiltin("'a -> 'a -> int", 2, compare));
+    env.set('String.compare', mkBuiltin('string -> string -> int', 2, compare));
+    env.set('String.equal', mkBuiltin('string -> string -> bool', 2, equal));
+    env.set('Char.compare', mkBuiltin('char -> char -> int', 2, compare));
+
+    this.installFormat(mkBuiltin);
+    installStdlibModules(env, this.stdlibHost(mkBuiltin));
+    this.installStdlibFunctors(mkBuiltin);
+  }
+
+  /** What the stdlib modules (stdlib.ts) use of the evaluator. */
+  private stdlibHost(mkBuiltin: (name: string, arity: number, fn: (args: Value[]) => Value) => VBuiltin): StdlibHost {
+    return {
+      builtin: mkBuiltin,
+      apply: (fn, ...args) => args.reduce((f, a) => this.applyOne(f, a, 0), fn),
+      compare: (a, b) => this.compareValues(a, b),
+      allocate: (value, type, words = 1) => this.allocateObject(value, type, words),
+      charge: (words) => this.allocate(words),
+    };
+  }
+
+  // ── Stdlib Printf and Format ────────────────────────────────────────────
+  private installFormat(mkBuiltin: (name: string, arity: number, fn: (args: Value[]) => Value) => VBuiltin): void {
+    const env = this.env;
+    const unit: Value = { tag: 'unit' };
+    const stdout: VChannel = { tag: 'channel', name: 'stdout' };
+    const stderr: VChannel = { tag: 'channel', name: 'stderr' };
+    const newFormatter = (out: VChannel | VBuffer): VFormatter => ({ tag: 'formatter', out, column: 0, margin: 78, boxes: [] });
+    const stdFormatter = newFormatter(stdout);
+    const errFormatter = newFormatter(stderr);
+
+    const writer = (target: VChannel | VBuffer) => (text: string) => {
+      if (target.tag === 'buffer') target.contents += text;
+      else this.write(text);
+    };
+    const asChannel = (v: Value): VChannel => {
+      if (v.tag !== 'channel') throw new RuntimeError('expected out_channel');
+      return v;
+    };
+    const asBuffer = (v: Value): VBuffer => {
+      if (v.tag !== 'buffer') throw new RuntimeError('expected Buffer.t');
+      return v;
+    };
+    const asFormatter = (v: Value): VFormatter => {
+      if (v.tag !== 'formatter') throw new RuntimeError('expected Format.formatter');
+      return v;
+    };
+    const toChannel = (target: VChannel | VBuffer) => (): FormatOutput => ({ write: writer(target), printerArg: target, done: () => unit });
+    const toFormatter = (ppf: VFormatter) => (): FormatOutput => ({ write: writer(ppf.out), printerArg: ppf, formatter: ppf, done: () => unit });
+    // sprintf and friends: the printers get (), and the text goes to `k`
+    const toString = (pretty: boolean, k?: Value) => (): FormatOutput => {
+      const buffer: VBuffer = { tag: 'buffer', contents: '' };
+      const done = (): Value => {
+        const text: Value = { tag: 'string', value: buffer.contents };
+        return k ? this.applyOne(k, text, 0) : text;
+      };
+      return { write: writer(buffer), printerArg: unit, formatter: pretty ? newFormatter(buffer) : undefined, done };
+    };
+
+    env.set('stdout', stdout);
+    env.set('stderr', stderr);
+    env.set('output_string', mkBuiltin('out_channel -> string -> unit', 2, (args) => {
+      if (args[1].tag === 'string') writer(asChannel(args[0]))(args[1].value);
+      return unit;
+    }));
+    env.set('flush', mkBuiltin('out_channel -> unit', 1, () => unit));
+    // Formats are their strings at run time
+    env.set('format_of_string', mkBuiltin("('a, 'b, 'c, 'd) format4 -> ('a, 'b, 'c, 'd) format4", 1, (args) => args[0]));
+    env.set('string_of_format', mkBuiltin("('a, 'b, 'c, 'd) format4 -> string", 1, (args) => args[0]));
+
+    env.set('Printf.printf', mkBuiltin("('a, out_channel, unit) format -> 'a", 1, (args) => this.printFormat(args[0], false, toChannel(stdout))));
+    env.set('Printf.eprintf', mkBuiltin("('a, out_channel, unit) format -> 'a", 1, (args) => this.printFormat(args[0], false, toChannel(stderr))));
+    env.set('Printf.fprintf', mkBuiltin("out_channel -> ('a, out_channel, unit) format -> 'a", 2,
+      (args) => this.printFormat(args[1], false, toChannel(asChannel(args[0])))));
+    env.set('Printf.bprintf', mkBuiltin("Buffer.t -> ('a, Buffer.t, unit) format -> 'a", 2,
+      (args) => this.printFormat(args[1], false, toChannel(asBuffer(args[0])))));
+    env.set('Printf.sprintf', mkBuiltin("('a, unit, string) format -> 'a", 1, (args) => this.printFormat(args[0], false, toString(false))));
+    env.set('Printf.ksprintf', mkBuiltin("(string -> 'd) -> ('a, unit, string, 'd) format4 -> 'a", 2,
+      (args) => this.printFormat(args[1], false, toString(false, args[0]))));
+
+    env.set('Format.std_formatter', stdFormatter);
+    env.set('Format.err_formatter', errFormatter);
+    env.set('Format.formatter_of_buffer', mkBuiltin('Buffer.t -> Format.formatter', 1, (args) => newFormatter(asBuffer(args[0]))));
+    env.set('Format.printf', mkBuiltin("('a, Format.formatter, unit) format -> 'a", 1, (args) => this.printFormat(args[0], true, toFormatter(stdFormatter))));
+    env.set('Format.eprintf', mkBuiltin("('a, Format.formatter, unit) format -> 'a", 1, (args) => this.printFormat(args[0], true, toFormatter(errFormatter))));
+    env.set('Format.fprintf', mkBuiltin("Format.formatter -> ('a, Format.formatter, unit) format -> 'a", 2,
+      (args) => this.printFormat(args[1], true, toFormatter(asFormatter(args[0])))));
+    env.set('Format.sprintf', mkBuiltin("('a, unit, string) format -> 'a", 1, (args) => this.printFormat(args[0], true, toString(true))));
+    env.set('Format.asprintf', mkBuiltin("('a, Format.formatter, unit, string) format4 -> 'a", 1, (args) => {
+      const buffer: VBuffer = { tag: 'buffer', contents: '' };
+      const ppf = newFormatter(buffer);
+      return this.printFormat(args[0], true, () => {
+        buffer.contents = '';
+        ppf.column = 0;
+        ppf.boxes = [];
+        return { write: writer(buffer), printerArg: ppf, formatter: ppf, done: () => ({ tag: 'string', value: buffer.contents }) };
+      });
+    }));
+
+    // Printing on a formatter, with the std_formatter versions (Format.print_string)
+    const print = (name: string, type: string, arity: number, fn: (ppf: VFormatter, args: Value[]) => void) => {
+      env.set(`Format.pp_${name}`, mkBuiltin(`Format.formatter -> ${type}`, arity + 1, (args) => {
+        fn(asFormatter(args[0]), args.slice(1));
+        return unit;
+      }));
+      env.set(`Format.${name}`, mkBuiltin(type, arity, (args) => {
+        fn(stdFormatter, args);
+        return unit;
+      }));
+    };
+    const text = (ppf: VFormatter, s: string) => layoutText(ppf, s, writer(ppf.out));
+    const directive = (ppf: VFormatter, item: FormatItem) => layoutDirective(ppf, item, 0, writer(ppf.out));
+    print('print_string', 'string -> unit', 1, (ppf, [s]) => text(ppf, s.tag === 'string' ? s.value : ''));
+    print('print_int', 'int -> unit', 1, (ppf, [n]) => text(ppf, n.tag === 'int' ? String(n.value) : ''));
+    print('print_float', 'float -> unit', 1, (ppf, [x]) => text(ppf, x.tag === 'float' ? this.displayValue(x) : ''));
+    print('print_char', 'char -> unit', 1, (ppf, [c]) => text(ppf, c.tag === 'char' ? c.value : ''));
+    print('print_bool', 'bool -> unit', 1, (ppf, [b]) => text(ppf, b.tag === 'bool' ? String(b.value) : ''));
+    print('print_space', 'unit -> unit', 1, (ppf) => directive(ppf, { kind: 'break', spaces: 1, offset: 0 }));
+    print('print_cut', 'unit -> unit', 1, (ppf) => directive(ppf, { kind: 'break', spaces: 0, offset: 0 }));
+    print('print_break', 'int -> int -> unit', 2, (ppf, [spaces, offset]) => directive(ppf, {
+      kind: 'break', spaces: spaces.tag === 'int' ? Number(spaces.value) : 1, offset: offset.tag === 'int' ? Number(offset.value) : 0,
+    }));
+    print('print_newline', 'unit -> unit', 1, (ppf) => directive(ppf, { kind: 'newline', flush: true }));
+    print('force_newline', 'unit -> unit', 1, (ppf) => directive(ppf, { kind: 'newline', flush: false }));
+    print('print_flush', 'unit -> unit', 1, () => {});
+    print('open_box', 'int -> unit', 1, (ppf, [n]) => directive(ppf, { kind: 'open', box: 'hov', indent: n.tag === 'int' ? Number(n.value) : 0 }));
+    print('open_hovbox', 'int -> unit', 1, (ppf, [n]) => directive(ppf, { kind: 'open', box: 'hov', indent: n.tag === 'int' ? Number(n.value) : 0 }));
+    print('open_vbox', 'int -> unit', 1, (ppf, [n]) => directive(ppf, { kind: 'open', box: 'v', indent: n.tag === 'int' ? Number(n.value) : 0 }));
+    print('open_hbox', 'unit -> unit', 1, (ppf) => directive(ppf, { kind: 'open', box: 'h', indent: 0 }));
+    print('close_box', 'unit -> unit', 1, (ppf) => directive(ppf, { kind: 'close' }));
+    env.set('Format.pp_print_list', mkBuiltin(
+      "?pp_sep:(Format.formatter -> unit -> unit) -> (Format.formatter -> 'a -> unit) -> Format.formatter -> 'a list -> unit", 4,
+      (args) => {
+        const [sep, printer, ppf, list] = args;
+        if (list.tag !== 'list') throw new RuntimeError('Format.pp_print_list: expected list');
+        list.elements.forEach((item, i) => {
+          if (i > 0) {
+            // The default separator is a cut
+            if (sep.tag === 'constructor' && sep.value) this.applyOne(this.applyOne(sep.value, ppf, 0), unit, 0);
+            else directive(asFormatter(ppf), { kind: 'break', spaces: 0, offset: 0 });
+          }
+          this.applyOne(this.applyOne(printer, ppf, 0), item, 0);
+        });
+        return unit;
+      }));
+  }
+
+  // ── Stdlib Functors ─────────────────────────────────────────────────────
+  /**
+   * Map.Make, Set.Make and Hashtbl.Make. Each application builds a module
+   * of builtins closed over the argument's `compare` (or `equal`/`hash`).
+   */
+  private installStdlibFunctors(mkBuiltin: (name: string, arity: number, fn: (args: Value[]) => Value) => VBuiltin): void {
+    const ORDERED_TYPE = 'sig type t val compare : t -> t -> int end';
+    const HASHED_TYPE = 'sig type t val equal : t -> t -> bool val hash : t -> int end';
+    const parseModuleType = (source: string) => new Parser(new Lexer(source).tokenize()).parseModuleType();
+
+    const call = (fn: Value, ...args: Value[]): Value => args.reduce((f, a) => this.applyOne(f, a, 0), fn);
+    const isTrue = (v: Value): boolean => v.tag === 'bool' && v.value;
+    const notFound = (): never => raise('Not_found');
+    const member = (mod: VModule, name: string): Value => {
+      const val = mod.env.get(name);
+      if (!val) throw new RuntimeError(`Unbound value ${mod.name}.${name}`);
+      return val;
+    };
+    const orderOf = (mod: VModule) => (a: Value, b: Value): number => {
+      const result = call(member(mod, 'compare'), a, b);
+      if (result.tag !== 'int') throw new RuntimeError('compare: expected int');
+      return Number(result.value);
+    };
+
+    // Binary search in a sorted array: the index of `key`, or where it would go
+    const locate = <T>(items: T[], key: Value, keyOf: (item: T) => Value, cmp: (a: Value, b: Value) => number) => {
+      let lo = 0;
+      let hi = items.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        const c = cmp(keyOf(items[mid]), key);
+        if (c === 0) return { index: mid, found: true };
+        if (c < 0) lo = mid + 1; else hi = mid;
+      }
+      return { index: lo, found: false };
+    };
+
+    // The result module's signature is read off the builtins' names, so the
+    // functor is applied once to a placeholder to list them.
+    const mkFunctor = (param: string, paramType: string, types: string, constants: Record<string, string>,
+                       build: (arg: VModule) => Record<string, Value>): VFunctor => {
+      const placeholder: VModule = { tag: 'module', name: param, env: new Environment(null, param) };
+      const vals = Object.entries(build(placeholder))
+        .map(([name, val]) => `val ${name} : ${val.tag === 'builtin' ? val.name : constants[name]}`);
+      return {
+        tag: 'functor',
+        name: `functor (${param} : ${paramType}) -> sig ${types} ${vals.join(' ')} end`,
+        apply: (arg) => {
+          const members = new Environment(null, param);
+          for (const [name, val] of Object.entries(build(arg))) members.set(name, val);
+          return { tag: 'module', name: param, env: members };
+        },
+      };
+    };
+
+    // The module also holds the flat `Hashtbl.find` bindings, for `open Hashtbl`
+    const stdlibModule = (name: string, setup: (env: Environment) => void): void => {
+      const modEnv = this.stdlibModule(name)?.env ?? new Environment(null, name);
+      setup(modEnv);
+      this.env.setModule(name, { tag: 'module', name, env: modEnv });
+    };
+
+    // ── Map.Make ──────────────────────────────────────────────────────────
+    const mapMake = mkFunctor('Ord', ORDERED_TYPE, "type key = Ord.t type 'a t", { empty: "'a t" }, (ord) => {
+      const cmp = orderOf(ord);
+      const asMap = (v: Value, fn: string): VMap => {
+        if (v.tag !== 'map') throw new RuntimeError(`Map.${fn}: expected map`);
+        return v;
+      };
+      const lookup = (m: VMap, key: Value) => locate(m.bindings, key, b => b[0], cmp);
+      const add = (m: VMap, key: Value, value: Value): VMap => {
+        const { index, found } = lookup(m, key);
+        const bindings = [...m.bindings];
+        bindings.splice(index, found ? 1 : 0, [key, value]);
+        return { tag: 'map', bindings };
+      };
+      const remove = (m: VMap, key: Value): VMap => {
+        const { index, found } = lookup(m, key);
+        if (!found) return m;
+        return { tag: 'map', bindings: m.bindings.filter((_, i) => i !== index) };
+      };
+      const find = (m: VMap, key: Value): Value | undefined => {
+        const { index, found } = lookup(m, key);
+        return found ? m.bindings[index][1] : undefined;
+      };
+      const some = (v: Value): Value => ({ tag: 'constructor', name: 'Some', value: v });
+      const none: Value = { tag: 'constructor', name: 'None' };
+      const pair = ([k, v]: [Value, Value]): Value => ({ tag: 'tuple', elements: [k, v] });
+
+      return {
+        empty: { tag: 'map', bindings: [] },
+        is_empty: mkBuiltin("'a t -> bool", 1, (args) => ({ tag: 'bool', value: asMap(args[0], 'is_empty').bindings.length === 0 })),
+        mem: mkBuiltin("key -> 'a t -> bool", 2, (args) => ({ tag: 'bool', value: lookup(asMap(args[1], 'mem'), args[0]).found })),
+        add: mkBuiltin("key -> 'a -> 'a t -> 'a t", 3, (args) => add(asMap(args[2], 'add'), args[0], args[1])),
+        singleton: mkBuiltin("key -> 'a -> 'a t", 2, (args) => ({ tag: 'map', bindings: [[args[0], args[1]]] })),
+        remove: mkBuiltin("key -> 'a t -> 'a t", 2, (args) => remove(asMap(args[1], 'remove'), args[0])),
+        update: mkBuiltin("key -> ('a option -> 'a option) -> 'a t -> 'a t", 3, (args) => {
+          const m = asMap(args[2], 'update');
+          const current = find(m, args[0]);
+          const next = call(args[1], current === undefined ? none : some(current));
+          if (next.tag === 'constructor' && next.name === 'Some' && next.value) return add(m, args[0], next.value);
+          return remove(m, args[0]);
+        }),
+        find: mkBuiltin("key -> 'a t -> 'a", 2, (args) => find(asMap(args[1], 'find'), args[0]) ?? notFound()),
+        find_opt: mkBuiltin("key -> 'a t -> 'a option", 2, (args) => {
+          const v = find(asMap(args[1], 'find_opt'), args[0]);
+          return v === undefined ? none : some(v);
+        }),
+        iter: mkBuiltin("(key -> 'a -> unit) -> 'a t -> unit", 2, (args) => {
+          for (const [k, v] of asMap(args[1], 'iter').bindings) call(args[0], k, v);
+          return { tag: 'unit' };
+        }),
+        fold: mkBuiltin("(key -> 'a -> 'b -> 'b) -> 'a t -> 'b -> 'b", 3, (args) =>
+          asMap(args[1], 'fold').bindings.reduce((acc, [k, v]) => call(args[0], k, v, acc), args[2])),
+        map: mkBuiltin("('a -> 'b) -> 'a t -> 'b t", 2, (args) => ({
+          tag: 'map', bindings: asMap(args[1], 'map').bindings.map(([k, v]) => [k, call(args[0], v)] as [Value, Value]),
+        })),
+        mapi: mkBuiltin("(key -> 'a -> 'b) -> 'a t -> 'b t", 2, (args) => ({
+          tag: 'map', bindings: asMap(args[1], 'mapi').bindings.map(([k, v]) => [k, call(args[0], k, v)] as [Value, Value]),
+        })),
+        filter: mkBuiltin("(key -> 'a -> bool) -> 'a t -> 'a t", 2, (args) => ({
+          tag: 'map', bindings: asMap(args[1], 'filter').bindings.filter(([k, v]) => isTrue(call(args[0], k, v))),
+        })),
+        for_all: mkBuiltin("(key -> 'a -> bool) -> 'a t -> bool", 2, (args) => ({
+          tag: 'bool', value: asMap(args[1], 'for_all').bindings.every(([k, v]) => isTrue(call(args[0], k, v))),
+        })),
+        exists: mkBuiltin("(key -> 'a -> bool) -> 'a t -> bool", 2, (args) => ({
+          tag: 'bool', value: asMap(args[1], 'exists').bindings.some(([k, v]) => isTrue(call(args[0], k, v))),
+        })),
+        cardinal: mkBuiltin("'a t -> int", 1, (args) => mkInt(asMap(args[0], 'cardinal').bindings.length)),
+        bindings: mkBuiltin("'a t -> (key * 'a) list", 1, (args) => ({ tag: 'list', elements: asMap(args[0], 'bindings').bindings.map(pair) })),
+        min_binding: mkBuiltin("'a t -> key * 'a", 1, (args) => {
+          const m = asMap(args[0], 'min_binding');
+          return m.bindings.length > 0 ? pair(m.bindings[0]) : notFound();
+        }),
+        max_binding: mkBuiltin("'a t -> key * 'a", 1, (args) => {
+          const m = asMap(args[0], 'max_binding');
+          return m.bindings.length > 0 ? pair(m.bindings[m.bindings.length - 1]) : notFound();
+        }),
+        of_list: mkBuiltin("(key * 'a) list -> 'a t", 1, (args) => {
+          if (args[0].tag !== 'list') throw new RuntimeError('Map.of_list: expected list');
+          let m: VMap = { tag: 'map', bindings: [] };
+          for (const e of args[0].elements) {
+            if (e.tag === 'tuple') m = add(m, e.elements[0], e.elements[1]);
+          }
+          return m;
+        }),
+      };
+    });
+
+    // ── Set.Make ──────────────────────────────────────────────────────────
+    const setMake = mkFunctor('Ord', ORDERED_TYPE, 'type elt = Ord.t type t', { empty: 't' }, (ord) => {
+      const cmp = orderOf(ord);
+      const asSet = (v: Value, fn: string): VSet => {
+        if (v.tag !== 'set') throw new RuntimeError(`Set.${fn}: expected set`);
+        return v;
+      };
+      const has = (s: VSet, x: Value) => locate(s.elements, x, e => e, cmp).found;
+      const add = (s: VSet, x: Value): VSet => {
+        const { index, found } = locate(s.elements, x, e => e, cmp);
+        if (found) return s;
+        const elements = [...s.elements];
+        elements.splice(index, 0, x);
+        return { tag: 'set', elements };
+      };
+      const ofElements = (elements: Value[]): VSet => elements.reduce(add, { tag: 'set', elements: [] } as VSet);
+      const pred = (fn: Value) => (x: Value) => isTrue(call(fn, x));
+
+      return {
+        empty: { tag: 'set', elements: [] },
+        is_empty: mkBuiltin('t -> bool', 1, (args) => ({ tag: 'bool', value: asSet(args[0], 'is_empty').elements.length === 0 })),
+        mem: mkBuiltin('elt -> t -> bool', 2, (args) => ({ tag: 'bool', value: has(asSet(args[1], 'mem'), args[0]) })),
+        add: mkBuiltin('elt -> t -> t', 2, (args) => add(asSet(args[1], 'add'), args[0])),
+        singleton: mkBuiltin('elt -> t', 1, (args) => ({ tag: 'set', elements: [args[0]] })),
+        remove: mkBuiltin('elt -> t -> t', 2, (args) => {
+          const s = asSet(args[1], 'remove');
+          return { tag: 'set', elements: s.elements.filter(e => cmp(e, args[0]) !== 0) };
+        }),
+        union: mkBuiltin('t -> t -> t', 2, (args) => asSet(args[1], 'union').elements.reduce(add, asSet(args[0], 'union'))),
+        inter: mkBuiltin('t -> t -> t', 2, (args) => {
+          const other = asSet(args[1], 'inter');
+          return { tag: 'set', elements: asSet(args[0], 'inter').elements.filter(e => has(other, e)) };
+        }),
+        diff: mkBuiltin('t -> t -> t', 2, (args) => {
+          const other = asSet(args[1], 'diff');
+          return { tag: 'set', elements: asSet(args[0], 'diff').elements.filter(e => !has(other, e)) };
+        }),
+        subset: mkBuiltin('t -> t -> bool', 2, (args) => {
+          const other = asSet(args[1], 'subset');
+          return { tag: 'bool', value: asSet(args[0], 'subset').elements.every(e => has(other, e)) };
+        }),
+        equal: mkBuiltin('t -> t -> bool', 2, (args) => {
+          const a = asSet(args[0], 'equal').elements;
+          const b = asSet(args[1], 'equal').elements;
+          return { tag: 'bool', value: a.length === b.length && a.every((e, i) => cmp(e, b[i]) === 0) };
+        }),
+        cardinal: mkBuiltin('t -> int', 1, (args) => mkInt(asSet(args[0], 'cardinal').elements.length)),
+        elements: mkBuiltin('t -> elt list', 1, (args) => ({ tag: 'list', elements: [...asSet(args[0], 'elements').elements] })),
+        iter: mkBuiltin('(elt -> unit) -> t -> unit', 2, (args) => {
+          for (const e of asSet(args[1], 'iter').elements) call(args[0], e);
+          return { tag: 'unit' };
+        }),
+        fold: mkBuiltin("(elt -> 'a -> 'a) -> t -> 'a -> 'a", 3, (args) =>
+          asSet(args[1], 'fold').elements.reduce((acc, e) => call(args[0], e, acc), args[2])),
+        filter: mkBuiltin('(elt -> bool) -> t -> t', 2, (args) => ({ tag: 'set', elements: asSet(args[1], 'filter').elements.filter(pred(args[0])) })),
+        for_all: mkBuiltin('(elt -> bool) -> t -> bool', 2, (args) => ({ tag: 'bool', value: asSet(args[1], 'for_all').elements.every(pred(args[0])) })),
+        exists: mkBuiltin('(elt -> bool) -> t -> bool', 2, (args) => ({ tag: 'bool', value: asSet(args[1], 'exists').elements.some(pred(args[0])) })),
+        min_elt: mkBuiltin('t -> elt', 1, (args) => asSet(args[0], 'min_elt').elements[0] ?? notFound()),
+        max_elt: mkBuiltin('t -> elt', 1, (args) => {
+          const elements = asSet(args[0], 'max_elt').elements;
+          return elements[elements.length - 1] ?? notFound();
+        }),
+        of_list: mkBuiltin('elt list -> t', 1, (args) => {
+          if (args[0].tag !== 'list') throw new RuntimeError('Set.of_list: expected list');
+          return ofElements(args[0].elements);
+        }),
+      };
+    });
+
+    // ── Hashtbl.Make ──────────────────────────────────────────────────────
+    const hashtblMake = mkFunctor('H', HASHED_TYPE, "type key = H.t type 'a t", {}, (h) => {
+      const hash = (key: Value): number => {
+        const result = call(member(h, 'hash'), key);
+        if (result.tag !== 'int') throw new RuntimeError('hash: expected int');
+        return Number(result.value);
+      };
+      const same = (a: Value, b: Value) => isTrue(call(member(h, 'equal'), a, b));
+      return hashtblFunctions(this.stdlibHost(mkBuiltin), hash, same, { table: "'a t", key: 'key', value: "'a" });
+    });
+
+    stdlibModule('Map', (mod) => {
+      mod.setModuleType('OrderedType', parseModuleType(ORDERED_TYPE));
+      mod.setModule('Make', mapMake);
+    });
+    stdlibModule('Set', (mod) => {
+      mod.setModuleType('OrderedType', parseModuleType(ORDERED_TYPE));
+      mod.setModule('Make', setMake);
+    });
+    stdlibModule('Hashtbl', (mod) => {
+      mod.setModuleType('HashedType', parseModuleType(HASHED_TYPE));
+      mod.setModule('Make', hashtblMake);
+    });
   }
 }
 
-// Custom exception type for OCaml exceptions
-class OCamlException extends OCamlError {
-  value: Value;
-  constructor(value: Value, line: number) {
-    const evaluator = new Evaluator();
-    super(evaluator.displayValue(value), line, 0, 'Exception');
-    this.value = value;
+/** The parameter labels in a builtin's signature, or undefined if it has none. */
+function signatureLabels(signature: string, arity: number): ParamLabel[] | undefined {
+  const params: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < signature.length; i++) {
+    const ch = signature[i];
+    if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+    else if (depth === 0 && ch === '-' && signature[i + 1] === '>') {
+      params.push(signature.slice(start, i));
+      start = i + 2;
+    }
   }
+  const labels = params.slice(0, arity).map((param): ParamLabel => {
+    const m = /^\s*(\?)?([a-z_][\w']*)\s*:(?!:)/.exec(param);
+    if (!m) return {};
+    return m[1] ? { label: m[2], optional: true } : { label: m[2] };
+  });
+  return labels.some(l => l.label) ? labels : undefined;
 }
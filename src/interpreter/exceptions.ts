@@ -0,0 +1,78 @@
+import { OCamlError } from './types';
+import type { Value, VException } from './types';
+import type { BacktraceFrame } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Exceptions
+// ═══════════════════════════════════════════════════════════════════════════
+//
+// An OCaml exception is a value of type exn (VException) and travels as the
+// payload of a thrown OCamlException, which builtins and `raise` throw alike.
+// RuntimeError is reserved for faults of the interpreter itself (limits,
+// unbound names, ill-typed operands): programs cannot catch those.
+
+/** Where toplevel phrases come from, as Match_failure and Assert_failure report it. */
+export const TOPLEVEL_FILE = '//toplevel//';
+
+/** The exception `name`, or `name payload`. */
+export function mkException(name: string, value?: Value): VException {
+  return value === undefined ? { tag: 'exn', name } : { tag: 'exn', name, value };
+}
+
+/** Match_failure and Assert_failure carry the file, line and character of the failing code. */
+export function locatedException(name: 'Match_failure' | 'Assert_failure', line: number, column: number = 0): VException {
+  return mkException(name, {
+    tag: 'tuple',
+    elements: [
+      { tag: 'string', value: TOPLEVEL_FILE },
+      { tag: 'int', value: BigInt(line) },
+      { tag: 'int', value: BigInt(column) },
+    ],
+  });
+}
+
+/** Raise a predefined exception, with a string payload for Failure and Invalid_argument. */
+export function raise(name: string, message?: string): never {
+  throw new OCamlException(mkException(name, message === undefined ? undefined : { tag: 'string', value: message }));
+}
+
+/** An OCaml exception on its way up the stack. */
+export class OCamlException extends OCamlError {
+  exn: VException;
+  /** Where it was raised and the calls it went through, innermost first. */
+  backtrace: BacktraceFrame[] = [];
+
+  constructor(exn: VException, line: number = 0) {
+    super(exceptionToString(exn), line, 0, 'Exception');
+    this.exn = exn;
+  }
+}
+
+/**
+ * Printexc.to_string: `Failure("boom")`, `Not_found`, `E(1, "a")`. Only
+ * strings and numbers are shown in the payload; other arguments print as `_`.
+ */
+export function exceptionToString(exn: VException): string {
+  const payload = exn.value;
+  if ((exn.name === 'Match_failure' || exn.name === 'Assert_failure') && payload?.tag === 'tuple') {
+    const [file, line, column] = payload.elements.map(argumentToString);
+    const char = Number(column);
+    const what = exn.name === 'Match_failure' ? 'Pattern matching failed' : 'Assertion failed';
+    return `File ${file}, line ${line}, characters ${char}-${char + 5}: ${what}`;
+  }
+  if (exn.name === 'Exit') return 'Stdlib.Exit';
+  if (payload === undefined) return exn.name;
+  const args = payload.tag === 'tuple' ? payload.elements : [payload];
+  return `${exn.name}(${args.map(argumentToString).join(', ')})`;
+}
+
+function argumentToString(v: Value): string {
+  switch (v.tag) {
+    case 'string': return JSON.stringify(v.value);
+    case 'int': return v.value.toString();
+    case 'int32': return `${v.value}l`;
+    case 'int64': return `${v.value}L`;
+    case 'float': return Number.isInteger(v.value) ? `${v.value}.` : `${v.value}`;
+    default: return '_';
+  }
+}
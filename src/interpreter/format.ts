@@ -0,0 +1,343 @@
+import { TypeError, type Value, type VFormatter } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Format Strings (Printf and Format)
+// ═══════════════════════════════════════════════════════════════════════════
+//
+// A format string is parsed into literal text, conversions and, for the
+// Format module, pretty-printing directives. The type checker reads the
+// arguments a format takes off its conversions; the evaluator renders them.
+//
+// Boxes are laid out greedily: a break starts a new line when the text up to
+// the next break would pass the margin. Text printed by %a and %t printers
+// is not known in advance, so it doesn't count in that estimate, and hv boxes
+// break like hov boxes.
+
+export type BoxKind = 'h' | 'v' | 'hov';
+
+export type FormatItem =
+  | { kind: 'text'; text: string }
+  // `*` width and precision are taken from the arguments
+  | { kind: 'conversion'; conversion: string; flags: string; width?: number | '*'; precision?: number | '*' }
+  | { kind: 'open'; box: BoxKind; indent: number }         // @[ and @[<hov 2>
+  | { kind: 'close' }                                        // @]
+  | { kind: 'break'; spaces: number; offset: number }       // @ , @, and @;<1 2>
+  | { kind: 'newline'; flush: boolean };                     // @\n, and @. which also closes the boxes
+
+// The conversions that take an argument, and the type of that argument
+const CONVERSION_TYPES: Record<string, string> = {
+  d: 'int', i: 'int', u: 'int', x: 'int', X: 'int', o: 'int',
+  f: 'float', F: 'float', e: 'float', E: 'float', g: 'float', G: 'float',
+  s: 'string', S: 'string', c: 'char', C: 'char', b: 'bool', B: 'bool',
+};
+
+// %ld and %Ld print int32 and int64 values
+const INT_SIZES: Record<string, string> = { l: 'int32', L: 'int64' };
+
+/** The type of the argument a conversion takes; %a and %t take printers instead. */
+export function conversionType(conversion: string): string {
+  return conversion.length === 2 ? INT_SIZES[conversion[0]] : CONVERSION_TYPES[conversion];
+}
+
+/**
+ * Parse a format string. `pretty` reads Format's `@` directives; Printf
+ * prints `@` as it is. An invalid conversion is a type error, as in OCaml.
+ */
+export function parseFormat(format: string, pretty: boolean, line: number = 0): FormatItem[] {
+  const items: FormatItem[] = [];
+  let text = '';
+  const flushText = () => {
+    if (text) items.push({ kind: 'text', text });
+    text = '';
+  };
+  const invalid = (at: number, what: string): never => {
+    throw new TypeError(`Invalid format ${JSON.stringify(format)}: at character number ${at}, ${what}`, line);
+  };
+
+  let i = 0;
+  while (i < format.length) {
+    const ch = format[i];
+    if (pretty && ch === '@' && i + 1 < format.length) {
+      const directive = format[i + 1];
+      i += 2;
+      // <...> arguments of @[, @; and @{
+      const angle = (): string | null => {
+        if (format[i] !== '<') return null;
+        const close = format.indexOf('>', i);
+        if (close < 0) return null;
+        const inside = format.slice(i + 1, close);
+        i = close + 1;
+        return inside;
+      };
+      switch (directive) {
+        case '[': {
+          const [kind = '', indent = '0'] = (angle() ?? '').trim().split(/\s+/);
+          flushText();
+          const box: BoxKind = kind === 'h' ? 'h' : kind === 'v' ? 'v' : 'hov';
+          items.push({ kind: 'open', box, indent: /^\d+$/.test(kind) ? parseInt(kind) : parseInt(indent) || 0 });
+          break;
+        }
+        case ']': flushText(); items.push({ kind: 'close' }); break;
+        case ' ': flushText(); items.push({ kind: 'break', spaces: 1, offset: 0 }); break;
+        case ',': flushText(); items.push({ kind: 'break', spaces: 0, offset: 0 }); break;
+        case ';': {
+          const [spaces = '1', offset = '0'] = (angle() ?? '').trim().split(/\s+/);
+          flushText();
+          items.push({ kind: 'break', spaces: parseInt(spaces) || 0, offset: parseInt(offset) || 0 });
+          break;
+        }
+        case '.': flushText(); items.push({ kind: 'newline', flush: true }); break;
+        case '\n': flushText(); items.push({ kind: 'newline', flush: false }); break;
+        case '?': break; // flush: output is never held back
+        case '{': angle(); break; // semantic tags print nothing
+        case '}': break;
+        case '@': text += '@'; break;
+        default: text += '@' + directive;
+      }
+      continue;
+    }
+    if (ch !== '%') {
+      text += ch;
+      i++;
+      continue;
+    }
+
+    const start = i++;
+    let flags = '';
+    while (i < format.length && '-0+ #'.includes(format[i])) flags += format[i++];
+    const count = (): number | '*' | undefined => {
+      if (format[i] === '*') {
+        i++;
+        return '*';
+      }
+      let digits = '';
+      while (/\d/.test(format[i] ?? '')) digits += format[i++];
+      return digits ? parseInt(digits) : undefined;
+    };
+    const width = count();
+    let precision: number | '*' | undefined;
+    if (format[i] === '.') {
+      i++;
+      precision = count() ?? 0;
+    }
+    if (i >= format.length) invalid(start, 'unexpected end of format');
+    let conversion = format[i++];
+    const plain = !flags && width === undefined && precision === undefined;
+    if (conversion in INT_SIZES && /[diuxXo]/.test(format[i] ?? '')) conversion += format[i++];
+
+    if (conversion in CONVERSION_TYPES || conversion.length === 2 || conversion === 'a' || conversion === 't') {
+      flushText();
+      items.push({ kind: 'conversion', conversion, flags, width, precision });
+    } else if (plain && (conversion === '%' || conversion === '@')) {
+      text += conversion;
+    } else if (plain && conversion === 'n') {
+      text += '\n';
+    } else if (plain && (conversion === '!' || conversion === ',')) {
+      // flush, and the empty separator
+    } else {
+      invalid(start, `invalid conversion "${format.slice(start, i)}"`);
+    }
+  }
+  flushText();
+  return items;
+}
+
+/** How many arguments the format takes: one per conversion, two for %a, plus the `*`s. */
+export function formatArity(items: FormatItem[]): number {
+  let count = 0;
+  for (const item of items) {
+    if (item.kind !== 'conversion') continue;
+    count += item.conversion === 'a' ? 2 : 1;
+    if (item.width === '*') count++;
+    if (item.precision === '*') count++;
+  }
+  return count;
+}
+
+// ── Conversions ──────────────────────────────────────────────────────────────
+
+/** Render a value for one conversion, other than %a and %t. */
+export function formatConversion(conversion: string, flags: string, width: number | undefined, precision: number | undefined, value: Value): string {
+  let body: string;
+  switch (value.tag) {
+    case 'int': case 'int32': case 'int64':
+      body = formatInt(conversion[conversion.length - 1], flags, precision, value.value, BITS[value.tag]);
+      break;
+    case 'float': body = formatFloat(conversion, flags, precision, value.value); break;
+    case 'string': body = conversion === 'S' ? `"${escapeString(value.value)}"` : value.value; break;
+    case 'char': body = conversion === 'C' ? `'${value.value === "'" ? "\\'" : escapeString(value.value)}'` : value.value; break;
+    case 'bool': body = String(value.value); break;
+    default: body = '?';
+  }
+  // Zero padding is for numbers, not for inf and nan
+  const zeros = value.tag === 'float' ? Number.isFinite(value.value) : value.tag in BITS;
+  return pad(body, width, flags, zeros);
+}
+
+function pad(body: string, width: number | undefined, flags: string, zeros: boolean): string {
+  if (width === undefined || body.length >= width) return body;
+  if (flags.includes('-')) return body.padEnd(width);
+  if (zeros && flags.includes('0')) {
+    // Zeros go after the sign and the 0x prefix
+    const prefix = /^[+\- ]?(0[xX])?/.exec(body)![0];
+    return prefix + body.slice(prefix.length).padStart(width - prefix.length, '0');
+  }
+  return body.padStart(width);
+}
+
+function sign(negative: boolean, flags: string): string {
+  return negative ? '-' : flags.includes('+') ? '+' : flags.includes(' ') ? ' ' : '';
+}
+
+const BITS: Record<string, number> = { int: 63, int32: 32, int64: 64 };
+
+function formatInt(conversion: string, flags: string, precision: number | undefined, n: bigint, bits: number): string {
+  if (conversion === 'd' || conversion === 'i') {
+    const digits = (n < 0n ? -n : n).toString().padStart(precision ?? 0, '0');
+    return sign(n < 0n, flags) + digits;
+  }
+  // Unsigned conversions see a negative int as its two's complement
+  const radix = conversion === 'o' ? 8 : conversion === 'u' ? 10 : 16;
+  let digits = BigInt.asUintN(bits, n).toString(radix).padStart(precision ?? 0, '0');
+  if (conversion === 'X') digits = digits.toUpperCase();
+  if (!flags.includes('#') || n === 0n) return digits;
+  return (conversion === 'o' ? '0' : conversion === 'x' ? '0x' : conversion === 'X' ? '0X' : '') + digits;
+}
+
+function formatFloat(conversion: string, flags: string, precision: number | undefined, x: number): string {
+  if (!Number.isFinite(x)) {
+    if (conversion === 'F') return Number.isNaN(x) ? 'nan' : x > 0 ? 'infinity' : 'neg_infinity';
+    const name = Number.isNaN(x) ? 'nan' : 'inf';
+    return (Number.isNaN(x) ? '' : sign(x < 0, flags)) + (conversion === 'E' || conversion === 'G' ? name.toUpperCase() : name);
+  }
+  const negative = x < 0 || Object.is(x, -0);
+  const magnitude = Math.abs(x);
+  let body: string;
+  switch (conversion) {
+    case 'F': {
+      // OCaml syntax: always a dot or an exponent
+      body = general(magnitude, precision ?? 12, false);
+      if (!/[.e]/.test(body)) body += '.';
+      break;
+    }
+    case 'e': case 'E': body = exponential(magnitude, precision ?? 6); break;
+    case 'g': case 'G': body = general(magnitude, precision ?? 6, flags.includes('#')); break;
+    default: body = fixed(magnitude, precision ?? 6);
+  }
+  if (conversion === 'E' || conversion === 'G') body = body.toUpperCase();
+  return sign(negative, flags) + body;
+}
+
+// C rounds the exact binary value of a float half to even, so %.0f of 2.5 is
+// 2; toFixed and toExponential round half up. Every double is a finite
+// decimal, n / 10^scale, which these round exactly.
+function exactDecimal(x: number): { n: bigint; scale: number } {
+  const bits = new BigUint64Array(new Float64Array([x]).buffer)[0];
+  const biased = Number((bits >> 52n) & 0x7ffn);
+  const fraction = bits & ((1n << 52n) - 1n);
+  const mantissa = biased === 0 ? fraction : fraction | (1n << 52n);
+  const exponent = (biased === 0 ? 1 : biased) - 1075;
+  if (exponent >= 0) return { n: mantissa << BigInt(exponent), scale: 0 };
+  return { n: mantissa * 5n ** BigInt(-exponent), scale: -exponent };
+}
+
+// n / 10^drop, rounded half to even
+function roundDigits(n: bigint, drop: number): bigint {
+  if (drop <= 0) return n * 10n ** BigInt(-drop);
+  const d = 10n ** BigInt(drop);
+  const q = n / d;
+  const twice = (n % d) * 2n;
+  return twice > d || (twice === d && q % 2n === 1n) ? q + 1n : q;
+}
+
+// C's %f of a non-negative x
+function fixed(x: number, precision: number): string {
+  const { n, scale } = exactDecimal(x);
+  const digits = roundDigits(n, scale - precision).toString().padStart(precision + 1, '0');
+  return precision > 0 ? `${digits.slice(0, -precision)}.${digits.slice(-precision)}` : digits;
+}
+
+// C's %e of a non-negative x: at least two exponent digits
+function exponential(x: number, precision: number): string {
+  let digits = '0'.repeat(precision + 1);
+  let exponent = 0;
+  if (x !== 0) {
+    const { n, scale } = exactDecimal(x);
+    exponent = n.toString().length - 1 - scale;
+    let q = roundDigits(n, scale + exponent - precision);
+    // 9.99 rounded up to 10.0
+    if (q.toString().length > precision + 1) {
+      q /= 10n;
+      exponent++;
+    }
+    digits = q.toString();
+  }
+  const mantissa = precision > 0 ? `${digits[0]}.${digits.slice(1)}` : digits;
+  return `${mantissa}e${exponent < 0 ? '-' : '+'}${String(Math.abs(exponent)).padStart(2, '0')}`;
+}
+
+// C's %g: %e or %f, whichever is shorter, with `precision` significant digits
+function general(x: number, precision: number, keepZeros: boolean): string {
+  const p = precision === 0 ? 1 : precision;
+  const exponent = parseInt(exponential(x, p - 1).split('e')[1]);
+  let body = exponent < -4 || exponent >= p ? exponential(x, p - 1) : fixed(x, p - 1 - exponent);
+  if (!keepZeros && body.includes('.')) body = body.replace(/\.?0+(?=e|$)/, '');
+  return body;
+}
+
+/** OCaml's String.escaped. */
+export function escapeString(s: string): string {
+  let out = '';
+  for (const ch of s) {
+    const code = ch.charCodeAt(0);
+    if (ch === '"' || ch === '\\') out += '\\' + ch;
+    else if (ch === '\n') out += '\\n';
+    else if (ch === '\t') out += '\\t';
+    else if (ch === '\r') out += '\\r';
+    else if (ch === '\b') out += '\\b';
+    else if (code < 32 || code === 127) out += '\\' + code.toString().padStart(3, '0');
+    else out += ch;
+  }
+  return out;
+}
+
+// ── Layout ───────────────────────────────────────────────────────────────────
+
+/** Print text through a Format formatter, keeping track of its column. */
+export function layoutText(ppf: VFormatter, text: string, write: (text: string) => void): void {
+  write(text);
+  const newline = text.lastIndexOf('\n');
+  ppf.column = newline < 0 ? ppf.column + text.length : text.length - newline - 1;
+}
+
+/** Apply a directive; `ahead` is the length of the text up to the next break. */
+export function layoutDirective(ppf: VFormatter, item: FormatItem, ahead: number, write: (text: string) => void): void {
+  const newline = (indent: number) => {
+    write('\n' + ' '.repeat(indent));
+    ppf.column = indent;
+  };
+  // Outside any box, the line is broken as in a hov box at the left margin
+  const box = ppf.boxes[ppf.boxes.length - 1] ?? { kind: 'hov', indent: 0 };
+  switch (item.kind) {
+    case 'open':
+      ppf.boxes.push({ kind: item.box, indent: ppf.column + item.indent });
+      break;
+    case 'close':
+      ppf.boxes.pop();
+      break;
+    case 'break': {
+      const fits = ppf.column + item.spaces + ahead <= ppf.margin;
+      if (box.kind === 'v' || (box.kind === 'hov' && !fits)) newline(box.indent + item.offset);
+      else layoutText(ppf, ' '.repeat(item.spaces), write);
+      break;
+    }
+    case 'newline':
+      if (item.flush) {
+        ppf.boxes = [];
+        newline(0);
+      } else {
+        newline(box.indent);
+      }
+      break;
+  }
+}
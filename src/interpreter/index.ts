@@ -1,58 +1,176 @@
 import { Lexer } from './lexer';
 import { Parser } from './parser';
-import { Evaluator } from './evaluator';
-import type { ExecutionResult } from '../types';
+import { Evaluator, type ProgressHook } from './evaluator';
+import { TypeChecker } from './typechecker';
+import { MatchChecker } from './matchcheck';
+import type { ExecutionLimits, ExecutionResult, ProjectFiles } from '../types';
 import { OCamlError } from './types';
+import { bundleProject, mapBundleErrors, locateBundleLine } from '../utils/projectBundle';
+import { PauseRecorder, type DebugRecording } from './debugger';
+import { EMPTY_MEMORY_STATE, applyMemoryDelta, diffMemoryState } from './memoryDelta';
 
-export function interpret(source: string): ExecutionResult {
-  const startTime = performance.now();
+export interface InterpretOptions {
+  /** Text the program reads with read_line and Scanf.scanf. */
+  stdin?: string;
+  /** Record an execution trace for the time-travel scrubber. */
+  trace?: boolean;
+  /** Report progress and partial output while the program runs. */
+  onProgress?: ProgressHook;
+  /** Override the default step, call depth, time, output and memory limits. */
+  limits?: Partial<ExecutionLimits>;
+}
 
-  try {
-    // Tokenize
-    const lexer = new Lexer(source);
-    const tokens = lexer.tokenize();
+/**
+ * A toplevel whose bindings persist between phrases, like the OCaml REPL:
+ * the evaluator and type checker are kept across calls to `run`.
+ */
+export class ToplevelSession {
+  private evaluator = new Evaluator();
+  private checker = new TypeChecker(this.evaluator.getGlobalEnvironment());
 
-    // Parse
-    const parser = new Parser(tokens);
-    const ast = parser.parse();
+  constructor(options: InterpretOptions = {}) {
+    this.evaluator.setStdin(options.stdin ?? '');
+    this.evaluator.setTracing(options.trace ?? false);
+    this.evaluator.setProgressHook(options.onProgress ?? null);
+    this.evaluator.setLimits(options.limits ?? {});
+  }
 
-    // Evaluate
-    const evaluator = new Evaluator();
-    const result = evaluator.evaluate(ast);
+  /** Like `run`, recording a debugger pause whenever evaluation reaches a new line. */
+  debug(source: string): DebugRecording {
+    const recorder = new PauseRecorder(this.evaluator);
+    this.evaluator.setStepHook(recorder.hook);
+    try {
+      const result = this.run(source);
+      return { pauses: recorder.pauses, truncated: recorder.truncated, result };
+    } finally {
+      this.evaluator.setStepHook(null);
+    }
+  }
 
-    const executionTimeMs = performance.now() - startTime;
+  run(source: string): ExecutionResult {
+    const startTime = performance.now();
+    const before = this.checker.snapshot();
 
-    return {
-      output: result.output,
-      values: result.values,
-      errors: result.errors,
-      memoryState: result.memoryState,
-      executionTimeMs,
-    };
-  } catch (e: any) {
-    const executionTimeMs = performance.now() - startTime;
+    try {
+      // Tokenize
+      const lexer = new Lexer(source);
+      const tokens = lexer.tokenize();
+
+      // Parse
+      const parser = new Parser(tokens);
+      const ast = parser.parse();
+
+      // Type-check against the session's bindings, then evaluate
+      const types = this.checker.check(ast);
+      const warnings = new MatchChecker(this.evaluator.getTypeDefinitions()).check(ast);
+      const result = this.evaluator.evaluate(ast, types);
+      if (result.evaluated < ast.length) {
+        // The evaluator only kept the bindings of the phrases before the one that raised
+        this.checker.restore(before);
+        this.checker.check(ast.slice(0, result.evaluated));
+      }
+
+      const executionTimeMs = performance.now() - startTime;
+
+      return {
+        output: result.output,
+        values: result.values,
+        errors: result.errors,
+        warnings: warnings.map(w => ({ ...w, column: 0 })),
+        memoryState: result.memoryState,
+        executionTimeMs,
+        trace: result.trace,
+      };
+    } catch (e: any) {
+      // Nothing ran, so nothing the checker took in is bound
+      this.checker.restore(before);
+      const executionTimeMs = performance.now() - startTime;
+
+      if (e instanceof OCamlError) {
+        return {
+          output: '',
+          values: [],
+          errors: [{ line: e.line, column: e.column, message: `${e.kind}: ${e.message}` }],
+          memoryState: { stack: [], heap: [], environment: [], typeDefinitions: [] },
+          executionTimeMs,
+        };
+      }
 
-    if (e instanceof OCamlError) {
       return {
         output: '',
         values: [],
-        errors: [{ line: e.line, column: e.column, message: `${e.kind}: ${e.message}` }],
+        errors: [{ line: 0, column: 0, message: e.message || 'Unknown error' }],
         memoryState: { stack: [], heap: [], environment: [], typeDefinitions: [] },
         executionTimeMs,
       };
     }
+  }
+}
+
+/** Run `source` in a fresh session, recording debugger pauses along the way. */
+export function debugInterpret(source: string, options?: InterpretOptions): DebugRecording {
+  return new ToplevelSession(options).debug(source);
+}
 
+export function interpret(source: string, options?: InterpretOptions): ExecutionResult {
+  return new ToplevelSession(options).run(source);
+}
+
+/**
+ * Run a whole project: dependencies are wrapped as modules in dependency
+ * order and the entry file runs last. Errors point at the original files.
+ */
+export function interpretProject(files: ProjectFiles, entry: string, options?: InterpretOptions): ExecutionResult {
+  let bundle;
+  try {
+    bundle = bundleProject(files, entry);
+  } catch (e: any) {
     return {
       output: '',
       values: [],
       errors: [{ line: 0, column: 0, message: e.message || 'Unknown error' }],
       memoryState: { stack: [], heap: [], environment: [], typeDefinitions: [] },
-      executionTimeMs,
+      executionTimeMs: 0,
     };
   }
+  const result = interpret(bundle.code, options);
+  const trace = result.trace && {
+    ...result.trace,
+    events: result.trace.events.map(event => {
+      const location = locateBundleLine(bundle, event.line);
+      return location ? { ...event, line: location.line, file: location.filename } : event;
+    }),
+  };
+  const warnings = result.warnings && mapBundleErrors(bundle, result.warnings);
+  return { ...result, errors: mapBundleErrors(bundle, result.errors), warnings, trace };
+}
+
+/** `interpretProject` under the debugger; pauses point at the original files. */
+export function debugProject(files: ProjectFiles, entry: string, options?: InterpretOptions): DebugRecording {
+  const bundle = bundleProject(files, entry);
+  const recording = debugInterpret(bundle.code, options);
+  // Pauses outside the files are dropped, so the deltas are taken again between the ones kept
+  let state = EMPTY_MEMORY_STATE;
+  let kept = state;
+  const pauses = recording.pauses.flatMap(pause => {
+    state = applyMemoryDelta(state, pause.memory);
+    const location = locateBundleLine(bundle, pause.line);
+    if (!location) return [];
+    const memory = diffMemoryState(kept, state);
+    kept = state;
+    return [{ ...pause, memory, line: location.line, file: location.filename }];
+  });
+  const warnings = recording.result.warnings && mapBundleErrors(bundle, recording.result.warnings);
+  const result = { ...recording.result, errors: mapBundleErrors(bundle, recording.result.errors), warnings };
+  return { ...recording, pauses, result };
 }
 
 // Re-export for direct access
 export { Lexer } from './lexer';
 export { Parser } from './parser';
 export { Evaluator } from './evaluator';
+export { TypeChecker } from './typechecker';
+export { MAX_TRACE_EVENTS } from './evaluator';
+export { nextPause, MAX_DEBUG_PAUSES } from './debugger';
+export { memoryStateAt } from './memoryDelta';
+export type { DebugPause, DebugRecording, StepMode } from './debugger';
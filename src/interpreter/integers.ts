@@ -0,0 +1,83 @@
+import type { VInt, VInt32, VInt64 } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Integers
+// ═══════════════════════════════════════════════════════════════════════════
+//
+// int is 63 bits wide, as on the native 64-bit backend, and int32 and int64
+// are 32 and 64 bits. All three are held as BigInts and wrap around on
+// overflow: max_int + 1 = min_int. Shift counts are taken modulo 64, as the
+// hardware does; OCaml leaves counts outside [0, bits) unspecified.
+
+export type IntKind = 'int' | 'int32' | 'int64';
+
+const BITS: Record<IntKind, number> = { int: 63, int32: 32, int64: 64 };
+
+export const MAX_INT = (1n << 62n) - 1n;
+export const MIN_INT = -(1n << 62n);
+
+/** Wrap a result around to the width of its type. */
+export function wrap(n: bigint, kind: IntKind = 'int'): bigint {
+  return BigInt.asIntN(BITS[kind], n);
+}
+
+/** An int value; a float is truncated, and nan and the infinities give 0. */
+export function mkInt(n: number | bigint): VInt {
+  return { tag: 'int', value: wrap(toBigInt(n)) };
+}
+
+export function mkInt32(n: number | bigint): VInt32 {
+  return { tag: 'int32', value: wrap(toBigInt(n), 'int32') };
+}
+
+export function mkInt64(n: number | bigint): VInt64 {
+  return { tag: 'int64', value: wrap(toBigInt(n), 'int64') };
+}
+
+function toBigInt(n: number | bigint): bigint {
+  if (typeof n === 'bigint') return n;
+  return Number.isFinite(n) ? BigInt(Math.trunc(n)) : 0n;
+}
+
+/**
+ * An integer operator on two operands of the same kind, or undefined for an
+ * operator that isn't one. Division by zero is left to the caller.
+ */
+export function intOperation(op: string, a: bigint, b: bigint, kind: IntKind = 'int'): bigint | undefined {
+  const bits = BITS[kind];
+  const count = b & 63n;
+  switch (op) {
+    case '+': return wrap(a + b, kind);
+    case '-': return wrap(a - b, kind);
+    case '*': return wrap(a * b, kind);
+    // BigInt division truncates toward zero and % takes the dividend's sign, like OCaml's / and mod
+    case '/': return wrap(a / b, kind);
+    case 'mod': return wrap(a % b, kind);
+    case 'land': return a & b;
+    case 'lor': return a | b;
+    case 'lxor': return a ^ b;
+    case 'lsl': return wrap(a << count, kind);
+    case 'lsr': return wrap(BigInt.asUintN(bits, a) >> count, kind);
+    case 'asr': return a >> count;
+    default: return undefined;
+  }
+}
+
+/**
+ * Read an integer in OCaml syntax: an optional sign, then decimal digits or
+ * 0x, 0o or 0b digits, with `_` separators. A decimal must be in range; the
+ * other bases may spell any pattern of the type's bits, so 0x7fffffffffffffff
+ * is -1 as an int. Returns null if the text isn't an integer that fits.
+ */
+export function parseInteger(text: string, kind: IntKind = 'int'): bigint | null {
+  const m = /^([+-]?)(0[xX][0-9a-fA-F][0-9a-fA-F_]*|0[oO][0-7][0-7_]*|0[bB][01][01_]*|[0-9][0-9_]*)$/.exec(text);
+  if (!m) return null;
+  const digits = m[2].replace(/_/g, '');
+  const magnitude = /^0[oO]/.test(digits) ? BigInt('0o' + digits.slice(2)) : BigInt(digits);
+  const bits = BigInt(BITS[kind]);
+  const decimal = /^[0-9]+$/.test(digits);
+  const limit = decimal ? 1n << (bits - 1n) : 1n << bits;
+  // -min_int is one past the largest positive value
+  if (magnitude > limit || (magnitude === limit && (!decimal || m[1] !== '-'))) return null;
+  return wrap(m[1] === '-' ? -magnitude : magnitude, kind);
+}
@@ -9,9 +9,11 @@ const KEYWORDS: Record<string, TokenType> = {
   'begin': TokenType.BEGIN, 'end': TokenType.END,
   'true': TokenType.TRUE, 'false': TokenType.FALSE,
   'not': TokenType.NOT, 'mod': TokenType.MOD, 'ref': TokenType.REF,
-  'try': TokenType.TRY, 'raise': TokenType.RAISE, 'exception': TokenType.EXCEPTION,
-  'open': TokenType.OPEN, 'module': TokenType.MODULE,
-  'struct': TokenType.STRUCT, 'sig': TokenType.SIG,
+  'land': TokenType.LAND, 'lor': TokenType.LOR, 'lxor': TokenType.LXOR,
+  'lsl': TokenType.LSL, 'lsr': TokenType.LSR, 'asr': TokenType.ASR,
+  'try': TokenType.TRY, 'raise': TokenType.RAISE, 'assert': TokenType.ASSERT, 'lazy': TokenType.LAZY, 'exception': TokenType.EXCEPTION,
+  'open': TokenType.OPEN, 'include': TokenType.INCLUDE, 'module': TokenType.MODULE,
+  'struct': TokenType.STRUCT, 'sig': TokenType.SIG, 'functor': TokenType.FUNCTOR,
   'for': TokenType.FOR, 'while': TokenType.WHILE, 'do': TokenType.DO,
   'done': TokenType.DONE, 'to': TokenType.TO, 'downto': TokenType.DOWNTO,
   'mutable': TokenType.MUTABLE,
@@ -80,9 +82,10 @@ export class Lexer {
           TokenType.COMMA, TokenType.ARROW, TokenType.EQ, TokenType.PIPE, TokenType.LET, TokenType.IN,
           TokenType.IF, TokenType.THEN, TokenType.ELSE, TokenType.FUN, TokenType.FUNCTION, TokenType.MATCH,
           TokenType.WITH, TokenType.OF, TokenType.BEGIN, TokenType.DO, TokenType.TO, TokenType.DOWNTO,
-          TokenType.PLUS, TokenType.MINUS, TokenType.STAR, TokenType.SLASH, TokenType.COLONEQUAL,
+          TokenType.PLUS, TokenType.MINUS, TokenType.STAR, TokenType.SLASH, TokenType.COLONEQUAL, TokenType.LARROW,
           TokenType.COLONCOLON, TokenType.AT, TokenType.CARET, TokenType.AMPAMP, TokenType.PIPEPIPE,
           TokenType.LT, TokenType.GT, TokenType.LE, TokenType.GE, TokenType.EQ, TokenType.NEQ,
+          TokenType.LABEL, TokenType.OPTLABEL,
         ].includes(lastToken.type)) {
           this.advance();
           const numToken = this.readNumber(startLine, startCol);
@@ -108,6 +111,13 @@ export class Lexer {
         continue;
       }
 
+      // Polymorphic variant tags: `Red
+      if (ch === '`' && /[a-zA-Z]/.test(this.source[this.pos + 1] ?? '')) {
+        this.advance(); // `
+        this.tokens.push({ type: TokenType.VARIANT_TAG, value: '`' + this.readIdentifier(), line: startLine, column: startCol });
+        continue;
+      }
+
       // Upper-case identifiers (constructors, modules)
       if (/[A-Z]/.test(ch)) {
         const ident = this.readIdentifier();
@@ -222,6 +232,13 @@ export class Lexer {
     let value = '';
     let isFloat = false;
 
+    // 0x, 0o and 0b integers, kept as written for the parser to read
+    if (this.peek() === '0' && /[xXoObB]/.test(this.peekAt(1)) && /[0-9a-fA-F]/.test(this.peekAt(2))) {
+      value = this.advance() + this.advance();
+      while (this.pos < this.source.length && /[0-9a-fA-F_]/.test(this.peek())) value += this.advance();
+      return { type: TokenType.INT, value: value + this.readIntSuffix(), line: startLine, column: startCol };
+    }
+
     while (this.pos < this.source.length && /[0-9_]/.test(this.peek())) {
       if (this.peek() !== '_') value += this.peek();
       this.advance();
@@ -247,12 +264,18 @@ export class Lexer {
 
     return {
       type: isFloat ? TokenType.FLOAT : TokenType.INT,
-      value,
+      value: isFloat ? value : value + this.readIntSuffix(),
       line: startLine,
       column: startCol,
     };
   }
 
+  /** The l (int32) or L (int64) after an integer literal, if any. */
+  private readIntSuffix(): string {
+    if ((this.peek() === 'l' || this.peek() === 'L') && !/[a-zA-Z0-9_']/.test(this.peekAt(1))) return this.advance();
+    return '';
+  }
+
   private readIdentifier(): string {
     let value = '';
     while (this.pos < this.source.length && /[a-zA-Z0-9_']/.test(this.peek())) {
@@ -261,6 +284,12 @@ export class Lexer {
     return value;
   }
 
+  /** The name of a `name:` label starting here (not `name::` or `name:=`), if any. */
+  private peekLabel(): string | null {
+    const match = /^[a-z_][a-zA-Z0-9_']*:(?![:=])/.exec(this.source.slice(this.pos, this.pos + 256));
+    return match ? match[0].slice(0, -1) : null;
+  }
+
   private readSymbol(startLine: number, startCol: number): Token {
     const ch = this.advance();
     const next = this.peek();
@@ -315,6 +344,7 @@ export class Lexer {
       case '<':
         if (next === '=') { this.advance(); return tok(TokenType.LE, '<='); }
         if (next === '>') { this.advance(); return tok(TokenType.NEQ, '<>'); }
+        if (next === '-') { this.advance(); return tok(TokenType.LARROW, '<-'); }
         return tok(TokenType.LT, '<');
       case '>':
         if (next === '=') { this.advance(); return tok(TokenType.GE, '>='); }
@@ -326,7 +356,17 @@ export class Lexer {
       case '@': return tok(TokenType.AT, '@');
       case '_': return tok(TokenType.UNDERSCORE, '_');
       case '#': return tok(TokenType.HASH, '#');
-      case '~': return tok(TokenType.IDENT, '~');
+      case '~':
+      case '?': {
+        // `~name:` and `?name:` are one token; `~name` is a TILDE followed by the name
+        const label = this.peekLabel();
+        if (label) {
+          this.readIdentifier();
+          this.advance(); // :
+          return tok(ch === '~' ? TokenType.LABEL : TokenType.OPTLABEL, label);
+        }
+        return tok(ch === '~' ? TokenType.TILDE : TokenType.QUESTION, ch);
+      }
       default:
         throw new ParseError(`Unexpected character: '${ch}'`, startLine, startCol);
     }
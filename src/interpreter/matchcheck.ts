@@ -0,0 +1,328 @@
+import type { ASTNode, Pattern, MatchCase, TypeDefinition, TypeExpr, ConstructorDecl, FieldDecl } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Match Checks (exhaustiveness and unused cases)
+// ═══════════════════════════════════════════════════════════════════════════
+//
+// Patterns are compared column by column, as in Maranget's "Warnings for
+// pattern matching". A column's constructors cover every value when they are
+// all the variants of the type they belong to; the variants come from the
+// type definitions the evaluator registers, plus the declarations met on the
+// way. Literals, arrays and exceptions never cover every value. Polymorphic
+// variant tags cover every value when the match lists all of them, since the
+// type checker closes the type of a match without a catch-all case.
+
+/** Declared types and their definitions, as `evalTypeDecl` registers them. */
+export type TypeDefinitions = ReadonlyMap<string, { definition: TypeDefinition }>;
+
+// A declared type; `module` is the path of the module declaring it, as in `A.B`
+interface DeclaredType { definition: TypeDefinition; module?: string; }
+
+export interface MatchWarning { line: number; message: string; }
+
+/**
+ * A pattern's constructor. Tuples, records, lists, unit and literals are all
+ * constructors here; patterns with the same `name` match the same values.
+ */
+interface Head {
+  name: string;
+  /** The family: 'tuple', 'list', 'int', 'exn', a declared type's name, ... */
+  type: string;
+  arity: number;
+  /** Records: the field of each argument. */
+  fields?: string[];
+  /** Variants declared in another module: the path to print before the name. */
+  module?: string;
+}
+
+// Patterns reduced to wildcards, or-patterns and constructors
+type Pat =
+  | { kind: 'any' }
+  | { kind: 'or'; left: Pat; right: Pat }
+  | { kind: 'con'; head: Head; args: Pat[] };
+
+const ANY: Pat = { kind: 'any' };
+const wildcards = (n: number): Pat[] => Array.from({ length: n }, () => ANY);
+
+const NIL: Head = { name: '[]', type: 'list', arity: 0 };
+const CONS: Head = { name: '::', type: 'list', arity: 2 };
+
+// Literals are named as they are printed
+function literalHead(type: string, value: unknown): Head {
+  const name = type === 'string' ? JSON.stringify(value)
+    : type === 'char' ? `'${JSON.stringify(value).slice(1, -1)}'`
+    : type === 'int32' ? `${value}l`
+    : type === 'int64' ? `${value}L`
+    : String(value);
+  return { name, type, arity: 0 };
+}
+
+// Families with no finite set of constructors
+const OPEN_TYPES = new Set(['int', 'int32', 'int64', 'float', 'char', 'string', 'array', 'exn']);
+
+export class MatchChecker {
+  private types: Map<string, DeclaredType>;
+  private warnings: MatchWarning[] = [];
+  // The modules the walk is inside of, and those opened so far
+  private path: string[] = [];
+  private opened = new Set<string>();
+
+  constructor(definitions: TypeDefinitions) {
+    const a: TypeExpr = { kind: 'tyvar', name: "'a" };
+    const variant = (...constructors: ConstructorDecl[]): DeclaredType => ({ definition: { kind: 'variant', constructors } });
+    this.types = new Map([
+      ['option', variant({ name: 'None' }, { name: 'Some', arg: a })],
+      ['result', variant({ name: 'Ok', arg: a }, { name: 'Error', arg: a })],
+      ['Seq.node', variant({ name: 'Nil' }, { name: 'Cons', arg: a })],
+      ...definitions,
+    ]);
+  }
+
+  check(nodes: ASTNode[]): MatchWarning[] {
+    this.warnings = [];
+    this.path = [];
+    this.opened = new Set();
+    this.visit(nodes);
+    return this.warnings;
+  }
+
+  // Walk the AST in source order, so types are known before the matches that use them
+  private visit(value: unknown): void {
+    if (Array.isArray(value)) {
+      value.forEach(v => this.visit(v));
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+    const node = value as ASTNode;
+    if (node.kind === 'typedecl') {
+      // A redeclared type shadows the old one
+      this.types.delete(node.name);
+      this.types.set(node.name, { definition: node.definition, module: this.path.join('.') || undefined });
+    }
+    if (node.kind === 'open') this.opened.add(node.module);
+    if (node.kind === 'moduledecl') this.path.push(node.name);
+    for (const child of Object.values(node)) this.visit(child);
+    if (node.kind === 'moduledecl') this.path.pop();
+    if (node.kind === 'match' || node.kind === 'trywith') this.checkCases(node.cases, node.kind === 'match', node.line);
+  }
+
+  private checkCases(cases: MatchCase[], exhaustive: boolean, line: number): void {
+    // `exception` cases handle what the scrutinee raises, not its value
+    const valueCases = cases.filter(c => c.pattern.kind !== 'pexception');
+    const rows: Pat[][] = [];
+    for (const c of valueCases) {
+      const pat = this.reduce(c.pattern);
+      if (!this.useful(rows, [pat])) {
+        this.warnings.push({ line: c.body.line || line, message: 'Warning 11 [redundant-case]: this match case is unused.' });
+      }
+      // A guard may fail, so a guarded case covers nothing
+      if (!c.guard) rows.push([pat]);
+    }
+    if (!exhaustive || valueCases.length === 0) return;
+
+    const missing = this.missing(rows, 1);
+    if (!missing) return;
+    let message = 'Warning 8 [partial-match]: this pattern-matching is not exhaustive.\n'
+      + `Here is an example of a case that is not matched:\n${this.show(missing[0])}`;
+    if (valueCases.some(c => c.guard)) message += '\n(However, some guarded clause may match this value.)';
+    this.warnings.push({ line, message });
+  }
+
+  // ── Patterns ────────────────────────────────────────────────────────────
+  private reduce(pat: Pattern): Pat {
+    const con = (head: Head, args: Pat[] = []): Pat => ({ kind: 'con', head, args });
+    switch (pat.kind) {
+      case 'pwild': case 'pvar': case 'pexception': return ANY;
+      case 'palias': case 'pconstraint': return this.reduce(pat.pattern);
+      case 'por': return { kind: 'or', left: this.reduce(pat.left), right: this.reduce(pat.right) };
+      case 'punit': return con({ name: '()', type: 'unit', arity: 0 });
+      case 'pliteral':
+        if (pat.type === 'bool') return con({ name: String(pat.value), type: 'bool', arity: 0 });
+        return con(literalHead(pat.type, pat.value));
+      case 'prange': {
+        let result: Pat | null = null;
+        for (let code = pat.to.charCodeAt(0); code >= pat.from.charCodeAt(0); code--) {
+          const ch = con(literalHead('char', String.fromCharCode(code)));
+          result = result ? { kind: 'or', left: ch, right: result } : ch;
+        }
+        return result ?? con(literalHead('char', pat.from)); // empty range: matches nothing else either
+      }
+      case 'ptuple':
+        return con({ name: ',', type: 'tuple', arity: pat.elements.length }, pat.elements.map(p => this.reduce(p)));
+      case 'plist':
+        return pat.elements.reduceRight<Pat>(
+          (tail, p) => con(CONS, [this.reduce(p), tail]),
+          con(NIL),
+        );
+      case 'pcons': return con(CONS, [this.reduce(pat.head), this.reduce(pat.tail)]);
+      case 'plazy': return con({ name: 'lazy', type: 'lazy', arity: 1 }, [this.reduce(pat.pattern)]);
+      case 'parray':
+        return con({ name: `[|${pat.elements.length}|]`, type: 'array', arity: pat.elements.length }, pat.elements.map(p => this.reduce(p)));
+      case 'pconstructor': {
+        const type = pat.name.startsWith('`') ? 'polyvariant' : this.constructorType(pat.name);
+        return con({ name: pat.name, type: type ?? 'exn', arity: pat.arg ? 1 : 0 }, pat.arg ? [this.reduce(pat.arg)] : []);
+      }
+      case 'precord': {
+        const fields = this.recordFields(pat.fields.map(f => f.name));
+        const args = fields.map(name => {
+          const field = pat.fields.find(f => f.name === name);
+          return field ? this.reduce(field.pattern) : ANY;
+        });
+        return con({ name: `{${fields.join(';')}}`, type: 'record', arity: fields.length, fields }, args);
+      }
+    }
+  }
+
+  // The type declaring a constructor; the latest declaration wins
+  private constructorType(name: string): string | null {
+    let found: string | null = null;
+    for (const [type, def] of this.types) {
+      if (def.definition.kind === 'variant' && def.definition.constructors.some(c => c.name === name)) found = type;
+    }
+    return found;
+  }
+
+  // All the fields of the record type with these fields, inline records included
+  private recordFields(names: string[]): string[] {
+    for (const { definition } of [...this.types.values()].reverse()) {
+      const records: FieldDecl[][] = definition.kind === 'record' ? [definition.fields]
+        : definition.kind === 'variant' ? definition.constructors.flatMap(c => c.record ? [c.record] : [])
+        : [];
+      for (const record of records) {
+        const fields = record.map(f => f.name);
+        if (names.every(n => fields.includes(n))) return fields;
+      }
+    }
+    return [...names].sort();
+  }
+
+  /** Every constructor of the head's family, or null when there are infinitely many. */
+  private signature(head: Head): Head[] | null {
+    switch (head.type) {
+      case 'tuple': case 'unit': case 'record': case 'lazy': return [head];
+      case 'bool': return [{ name: 'false', type: 'bool', arity: 0 }, { name: 'true', type: 'bool', arity: 0 }];
+      case 'list': return [NIL, CONS];
+    }
+    if (OPEN_TYPES.has(head.type)) return null;
+    const declared = this.types.get(head.type);
+    if (declared?.definition.kind !== 'variant') return null;
+    const module = this.qualifier(declared.module);
+    return declared.definition.constructors.map(c => ({ name: c.name, type: head.type, arity: c.arg || c.record ? 1 : 0, module }));
+  }
+
+  // How a match at the current point names the module `module`: nothing from
+  // inside it or once it is opened, else the path past the modules in common
+  private qualifier(module: string | undefined): string | undefined {
+    if (!module || this.opened.has(module)) return undefined;
+    const parts = module.split('.');
+    let common = 0;
+    while (common < parts.length && parts[common] === this.path[common]) common++;
+    return parts.slice(common).join('.') || undefined;
+  }
+
+  // ── Matrices ────────────────────────────────────────────────────────────
+  // A matrix has a row of patterns per case; the first column is examined first.
+
+  private expandOr(rows: Pat[][]): Pat[][] {
+    return rows.flatMap(([first, ...rest]) =>
+      first.kind === 'or' ? this.expandOr([[first.left, ...rest], [first.right, ...rest]]) : [[first, ...rest]]);
+  }
+
+  /** The rows that match values built with `head`, with its arguments as new columns. */
+  private specialize(rows: Pat[][], head: Head): Pat[][] {
+    return this.expandOr(rows).flatMap(([first, ...rest]) => {
+      if (first.kind === 'any') return [[...wildcards(head.arity), ...rest]];
+      if (first.kind === 'con' && first.head.name === head.name) return [[...first.args, ...rest]];
+      return [];
+    });
+  }
+
+  /** The rows that match values built with constructors absent from the first column. */
+  private defaultRows(rows: Pat[][]): Pat[][] {
+    return this.expandOr(rows).flatMap(([first, ...rest]) => first.kind === 'any' ? [rest] : []);
+  }
+
+  private heads(rows: Pat[][]): Head[] {
+    const heads = new Map<string, Head>();
+    for (const [first] of this.expandOr(rows)) {
+      if (first.kind === 'con') heads.set(first.head.name, first.head);
+    }
+    return [...heads.values()];
+  }
+
+  // The signature, if the heads cover all of it. Polymorphic variant tags are
+  // complete only when looking for missing cases (`closed`): a later `_` is still useful.
+  private complete(heads: Head[], closed: boolean = false): Head[] | null {
+    if (heads.length === 0) return null;
+    if (heads[0].type === 'polyvariant') return closed ? heads : null;
+    const signature = this.signature(heads[0]);
+    return signature && signature.every(s => heads.some(h => h.name === s.name)) ? signature : null;
+  }
+
+  /** Does `row` match a value that none of `rows` matches? */
+  private useful(rows: Pat[][], row: Pat[]): boolean {
+    if (row.length === 0) return rows.length === 0;
+    const [first, ...rest] = row;
+    if (first.kind === 'or') return this.useful(rows, [first.left, ...rest]) || this.useful(rows, [first.right, ...rest]);
+    if (first.kind === 'con') return this.useful(this.specialize(rows, first.head), [...first.args, ...rest]);
+    const signature = this.complete(this.heads(rows));
+    if (signature) return signature.some(h => this.useful(this.specialize(rows, h), [...wildcards(h.arity), ...rest]));
+    return this.useful(this.defaultRows(rows), rest);
+  }
+
+  /** `width` patterns for a value that no row matches, or null when the rows cover everything. */
+  private missing(rows: Pat[][], width: number): Pat[] | null {
+    if (width === 0) return rows.length === 0 ? [] : null;
+    const heads = this.heads(rows);
+    const signature = this.complete(heads, true);
+    if (signature) {
+      for (const h of signature) {
+        const found = this.missing(this.specialize(rows, h), h.arity + width - 1);
+        if (found) return [{ kind: 'con', head: h, args: found.slice(0, h.arity) }, ...found.slice(h.arity)];
+      }
+      return null;
+    }
+    const found = this.missing(this.defaultRows(rows), width - 1);
+    return found && [this.absent(heads), ...found];
+  }
+
+  // A pattern for a value none of the heads matches
+  private absent(heads: Head[]): Pat {
+    if (heads.length === 0) return ANY;
+    const taken = new Set(heads.map(h => h.name));
+    const head = this.signature(heads[0])?.find(h => !taken.has(h.name));
+    if (head) return { kind: 'con', head, args: wildcards(head.arity) };
+    const type = heads[0].type;
+    if (type === 'array') {
+      let length = 0;
+      while (taken.has(`[|${length}|]`)) length++;
+      return { kind: 'con', head: { name: `[|${length}|]`, type, arity: length }, args: wildcards(length) };
+    }
+    for (let i = 0; i < 256; i++) {
+      const candidate = type === 'int' || type === 'int32' || type === 'int64' ? literalHead(type, i)
+        : type === 'char' ? literalHead('char', String.fromCharCode((97 + i) % 256))
+        : type === 'string' ? literalHead('string', '*'.repeat(i))
+        : null;
+      if (!candidate) break;
+      if (!taken.has(candidate.name)) return { kind: 'con', head: candidate, args: [] };
+    }
+    return ANY;
+  }
+
+  // ── Printing ────────────────────────────────────────────────────────────
+  // `nested`: an argument of a constructor, parenthesized if it has arguments itself
+  private show(pat: Pat, nested: boolean = false): string {
+    if (pat.kind === 'any') return '_';
+    if (pat.kind === 'or') return this.show(pat.left, nested);
+    const { head, args } = pat;
+    let s: string;
+    if (head.type === 'tuple') return `(${args.map(a => this.show(a)).join(', ')})`;
+    if (head.type === 'array') return `[|${args.map(a => this.show(a)).join('; ')}|]`;
+    if (head.type === 'record') return `{${head.fields!.map((f, i) => `${f}=${this.show(args[i])}`).join('; ')}}`;
+    const name = head.module ? `${head.module}.${head.name}` : head.name;
+    if (head.name === '::') s = `${this.show(args[0], true)}::${this.show(args[1])}`;
+    else if (args.length === 0) return name;
+    else s = `${name} ${this.show(args[0], true)}`;
+    return nested ? `(${s})` : s;
+  }
+}
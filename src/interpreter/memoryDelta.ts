@@ -0,0 +1,89 @@
+import type { ListDelta, MemoryDelta, MemoryState, StackFrame } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Memory Deltas
+// ═══════════════════════════════════════════════════════════════════════════
+//
+// A recorded run keeps the memory state at every debugger pause or trace
+// event. Consecutive states mostly agree, so each one is stored as its
+// difference from the one before; the state at step i is rebuilt by applying
+// the deltas of steps 0..i to an empty state.
+
+export const EMPTY_MEMORY_STATE: MemoryState = { stack: [], heap: [], environment: [], typeDefinitions: [] };
+
+/** The delta that turns `previous` into `next`. */
+export function diffMemoryState(previous: MemoryState, next: MemoryState): MemoryDelta {
+  const delta: MemoryDelta = {};
+  const before = callFrames(previous);
+  const after = callFrames(next);
+  let keep = 0;
+  while (keep < before.length && keep < after.length && sameFrame(before[keep], after[keep])) keep++;
+  if (keep < before.length || keep < after.length) delta.stack = { keep, frames: after.slice(keep) };
+
+  const environment = diffList(previous.environment, next.environment, v => v.name);
+  if (environment) delta.environment = environment;
+  const heap = diffList(previous.heap, next.heap, obj => obj.id);
+  if (heap) delta.heap = heap;
+  const typeDefinitions = diffList(previous.typeDefinitions, next.typeDefinitions, td => td.name);
+  if (typeDefinitions) delta.typeDefinitions = typeDefinitions;
+  return delta;
+}
+
+export function applyMemoryDelta(state: MemoryState, delta: MemoryDelta): MemoryState {
+  const environment = delta.environment ? applyList(state.environment, delta.environment, v => v.name) : state.environment;
+  const frames = delta.stack ? [...callFrames(state).slice(0, delta.stack.keep), ...delta.stack.frames] : callFrames(state);
+  return {
+    // As the evaluator lists it, the Global frame comes first and holds the environment
+    stack: environment.length > 0 ? [{ name: 'Global', variables: environment }, ...frames] : frames,
+    heap: delta.heap ? applyList(state.heap, delta.heap, obj => obj.id) : state.heap,
+    environment,
+    typeDefinitions: delta.typeDefinitions ? applyList(state.typeDefinitions, delta.typeDefinitions, td => td.name) : state.typeDefinitions,
+  };
+}
+
+/** The memory state at `steps[index]`, where each step holds its delta. */
+export function memoryStateAt(steps: { memory: MemoryDelta }[], index: number): MemoryState {
+  let state = EMPTY_MEMORY_STATE;
+  for (let i = 0; i <= index && i < steps.length; i++) state = applyMemoryDelta(state, steps[i].memory);
+  return state;
+}
+
+/** Roughly how many characters a delta takes to keep, for the recording size caps. */
+export function deltaSize(delta: MemoryDelta): number {
+  return JSON.stringify(delta).length;
+}
+
+function callFrames(state: MemoryState): StackFrame[] {
+  return state.stack[0]?.name === 'Global' ? state.stack.slice(1) : state.stack;
+}
+
+function sameFrame(a: StackFrame, b: StackFrame): boolean {
+  return a.name === b.name && a.line === b.line && a.variables.length === b.variables.length &&
+    a.variables.every((v, i) => sameEntry(v, b.variables[i]));
+}
+
+/** Entries are flat objects of strings and numbers. */
+function sameEntry<T extends object>(a: T, b: T): boolean {
+  const keys = Object.keys(a) as (keyof T)[];
+  return keys.length === Object.keys(b).length && keys.every(k => a[k] === b[k]);
+}
+
+function diffList<T extends object, K>(previous: T[], next: T[], key: (entry: T) => K): ListDelta<T, K> | null {
+  const before = new Map(previous.map(entry => [key(entry), entry]));
+  const changed = next.filter(entry => {
+    const old = before.get(key(entry));
+    return !old || !sameEntry(old, entry);
+  });
+  // Unless the old names still come first, in the same order, the delta says where everything goes
+  const kept = previous.length <= next.length && previous.every((entry, i) => key(entry) === key(next[i]));
+  if (changed.length === 0 && kept) return null;
+  return kept ? { changed } : { changed, order: next.map(key) };
+}
+
+function applyList<T, K>(entries: T[], delta: ListDelta<T, K>, key: (entry: T) => K): T[] {
+  const byKey = new Map(entries.map(entry => [key(entry), entry]));
+  for (const entry of delta.changed) byKey.set(key(entry), entry);
+  if (delta.order) return delta.order.map(k => byKey.get(k)!);
+  // A Map keeps insertion order: the old entries, then the new ones
+  return Array.from(byKey.values());
+}
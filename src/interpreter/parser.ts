@@ -1,7 +1,10 @@
 import {
-  Token, TokenType, ASTNode, Pattern, MatchCase,
-  ParseError,
+  Token, TokenType, ASTNode, Pattern, MatchCase, Param, Arg, LetBinding,
+  ModuleExpr, ModuleTypeExpr, SignatureItem, TypeDeclNode, ExceptionDeclNode,
+  TypeExpr, TypeDefinition, ConstructorDecl, FieldDecl,
+  ParseError, typeDecls, showTypeExpr,
 } from './types';
+import { parseInteger } from './integers';
 
 export class Parser {
   private tokens: Token[];
@@ -66,29 +69,170 @@ export class Parser {
     if (tok.type === TokenType.TYPE) return this.parseTypeDecl();
     if (tok.type === TokenType.EXCEPTION) return this.parseExceptionDecl();
     if (tok.type === TokenType.OPEN) return this.parseOpen();
+    if (tok.type === TokenType.INCLUDE) return this.parseInclude();
+    if (tok.type === TokenType.MODULE) return this.parseModuleDecl();
 
     return this.parseExpr();
   }
 
-  // ── Open ────────────────────────────────────────────────────────────────
+  // ── Open / Include ──────────────────────────────────────────────────────
   private parseOpen(): ASTNode {
     const tok = this.advance(); // open
-    const mod = this.expect(TokenType.UPPER_IDENT);
-    return { kind: 'open', module: mod.value, line: tok.line };
+    return { kind: 'open', module: this.parseModulePath(), line: tok.line };
+  }
+
+  private parseInclude(): ASTNode {
+    const tok = this.advance(); // include
+    return { kind: 'include', module: this.parseModuleExpr(), line: tok.line };
+  }
+
+  private parseModulePath(): string {
+    let path = this.expect(TokenType.UPPER_IDENT).value;
+    while (this.peek() === TokenType.DOT && this.tokens[this.pos + 1]?.type === TokenType.UPPER_IDENT) {
+      this.advance(); // .
+      path += '.' + this.advance().value;
+    }
+    return path;
+  }
+
+  // ── Modules ─────────────────────────────────────────────────────────────
+  private parseModuleDecl(): ASTNode {
+    const tok = this.advance(); // module
+
+    if (this.match(TokenType.TYPE)) {
+      const name = this.expect(TokenType.UPPER_IDENT).value;
+      this.expect(TokenType.EQ);
+      return { kind: 'moduletypedecl', name, signature: this.parseModuleType(), line: tok.line };
+    }
+
+    const name = this.expect(TokenType.UPPER_IDENT).value;
+
+    // Functor parameters: module F (X : S) (Y : T) = ...
+    const params: { name: string; type: ModuleTypeExpr }[] = [];
+    while (this.match(TokenType.LPAREN)) {
+      const param = this.expect(TokenType.UPPER_IDENT).value;
+      this.expect(TokenType.COLON);
+      params.push({ name: param, type: this.parseModuleType() });
+      this.expect(TokenType.RPAREN);
+    }
+
+    const signature = this.match(TokenType.COLON) ? this.parseModuleType() : undefined;
+    this.expect(TokenType.EQ);
+    let body = this.parseModuleExpr();
+    if (signature) body = { kind: 'constraint', body, signature };
+    for (let i = params.length - 1; i >= 0; i--) {
+      body = { kind: 'functor', param: params[i].name, paramType: params[i].type, body };
+    }
+    return { kind: 'moduledecl', name, body, line: tok.line };
+  }
+
+  private parseModuleExpr(): ModuleExpr {
+    if (this.match(TokenType.FUNCTOR)) {
+      this.expect(TokenType.LPAREN);
+      const param = this.expect(TokenType.UPPER_IDENT).value;
+      this.expect(TokenType.COLON);
+      const paramType = this.parseModuleType();
+      this.expect(TokenType.RPAREN);
+      this.expect(TokenType.ARROW);
+      return { kind: 'functor', param, paramType, body: this.parseModuleExpr() };
+    }
+
+    let expr = this.parseSimpleModuleExpr();
+    // Functor application: F(X), Map.Make(String)
+    while (this.match(TokenType.LPAREN)) {
+      const arg = this.parseModuleExpr();
+      this.expect(TokenType.RPAREN);
+      expr = { kind: 'apply', functor: expr, arg };
+    }
+    return expr;
+  }
+
+  private parseSimpleModuleExpr(): ModuleExpr {
+    if (this.match(TokenType.LPAREN)) {
+      let expr = this.parseModuleExpr();
+      if (this.match(TokenType.COLON)) expr = { kind: 'constraint', body: expr, signature: this.parseModuleType() };
+      this.expect(TokenType.RPAREN);
+      return expr;
+    }
+    if (this.match(TokenType.STRUCT)) {
+      const items: ASTNode[] = [];
+      this.skipSemiSemi();
+      while (this.peek() !== TokenType.END) {
+        if (this.isAtEnd()) {
+          const cur = this.current();
+          throw new ParseError(`Unterminated struct: expected 'end'`, cur.line, cur.column);
+        }
+        items.push(this.parseTopLevel());
+        this.skipSemiSemi();
+      }
+      this.expect(TokenType.END);
+      return { kind: 'structure', items };
+    }
+    return { kind: 'modpath', path: this.parseModulePath() };
+  }
+
+  /** Parse a module type; also used to read the types of stdlib functors. */
+  parseModuleType(): ModuleTypeExpr {
+    if (this.match(TokenType.FUNCTOR)) {
+      this.expect(TokenType.LPAREN);
+      const param = this.expect(TokenType.UPPER_IDENT).value;
+      this.expect(TokenType.COLON);
+      const paramType = this.parseModuleType();
+      this.expect(TokenType.RPAREN);
+      this.expect(TokenType.ARROW);
+      return { kind: 'functortype', param, paramType, result: this.parseModuleType() };
+    }
+    if (!this.match(TokenType.SIG)) {
+      return { kind: 'signame', name: this.parseModulePath() };
+    }
+
+    const items: SignatureItem[] = [];
+    this.skipSemiSemi();
+    while (this.peek() !== TokenType.END) {
+      const tok = this.current();
+      if (tok.type === TokenType.IDENT && tok.value === 'val') {
+        this.advance();
+        const name = this.expect(TokenType.IDENT).value;
+        this.expect(TokenType.COLON);
+        items.push({ kind: 'valspec', name, type: this.parseTypeAnnotation(), line: tok.line });
+      } else if (tok.type === TokenType.TYPE) {
+        items.push(...typeDecls(this.parseTypeDecl(true) as TypeDeclNode));
+      } else if (tok.type === TokenType.EXCEPTION) {
+        items.push(this.parseExceptionDecl() as ExceptionDeclNode);
+      } else {
+        throw new ParseError(`Unexpected token in signature: ${tok.type} '${tok.value}'`, tok.line, tok.column);
+      }
+      this.skipSemiSemi();
+    }
+    this.expect(TokenType.END);
+    return { kind: 'signature', items };
   }
 
   // ── Type Declaration ────────────────────────────────────────────────────
-  private parseTypeDecl(): ASTNode {
+  private parseTypeDecl(inSignature: boolean = false): ASTNode {
     const tok = this.advance(); // type
+    // type a = ... and b = ...: the node holds the first type
+    const first = this.parseTypeDefinition(tok, inSignature);
+    const and: TypeDeclNode[] = [];
+    while (this.peek() === TokenType.AND) {
+      and.push(this.parseTypeDefinition(this.advance(), inSignature));
+    }
+    return and.length > 0 ? { ...first, and } : first;
+  }
+
+  /** One type of a declaration, after `type` or `and`. */
+  private parseTypeDefinition(tok: Token, inSignature: boolean): TypeDeclNode {
     const params: string[] = [];
 
-    // Optional type params: 'a or ('a, 'b)
-    if (this.peek() === TokenType.IDENT && this.current().value.startsWith("'")) {
+    // Optional type params: 'a or ('a, 'b), or _ for one without a name
+    const isParam = () => this.peek() === TokenType.IDENT
+      && (this.current().value.startsWith("'") || this.current().value === '_');
+    if (isParam()) {
       params.push(this.advance().value);
     } else if (this.peek() === TokenType.LPAREN) {
       this.advance();
       while (true) {
-        if (this.peek() === TokenType.IDENT && this.current().value.startsWith("'")) {
+        if (isParam()) {
           params.push(this.advance().value);
         }
         if (!this.match(TokenType.COMMA)) break;
@@ -97,85 +241,159 @@ export class Parser {
     }
 
     const name = this.expect(TokenType.IDENT).value;
-    this.expect(TokenType.EQ);
 
-    // Parse variants
-    this.match(TokenType.PIPE); // optional leading |
-    const variants: { name: string; type?: string }[] = [];
+    // Abstract type in a signature: type t
+    if (inSignature && this.peek() !== TokenType.EQ) {
+      return { kind: 'typedecl', name, params, definition: { kind: 'abstract' }, line: tok.line };
+    }
+    this.expect(TokenType.EQ);
 
-    if (this.peek() === TokenType.UPPER_IDENT) {
+    let definition: TypeDefinition;
+    if (this.peek() === TokenType.PIPE
+      || (this.peek() === TokenType.UPPER_IDENT && this.tokens[this.pos + 1]?.type !== TokenType.DOT)) {
+      this.match(TokenType.PIPE); // optional leading |
+      const constructors: ConstructorDecl[] = [];
       do {
-        const variantName = this.expect(TokenType.UPPER_IDENT).value;
-        let variantType: string | undefined;
-        if (this.match(TokenType.OF)) {
-          variantType = this.parseTypeAnnotation();
-        }
-        variants.push({ name: variantName, type: variantType });
+        const ctor = this.expect(TokenType.UPPER_IDENT).value;
+        if (this.match(TokenType.COLON)) {
+          // GADT syntax: C : args -> result, or C : result
+          const type = this.parseTypeExpr();
+          constructors.push(type.kind === 'tyarrow' && !type.label
+            ? { name: ctor, arg: type.param, result: type.result }
+            : { name: ctor, result: type });
+        } else if (!this.match(TokenType.OF)) constructors.push({ name: ctor });
+        else if (this.peek() === TokenType.LBRACE) constructors.push({ name: ctor, record: this.parseFieldDecls() });
+        else constructors.push({ name: ctor, arg: this.parseTypeExpr() });
       } while (this.match(TokenType.PIPE));
+      definition = { kind: 'variant', constructors };
     } else if (this.peek() === TokenType.LBRACE) {
-      // Record type - simplified
-      this.advance();
-      const fields: string[] = [];
-      while (this.peek() !== TokenType.RBRACE && !this.isAtEnd()) {
-        this.match(TokenType.MUTABLE);
-        const fname = this.expect(TokenType.IDENT).value;
-        this.expect(TokenType.COLON);
-        const ftype = this.parseTypeAnnotation();
-        fields.push(`${fname}: ${ftype}`);
-        this.match(TokenType.SEMICOLON);
-      }
-      this.expect(TokenType.RBRACE);
-      variants.push({ name: '{' + fields.join('; ') + '}' });
+      definition = { kind: 'record', fields: this.parseFieldDecls() };
     } else {
-      // Type alias
-      const aliasType = this.parseTypeAnnotation();
-      variants.push({ name: aliasType });
+      definition = { kind: 'alias', type: this.parseTypeExpr() };
     }
 
-    return { kind: 'typedecl', name, params, variants, line: tok.line };
+    // constraint 'a = t
+    const constraints: { param: string; type: TypeExpr }[] = [];
+    while (this.isContextualKeyword('constraint')) {
+      this.advance();
+      const param = this.expect(TokenType.IDENT).value;
+      this.expect(TokenType.EQ);
+      constraints.push({ param, type: this.parseTypeExpr() });
+    }
+
+    const decl: TypeDeclNode = { kind: 'typedecl', name, params, definition, line: tok.line };
+    if (constraints.length > 0) decl.constraints = constraints;
+    return decl;
+  }
+
+  // { x : int; mutable y : float }, in a record type or after a constructor's `of`
+  private parseFieldDecls(): FieldDecl[] {
+    this.expect(TokenType.LBRACE);
+    const fields: FieldDecl[] = [];
+    while (this.peek() !== TokenType.RBRACE && !this.isAtEnd()) {
+      const mutable = !!this.match(TokenType.MUTABLE);
+      const name = this.expect(TokenType.IDENT).value;
+      this.expect(TokenType.COLON);
+      fields.push({ name, type: this.parseTypeExpr(), mutable });
+      this.match(TokenType.SEMICOLON);
+    }
+    this.expect(TokenType.RBRACE);
+    return fields;
   }
 
+  // Annotations and signatures keep their types as text, which the TypeChecker reads back
   private parseTypeAnnotation(): string {
-    let result = this.parseSimpleType();
-    while (this.peek() === TokenType.ARROW) {
-      this.advance();
-      result += ' -> ' + this.parseSimpleType();
-    }
-    if (this.peek() === TokenType.STAR) {
-      while (this.match(TokenType.STAR)) {
-        result += ' * ' + this.parseSimpleType();
-      }
+    return showTypeExpr(this.parseTypeExpr());
+  }
+
+  /** Parse a type expression; the TypeChecker also reads signatures with it. */
+  parseTypeExpr(): TypeExpr {
+    // Labeled parameter types: x:int -> ..., ?x:int -> ...
+    let label: string | undefined;
+    const optional = this.peek() === TokenType.OPTLABEL;
+    if (optional) {
+      label = this.advance().value;
+    } else if (this.peek() === TokenType.IDENT && !this.current().value.startsWith("'")
+      && this.tokens[this.pos + 1]?.type === TokenType.COLON) {
+      label = this.advance().value;
+      this.advance(); // :
+    }
+    const param = this.parseTupleType();
+    if (!this.match(TokenType.ARROW)) return param;
+    const result = this.parseTypeExpr();
+    return label ? { kind: 'tyarrow', param, result, label, optional } : { kind: 'tyarrow', param, result };
+  }
+
+  private parseTupleType(): TypeExpr {
+    const first = this.parseAppType();
+    if (this.peek() !== TokenType.STAR) return first;
+    const elements = [first];
+    while (this.match(TokenType.STAR)) elements.push(this.parseAppType());
+    return { kind: 'tytuple', elements };
+  }
+
+  // Postfix type constructors: int list, 'a M.t option, (int, string) Hashtbl.t
+  private parseAppType(): TypeExpr {
+    const start = this.current();
+    let args = this.parseAtomicTypes();
+    while (this.isTypeConstructorStart()) {
+      args = [{ kind: 'tyname', name: this.parseQualifiedTypeName(), args }];
     }
-    return result;
+    if (args.length !== 1) throw new ParseError('Expected a type constructor after the type arguments', start.line, start.column);
+    return args[0];
   }
 
-  private parseSimpleType(): string {
-    if (this.peek() === TokenType.LPAREN) {
-      this.advance();
-      const inner = this.parseTypeAnnotation();
+  // One type, or the arguments (t1, t2) of a type constructor
+  private parseAtomicTypes(): TypeExpr[] {
+    const tok = this.current();
+    if (this.match(TokenType.LPAREN)) {
+      const items = [this.parseTypeExpr()];
+      while (this.match(TokenType.COMMA)) items.push(this.parseTypeExpr());
       this.expect(TokenType.RPAREN);
-      return '(' + inner + ')';
-    }
-    if (this.peek() === TokenType.IDENT) {
-      let t = this.advance().value;
-      if (this.peek() === TokenType.IDENT) {
-        t += ' ' + this.advance().value;
-      } else if (this.peek() === TokenType.UPPER_IDENT) {
-        t += ' ' + this.advance().value;
-        while (this.match(TokenType.DOT)) {
-          t += '.' + this.advance().value;
-        }
-      }
-      return t;
+      return items;
     }
-    if (this.peek() === TokenType.UPPER_IDENT) {
-      let t = this.advance().value;
-      while (this.match(TokenType.DOT)) {
-        t += '.' + this.advance().value;
-      }
-      return t;
+    if (tok.type === TokenType.LBRACKET && tok.value === '[') return [this.parseVariantType()];
+    if (tok.type === TokenType.UNDERSCORE || (tok.type === TokenType.IDENT && tok.value === '_')) {
+      this.advance();
+      return [{ kind: 'tyany' }];
+    }
+    if (tok.type === TokenType.IDENT && tok.value.startsWith("'")) {
+      this.advance();
+      return [{ kind: 'tyvar', name: tok.value }];
+    }
+    if (tok.type === TokenType.IDENT || tok.type === TokenType.UPPER_IDENT) {
+      return [{ kind: 'tyname', name: this.parseQualifiedTypeName(), args: [] }];
+    }
+    throw new ParseError(`Expected a type but got ${tok.type} '${tok.value}'`, tok.line, tok.column);
+  }
+
+  // [ `A | `B of int ], [> `A ], [< `A | `B ]
+  private parseVariantType(): TypeExpr {
+    this.advance(); // [
+    const bound = this.match(TokenType.GT) ? 'open' : this.match(TokenType.LT) ? 'closed' : 'exact';
+    this.match(TokenType.PIPE);
+    const tags: { name: string; arg?: TypeExpr }[] = [];
+    while (this.peek() === TokenType.VARIANT_TAG) {
+      const name = this.advance().value;
+      tags.push(this.match(TokenType.OF) ? { name, arg: this.parseTypeExpr() } : { name });
+      if (!this.match(TokenType.PIPE)) break;
+    }
+    this.expect(TokenType.RBRACKET);
+    return { kind: 'tyvariant', tags, bound };
+  }
+
+  private isTypeConstructorStart(): boolean {
+    const tok = this.current();
+    if (tok.type === TokenType.IDENT) return !tok.value.startsWith("'") && tok.value !== 'val' && tok.value !== 'constraint';
+    return tok.type === TokenType.UPPER_IDENT && this.tokens[this.pos + 1]?.type === TokenType.DOT;
+  }
+
+  private parseQualifiedTypeName(): string {
+    let t = this.advance().value;
+    while (this.match(TokenType.DOT)) {
+      t += '.' + this.advance().value;
     }
-    return this.advance().value;
+    return t;
   }
 
   // ── Exception Declaration ───────────────────────────────────────────────
@@ -194,47 +412,49 @@ export class Parser {
     const tok = this.advance(); // let
     const isRec = !!this.match(TokenType.REC);
 
+    // let x = ... and y = ...: the node holds the first binding
+    const first = this.parseLetBinding(isRec, tok);
+    const and: LetBinding[] = [];
+    while (this.peek() === TokenType.AND) {
+      and.push(this.parseLetBinding(isRec, this.advance()));
+    }
+    const inExpr = this.match(TokenType.IN) ? this.parseExpr() : undefined;
+    const node = { ...first, ...(and.length > 0 ? { and } : {}), inExpr, line: tok.line };
+    if (isRec) return { kind: 'letrec', ...node };
+    return { kind: 'let', ...node };
+  }
+
+  /** One binding of a let, after `let`, `let rec` or `and`. */
+  private parseLetBinding(isRec: boolean, tok: Token): LetBinding {
     // let () = ...  (unit pattern)
     if (this.peek() === TokenType.IDENT && this.current().value === '()') {
       this.advance(); // ()
       this.expect(TokenType.EQ);
-      const body = this.parseExpr();
-      const inExpr = this.match(TokenType.IN) ? this.parseExpr() : undefined;
-      return {
-        kind: isRec ? 'letrec' : 'let',
-        name: '()',
-        params: [],
-        body,
-        inExpr,
-        line: tok.line,
-      };
+      return { name: '()', params: [], body: this.parseExpr(), line: tok.line };
     }
 
     // Parse name/pattern
     let name: string;
-    if (this.peek() === TokenType.IDENT) {
-      name = this.advance().value;
-    } else if (this.peek() === TokenType.LPAREN) {
-      // Could be a tuple pattern or operator like let (+) = ...
-      // For now, handle simple case
-      name = '_tuple_' + tok.line;
-      // Parse as expression
+    if (!isRec && this.isLetPattern()) {
+      // let (a, b) = ..., let { x; y } = ..., let x :: rest = ...
       const pattern = this.parsePattern();
       this.expect(TokenType.EQ);
       const body = this.parseExpr();
-      const inExpr = this.match(TokenType.IN) ? this.parseExpr() : undefined;
-      return { kind: 'let', name: this.patternToName(pattern), params: [], body, inExpr, line: tok.line };
+      if (pattern.kind === 'pvar') return { name: pattern.name, params: [], body, line: tok.line };
+      return { name: '_', pattern, params: [], body, line: tok.line };
+    } else if (this.peek() === TokenType.IDENT) {
+      name = this.advance().value;
     } else if (this.peek() === TokenType.UNDERSCORE) {
       this.advance();
       name = '_';
     } else {
-      throw new ParseError(`Expected identifier after 'let'`, tok.line, tok.column);
+      throw new ParseError(`Expected identifier after '${tok.value}'`, tok.line, tok.column);
     }
 
     // Parse parameters
-    const params: Pattern[] = [];
+    const params: Param[] = [];
     while (this.isParamStart()) {
-      params.push(this.parseSimplePattern());
+      params.push(this.parseParam());
     }
 
     // Type annotation (optional, skip for now)
@@ -243,30 +463,95 @@ export class Parser {
     }
 
     this.expect(TokenType.EQ);
-    const body = this.parseExpr();
-    const inExpr = this.match(TokenType.IN) ? this.parseExpr() : undefined;
-
-    return {
-      kind: isRec ? 'letrec' : 'let',
-      name,
-      params,
-      body,
-      inExpr,
-      line: tok.line,
-    };
+    return { name, params, body: this.parseExpr(), line: tok.line };
   }
 
-  private patternToName(p: Pattern): string {
-    if (p.kind === 'pvar') return p.name;
-    return '_';
+  // A let binding a pattern rather than a name and parameters
+  private isLetPattern(): boolean {
+    const t = this.peek();
+    if (t === TokenType.LPAREN || t === TokenType.LBRACE || t === TokenType.LBRACKET || t === TokenType.UPPER_IDENT) return true;
+    if (t !== TokenType.IDENT) return false;
+    const next = this.tokens[this.pos + 1];
+    return next?.type === TokenType.COMMA || next?.type === TokenType.COLONCOLON || (next?.type === TokenType.IDENT && next.value === 'as');
   }
 
   private isParamStart(): boolean {
     const t = this.peek();
-    return t === TokenType.IDENT || t === TokenType.UNDERSCORE || t === TokenType.LPAREN
+    return t === TokenType.IDENT || t === TokenType.UNDERSCORE || t === TokenType.LPAREN || this.isLabelStart()
       || t === TokenType.LBRACKET || (t === TokenType.UPPER_IDENT && this.current().value !== 'None' && this.current().value !== 'Some');
   }
 
+  private isLabelStart(): boolean {
+    const t = this.peek();
+    return t === TokenType.TILDE || t === TokenType.QUESTION || t === TokenType.LABEL || t === TokenType.OPTLABEL;
+  }
+
+  /** A parameter of `fun` or `let f`: `p`, `~x`, `~(x : t)`, `~x:p`, `?x`, `?(x = e)`, `?x:p`, `?x:(p = e)`. */
+  private parseParam(): Param {
+    const tok = this.current();
+    if (tok.type === TokenType.LABEL) {
+      this.advance();
+      return { label: tok.value, pattern: this.parseSimplePattern() };
+    }
+    if (tok.type === TokenType.TILDE) {
+      this.advance();
+      const label = this.parsePunnedLabel();
+      return { label, pattern: { kind: 'pvar', name: label } };
+    }
+    if (tok.type === TokenType.OPTLABEL) {
+      this.advance();
+      if (this.peek() === TokenType.LPAREN) return this.parseOptionalParam(tok.value);
+      return { label: tok.value, optional: true, pattern: this.parseSimplePattern() };
+    }
+    if (tok.type === TokenType.QUESTION) {
+      this.advance();
+      if (this.peek() === TokenType.LPAREN) return this.parseOptionalParam(null);
+      const label = this.expect(TokenType.IDENT).value;
+      return { label, optional: true, pattern: { kind: 'pvar', name: label } };
+    }
+    return { pattern: this.parseSimplePattern() };
+  }
+
+  // The `(p : t = default)` of an optional parameter; without a label, p must be a name
+  private parseOptionalParam(label: string | null): Param {
+    const open = this.expect(TokenType.LPAREN);
+    const pattern = this.parsePattern();
+    if (this.match(TokenType.COLON)) this.parseTypeAnnotation();
+    const defaultValue = this.match(TokenType.EQ) ? this.parseExpr() : undefined;
+    this.expect(TokenType.RPAREN);
+    if (label === null) {
+      if (pattern.kind !== 'pvar') throw new ParseError('Expected a parameter name after ?(', open.line, open.column);
+      label = pattern.name;
+    }
+    return defaultValue ? { label, optional: true, pattern, default: defaultValue } : { label, optional: true, pattern };
+  }
+
+  // The name after `~` or `?`: x or (x : t)
+  private parsePunnedLabel(): string {
+    if (!this.match(TokenType.LPAREN)) return this.expect(TokenType.IDENT).value;
+    const name = this.expect(TokenType.IDENT).value;
+    if (this.match(TokenType.COLON)) this.parseTypeAnnotation();
+    this.expect(TokenType.RPAREN);
+    return name;
+  }
+
+  /** An argument of an application: `e`, `~x`, `~x:e`, `?x` or `?x:e`. */
+  private parseArg(): Arg {
+    const tok = this.current();
+    if (tok.type === TokenType.LABEL || tok.type === TokenType.OPTLABEL) {
+      this.advance();
+      const value = this.parsePrimary();
+      return tok.type === TokenType.OPTLABEL ? { label: tok.value, optional: true, value } : { label: tok.value, value };
+    }
+    if (tok.type === TokenType.TILDE || tok.type === TokenType.QUESTION) {
+      this.advance();
+      const label = this.parsePunnedLabel();
+      const value: ASTNode = { kind: 'var', name: label, line: tok.line };
+      return tok.type === TokenType.QUESTION ? { label, optional: true, value } : { label, value };
+    }
+    return { value: this.parsePrimary() };
+  }
+
   // ── Expressions ─────────────────────────────────────────────────────────
   private parseExpr(): ASTNode {
     return this.parseSequence();
@@ -335,9 +620,9 @@ export class Parser {
   // ── Fun ─────────────────────────────────────────────────────────────────
   private parseFun(): ASTNode {
     const tok = this.advance(); // fun
-    const params: Pattern[] = [];
+    const params: Param[] = [];
     while (this.peek() !== TokenType.ARROW && !this.isAtEnd()) {
-      params.push(this.parseSimplePattern());
+      params.push(this.parseParam());
     }
     this.expect(TokenType.ARROW);
     const body = this.parseExpr();
@@ -352,7 +637,7 @@ export class Parser {
     // Desugar to fun _arg -> match _arg with ...
     return {
       kind: 'fun',
-      params: [{ kind: 'pvar', name: '__arg' }],
+      params: [{ pattern: { kind: 'pvar', name: '__arg' } }],
       body: { kind: 'match', expr: { kind: 'var', name: '__arg', line: tok.line }, cases, line: tok.line },
       line: tok.line,
     };
@@ -364,14 +649,22 @@ export class Parser {
     const expr = this.parseExpr();
     this.expect(TokenType.WITH);
     this.match(TokenType.PIPE); // optional leading |
-    const cases = this.parseMatchCases();
+    const cases = this.parseMatchCases(true);
     return { kind: 'match', expr, cases, line: tok.line };
   }
 
-  private parseMatchCases(): MatchCase[] {
+  /** `exception` cases are only allowed in a match. */
+  private parseMatchCases(allowException: boolean = false): MatchCase[] {
     const cases: MatchCase[] = [];
     do {
-      const pattern = this.parsePattern();
+      const exceptionTok = this.current();
+      let pattern: Pattern;
+      if (this.match(TokenType.EXCEPTION)) {
+        if (!allowException) throw new ParseError('Exception patterns are only allowed in match cases', exceptionTok.line, exceptionTok.column);
+        pattern = { kind: 'pexception', pattern: this.parsePattern() };
+      } else {
+        pattern = this.parsePattern();
+      }
       let guard: ASTNode | undefined;
       if (this.peek() === TokenType.IDENT && this.current().value === 'when') {
         this.advance();
@@ -429,6 +722,18 @@ export class Parser {
       const value = this.parseOr();
       return { kind: 'assign', ref: expr, value, line: expr.line };
     }
+    if (this.peek() === TokenType.LARROW) {
+      // arr.(i) <- v and r.field <- v
+      const arrow = this.advance();
+      const value = this.parseExprNoSeq();
+      if (expr.kind === 'arrayaccess') {
+        return { kind: 'arrayset', array: expr.array, index: expr.index, value, line: expr.line };
+      }
+      if (expr.kind === 'fieldaccess') {
+        return { kind: 'fieldset', expr: expr.expr, field: expr.field, value, line: expr.line };
+      }
+      throw new ParseError('Only array elements and record fields can be assigned with <-', arrow.line, arrow.column);
+    }
     return expr;
   }
 
@@ -476,7 +781,7 @@ export class Parser {
     let left = this.parseConcat();
     while (this.match(TokenType.PIPE_GT)) {
       const right = this.parseConcat();
-      left = { kind: 'app', func: right, args: [left], line: left.line };
+      left = { kind: 'app', func: right, args: [{ value: left }], line: left.line };
     }
     return left;
   }
@@ -525,28 +830,44 @@ export class Parser {
   }
 
   private parseMultiplicative(): ASTNode {
-    let left = this.parseUnary();
+    let left = this.parseShift();
+    const ops = [TokenType.LAND, TokenType.LOR, TokenType.LXOR];
     while (true) {
       if (this.match(TokenType.STAR)) {
-        const right = this.parseUnary();
+        const right = this.parseShift();
         left = { kind: 'binop', op: '*', left, right, line: left.line };
       } else if (this.match(TokenType.SLASH)) {
-        const right = this.parseUnary();
+        const right = this.parseShift();
         left = { kind: 'binop', op: '/', left, right, line: left.line };
       } else if (this.match(TokenType.MOD)) {
-        const right = this.parseUnary();
+        const right = this.parseShift();
         left = { kind: 'binop', op: 'mod', left, right, line: left.line };
+      } else if (ops.includes(this.peek())) {
+        const op = this.advance();
+        const right = this.parseShift();
+        left = { kind: 'binop', op: op.value, left, right, line: left.line };
       } else if (this.match(TokenType.STAR_DOT)) {
-        const right = this.parseUnary();
+        const right = this.parseShift();
         left = { kind: 'binop', op: '*.', left, right, line: left.line };
       } else if (this.match(TokenType.SLASH_DOT)) {
-        const right = this.parseUnary();
+        const right = this.parseShift();
         left = { kind: 'binop', op: '/.', left, right, line: left.line };
       } else break;
     }
     return left;
   }
 
+  // lsl, lsr and asr bind tighter than *, and to the right
+  private parseShift(): ASTNode {
+    const left = this.parseUnary();
+    if ([TokenType.LSL, TokenType.LSR, TokenType.ASR].includes(this.peek())) {
+      const op = this.advance();
+      const right = this.parseShift();
+      return { kind: 'binop', op: op.value, left, right, line: left.line };
+    }
+    return left;
+  }
+
   private parseUnary(): ASTNode {
     if (this.peek() === TokenType.MINUS) {
       const tok = this.advance();
@@ -567,33 +888,14 @@ export class Parser {
   }
 
   private parseApplication(): ASTNode {
-    let func = this.parsePrimary();
+    const func = this.parsePrimary();
 
-    // Handle Printf.printf specially
-    if (func.kind === 'fieldaccess' &&
-        ((func as any).expr?.kind === 'constructor' && (func as any).expr?.name === 'Printf') &&
-        (func as any).field === 'printf') {
-      return this.parsePrintfCall(func);
-    }
-
-    // Handle module.function calls
+    // All the arguments go in one application, so labels can be matched across them
+    const args: Arg[] = [];
     while (this.isAppArg()) {
-      const arg = this.parsePrimary();
-      func = { kind: 'app', func, args: [arg], line: func.line };
-    }
-    return func;
-  }
-
-  private parsePrintfCall(func: ASTNode): ASTNode {
-    if (this.peek() === TokenType.STRING) {
-      const fmt = this.advance().value;
-      const args: ASTNode[] = [];
-      while (this.isAppArg()) {
-        args.push(this.parsePrimary());
-      }
-      return { kind: 'printf', format: fmt, args, line: func.line };
+      args.push(this.parseArg());
     }
-    return func;
+    return args.length > 0 ? { kind: 'app', func, args, line: func.line } : func;
   }
 
   private isAppArg(): boolean {
@@ -608,19 +910,32 @@ export class Parser {
         t === TokenType.LE || t === TokenType.GE || t === TokenType.PHYSICAL_EQ || t === TokenType.PHYSICAL_NEQ ||
         t === TokenType.PLUS || t === TokenType.MINUS || t === TokenType.STAR || t === TokenType.SLASH ||
         t === TokenType.PLUS_DOT || t === TokenType.MINUS_DOT || t === TokenType.STAR_DOT || t === TokenType.SLASH_DOT ||
-        t === TokenType.MOD || t === TokenType.AMPAMP || t === TokenType.PIPEPIPE ||
+        t === TokenType.MOD || t === TokenType.LAND || t === TokenType.LOR || t === TokenType.LXOR ||
+        t === TokenType.LSL || t === TokenType.LSR || t === TokenType.ASR || t === TokenType.AMPAMP || t === TokenType.PIPEPIPE ||
         t === TokenType.COLONCOLON || t === TokenType.AT || t === TokenType.CARET ||
-        t === TokenType.COLONEQUAL || t === TokenType.PIPE_GT ||
+        t === TokenType.COLONEQUAL || t === TokenType.LARROW || t === TokenType.PIPE_GT ||
         t === TokenType.COMMA || t === TokenType.COLON ||
         t === TokenType.AND ||
         t === TokenType.LET || t === TokenType.IF || t === TokenType.MATCH || t === TokenType.FUN ||
         t === TokenType.FUNCTION || t === TokenType.TRY || t === TokenType.FOR || t === TokenType.WHILE ||
-        t === TokenType.TYPE || t === TokenType.EXCEPTION || t === TokenType.OPEN) {
+        t === TokenType.TYPE || t === TokenType.EXCEPTION || t === TokenType.OPEN ||
+        t === TokenType.INCLUDE || t === TokenType.MODULE) {
       return false;
     }
     return true;
   }
 
+  /** An integer literal's type and value; the l and L suffixes make int32 and int64 literals. */
+  private intLiteral(tok: Token): { type: 'int' | 'int32' | 'int64'; value: bigint } {
+    const suffix = tok.value[tok.value.length - 1];
+    const type = suffix === 'l' ? 'int32' : suffix === 'L' ? 'int64' : 'int';
+    const value = parseInteger(type === 'int' ? tok.value : tok.value.slice(0, -1), type);
+    if (value === null) {
+      throw new ParseError(`Integer literal exceeds the range of representable integers of type ${type}`, tok.line, tok.column);
+    }
+    return { type, value };
+  }
+
   // ── Primary Expressions ─────────────────────────────────────────────────
   private parsePrimary(): ASTNode {
     const tok = this.current();
@@ -628,7 +943,7 @@ export class Parser {
     // Literals
     if (tok.type === TokenType.INT) {
       this.advance();
-      return { kind: 'literal', type: 'int', value: parseInt(tok.value), line: tok.line };
+      return { kind: 'literal', ...this.intLiteral(tok), line: tok.line };
     }
     if (tok.type === TokenType.FLOAT) {
       this.advance();
@@ -672,19 +987,21 @@ export class Parser {
           this.advance(); // (
           const idx = this.parseExpr();
           this.expect(TokenType.RPAREN);
-          if (this.peek() === TokenType.LT && this.tokens[this.pos + 1]?.type === TokenType.MINUS) {
-            this.advance(); // <
-            this.advance(); // -
-            const value = this.parseExpr();
-            node = { kind: 'arrayset', array: node, index: idx, value, line: tok.line };
-          } else {
-            node = { kind: 'arrayaccess', array: node, index: idx, line: tok.line };
-          }
+          node = { kind: 'arrayaccess', array: node, index: idx, line: tok.line };
         } else break;
       }
       return node;
     }
 
+    // Polymorphic variant: `Red, `Point (1, 2)
+    if (tok.type === TokenType.VARIANT_TAG) {
+      this.advance();
+      if (this.isAppArg() && !this.isLabelStart()) {
+        return { kind: 'constructor', name: tok.value, arg: this.parsePrimary(), line: tok.line };
+      }
+      return { kind: 'constructor', name: tok.value, line: tok.line };
+    }
+
     // ref
     if (tok.type === TokenType.REF) {
       this.advance();
@@ -699,36 +1016,61 @@ export class Parser {
       return { kind: 'raise', expr, line: tok.line };
     }
 
+    // assert
+    if (tok.type === TokenType.ASSERT) {
+      this.advance();
+      const expr = this.parsePrimary();
+      return { kind: 'assert', expr, line: tok.line, column: tok.column };
+    }
+
+    // lazy
+    if (tok.type === TokenType.LAZY) {
+      this.advance();
+      const expr = this.parsePrimary();
+      return { kind: 'lazy', expr, line: tok.line };
+    }
+
     // Constructor (upper case ident)
     if (tok.type === TokenType.UPPER_IDENT) {
       this.advance();
       let name = tok.value;
 
+      // Module path: M.N.Constructor
+      while (this.peek() === TokenType.DOT && this.tokens[this.pos + 1]?.type === TokenType.UPPER_IDENT) {
+        this.advance(); // .
+        name += '.' + this.advance().value;
+      }
+
       // Module access: Module.something
-      if (this.match(TokenType.DOT)) {
-        if (this.peek() === TokenType.IDENT) {
-          const field = this.advance().value;
-          let node: ASTNode = { kind: 'fieldaccess', expr: { kind: 'constructor', name, line: tok.line }, field, line: tok.line };
-
-          // Handle Printf.printf "fmt" args...
-          if (name === 'Printf' && field === 'printf' && this.peek() === TokenType.STRING) {
-            const fmt = this.advance().value;
-            const args: ASTNode[] = [];
-            while (this.isAppArg()) {
-              args.push(this.parsePrimary());
-            }
-            return { kind: 'printf', format: fmt, args, line: tok.line };
+      if (this.peek() === TokenType.DOT && this.tokens[this.pos + 1]?.type === TokenType.IDENT) {
+        this.advance(); // .
+        const field = this.advance().value;
+        let node: ASTNode = { kind: 'fieldaccess', expr: { kind: 'constructor', name, line: tok.line }, field, line: tok.line };
+
+        // Scanf.scanf "fmt" k / Scanf.sscanf src "fmt" k: the format fixes k's type
+        if (name === 'Scanf' && (field === 'scanf' || field === 'sscanf')) {
+          const source = field === 'sscanf' ? this.parsePrimary() : undefined;
+          if (this.peek() !== TokenType.STRING) {
+            throw new ParseError(`Scanf.${field} expects a literal format string`, this.current().line, this.current().column);
+          }
+          const fmt = this.advance().value;
+          const args: ASTNode[] = [];
+          while (this.isAppArg()) {
+            args.push(this.parsePrimary());
           }
+          return { kind: 'scanf', format: fmt, source, args, line: tok.line };
+        }
 
-          return node;
-        } else if (this.peek() === TokenType.UPPER_IDENT) {
-          name = name + '.' + this.advance().value;
-          return { kind: 'constructor', name, line: tok.line };
+        // Record fields of a module value: M.origin.x
+        while (this.peek() === TokenType.DOT && this.tokens[this.pos + 1]?.type === TokenType.IDENT) {
+          this.advance(); // .
+          node = { kind: 'fieldaccess', expr: node, field: this.advance().value, line: tok.line };
         }
+        return node;
       }
 
       // Constructor with argument
-      if (this.isAppArg()) {
+      if (this.isAppArg() && !this.isLabelStart()) {
         const arg = this.parsePrimary();
         return { kind: 'constructor', name, arg, line: tok.line };
       }
@@ -756,7 +1098,13 @@ export class Parser {
         this.parseTypeAnnotation();
       }
       this.expect(TokenType.RPAREN);
-      return expr;
+      // Record fields of a parenthesized expression: (f x).field
+      let node = expr;
+      while (this.peek() === TokenType.DOT && this.tokens[this.pos + 1]?.type === TokenType.IDENT) {
+        this.advance(); // .
+        node = { kind: 'fieldaccess', expr: node, field: this.advance().value, line: tok.line };
+      }
+      return node;
     }
 
     // List
@@ -793,6 +1141,12 @@ export class Parser {
     // Record literal { field = value; ... }
     if (tok.type === TokenType.LBRACE) {
       this.advance();
+      // { base with f = v; ... }
+      let base: ASTNode | undefined;
+      if (!(this.peek() === TokenType.IDENT && this.tokens[this.pos + 1]?.type === TokenType.EQ)) {
+        base = this.parsePrimary();
+        this.expect(TokenType.WITH);
+      }
       const fields: { name: string; value: ASTNode }[] = [];
       while (this.peek() !== TokenType.RBRACE && !this.isAtEnd()) {
         const name = this.expect(TokenType.IDENT).value;
@@ -802,7 +1156,7 @@ export class Parser {
         this.match(TokenType.SEMICOLON);
       }
       this.expect(TokenType.RBRACE);
-      return { kind: 'record', fields, line: tok.line };
+      return base ? { kind: 'record', fields, base, line: tok.line } : { kind: 'record', fields, line: tok.line };
     }
 
     // Begin...end
@@ -823,36 +1177,57 @@ export class Parser {
   }
 
   // ── Patterns ────────────────────────────────────────────────────────────
+  // Loosest first: `p as x`, then `p | q`, `p, q` and `p :: q`
   private parsePattern(): Pattern {
-    let pat = this.parseConsPattern();
-    if (this.peek() === TokenType.PIPE && this.tokens[this.pos + 1]?.type !== TokenType.RBRACKET) {
-      // Check if this is an or-pattern (not a new match case)
-      // This is tricky - for now, don't handle or-patterns in simple cases
+    let pat = this.parseOrPattern();
+    while (this.isContextualKeyword('as')) {
+      this.advance();
+      pat = { kind: 'palias', pattern: pat, name: this.expect(TokenType.IDENT).value };
     }
     return pat;
   }
 
-  private parseConsPattern(): Pattern {
+  // A `|` right after a pattern is always an or-pattern: a new case starts after an expression
+  private parseOrPattern(): Pattern {
     let pat = this.parseTuplePattern();
-    if (this.match(TokenType.COLONCOLON)) {
-      const tail = this.parseConsPattern();
-      return { kind: 'pcons', head: pat, tail };
+    while (this.match(TokenType.PIPE)) {
+      pat = { kind: 'por', left: pat, right: this.parseTuplePattern() };
     }
     return pat;
   }
 
   private parseTuplePattern(): Pattern {
-    let pat = this.parseSimplePattern();
+    let pat = this.parseConsPattern();
     if (this.peek() === TokenType.COMMA) {
       const elements = [pat];
       while (this.match(TokenType.COMMA)) {
-        elements.push(this.parseSimplePattern());
+        elements.push(this.parseConsPattern());
       }
       return { kind: 'ptuple', elements };
     }
     return pat;
   }
 
+  private parseConsPattern(): Pattern {
+    const pat = this.parseSimplePattern();
+    if (this.match(TokenType.COLONCOLON)) {
+      const tail = this.parseConsPattern();
+      return { kind: 'pcons', head: pat, tail };
+    }
+    return pat;
+  }
+
+  // `as` and `when` are identifiers to the lexer
+  private isContextualKeyword(word: string): boolean {
+    return this.peek() === TokenType.IDENT && this.current().value === word;
+  }
+
+  // A constructor's argument; `as` and `when` continue the enclosing pattern instead
+  private isPatternArgStart(): boolean {
+    if (this.isContextualKeyword('as') || this.isContextualKeyword('when')) return false;
+    return (this.isAppArg() && !this.isLabelStart()) || this.peek() === TokenType.LPAREN;
+  }
+
   parseSimplePattern(): Pattern {
     const tok = this.current();
 
@@ -863,7 +1238,7 @@ export class Parser {
 
     if (tok.type === TokenType.INT) {
       this.advance();
-      return { kind: 'pliteral', type: 'int', value: parseInt(tok.value) };
+      return { kind: 'pliteral', ...this.intLiteral(tok) };
     }
 
     if (tok.type === TokenType.FLOAT) {
@@ -878,6 +1253,12 @@ export class Parser {
 
     if (tok.type === TokenType.CHAR) {
       this.advance();
+      // Character range 'a'..'z'
+      if (this.peek() === TokenType.DOT && this.tokens[this.pos + 1]?.type === TokenType.DOT) {
+        this.advance();
+        this.advance();
+        return { kind: 'prange', from: tok.value, to: this.expect(TokenType.CHAR).value };
+      }
       return { kind: 'pliteral', type: 'char', value: tok.value };
     }
 
@@ -897,16 +1278,29 @@ export class Parser {
         return { kind: 'punit' };
       }
       this.advance();
-      return { kind: 'pvar', name: tok.value };
+      return tok.value === '_' ? { kind: 'pwild' } : { kind: 'pvar', name: tok.value };
     }
 
     if (tok.type === TokenType.UPPER_IDENT) {
-      this.advance();
+      // Qualified constructors (M.Leaf) match by their unqualified name
+      const path = this.parseModulePath();
+      const name = path.slice(path.lastIndexOf('.') + 1);
       // Constructor pattern
-      if (this.isAppArg() || this.peek() === TokenType.LPAREN) {
+      if (this.isPatternArgStart()) {
         const arg = this.parseSimplePattern();
-        return { kind: 'pconstructor', name: tok.value, arg };
+        return { kind: 'pconstructor', name, arg };
       }
+      return { kind: 'pconstructor', name };
+    }
+
+    if (tok.type === TokenType.LAZY) {
+      this.advance();
+      return { kind: 'plazy', pattern: this.parseSimplePattern() };
+    }
+
+    if (tok.type === TokenType.VARIANT_TAG) {
+      this.advance();
+      if (this.isPatternArgStart()) return { kind: 'pconstructor', name: tok.value, arg: this.parseSimplePattern() };
       return { kind: 'pconstructor', name: tok.value };
     }
 
@@ -916,14 +1310,17 @@ export class Parser {
         return { kind: 'punit' };
       }
       const pat = this.parsePattern();
-      // Handle type annotation in pattern
+      // Type constraint (x : int)
       if (this.match(TokenType.COLON)) {
-        this.parseTypeAnnotation();
+        const type = this.parseTypeAnnotation();
+        this.expect(TokenType.RPAREN);
+        return { kind: 'pconstraint', pattern: pat, type };
       }
       this.expect(TokenType.RPAREN);
       return pat;
     }
 
+    // List [p; q] or array [|p; q|]; both close with an RBRACKET
     if (tok.type === TokenType.LBRACKET) {
       this.advance();
       if (tok.value === '[]') {
@@ -938,7 +1335,32 @@ export class Parser {
         }
       }
       this.expect(TokenType.RBRACKET);
-      return { kind: 'plist', elements };
+      return tok.value === '[|' ? { kind: 'parray', elements } : { kind: 'plist', elements };
+    }
+
+    // Record { x; y = p; _ }: a field without a pattern binds its own name
+    if (tok.type === TokenType.LBRACE) {
+      this.advance();
+      const fields: { name: string; pattern: Pattern }[] = [];
+      while (this.peek() !== TokenType.RBRACE && !this.isAtEnd()) {
+        if (this.peek() === TokenType.UNDERSCORE || this.isContextualKeyword('_')) {
+          this.advance();
+          this.match(TokenType.SEMICOLON);
+          continue;
+        }
+        // Fields may be qualified (M.x); they are looked up by their own name
+        while (this.peek() === TokenType.UPPER_IDENT) {
+          this.advance();
+          this.expect(TokenType.DOT);
+        }
+        const name = this.expect(TokenType.IDENT).value;
+        const type = this.match(TokenType.COLON) ? this.parseTypeAnnotation() : undefined;
+        const pattern: Pattern = this.match(TokenType.EQ) ? this.parsePattern() : { kind: 'pvar', name };
+        fields.push({ name, pattern: type ? { kind: 'pconstraint', pattern, type } : pattern });
+        if (!this.match(TokenType.SEMICOLON)) break;
+      }
+      this.expect(TokenType.RBRACE);
+      return { kind: 'precord', fields };
     }
 
     throw new ParseError(`Unexpected token in pattern: ${tok.type} '${tok.value}'`, tok.line, tok.column);
@@ -0,0 +1,820 @@
+import { RuntimeError } from './types';
+import { raise } from './exceptions';
+import { mkInt, wrap, intOperation, parseInteger, MAX_INT, MIN_INT, type IntKind } from './integers';
+import type { Value, VBuiltin, VHashtbl, VBuffer, VStack, VQueue, VArray, Environment } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Standard Library Modules
+// ═══════════════════════════════════════════════════════════════════════════
+//
+// Hashtbl, Buffer, Stack, Queue, Option, Result, Seq, Int, Int32 and
+// Int64, and the List, String, Char and Array functions beyond the core ones
+// the evaluator installs itself. Like every builtin, each function carries its OCaml
+// signature as its name, which is what the type checker reads.
+//
+// Mutable containers are allocated through the host, which puts them on the
+// heap; the memory view shows their current contents.
+
+/** What the library needs from the evaluator. */
+export interface StdlibHost {
+  builtin(signature: string, arity: number, fn: (args: Value[]) => Value): VBuiltin;
+  apply(fn: Value, ...args: Value[]): Value;
+  compare(a: Value, b: Value): number;
+  /** Put a mutable value on the heap, as a `type`, and return it. */
+  allocate<T extends VHashtbl | VBuffer | VStack | VQueue | VArray>(value: T, type: string, words?: number): T;
+  /** Count `words` against the memory limit, before building something that large. */
+  charge(words: number): void;
+}
+
+/** The words a string of `length` bytes takes: a header, and the bytes padded to whole words. */
+export function stringWords(length: number): number {
+  return Math.ceil((length + 1) / 8) + 1;
+}
+
+const unit: Value = { tag: 'unit' };
+const none: Value = { tag: 'constructor', name: 'None' };
+const nil: Value = { tag: 'constructor', name: 'Nil' };
+const int = (value: number): Value => mkInt(value);
+const bool = (value: boolean): Value => ({ tag: 'bool', value });
+const str = (value: string): Value => ({ tag: 'string', value });
+const char = (value: string): Value => ({ tag: 'char', value });
+const list = (elements: Value[]): Value => ({ tag: 'list', elements });
+const tuple = (...elements: Value[]): Value => ({ tag: 'tuple', elements });
+const some = (value: Value): Value => ({ tag: 'constructor', name: 'Some', value });
+const option = (value: Value | undefined): Value => value === undefined ? none : some(value);
+const isTrue = (v: Value): boolean => v.tag === 'bool' && v.value;
+
+function expect<T extends Value['tag']>(v: Value, tag: T, fn: string): Extract<Value, { tag: T }> {
+  if (v.tag !== tag) throw new RuntimeError(`${fn}: expected ${tag}`);
+  return v as Extract<Value, { tag: T }>;
+}
+
+/** An int argument used as a count or an index. */
+function intArg(v: Value, fn: string): number {
+  return Number(expect(v, 'int', fn).value);
+}
+
+/** The payload of `Some v`, or undefined for `None`. */
+function optionValue(v: Value): Value | undefined {
+  return v.tag === 'constructor' && v.name === 'Some' ? v.value : undefined;
+}
+
+/** A structural hash, like Hashtbl.hash: equal values hash the same. */
+export function hashValue(v: Value): number {
+  let hash = 0x811c9dc5;
+  const mix = (text: string) => {
+    for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  };
+  // Like OCaml, only the first few meaningful parts of a large value count
+  let budget = 10;
+  const visit = (v: Value) => {
+    if (budget-- <= 0) return;
+    switch (v.tag) {
+      case 'int': case 'int32': case 'int64': case 'float': case 'bool': mix(`${v.tag}:${v.value}`); break;
+      case 'string': case 'char': mix(`${v.tag}:${v.value}`); break;
+      case 'unit': mix('()'); break;
+      case 'list': case 'tuple': case 'array': mix(v.tag); v.elements.forEach(visit); break;
+      case 'constructor': case 'exn': mix(v.name); if (v.value) visit(v.value); break;
+      case 'record': for (const [name, field] of v.fields) { mix(name); visit(field); } break;
+      case 'ref': visit(v.value); break;
+      default: mix(v.tag);
+    }
+  };
+  visit(v);
+  return (hash >>> 0) & 0x3fffffff;
+}
+
+/** Install the library in the global environment, as flat `Module.name` bindings. */
+export function installStdlibModules(env: Environment, host: StdlibHost): void {
+  const { builtin, apply } = host;
+  const equal = (a: Value, b: Value) => host.compare(a, b) === 0;
+  const cmp = (fn: Value) => (a: Value, b: Value): number => {
+    const result = apply(fn, a, b);
+    if (result.tag !== 'int') throw new RuntimeError('comparison must return int');
+    return Number(result.value);
+  };
+  const elementsOf = (v: Value, fn: string): Value[] => expect(v, 'list', fn).elements;
+  const pairs = (v: Value, fn: string): [Value, Value][] =>
+    elementsOf(v, fn).map(p => p.tag === 'tuple' ? [p.elements[0], p.elements[1]] as [Value, Value] : [p, unit]);
+  const def = (name: string, signature: string, arity: number, fn: (args: Value[]) => Value) =>
+    env.set(name, builtin(signature, arity, fn));
+  // A list built from fresh cons cells: a header, the head and the tail each
+  const newList = (elements: Value[]): Value => {
+    host.charge(3 * elements.length);
+    return list(elements);
+  };
+
+  // ── Seq ───────────────────────────────────────────────────────────────
+  // A sequence is a function from () to Nil or Cons (x, rest)
+  const cons = (x: Value, rest: Value): Value => ({ tag: 'constructor', name: 'Cons', value: tuple(x, rest) });
+  const delay = (node: () => Value): Value => builtin("'a Seq.t", 1, () => node());
+  const next = (seq: Value): [Value, Value] | null => {
+    const node = apply(seq, unit);
+    return node.tag === 'constructor' && node.name === 'Cons' && node.value?.tag === 'tuple'
+      ? [node.value.elements[0], node.value.elements[1]] : null;
+  };
+  const seqOf = (items: Value[], i = 0): Value => delay(() => i < items.length ? cons(items[i], seqOf(items, i + 1)) : nil);
+  const seqItems = (seq: Value): Value[] => {
+    const items: Value[] = [];
+    for (let node = next(seq); node; node = next(node[1])) items.push(node[0]);
+    return items;
+  };
+  const seqMap = (seq: Value, f: (x: Value, rest: Value) => Value): Value => delay(() => {
+    const node = next(seq);
+    return node ? f(node[0], node[1]) : nil;
+  });
+
+  def('Seq.empty', "'a Seq.t", 1, () => nil);
+  def('Seq.return', "'a -> 'a Seq.t", 1, (args) => seqOf([args[0]]));
+  def('Seq.cons', "'a -> 'a Seq.t -> 'a Seq.t", 2, (args) => delay(() => cons(args[0], args[1])));
+  const append = (a: Value, b: Value): Value => delay(() => {
+    const node = next(a);
+    return node ? cons(node[0], append(node[1], b)) : apply(b, unit);
+  });
+  def('Seq.append', "'a Seq.t -> 'a Seq.t -> 'a Seq.t", 2, (args) => append(args[0], args[1]));
+  const map = (f: Value, seq: Value): Value => seqMap(seq, (x, rest) => cons(apply(f, x), map(f, rest)));
+  def('Seq.map', "('a -> 'b) -> 'a Seq.t -> 'b Seq.t", 2, (args) => map(args[0], args[1]));
+  const filter = (f: Value, seq: Value): Value => seqMap(seq, (x, rest) =>
+    isTrue(apply(f, x)) ? cons(x, filter(f, rest)) : apply(filter(f, rest), unit));
+  def('Seq.filter', "('a -> bool) -> 'a Seq.t -> 'a Seq.t", 2, (args) => filter(args[0], args[1]));
+  const filterMap = (f: Value, seq: Value): Value => seqMap(seq, (x, rest) => {
+    const y = optionValue(apply(f, x));
+    return y !== undefined ? cons(y, filterMap(f, rest)) : apply(filterMap(f, rest), unit);
+  });
+  def('Seq.filter_map', "('a -> 'b option) -> 'a Seq.t -> 'b Seq.t", 2, (args) => filterMap(args[0], args[1]));
+  const flatMap = (f: Value, seq: Value): Value => seqMap(seq, (x, rest) => apply(append(apply(f, x), flatMap(f, rest)), unit));
+  def('Seq.flat_map', "('a -> 'b Seq.t) -> 'a Seq.t -> 'b Seq.t", 2, (args) => flatMap(args[0], args[1]));
+  env.set('Seq.concat_map', env.get('Seq.flat_map')!);
+  def('Seq.iter', "('a -> unit) -> 'a Seq.t -> unit", 2, (args) => {
+    for (let node = next(args[1]); node; node = next(node[1])) apply(args[0], node[0]);
+    return unit;
+  });
+  def('Seq.fold_left', "('a -> 'b -> 'a) -> 'a -> 'b Seq.t -> 'a", 3, (args) => {
+    let acc = args[1];
+    for (let node = next(args[2]); node; node = next(node[1])) acc = apply(args[0], acc, node[0]);
+    return acc;
+  });
+  // Infinite sequences: only the nodes asked for are ever computed
+  const unfold = (f: Value, state: Value): Value => delay(() => {
+    const step = optionValue(apply(f, state));
+    return step?.tag === 'tuple' ? cons(step.elements[0], unfold(f, step.elements[1])) : nil;
+  });
+  def('Seq.unfold', "('b -> ('a * 'b) option) -> 'b -> 'a Seq.t", 2, (args) => unfold(args[0], args[1]));
+  const iterate = (f: Value, x: Value): Value => delay(() => cons(x, iterate(f, apply(f, x))));
+  def('Seq.iterate', "('a -> 'a) -> 'a -> 'a Seq.t", 2, (args) => iterate(args[0], args[1]));
+  const ints = (n: bigint): Value => delay(() => cons(mkInt(n), ints(n + 1n)));
+  def('Seq.ints', "int -> int Seq.t", 1, (args) => ints(expect(args[0], 'int', 'Seq.ints').value));
+  const repeat = (x: Value): Value => delay(() => cons(x, repeat(x)));
+  def('Seq.repeat', "'a -> 'a Seq.t", 1, (args) => repeat(args[0]));
+  const init = (n: number, f: Value, i = 0): Value => delay(() => i < n ? cons(apply(f, int(i)), init(n, f, i + 1)) : nil);
+  def('Seq.init', "int -> (int -> 'a) -> 'a Seq.t", 2, (args) => {
+    const n = intArg(args[0], 'Seq.init');
+    if (n < 0) raise('Invalid_argument', 'Seq.init');
+    return init(n, args[1]);
+  });
+  const take = (n: number, seq: Value): Value => n <= 0 ? delay(() => nil) : seqMap(seq, (x, rest) => cons(x, take(n - 1, rest)));
+  def('Seq.take', "int -> 'a Seq.t -> 'a Seq.t", 2, (args) => {
+    const n = intArg(args[0], 'Seq.take');
+    if (n < 0) raise('Invalid_argument', 'Seq.take');
+    return take(n, args[1]);
+  });
+  def('Seq.drop', "int -> 'a Seq.t -> 'a Seq.t", 2, (args) => {
+    const n = intArg(args[0], 'Seq.drop');
+    if (n < 0) raise('Invalid_argument', 'Seq.drop');
+    return delay(() => {
+      let seq = args[1];
+      for (let i = 0; i < n; i++) {
+        const node = next(seq);
+        if (!node) return nil;
+        seq = node[1];
+      }
+      return apply(seq, unit);
+    });
+  });
+  const takeWhile = (f: Value, seq: Value): Value => seqMap(seq, (x, rest) => isTrue(apply(f, x)) ? cons(x, takeWhile(f, rest)) : nil);
+  def('Seq.take_while', "('a -> bool) -> 'a Seq.t -> 'a Seq.t", 2, (args) => takeWhile(args[0], args[1]));
+  def('Seq.drop_while', "('a -> bool) -> 'a Seq.t -> 'a Seq.t", 2, (args) => delay(() => {
+    let seq = args[1];
+    for (let node = next(seq); node; node = next(seq)) {
+      if (!isTrue(apply(args[0], node[0]))) return cons(node[0], node[1]);
+      seq = node[1];
+    }
+    return nil;
+  }));
+  const seqZip = (a: Value, b: Value): Value => seqMap(a, (x, restA) => {
+    const node = next(b);
+    return node ? cons(tuple(x, node[0]), seqZip(restA, node[1])) : nil;
+  });
+  def('Seq.zip', "'a Seq.t -> 'b Seq.t -> ('a * 'b) Seq.t", 2, (args) => seqZip(args[0], args[1]));
+  def('Seq.is_empty', "'a Seq.t -> bool", 1, (args) => bool(next(args[0]) === null));
+  def('Seq.uncons', "'a Seq.t -> ('a * 'a Seq.t) option", 1, (args) => {
+    const node = next(args[0]);
+    return node ? some(tuple(node[0], node[1])) : none;
+  });
+  def('Seq.length', "'a Seq.t -> int", 1, (args) => int(seqItems(args[0]).length));
+
+  // ── List ──────────────────────────────────────────────────────────────
+  def('List.filter_map', "('a -> 'b option) -> 'a list -> 'b list", 2, (args) =>
+    newList(elementsOf(args[1], 'List.filter_map').flatMap(x => {
+      const y = optionValue(apply(args[0], x));
+      return y === undefined ? [] : [y];
+    })));
+  def('List.partition', "('a -> bool) -> 'a list -> 'a list * 'a list", 2, (args) => {
+    const yes: Value[] = [];
+    const no: Value[] = [];
+    for (const x of elementsOf(args[1], 'List.partition')) (isTrue(apply(args[0], x)) ? yes : no).push(x);
+    return tuple(newList(yes), newList(no));
+  });
+  const zip = (a: Value, b: Value, fn: string): [Value, Value][] => {
+    const xs = elementsOf(a, fn);
+    const ys = elementsOf(b, fn);
+    if (xs.length !== ys.length) raise('Invalid_argument', fn);
+    return xs.map((x, i) => [x, ys[i]]);
+  };
+  def('List.combine', "'a list -> 'b list -> ('a * 'b) list", 2, (args) =>
+    newList(zip(args[0], args[1], 'List.combine').map(([x, y]) => tuple(x, y))));
+  def('List.split', "('a * 'b) list -> 'a list * 'b list", 1, (args) => {
+    const ps = pairs(args[0], 'List.split');
+    return tuple(newList(ps.map(p => p[0])), newList(ps.map(p => p[1])));
+  });
+  def('List.assoc_opt', "'a -> ('a * 'b) list -> 'b option", 2, (args) =>
+    option(pairs(args[1], 'List.assoc_opt').find(([k]) => equal(k, args[0]))?.[1]));
+  def('List.mem_assoc', "'a -> ('a * 'b) list -> bool", 2, (args) =>
+    bool(pairs(args[1], 'List.mem_assoc').some(([k]) => equal(k, args[0]))));
+  def('List.remove_assoc', "'a -> ('a * 'b) list -> ('a * 'b) list", 2, (args) => {
+    const items = elementsOf(args[1], 'List.remove_assoc');
+    const i = pairs(args[1], 'List.remove_assoc').findIndex(([k]) => equal(k, args[0]));
+    return newList(i < 0 ? items : items.filter((_, j) => j !== i));
+  });
+  def('List.find', "('a -> bool) -> 'a list -> 'a", 2, (args) =>
+    elementsOf(args[1], 'List.find').find(x => isTrue(apply(args[0], x))) ?? raise('Not_found'));
+  def('List.find_opt', "('a -> bool) -> 'a list -> 'a option", 2, (args) =>
+    option(elementsOf(args[1], 'List.find_opt').find(x => isTrue(apply(args[0], x)))));
+  def('List.find_map', "('a -> 'b option) -> 'a list -> 'b option", 2, (args) => {
+    for (const x of elementsOf(args[1], 'List.find_map')) {
+      const y = apply(args[0], x);
+      if (optionValue(y) !== undefined) return y;
+    }
+    return none;
+  });
+  def('List.nth_opt', "'a list -> int -> 'a option", 2, (args) =>
+    option(elementsOf(args[0], 'List.nth_opt')[intArg(args[1], 'List.nth_opt')]));
+  def('List.iteri', "(int -> 'a -> unit) -> 'a list -> unit", 2, (args) => {
+    elementsOf(args[1], 'List.iteri').forEach((x, i) => apply(args[0], int(i), x));
+    return unit;
+  });
+  def('List.filteri', "(int -> 'a -> bool) -> 'a list -> 'a list", 2, (args) =>
+    newList(elementsOf(args[1], 'List.filteri').filter((x, i) => isTrue(apply(args[0], int(i), x)))));
+  def('List.iter2', "('a -> 'b -> unit) -> 'a list -> 'b list -> unit", 3, (args) => {
+    for (const [x, y] of zip(args[1], args[2], 'List.iter2')) apply(args[0], x, y);
+    return unit;
+  });
+  def('List.map2', "('a -> 'b -> 'c) -> 'a list -> 'b list -> 'c list", 3, (args) =>
+    newList(zip(args[1], args[2], 'List.map2').map(([x, y]) => apply(args[0], x, y))));
+  def('List.fold_left2', "('a -> 'b -> 'c -> 'a) -> 'a -> 'b list -> 'c list -> 'a", 4, (args) =>
+    zip(args[2], args[3], 'List.fold_left2').reduce((acc, [x, y]) => apply(args[0], acc, x, y), args[1]));
+  def('List.exists2', "('a -> 'b -> bool) -> 'a list -> 'b list -> bool", 3, (args) =>
+    bool(zip(args[1], args[2], 'List.exists2').some(([x, y]) => isTrue(apply(args[0], x, y)))));
+  def('List.for_all2', "('a -> 'b -> bool) -> 'a list -> 'b list -> bool", 3, (args) =>
+    bool(zip(args[1], args[2], 'List.for_all2').every(([x, y]) => isTrue(apply(args[0], x, y)))));
+  def('List.rev_map', "('a -> 'b) -> 'a list -> 'b list", 2, (args) =>
+    newList(elementsOf(args[1], 'List.rev_map').map(x => apply(args[0], x)).reverse()));
+  def('List.append', "'a list -> 'a list -> 'a list", 2, (args) =>
+    newList([...elementsOf(args[0], 'List.append'), ...elementsOf(args[1], 'List.append')]));
+  def('List.rev_append', "'a list -> 'a list -> 'a list", 2, (args) =>
+    newList([...elementsOf(args[0], 'List.rev_append')].reverse().concat(elementsOf(args[1], 'List.rev_append'))));
+  def('List.concat_map', "('a -> 'b list) -> 'a list -> 'b list", 2, (args) =>
+    newList(elementsOf(args[1], 'List.concat_map').flatMap(x => elementsOf(apply(args[0], x), 'List.concat_map'))));
+  // Array.prototype.sort is stable, so every sort here is
+  const sort = (name: string) => def(name, "('a -> 'a -> int) -> 'a list -> 'a list", 2, (args) =>
+    newList([...elementsOf(args[1], name)].sort(cmp(args[0]))));
+  sort('List.stable_sort');
+  sort('List.fast_sort');
+  def('List.sort_uniq', "('a -> 'a -> int) -> 'a list -> 'a list", 2, (args) => {
+    const order = cmp(args[0]);
+    const sorted = [...elementsOf(args[1], 'List.sort_uniq')].sort(order);
+    return newList(sorted.filter((x, i) => i === 0 || order(sorted[i - 1], x) !== 0));
+  });
+  def('List.compare_lengths', "'a list -> 'b list -> int", 2, (args) =>
+    int(Math.sign(elementsOf(args[0], 'List.compare_lengths').length - elementsOf(args[1], 'List.compare_lengths').length)));
+  def('List.equal', "('a -> 'a -> bool) -> 'a list -> 'a list -> bool", 3, (args) => {
+    const xs = elementsOf(args[1], 'List.equal');
+    const ys = elementsOf(args[2], 'List.equal');
+    return bool(xs.length === ys.length && xs.every((x, i) => isTrue(apply(args[0], x, ys[i]))));
+  });
+  def('List.to_seq', "'a list -> 'a Seq.t", 1, (args) => seqOf(elementsOf(args[0], 'List.to_seq')));
+  def('List.of_seq', "'a Seq.t -> 'a list", 1, (args) => newList(seqItems(args[0])));
+
+  // ── Int, Int32 and Int64 ──────────────────────────────────────────────
+  const integers: [string, IntKind][] = [['Int', 'int'], ['Int32', 'int32'], ['Int64', 'int64']];
+  for (const [mod, t] of integers) {
+    const bits = t === 'int' ? 63n : t === 'int32' ? 32n : 64n;
+    const of = (n: bigint): Value => ({ tag: t, value: wrap(n, t) });
+    const arg = (v: Value, fn: string): bigint => expect(v, t, `${mod}.${fn}`).value;
+    const unary = (name: string, f: (n: bigint) => bigint) =>
+      def(`${mod}.${name}`, `${t} -> ${t}`, 1, (args) => of(f(arg(args[0], name))));
+    const binary = (name: string, op: string) => def(`${mod}.${name}`, `${t} -> ${t} -> ${t}`, 2, (args) => {
+      const b = arg(args[1], name);
+      if ((op === '/' || op === 'mod') && b === 0n) raise('Division_by_zero');
+      return of(intOperation(op, arg(args[0], name), b, t)!);
+    });
+    const shift = (name: string, op: string) => def(`${mod}.${name}`, `${t} -> int -> ${t}`, 2, (args) =>
+      of(intOperation(op, arg(args[0], name), BigInt(intArg(args[1], `${mod}.${name}`)), t)!));
+
+    env.set(`${mod}.zero`, of(0n));
+    env.set(`${mod}.one`, of(1n));
+    env.set(`${mod}.minus_one`, of(-1n));
+    env.set(`${mod}.max_int`, of((1n << (bits - 1n)) - 1n));
+    env.set(`${mod}.min_int`, of(-(1n << (bits - 1n))));
+    unary('neg', n => -n);
+    unary('succ', n => n + 1n);
+    unary('pred', n => n - 1n);
+    unary('abs', n => n < 0n ? -n : n);
+    unary('lognot', n => ~n);
+    binary('add', '+');
+    binary('sub', '-');
+    binary('mul', '*');
+    binary('div', '/');
+    binary('rem', 'mod');
+    binary('logand', 'land');
+    binary('logor', 'lor');
+    binary('logxor', 'lxor');
+    shift('shift_left', 'lsl');
+    shift('shift_right', 'asr');
+    shift('shift_right_logical', 'lsr');
+    def(`${mod}.equal`, `${t} -> ${t} -> bool`, 2, (args) => bool(arg(args[0], 'equal') === arg(args[1], 'equal')));
+    def(`${mod}.compare`, `${t} -> ${t} -> int`, 2, (args) => {
+      const [a, b] = [arg(args[0], 'compare'), arg(args[1], 'compare')];
+      return int(a < b ? -1 : a > b ? 1 : 0);
+    });
+    def(`${mod}.min`, `${t} -> ${t} -> ${t}`, 2, (args) => arg(args[0], 'min') <= arg(args[1], 'min') ? args[0] : args[1]);
+    def(`${mod}.max`, `${t} -> ${t} -> ${t}`, 2, (args) => arg(args[0], 'max') >= arg(args[1], 'max') ? args[0] : args[1]);
+    def(`${mod}.to_string`, `${t} -> string`, 1, (args) => str(arg(args[0], 'to_string').toString()));
+    def(`${mod}.to_float`, `${t} -> float`, 1, (args) => ({ tag: 'float', value: Number(arg(args[0], 'to_float')) }));
+    def(`${mod}.of_float`, `float -> ${t}`, 1, (args) => {
+      const x = expect(args[0], 'float', `${mod}.of_float`).value;
+      return of(Number.isFinite(x) ? BigInt(Math.trunc(x)) : 0n);
+    });
+    if (t === 'int') continue;
+    def(`${mod}.of_int`, `int -> ${t}`, 1, (args) => of(expect(args[0], 'int', `${mod}.of_int`).value));
+    def(`${mod}.to_int`, `${t} -> int`, 1, (args) => mkInt(arg(args[0], 'to_int')));
+    def(`${mod}.of_string`, `string -> ${t}`, 1, (args) => {
+      const n = parseInteger(expect(args[0], 'string', `${mod}.of_string`).value, t);
+      return n === null ? raise('Failure', `${mod}.of_string`) : of(n);
+    });
+    def(`${mod}.of_string_opt`, `string -> ${t} option`, 1, (args) => {
+      const n = parseInteger(expect(args[0], 'string', `${mod}.of_string_opt`).value, t);
+      return n === null ? none : some(of(n));
+    });
+  }
+  def('Int64.of_int32', 'int32 -> int64', 1, (args) => ({ tag: 'int64', value: expect(args[0], 'int32', 'Int64.of_int32').value }));
+  def('Int64.to_int32', 'int64 -> int32', 1, (args) => ({ tag: 'int32', value: wrap(expect(args[0], 'int64', 'Int64.to_int32').value, 'int32') }));
+  env.set('max_int', mkInt(MAX_INT));
+  env.set('min_int', mkInt(MIN_INT));
+  def('lnot', 'int -> int', 1, (args) => mkInt(~expect(args[0], 'int', 'lnot').value));
+
+  // ── String and Char ───────────────────────────────────────────────────
+  const text = (v: Value, fn: string): string => expect(v, 'string', fn).value;
+  const chars = (v: Value, fn: string): Value[] => [...text(v, fn)].map(char);
+  const charOf = (v: Value, fn: string): string => expect(v, 'char', fn).value;
+  const found = (i: number): Value => i < 0 ? raise('Not_found') : int(i);
+  def('String.split_on_char', 'char -> string -> string list', 2, (args) =>
+    newList(text(args[1], 'String.split_on_char').split(charOf(args[0], 'String.split_on_char')).map(str)));
+  def('String.index', 'string -> char -> int', 2, (args) => found(text(args[0], 'String.index').indexOf(charOf(args[1], 'String.index'))));
+  def('String.rindex', 'string -> char -> int', 2, (args) => found(text(args[0], 'String.rindex').lastIndexOf(charOf(args[1], 'String.rindex'))));
+  def('String.index_from', 'string -> int -> char -> int', 3, (args) =>
+    found(text(args[0], 'String.index_from').indexOf(charOf(args[2], 'String.index_from'), intArg(args[1], 'String.index_from'))));
+  def('String.index_opt', 'string -> char -> int option', 2, (args) => {
+    const i = text(args[0], 'String.index_opt').indexOf(charOf(args[1], 'String.index_opt'));
+    return i < 0 ? none : some(int(i));
+  });
+  def('String.rindex_opt', 'string -> char -> int option', 2, (args) => {
+    const i = text(args[0], 'String.rindex_opt').lastIndexOf(charOf(args[1], 'String.rindex_opt'));
+    return i < 0 ? none : some(int(i));
+  });
+  def('String.get', 'string -> int -> char', 2, (args) => {
+    const s = text(args[0], 'String.get');
+    const i = intArg(args[1], 'String.get');
+    return i >= 0 && i < s.length ? char(s[i]) : raise('Invalid_argument', 'index out of bounds');
+  });
+  def('String.iter', '(char -> unit) -> string -> unit', 2, (args) => {
+    for (const c of chars(args[1], 'String.iter')) apply(args[0], c);
+    return unit;
+  });
+  def('String.iteri', '(int -> char -> unit) -> string -> unit', 2, (args) => {
+    chars(args[1], 'String.iteri').forEach((c, i) => apply(args[0], int(i), c));
+    return unit;
+  });
+  const mapChars = (name: string, signature: string, f: (fn: Value, c: Value, i: number) => Value) =>
+    def(name, signature, 2, (args) => str(chars(args[1], name).map((c, i) => charOf(f(args[0], c, i), name)).join('')));
+  mapChars('String.map', '(char -> char) -> string -> string', (fn, c) => apply(fn, c));
+  mapChars('String.mapi', '(int -> char -> char) -> string -> string', (fn, c, i) => apply(fn, int(i), c));
+  def('String.init', 'int -> (int -> char) -> string', 2, (args) => {
+    const length = intArg(args[0], 'String.init');
+    if (length < 0) raise('Invalid_argument', 'String.init / Bytes.init');
+    host.charge(stringWords(length));
+    let s = '';
+    for (let i = 0; i < length; i++) s += charOf(apply(args[1], int(i)), 'String.init');
+    return str(s);
+  });
+  def('String.fold_left', "('a -> char -> 'a) -> 'a -> string -> 'a", 3, (args) =>
+    chars(args[2], 'String.fold_left').reduce((acc, c) => apply(args[0], acc, c), args[1]));
+  def('String.exists', '(char -> bool) -> string -> bool', 2, (args) =>
+    bool(chars(args[1], 'String.exists').some(c => isTrue(apply(args[0], c)))));
+  def('String.for_all', '(char -> bool) -> string -> bool', 2, (args) =>
+    bool(chars(args[1], 'String.for_all').every(c => isTrue(apply(args[0], c)))));
+  // OCaml's whitespace: space, \t, \n, \r and form feed
+  def('String.trim', 'string -> string', 1, (args) => str(text(args[0], 'String.trim').replace(/^[ \t\n\r\f]+|[ \t\n\r\f]+$/g, '')));
+  def('String.starts_with', 'prefix:string -> string -> bool', 2, (args) =>
+    bool(text(args[1], 'String.starts_with').startsWith(text(args[0], 'String.starts_with'))));
+  def('String.ends_with', 'suffix:string -> string -> bool', 2, (args) =>
+    bool(text(args[1], 'String.ends_with').endsWith(text(args[0], 'String.ends_with'))));
+  def('String.capitalize_ascii', 'string -> string', 1, (args) => {
+    const s = text(args[0], 'String.capitalize_ascii');
+    return str(s.charAt(0).toUpperCase() + s.slice(1));
+  });
+  def('String.uncapitalize_ascii', 'string -> string', 1, (args) => {
+    const s = text(args[0], 'String.uncapitalize_ascii');
+    return str(s.charAt(0).toLowerCase() + s.slice(1));
+  });
+  def('String.cat', 'string -> string -> string', 2, (args) => str(text(args[0], 'String.cat') + text(args[1], 'String.cat')));
+  def('String.to_seq', 'string -> char Seq.t', 1, (args) => seqOf(chars(args[0], 'String.to_seq')));
+  def('String.of_seq', 'char Seq.t -> string', 1, (args) => str(seqItems(args[0]).map(c => charOf(c, 'String.of_seq')).join('')));
+  def('Char.lowercase_ascii', 'char -> char', 1, (args) => char(charOf(args[0], 'Char.lowercase_ascii').toLowerCase()));
+  def('Char.uppercase_ascii', 'char -> char', 1, (args) => char(charOf(args[0], 'Char.uppercase_ascii').toUpperCase()));
+
+  // ── Array ─────────────────────────────────────────────────────────────
+  const items = (v: Value, fn: string): Value[] => expect(v, 'array', fn).elements;
+  // `words` is 0 for an array already charged for
+  const newArray = (elements: Value[], words = elements.length + 1): VArray =>
+    host.allocate({ tag: 'array', elements, id: 0 }, 'array', words);
+  const index = (v: Value, length: number, fn: string): number => {
+    const i = intArg(v, fn);
+    return i >= 0 && i <= length ? i : raise('Invalid_argument', fn);
+  };
+  def('Array.iter', "('a -> unit) -> 'a array -> unit", 2, (args) => {
+    for (const x of items(args[1], 'Array.iter')) apply(args[0], x);
+    return unit;
+  });
+  def('Array.iteri', "(int -> 'a -> unit) -> 'a array -> unit", 2, (args) => {
+    items(args[1], 'Array.iteri').forEach((x, i) => apply(args[0], int(i), x));
+    return unit;
+  });
+  def('Array.map', "('a -> 'b) -> 'a array -> 'b array", 2, (args) => newArray(items(args[1], 'Array.map').map(x => apply(args[0], x))));
+  def('Array.mapi', "(int -> 'a -> 'b) -> 'a array -> 'b array", 2, (args) =>
+    newArray(items(args[1], 'Array.mapi').map((x, i) => apply(args[0], int(i), x))));
+  def('Array.fold_left', "('a -> 'b -> 'a) -> 'a -> 'b array -> 'a", 3, (args) =>
+    items(args[2], 'Array.fold_left').reduce((acc, x) => apply(args[0], acc, x), args[1]));
+  def('Array.fold_right', "('b -> 'a -> 'a) -> 'b array -> 'a -> 'a", 3, (args) =>
+    items(args[1], 'Array.fold_right').reduceRight((acc, x) => apply(args[0], x, acc), args[2]));
+  def('Array.exists', "('a -> bool) -> 'a array -> bool", 2, (args) =>
+    bool(items(args[1], 'Array.exists').some(x => isTrue(apply(args[0], x)))));
+  def('Array.for_all', "('a -> bool) -> 'a array -> bool", 2, (args) =>
+    bool(items(args[1], 'Array.for_all').every(x => isTrue(apply(args[0], x)))));
+  def('Array.mem', "'a -> 'a array -> bool", 2, (args) => bool(items(args[1], 'Array.mem').some(x => equal(x, args[0]))));
+  def('Array.find_opt', "('a -> bool) -> 'a array -> 'a option", 2, (args) =>
+    option(items(args[1], 'Array.find_opt').find(x => isTrue(apply(args[0], x)))));
+  def('Array.copy', "'a array -> 'a array", 1, (args) => newArray([...items(args[0], 'Array.copy')]));
+  def('Array.append', "'a array -> 'a array -> 'a array", 2, (args) =>
+    newArray([...items(args[0], 'Array.append'), ...items(args[1], 'Array.append')]));
+  def('Array.concat', "'a array list -> 'a array", 1, (args) =>
+    newArray(elementsOf(args[0], 'Array.concat').flatMap(a => items(a, 'Array.concat'))));
+  def('Array.sub', "'a array -> int -> int -> 'a array", 3, (args) => {
+    const a = items(args[0], 'Array.sub');
+    const start = index(args[1], a.length, 'Array.sub');
+    return newArray(a.slice(start, index(int(start + intArg(args[2], 'Array.sub')), a.length, 'Array.sub')));
+  });
+  def('Array.fill', "'a array -> int -> int -> 'a -> unit", 4, (args) => {
+    const a = items(args[0], 'Array.fill');
+    const start = index(args[1], a.length, 'Array.fill');
+    a.fill(args[3], start, index(int(start + intArg(args[2], 'Array.fill')), a.length, 'Array.fill'));
+    return unit;
+  });
+  def('Array.blit', "'a array -> int -> 'a array -> int -> int -> unit", 5, (args) => {
+    const src = items(args[0], 'Array.blit');
+    const dst = items(args[2], 'Array.blit');
+    const length = intArg(args[4], 'Array.blit');
+    const from = index(args[1], src.length - length, 'Array.blit');
+    const to = index(args[3], dst.length - length, 'Array.blit');
+    if (length < 0) raise('Invalid_argument', 'Array.blit');
+    dst.splice(to, length, ...src.slice(from, from + length));
+    return unit;
+  });
+  const sortArray = (name: string) => def(name, "('a -> 'a -> int) -> 'a array -> unit", 2, (args) => {
+    items(args[1], name).sort(cmp(args[0]));
+    return unit;
+  });
+  sortArray('Array.sort');
+  sortArray('Array.stable_sort');
+  def('Array.make_matrix', "int -> int -> 'a -> 'a array array", 3, (args) => {
+    const rows = intArg(args[0], 'Array.make_matrix');
+    const columns = intArg(args[1], 'Array.make_matrix');
+    if (rows < 0 || columns < 0) raise('Invalid_argument', 'Array.make_matrix');
+    host.charge(rows * (columns + 1) + rows + 1);
+    return newArray(Array.from({ length: rows }, () => newArray(Array(columns).fill(args[2]), 0)), 0);
+  });
+  def('Array.to_seq', "'a array -> 'a Seq.t", 1, (args) => seqOf([...items(args[0], 'Array.to_seq')]));
+  def('Array.of_seq', "'a Seq.t -> 'a array", 1, (args) => newArray(seqItems(args[0])));
+
+  // ── Option and Result ─────────────────────────────────────────────────
+  const ok = (value: Value): Value => ({ tag: 'constructor', name: 'Ok', value });
+  const error = (value: Value): Value => ({ tag: 'constructor', name: 'Error', value });
+  // [value, isOk] of a result
+  const result = (v: Value, fn: string): [Value, boolean] => {
+    if (v.tag !== 'constructor' || !v.value) throw new RuntimeError(`${fn}: expected result`);
+    return [v.value, v.name === 'Ok'];
+  };
+
+  env.set('Option.none', none);
+  def('Option.some', "'a -> 'a option", 1, (args) => some(args[0]));
+  def('Option.value', "'a option -> default:'a -> 'a", 2, (args) => optionValue(args[0]) ?? args[1]);
+  def('Option.get', "'a option -> 'a", 1, (args) => optionValue(args[0]) ?? raise('Invalid_argument', 'option is None'));
+  def('Option.map', "('a -> 'b) -> 'a option -> 'b option", 2, (args) => {
+    const v = optionValue(args[1]);
+    return v === undefined ? none : some(apply(args[0], v));
+  });
+  def('Option.bind', "'a option -> ('a -> 'b option) -> 'b option", 2, (args) => {
+    const v = optionValue(args[0]);
+    return v === undefined ? none : apply(args[1], v);
+  });
+  def('Option.join', "'a option option -> 'a option", 1, (args) => optionValue(args[0]) ?? none);
+  def('Option.iter', "('a -> unit) -> 'a option -> unit", 2, (args) => {
+    const v = optionValue(args[1]);
+    if (v !== undefined) apply(args[0], v);
+    return unit;
+  });
+  def('Option.fold', "none:'a -> some:('b -> 'a) -> 'b option -> 'a", 3, (args) => {
+    const v = optionValue(args[2]);
+    return v === undefined ? args[0] : apply(args[1], v);
+  });
+  def('Option.is_none', "'a option -> bool", 1, (args) => bool(optionValue(args[0]) === undefined));
+  def('Option.is_some', "'a option -> bool", 1, (args) => bool(optionValue(args[0]) !== undefined));
+  def('Option.to_list', "'a option -> 'a list", 1, (args) => {
+    const v = optionValue(args[0]);
+    return newList(v === undefined ? [] : [v]);
+  });
+  def('Option.to_result', "none:'e -> 'a option -> ('a, 'e) result", 2, (args) => {
+    const v = optionValue(args[1]);
+    return v === undefined ? error(args[0]) : ok(v);
+  });
+  def('Option.equal', "('a -> 'a -> bool) -> 'a option -> 'a option -> bool", 3, (args) => {
+    const a = optionValue(args[1]);
+    const b = optionValue(args[2]);
+    return bool(a === undefined || b === undefined ? a === b : isTrue(apply(args[0], a, b)));
+  });
+
+  def('Result.ok', "'a -> ('a, 'e) result", 1, (args) => ok(args[0]));
+  def('Result.error', "'e -> ('a, 'e) result", 1, (args) => error(args[0]));
+  def('Result.value', "('a, 'e) result -> default:'a -> 'a", 2, (args) => {
+    const [v, isOk] = result(args[0], 'Result.value');
+    return isOk ? v : args[1];
+  });
+  def('Result.get_ok', "('a, 'e) result -> 'a", 1, (args) => {
+    const [v, isOk] = result(args[0], 'Result.get_ok');
+    return isOk ? v : raise('Invalid_argument', 'result is Error _');
+  });
+  def('Result.get_error', "('a, 'e) result -> 'e", 1, (args) => {
+    const [v, isOk] = result(args[0], 'Result.get_error');
+    return isOk ? raise('Invalid_argument', 'result is Ok _') : v;
+  });
+  def('Result.map', "('a -> 'b) -> ('a, 'e) result -> ('b, 'e) result", 2, (args) => {
+    const [v, isOk] = result(args[1], 'Result.map');
+    return isOk ? ok(apply(args[0], v)) : args[1];
+  });
+  def('Result.map_error', "('e -> 'f) -> ('a, 'e) result -> ('a, 'f) result", 2, (args) => {
+    const [v, isOk] = result(args[1], 'Result.map_error');
+    return isOk ? args[1] : error(apply(args[0], v));
+  });
+  def('Result.bind', "('a, 'e) result -> ('a -> ('b, 'e) result) -> ('b, 'e) result", 2, (args) => {
+    const [v, isOk] = result(args[0], 'Result.bind');
+    return isOk ? apply(args[1], v) : args[0];
+  });
+  def('Result.join', "(('a, 'e) result, 'e) result -> ('a, 'e) result", 1, (args) => {
+    const [v, isOk] = result(args[0], 'Result.join');
+    return isOk ? v : args[0];
+  });
+  def('Result.iter', "('a -> unit) -> ('a, 'e) result -> unit", 2, (args) => {
+    const [v, isOk] = result(args[1], 'Result.iter');
+    if (isOk) apply(args[0], v);
+    return unit;
+  });
+  def('Result.iter_error', "('e -> unit) -> ('a, 'e) result -> unit", 2, (args) => {
+    const [v, isOk] = result(args[1], 'Result.iter_error');
+    if (!isOk) apply(args[0], v);
+    return unit;
+  });
+  def('Result.fold', "ok:('a -> 'c) -> error:('e -> 'c) -> ('a, 'e) result -> 'c", 3, (args) => {
+    const [v, isOk] = result(args[2], 'Result.fold');
+    return apply(isOk ? args[0] : args[1], v);
+  });
+  def('Result.is_ok', "('a, 'e) result -> bool", 1, (args) => bool(result(args[0], 'Result.is_ok')[1]));
+  def('Result.is_error', "('a, 'e) result -> bool", 1, (args) => bool(!result(args[0], 'Result.is_error')[1]));
+  def('Result.to_option', "('a, 'e) result -> 'a option", 1, (args) => {
+    const [v, isOk] = result(args[0], 'Result.to_option');
+    return isOk ? some(v) : none;
+  });
+
+  // ── Hashtbl ───────────────────────────────────────────────────────────
+  const tables = hashtblFunctions(host, hashValue, equal, { table: "('a, 'b) Hashtbl.t", key: "'a", value: "'b" });
+  for (const [name, fn] of Object.entries(tables)) env.set(`Hashtbl.${name}`, fn);
+  def('Hashtbl.hash', "'a -> int", 1, (args) => int(hashValue(args[0])));
+  const bindings = (t: VHashtbl): [Value, Value][] => Array.from(t.buckets.values()).flat();
+  def('Hashtbl.to_seq', "('a, 'b) Hashtbl.t -> ('a * 'b) Seq.t", 1, (args) =>
+    seqOf(bindings(expect(args[0], 'hashtbl', 'Hashtbl.to_seq')).map(([k, v]) => tuple(k, v))));
+  def('Hashtbl.to_seq_keys', "('a, 'b) Hashtbl.t -> 'a Seq.t", 1, (args) =>
+    seqOf(bindings(expect(args[0], 'hashtbl', 'Hashtbl.to_seq_keys')).map(([k]) => k)));
+  def('Hashtbl.to_seq_values', "('a, 'b) Hashtbl.t -> 'b Seq.t", 1, (args) =>
+    seqOf(bindings(expect(args[0], 'hashtbl', 'Hashtbl.to_seq_values')).map(([, v]) => v)));
+
+  // ── Buffer ────────────────────────────────────────────────────────────
+  const buffer = (v: Value, fn: string): VBuffer => expect(v, 'buffer', fn);
+  def('Buffer.create', 'int -> Buffer.t', 1, () => host.allocate({ tag: 'buffer', contents: '' }, 'Buffer.t'));
+  def('Buffer.contents', 'Buffer.t -> string', 1, (args) => str(buffer(args[0], 'Buffer.contents').contents));
+  def('Buffer.length', 'Buffer.t -> int', 1, (args) => int(buffer(args[0], 'Buffer.length').contents.length));
+  def('Buffer.nth', 'Buffer.t -> int -> char', 2, (args) => {
+    const contents = buffer(args[0], 'Buffer.nth').contents;
+    const i = intArg(args[1], 'Buffer.nth');
+    return i >= 0 && i < contents.length ? char(contents[i]) : raise('Invalid_argument', 'Buffer.nth');
+  });
+  def('Buffer.sub', 'Buffer.t -> int -> int -> string', 3, (args) => {
+    const contents = buffer(args[0], 'Buffer.sub').contents;
+    const start = intArg(args[1], 'Buffer.sub');
+    const length = intArg(args[2], 'Buffer.sub');
+    if (start < 0 || length < 0 || start + length > contents.length) raise('Invalid_argument', 'Buffer.sub');
+    return str(contents.slice(start, start + length));
+  });
+  const update = (name: string, signature: string, f: (b: VBuffer, arg: Value) => string) =>
+    def(name, signature, 2, (args) => {
+      const b = buffer(args[0], name);
+      b.contents = f(b, args[1]);
+      return unit;
+    });
+  update('Buffer.add_string', 'Buffer.t -> string -> unit', (b, s) => b.contents + text(s, 'Buffer.add_string'));
+  update('Buffer.add_char', 'Buffer.t -> char -> unit', (b, c) => b.contents + charOf(c, 'Buffer.add_char'));
+  update('Buffer.add_buffer', 'Buffer.t -> Buffer.t -> unit', (b, other) => b.contents + buffer(other, 'Buffer.add_buffer').contents);
+  update('Buffer.truncate', 'Buffer.t -> int -> unit', (b, n) => {
+    const length = intArg(n, 'Buffer.truncate');
+    if (length < 0 || length > b.contents.length) raise('Invalid_argument', 'Buffer.truncate');
+    return b.contents.slice(0, length);
+  });
+  def('Buffer.clear', 'Buffer.t -> unit', 1, (args) => {
+    buffer(args[0], 'Buffer.clear').contents = '';
+    return unit;
+  });
+  env.set('Buffer.reset', env.get('Buffer.clear')!);
+
+  // ── Stack and Queue ───────────────────────────────────────────────────
+  // A stack keeps its top last, a queue its front first
+  const containers: [string, 'stack' | 'queue'][] = [['Stack', 'stack'], ['Queue', 'queue']];
+  for (const [mod, tag] of containers) {
+    const t = `'a ${mod}.t`;
+    const of = (v: Value, fn: string): VStack | VQueue => {
+      if (v.tag !== tag) throw new RuntimeError(`${mod}.${fn}: expected ${mod}.t`);
+      return v as VStack | VQueue;
+    };
+    // Elements from the top of the stack, or the front of the queue
+    const ordered = (c: VStack | VQueue): Value[] => tag === 'stack' ? [...c.elements].reverse() : c.elements;
+    const peek = (c: VStack | VQueue): Value | undefined => tag === 'stack' ? c.elements[c.elements.length - 1] : c.elements[0];
+    const take = (c: VStack | VQueue): Value | undefined => tag === 'stack' ? c.elements.pop() : c.elements.shift();
+    const create = (elements: Value[]): Value => host.allocate({ tag, elements } as VStack | VQueue, `${mod}.t`);
+
+    def(`${mod}.create`, `unit -> ${t}`, 1, () => create([]));
+    def(`${mod}.push`, `'a -> ${t} -> unit`, 2, (args) => {
+      of(args[1], 'push').elements.push(args[0]);
+      return unit;
+    });
+    for (const [name, remove] of [['pop', true], ['top', false]] as const) {
+      def(`${mod}.${name}`, `${t} -> 'a`, 1, (args) => {
+        const c = of(args[0], name);
+        return (remove ? take(c) : peek(c)) ?? raise('Empty');
+      });
+      def(`${mod}.${name}_opt`, `${t} -> 'a option`, 1, (args) => {
+        const c = of(args[0], `${name}_opt`);
+        return option(remove ? take(c) : peek(c));
+      });
+    }
+    def(`${mod}.is_empty`, `${t} -> bool`, 1, (args) => bool(of(args[0], 'is_empty').elements.length === 0));
+    def(`${mod}.length`, `${t} -> int`, 1, (args) => int(of(args[0], 'length').elements.length));
+    def(`${mod}.clear`, `${t} -> unit`, 1, (args) => {
+      of(args[0], 'clear').elements.length = 0;
+      return unit;
+    });
+    def(`${mod}.copy`, `${t} -> ${t}`, 1, (args) => create([...of(args[0], 'copy').elements]));
+    def(`${mod}.iter`, `('a -> unit) -> ${t} -> unit`, 2, (args) => {
+      for (const x of ordered(of(args[1], 'iter'))) apply(args[0], x);
+      return unit;
+    });
+    def(`${mod}.fold`, `('b -> 'a -> 'b) -> 'b -> ${t} -> 'b`, 3, (args) =>
+      ordered(of(args[2], 'fold')).reduce((acc, x) => apply(args[0], acc, x), args[1]));
+    def(`${mod}.to_seq`, `${t} -> 'a Seq.t`, 1, (args) => seqOf([...ordered(of(args[0], 'to_seq'))]));
+  }
+  // Queue's own names for the same operations
+  env.set('Queue.add', env.get('Queue.push')!);
+  env.set('Queue.take', env.get('Queue.pop')!);
+  env.set('Queue.take_opt', env.get('Queue.pop_opt')!);
+  env.set('Queue.peek', env.get('Queue.top')!);
+  env.set('Queue.peek_opt', env.get('Queue.top_opt')!);
+  def('Queue.transfer', "'a Queue.t -> 'a Queue.t -> unit", 2, (args) => {
+    const [from, to] = args.map(a => expect(a, 'queue', 'Queue.transfer'));
+    to.elements.push(...from.elements.splice(0));
+    return unit;
+  });
+}
+
+/**
+ * The functions of a hash table module, for the polymorphic Hashtbl and for
+ * Hashtbl.Make. `types` names the table, key and value types in the signatures.
+ */
+export function hashtblFunctions(
+  host: StdlibHost, hash: (key: Value) => number, same: (a: Value, b: Value) => boolean,
+  types: { table: string; key: string; value: string },
+): Record<string, VBuiltin> {
+  const { builtin, apply } = host;
+  const { table: t, key, value } = types;
+  const asTable = (v: Value, fn: string): VHashtbl => {
+    if (v.tag !== 'hashtbl') throw new RuntimeError(`Hashtbl.${fn}: expected hash table`);
+    return v;
+  };
+  // Buckets keep the most recent binding of a key first, like Hashtbl.add
+  const bucket = (t: VHashtbl, k: Value): [Value, Value][] => {
+    const h = hash(k);
+    let b = t.buckets.get(h);
+    if (!b) {
+      b = [];
+      t.buckets.set(h, b);
+    }
+    return b;
+  };
+  const entries = (t: VHashtbl) => Array.from(t.buckets.values()).flat();
+  const create = (buckets: Map<number, [Value, Value][]>, size: number): VHashtbl =>
+    host.allocate({ tag: 'hashtbl', buckets, size }, 'Hashtbl.t');
+
+  return {
+    create: builtin(`int -> ${t}`, 1, () => create(new Map(), 0)),
+    clear: builtin(`${t} -> unit`, 1, (args) => {
+      const table = asTable(args[0], 'clear');
+      table.buckets.clear();
+      table.size = 0;
+      return unit;
+    }),
+    copy: builtin(`${t} -> ${t}`, 1, (args) => {
+      const table = asTable(args[0], 'copy');
+      return create(new Map(Array.from(table.buckets, ([h, b]) => [h, [...b]])), table.size);
+    }),
+    add: builtin(`${t} -> ${key} -> ${value} -> unit`, 3, (args) => {
+      const table = asTable(args[0], 'add');
+      bucket(table, args[1]).unshift([args[1], args[2]]);
+      table.size++;
+      return unit;
+    }),
+    replace: builtin(`${t} -> ${key} -> ${value} -> unit`, 3, (args) => {
+      const table = asTable(args[0], 'replace');
+      const b = bucket(table, args[1]);
+      const i = b.findIndex(([k]) => same(k, args[1]));
+      if (i >= 0) {
+        b[i] = [args[1], args[2]];
+      } else {
+        b.unshift([args[1], args[2]]);
+        table.size++;
+      }
+      return unit;
+    }),
+    remove: builtin(`${t} -> ${key} -> unit`, 2, (args) => {
+      const table = asTable(args[0], 'remove');
+      const b = bucket(table, args[1]);
+      const i = b.findIndex(([k]) => same(k, args[1]));
+      if (i >= 0) {
+        b.splice(i, 1);
+        table.size--;
+      }
+      return unit;
+    }),
+    find: builtin(`${t} -> ${key} -> ${value}`, 2, (args) =>
+      bucket(asTable(args[0], 'find'), args[1]).find(([k]) => same(k, args[1]))?.[1] ?? raise('Not_found')),
+    find_opt: builtin(`${t} -> ${key} -> ${value} option`, 2, (args) =>
+      option(bucket(asTable(args[0], 'find_opt'), args[1]).find(([k]) => same(k, args[1]))?.[1])),
+    find_all: builtin(`${t} -> ${key} -> ${value} list`, 2, (args) =>
+      list(bucket(asTable(args[0], 'find_all'), args[1]).filter(([k]) => same(k, args[1])).map(([, v]) => v))),
+    mem: builtin(`${t} -> ${key} -> bool`, 2, (args) =>
+      bool(bucket(asTable(args[0], 'mem'), args[1]).some(([k]) => same(k, args[1])))),
+    iter: builtin(`(${key} -> ${value} -> unit) -> ${t} -> unit`, 2, (args) => {
+      for (const [k, v] of entries(asTable(args[1], 'iter'))) apply(args[0], k, v);
+      return unit;
+    }),
+    fold: builtin(`(${key} -> ${value} -> 'c -> 'c) -> ${t} -> 'c -> 'c`, 3, (args) =>
+      entries(asTable(args[1], 'fold')).reduce((acc, [k, v]) => apply(args[0], k, v, acc), args[2])),
+    filter_map_inplace: builtin(`(${key} -> ${value} -> ${value} option) -> ${t} -> unit`, 2, (args) => {
+      const table = asTable(args[1], 'filter_map_inplace');
+      for (const [h, b] of table.buckets) {
+        const kept = b.flatMap(([k, v]): [Value, Value][] => {
+          const result = optionValue(apply(args[0], k, v));
+          return result === undefined ? [] : [[k, result]];
+        });
+        table.size -= b.length - kept.length;
+        table.buckets.set(h, kept);
+      }
+      return unit;
+    }),
+    length: builtin(`${t} -> int`, 1, (args) => int(asTable(args[0], 'length').size)),
+  };
+}
@@ -0,0 +1,1644 @@
+import {
+  ASTNode, Pattern, PatternBinder, MatchCase, patternBinders, Param, Arg, Environment, Token, TokenType,
+  LetNode, LetRecNode, LetBinding, letBindings, TypeDeclNode, typeDecls, TypeExpr, ConstructorDecl, FieldDecl, showTypeExpr,
+  ModuleExpr, ModuleTypeExpr, ModuleValue, SignatureItem, ValSpec,
+  Type, TVar, TArrow, TVariant, TypeError,
+} from './types';
+import { Lexer } from './lexer';
+import { Parser } from './parser';
+import { parseFormat, conversionType } from './format';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OCaml Type Checker (Hindley–Milner with let-polymorphism)
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Type variables at this level are generalized (quantified) in a scheme
+const GENERIC_LEVEL = Number.MAX_SAFE_INTEGER;
+
+const INT: Type = { kind: 'tcon', name: 'int', args: [] };
+const FLOAT: Type = { kind: 'tcon', name: 'float', args: [] };
+const STRING: Type = { kind: 'tcon', name: 'string', args: [] };
+const CHAR: Type = { kind: 'tcon', name: 'char', args: [] };
+const BOOL: Type = { kind: 'tcon', name: 'bool', args: [] };
+const UNIT: Type = { kind: 'tcon', name: 'unit', args: [] };
+const EXN: Type = { kind: 'tcon', name: 'exn', args: [] };
+
+const BUILTIN_TYPE_ARITY: Record<string, number> = {
+  int: 0, int32: 0, int64: 0, float: 0, string: 0, char: 0, bool: 0, unit: 0, exn: 0,
+  list: 1, array: 1, ref: 1, option: 1, result: 2, lazy_t: 1, format4: 4,
+};
+
+// The `t` of stdlib modules usable as functor arguments (Map.Make(String))
+const STDLIB_MODULE_TYPES: Record<string, string> = {
+  String: 'string', Int: 'int', Int32: 'int32', Int64: 'int64', Char: 'char',
+};
+
+// Stdlib values that aren't builtins, so carry no signature
+const STDLIB_VALUE_TYPES: Record<string, string> = {
+  stdout: 'out_channel', stderr: 'out_channel',
+  'Format.std_formatter': 'Format.formatter', 'Format.err_formatter': 'Format.formatter',
+  'Option.none': "'a option",
+  max_int: 'int', min_int: 'int',
+  'Int.zero': 'int', 'Int.one': 'int', 'Int.minus_one': 'int', 'Int.max_int': 'int', 'Int.min_int': 'int',
+  'Int32.zero': 'int32', 'Int32.one': 'int32', 'Int32.minus_one': 'int32', 'Int32.max_int': 'int32', 'Int32.min_int': 'int32',
+  'Int64.zero': 'int64', 'Int64.one': 'int64', 'Int64.minus_one': 'int64', 'Int64.max_int': 'int64', 'Int64.min_int': 'int64',
+};
+
+const arrow = (param: Type, result: Type, label?: string, optional?: boolean): Type =>
+  label ? { kind: 'tarrow', param, result, label, ...(optional ? { optional } : {}) } : { kind: 'tarrow', param, result };
+const con = (name: string, ...args: Type[]): Type => ({ kind: 'tcon', name, args });
+
+// A type declared again under a name already taken is a new type: its
+// constructor name carries a stamp (t/2), which is left out when printing
+const unstamped = (name: string): string => name.replace(/\/\d+/g, '');
+
+/** Static view of a structure: its values, type names, submodules and module types. */
+interface StructSig {
+  kind: 'struct';
+  values: Map<string, Type>;
+  types: Map<string, string>; // local name -> canonical constructor name (M.t)
+  modules: Map<string, ModuleSig>;
+  moduleTypes: Map<string, ModuleTypeExpr>;
+}
+
+/**
+ * A functor is checked again at each application, with its parameter bound
+ * to the actual argument; `result` is the body checked against the declared
+ * parameter type, kept for display (absent for stdlib functors).
+ */
+interface FunctorSig {
+  kind: 'functor';
+  param: string;
+  paramType: ModuleTypeExpr;
+  result?: ModuleSig;
+  apply: (arg: StructSig, name: string, line: number) => ModuleSig;
+}
+
+type ModuleSig = StructSig | FunctorSig;
+
+class TypeEnv {
+  readonly bindings = new Map<string, Type>();
+  readonly modules = new Map<string, ModuleSig>();
+  readonly moduleTypes = new Map<string, ModuleTypeExpr>();
+  constructor(private parent: TypeEnv | null = null) {}
+
+  get(name: string): Type | undefined {
+    return this.bindings.get(name) ?? this.parent?.get(name);
+  }
+
+  set(name: string, type: Type): void {
+    this.bindings.set(name, type);
+  }
+
+  getModule(name: string): ModuleSig | undefined {
+    return this.modules.get(name) ?? this.parent?.getModule(name);
+  }
+
+  setModule(name: string, sig: ModuleSig): void {
+    this.modules.set(name, sig);
+  }
+
+  getModuleType(name: string): ModuleTypeExpr | undefined {
+    return this.moduleTypes.get(name) ?? this.parent?.getModuleType(name);
+  }
+
+  setModuleType(name: string, mt: ModuleTypeExpr): void {
+    this.moduleTypes.set(name, mt);
+  }
+
+  extend(): TypeEnv {
+    return new TypeEnv(this);
+  }
+
+  /** A copy whose own bindings can change without changing these. */
+  copy(): TypeEnv {
+    const env = new TypeEnv(this.parent);
+    for (const [name, type] of this.bindings) env.set(name, type);
+    for (const [name, sig] of this.modules) env.setModule(name, sig);
+    for (const [name, mt] of this.moduleTypes) env.setModuleType(name, mt);
+    return env;
+  }
+}
+
+/** What a toplevel phrase can add to the checker, saved to be put back if the phrase fails. */
+interface CheckerSnapshot {
+  env: TypeEnv;
+  constructors: Map<string, Type>;
+  fields: Map<string, Type>;
+  recordFields: Map<string, string[]>;
+  mutableFields: Set<string>;
+  aliases: Map<string, { params: TVar[]; body: Type }>;
+  typeArity: Map<string, number>;
+  typeNames: Map<string, string>;
+}
+
+export class TypeChecker {
+  private env = new TypeEnv();
+  private level = 1;
+  private nextVarId = 1;
+  private constructors = new Map<string, Type>();
+  private fields = new Map<string, Type>();
+  private recordFields = new Map<string, string[]>();
+  private mutableFields = new Set<string>();
+  private aliases = new Map<string, { params: TVar[]; body: Type }>();
+  private typeArity = new Map<string, number>(Object.entries(BUILTIN_TYPE_ARITY));
+  private weakNames = new Map<number, string>();
+  private nextStamp = 1;
+  // Type names in scope, mapped to the canonical name of their constructor
+  private typeNames = new Map<string, string>();
+  private modulePath: string[] = [];
+  private structTypes: Map<string, string>[] = [];
+  // While printing a signature, its own types are shown unqualified
+  private showScope = '';
+
+  constructor(globals?: Environment) {
+    this.installBuiltinConstructors();
+    for (const [mod, type] of Object.entries(STDLIB_MODULE_TYPES)) this.typeNames.set(`${mod}.t`, type);
+    if (globals) {
+      // Builtins carry their OCaml signature as their name (e.g. "'a list -> int")
+      for (const [name, val] of globals.allBindings()) {
+        if (val.tag === 'builtin') {
+          this.env.set(name, this.parseSignature(val.name));
+        } else if (STDLIB_VALUE_TYPES[name]) {
+          this.env.set(name, this.parseSignature(STDLIB_VALUE_TYPES[name]));
+        }
+      }
+      for (const [name, mod] of globals.modules) {
+        this.env.setModule(name, this.stdlibModuleSig(mod));
+      }
+    }
+  }
+
+  snapshot(): CheckerSnapshot {
+    return {
+      env: this.env.copy(),
+      constructors: new Map(this.constructors),
+      fields: new Map(this.fields),
+      recordFields: new Map(this.recordFields),
+      mutableFields: new Set(this.mutableFields),
+      aliases: new Map(this.aliases),
+      typeArity: new Map(this.typeArity),
+      typeNames: new Map(this.typeNames),
+    };
+  }
+
+  restore(snapshot: CheckerSnapshot): void {
+    // Copied again, so the same snapshot can be restored more than once
+    this.env = snapshot.env.copy();
+    this.constructors = new Map(snapshot.constructors);
+    this.fields = new Map(snapshot.fields);
+    this.recordFields = new Map(snapshot.recordFields);
+    this.mutableFields = new Set(snapshot.mutableFields);
+    this.aliases = new Map(snapshot.aliases);
+    this.typeArity = new Map(snapshot.typeArity);
+    this.typeNames = new Map(snapshot.typeNames);
+  }
+
+  /**
+   * Infer types for a whole program. Returns the printed type of every
+   * top-level phrase: the bound value for `let`, the result for expressions.
+   */
+  check(nodes: ASTNode[]): Map<ASTNode | LetBinding | PatternBinder, string> {
+    const types = new Map<ASTNode | LetBinding | PatternBinder, string>();
+    for (const node of nodes) {
+      if (node.kind === 'moduledecl') {
+        types.set(node, this.showModule(this.checkModule(node, this.env), `${node.name}.`));
+        continue;
+      }
+      if ((node.kind === 'let' || node.kind === 'letrec') && !node.inExpr) {
+        // Each name the bindings bind has its own type
+        this.inferBinding(node, this.env);
+        for (const binding of letBindings(node)) {
+          for (const binder of binding.pattern ? patternBinders(binding.pattern) : [binding]) {
+            const type = this.env.get(binder.name);
+            if (type && binder.name !== '_') types.set(binder, this.show(type, new Map(), true));
+          }
+        }
+        continue;
+      }
+      const type = this.checkTopLevel(node, this.env);
+      if (type) types.set(node, this.show(type, new Map(), true));
+    }
+    return types;
+  }
+
+  private checkTopLevel(node: ASTNode, env: TypeEnv): Type | null {
+    switch (node.kind) {
+      case 'typedecl':
+        this.declareTypes(typeDecls(node));
+        return null;
+      case 'exceptiondecl':
+        this.declareException(node.name, node.type);
+        return null;
+      case 'open': {
+        const sig = this.lookupModule(node.module, env);
+        if (!sig) throw new TypeError(`Unbound module ${node.module}`, node.line);
+        this.openModule(this.expectStruct(sig, node.line), env);
+        return null;
+      }
+      case 'include': {
+        const sig = this.expectStruct(this.checkModuleExpr(node.module, env, null, node.line), node.line);
+        this.openModule(sig, env);
+        for (const [local, canonical] of sig.types) this.structTypes[this.structTypes.length - 1]?.set(local, canonical);
+        return null;
+      }
+      case 'moduledecl':
+        this.checkModule(node, env);
+        return null;
+      case 'moduletypedecl':
+        env.setModuleType(node.name, node.signature);
+        return null;
+      case 'let':
+      case 'letrec':
+        if (!node.inExpr) return this.inferBinding(node, env);
+        break;
+    }
+
+    this.enterLevel();
+    const type = this.infer(node, env);
+    this.leaveLevel();
+    if (this.isNonExpansive(node)) this.generalize(type);
+    return type;
+  }
+
+  // ── Levels & Variables ──────────────────────────────────────────────────
+  private enterLevel(): void { this.level++; }
+  private leaveLevel(): void { this.level--; }
+
+  private newVar(level: number = this.level): TVar {
+    return { kind: 'tvar', id: this.nextVarId++, level, link: null };
+  }
+
+  private repr(t: Type): Type {
+    if (t.kind === 'tvar' && t.link) {
+      t.link = this.repr(t.link);
+      return t.link;
+    }
+    return t;
+  }
+
+  private generalize(t: Type): void {
+    t = this.repr(t);
+    switch (t.kind) {
+      case 'tvar':
+        if (t.level > this.level) t.level = GENERIC_LEVEL;
+        t.bound?.forEach(arg => arg && this.generalize(arg));
+        break;
+      case 'tcon': t.args.forEach(a => this.generalize(a)); break;
+      case 'tarrow': this.generalize(t.param); this.generalize(t.result); break;
+      case 'ttuple': t.elements.forEach(e => this.generalize(e)); break;
+      case 'tvariant':
+        t.tags.forEach(arg => arg && this.generalize(arg));
+        if (t.row) this.generalize(t.row);
+        break;
+    }
+  }
+
+  private instantiate(t: Type, subst: Map<number, Type> = new Map()): Type {
+    t = this.repr(t);
+    switch (t.kind) {
+      case 'tvar': {
+        if (t.level !== GENERIC_LEVEL) return t;
+        let v = subst.get(t.id);
+        if (!v) {
+          const fresh = this.newVar();
+          subst.set(t.id, fresh);
+          if (t.bound) fresh.bound = this.mapTags(t.bound, arg => this.instantiate(arg, subst));
+          v = fresh;
+        }
+        return v;
+      }
+      case 'tcon': return { kind: 'tcon', name: t.name, args: t.args.map(a => this.instantiate(a, subst)) };
+      case 'tarrow': return arrow(this.instantiate(t.param, subst), this.instantiate(t.result, subst), t.label, t.optional);
+      case 'ttuple': return { kind: 'ttuple', elements: t.elements.map(e => this.instantiate(e, subst)) };
+      case 'tvariant': return this.mapVariant(t, arg => this.instantiate(arg, subst));
+    }
+  }
+
+  // ── Unification ─────────────────────────────────────────────────────────
+  private unify(actual: Type, expected: Type, line: number): void {
+    if (!this.tryUnify(actual, expected)) {
+      const names = new Map<number, string>();
+      const a = this.repr(actual);
+      const b = this.repr(expected);
+      if (a.kind === 'tvar' || b.kind === 'tvar') {
+        const [v, t] = a.kind === 'tvar' ? [a, b] : [b, a];
+        throw new TypeError(`The type variable ${this.show(v, names)} occurs inside ${this.show(t, names)}`, line);
+      }
+      throw new TypeError(
+        `This expression has type ${this.show(actual, names)} but an expression was expected of type ${this.show(expected, names)}`,
+        line
+      );
+    }
+  }
+
+  private tryUnify(a: Type, b: Type): boolean {
+    a = this.repr(a);
+    b = this.repr(b);
+    if (a === b) return true;
+
+    if (a.kind === 'tvar') return this.bindVar(a, b);
+    if (b.kind === 'tvar') return this.bindVar(b, a);
+
+    if (a.kind === 'tcon' && b.kind === 'tcon') {
+      if (a.name !== b.name || a.args.length !== b.args.length) return false;
+      return a.args.every((arg, i) => this.tryUnify(arg, b.args[i]));
+    }
+    if (a.kind === 'tarrow' && b.kind === 'tarrow') {
+      if (a.label !== b.label || !a.optional !== !b.optional) return false;
+      return this.tryUnify(a.param, b.param) && this.tryUnify(a.result, b.result);
+    }
+    if (a.kind === 'ttuple' && b.kind === 'ttuple') {
+      if (a.elements.length !== b.elements.length) return false;
+      return a.elements.every((e, i) => this.tryUnify(e, b.elements[i]));
+    }
+    if (a.kind === 'tvariant' && b.kind === 'tvariant') return this.unifyVariants(a, b);
+    return false;
+  }
+
+  /**
+   * Tags on one side only must fit in the other side's row: the rows are
+   * linked to the missing tags, plus a shared variable when both are open.
+   */
+  private unifyVariants(a: TVariant, b: TVariant): boolean {
+    const left = this.variantTags(a);
+    const right = this.variantTags(b);
+    const onlyLeft = new Map<string, Type | null>();
+    for (const [name, arg] of left.tags) {
+      if (!right.tags.has(name)) {
+        onlyLeft.set(name, arg);
+        continue;
+      }
+      const other = right.tags.get(name)!;
+      if (!arg !== !other) return false;
+      if (arg && other && !this.tryUnify(arg, other)) return false;
+    }
+    const onlyRight = new Map([...right.tags].filter(([name]) => !left.tags.has(name)));
+    const leftOpen = left.row?.kind === 'tvar' ? left.row : null;
+    const rightOpen = right.row?.kind === 'tvar' ? right.row : null;
+    if ((onlyRight.size > 0 && !leftOpen) || (onlyLeft.size > 0 && !rightOpen)) return false;
+
+    if (leftOpen && rightOpen) {
+      if (leftOpen === rightOpen) return onlyLeft.size === 0 && onlyRight.size === 0;
+      const rest = this.newVar(Math.min(leftOpen.level, rightOpen.level));
+      return this.bindVar(leftOpen, { kind: 'tvariant', tags: onlyRight, row: rest })
+        && this.bindVar(rightOpen, { kind: 'tvariant', tags: onlyLeft, row: rest });
+    }
+    if (leftOpen) return this.bindVar(leftOpen, { kind: 'tvariant', tags: onlyRight, row: right.row });
+    if (rightOpen) return this.bindVar(rightOpen, { kind: 'tvariant', tags: onlyLeft, row: left.row });
+    // Both closed, or rigid rows from a signature
+    if (!left.row || !right.row) return left.row === right.row;
+    return this.tryUnify(left.row, right.row);
+  }
+
+  /** All the tags of a variant, following its row; `row` is what is left after them. */
+  private variantTags(t: TVariant): { tags: Map<string, Type | null>; row: Type | null } {
+    const tags = new Map(t.tags);
+    let row = t.row && this.repr(t.row);
+    while (row?.kind === 'tvariant') {
+      for (const [name, arg] of row.tags) tags.set(name, arg);
+      row = row.row && this.repr(row.row);
+    }
+    return { tags, row };
+  }
+
+  private mapVariant(t: TVariant, f: (t: Type) => Type): TVariant {
+    return { kind: 'tvariant', tags: this.mapTags(t.tags, f), row: t.row && f(t.row) };
+  }
+
+  private mapTags(tags: Map<string, Type | null>, f: (t: Type) => Type): Map<string, Type | null> {
+    const mapped = new Map<string, Type | null>();
+    for (const [name, arg] of tags) mapped.set(name, arg && f(arg));
+    return mapped;
+  }
+
+  private bindVar(v: TVar, t: Type): boolean {
+    if (this.occursAdjust(v, t)) return false;
+    if (v.bound && !this.narrowRow(v.bound, t)) return false;
+    v.link = t;
+    return true;
+  }
+
+  /** Whether `t` fits in a row bounded by `bound`; what is left of `t`'s own row gets the rest of the bound. */
+  private narrowRow(bound: Map<string, Type | null>, t: Type): boolean {
+    t = this.repr(t);
+    if (t.kind === 'tvar') {
+      if (!t.bound) {
+        t.bound = new Map(bound);
+        return true;
+      }
+      // Tags in both bounds stay possible, unless their arguments disagree
+      const both = new Map<string, Type | null>();
+      for (const [name, arg] of t.bound) {
+        if (!bound.has(name)) continue;
+        const other = bound.get(name)!;
+        if (!arg === !other && (!arg || !other || this.tryUnify(arg, other))) both.set(name, arg);
+      }
+      t.bound = both;
+      return true;
+    }
+    if (t.kind !== 'tvariant') return false;
+    const { tags, row } = this.variantTags(t);
+    for (const [name, arg] of tags) {
+      if (!bound.has(name)) return false;
+      const other = bound.get(name)!;
+      if (!arg !== !other) return false;
+      if (arg && other && !this.tryUnify(arg, other)) return false;
+    }
+    if (row?.kind !== 'tvar') return row === null;
+    return this.narrowRow(new Map([...bound].filter(([name]) => !tags.has(name))), row);
+  }
+
+  // Occurs check; also lowers the levels of variables in t to v's level
+  private occursAdjust(v: TVar, t: Type): boolean {
+    t = this.repr(t);
+    switch (t.kind) {
+      case 'tvar':
+        if (t === v) return true;
+        if (t.level > v.level) t.level = v.level;
+        return t.bound !== undefined && [...t.bound.values()].some(arg => arg !== null && this.occursAdjust(v, arg));
+      case 'tcon': return t.args.some(a => this.occursAdjust(v, a));
+      case 'tarrow': return this.occursAdjust(v, t.param) || this.occursAdjust(v, t.result);
+      case 'ttuple': return t.elements.some(e => this.occursAdjust(v, e));
+      case 'tvariant':
+        return [...t.tags.values()].some(arg => arg !== null && this.occursAdjust(v, arg))
+          || (t.row !== null && this.occursAdjust(v, t.row));
+    }
+  }
+
+  // ── Declarations ────────────────────────────────────────────────────────
+  private installBuiltinConstructors(): void {
+    const a = this.newVar(GENERIC_LEVEL);
+    this.constructors.set('None', con('option', a));
+    this.constructors.set('Some', arrow(a, con('option', a)));
+    // 'a ref is a record with one mutable field
+    this.fields.set('contents', arrow(con('ref', a), a));
+    this.recordFields.set('ref', ['contents']);
+    this.mutableFields.add('contents');
+    const e = this.newVar(GENERIC_LEVEL);
+    this.constructors.set('Ok', arrow(a, con('result', a, e)));
+    this.constructors.set('Error', arrow(e, con('result', a, e)));
+    // A sequence is a function returning its first node: 'a Seq.t is unit -> 'a Seq.node
+    const seq = arrow(UNIT, con('Seq.node', a));
+    this.aliases.set('Seq.t', { params: [a], body: seq });
+    this.typeArity.set('Seq.node', 1);
+    this.constructors.set('Nil', con('Seq.node', a));
+    this.constructors.set('Cons', arrow({ kind: 'ttuple', elements: [a, seq] }, con('Seq.node', a)));
+    this.aliases.set('Lazy.t', { params: [a], body: con('lazy_t', a) });
+    // ('a, 'b, 'c) format is ('a, 'b, 'c, 'c) format4
+    const [b, c] = [this.newVar(GENERIC_LEVEL), this.newVar(GENERIC_LEVEL)];
+    this.aliases.set('format', { params: [a, b, c], body: con('format4', a, b, c, c) });
+    this.constructors.set('Failure', arrow(STRING, EXN));
+    this.constructors.set('Invalid_argument', arrow(STRING, EXN));
+    this.constructors.set('Not_found', EXN);
+    this.constructors.set('Exit', EXN);
+    this.constructors.set('Division_by_zero', EXN);
+    this.constructors.set('Match_failure', arrow({ kind: 'ttuple', elements: [STRING, INT, INT] }, EXN));
+    this.constructors.set('Assert_failure', arrow({ kind: 'ttuple', elements: [STRING, INT, INT] }, EXN));
+    this.constructors.set('Finally_raised', arrow(EXN, EXN));
+    this.constructors.set('Undefined', EXN);
+    this.constructors.set('Empty', EXN);
+    this.constructors.set('End_of_file', EXN);
+    this.constructors.set('Scan_failure', arrow(STRING, EXN));
+  }
+
+  /** Declare mutually recursive types: every name is known before any definition is read. */
+  private declareTypes(decls: TypeDeclNode[]): void {
+    const names = decls.map(decl => this.declareTypeName(decl.name, decl.params.length));
+    decls.forEach((decl, i) => this.declareType(decl, names[i]));
+  }
+
+  private declareTypeName(localName: string, arity: number): string {
+    // Types declared inside a module are named after its path (M.t)
+    const path = [...this.modulePath, localName].join('.');
+    const name = this.typeArity.has(path) ? `${path}/${this.nextStamp++}` : path;
+    this.typeNames.set(localName, name);
+    this.structTypes[this.structTypes.length - 1]?.set(localName, name);
+    this.typeArity.set(name, arity);
+    return name;
+  }
+
+  private declareType(decl: TypeDeclNode, name: string): void {
+    // `_` is a parameter without a name, as GADTs declare them (type _ expr)
+    const vars = decl.params.map(() => this.newVar(GENERIC_LEVEL));
+    const params = new Map<string, TVar>();
+    decl.params.forEach((p, i) => { if (p !== '_') params.set(p, vars[i]); });
+    // constraint 'a = t: the parameter is t wherever it appears
+    for (const c of decl.constraints ?? []) {
+      const param = params.get(c.param);
+      if (!param) throw new TypeError(`Unbound type parameter ${c.param}`, decl.line);
+      if (!this.tryUnify(param, this.typeFromExpr(c.type, params, true))) {
+        throw new TypeError(`The type constraints are not consistent: ${c.param} cannot be ${showTypeExpr(c.type)}`, decl.line);
+      }
+    }
+    const self = con(name, ...vars);
+
+    const def = decl.definition;
+    if (def.kind !== 'alias') this.aliases.delete(name);
+    switch (def.kind) {
+      case 'abstract': return; // in a signature
+      case 'alias':
+        this.aliases.set(name, { params: vars, body: this.typeFromExpr(def.type, params) });
+        return;
+      case 'record':
+        this.declareFields(name, self, def.fields, params);
+        return;
+      case 'variant':
+        for (const c of def.constructors) {
+          if (c.result) {
+            this.declareGadtConstructor(c, decl, name);
+            continue;
+          }
+          let arg: Type | null = c.arg ? this.typeFromExpr(c.arg, params) : null;
+          if (c.record) {
+            // An inline record is a record type of its own, named after the constructor (t.C)
+            const recordName = `${name}.${c.name}`;
+            this.typeArity.set(recordName, vars.length);
+            arg = con(recordName, ...vars);
+            this.declareFields(recordName, arg, c.record, params);
+          }
+          this.constructors.set(c.name, arg ? arrow(arg, self) : self);
+        }
+    }
+  }
+
+  /**
+   * `C : args -> result`: the constructor's own type variables are quantified
+   * on it alone, and its result must be the type being declared, with any
+   * arguments. Matching on it does not refine the type of the other cases.
+   */
+  private declareGadtConstructor(c: ConstructorDecl, decl: TypeDeclNode, name: string): void {
+    const vars = new Map<string, TVar>();
+    const result = this.typeFromExpr(c.result!, vars, true);
+    const head = this.repr(result);
+    if (head.kind !== 'tcon' || head.name !== name) {
+      const params = decl.params.length === 0 ? '' : decl.params.length === 1 ? '_ ' : `(${decl.params.map(() => '_').join(', ')}) `;
+      throw new TypeError(
+        `Constraints are not satisfied in this type.\nType ${showTypeExpr(c.result!)} should be an instance of ${params}${decl.name}`,
+        decl.line
+      );
+    }
+    this.constructors.set(c.name, c.arg ? arrow(this.typeFromExpr(c.arg, vars, true), result) : result);
+  }
+
+  private declareFields(owner: string, self: Type, fields: FieldDecl[], params: Map<string, TVar>): void {
+    for (const field of fields) {
+      if (field.mutable) this.mutableFields.add(field.name);
+      else this.mutableFields.delete(field.name);
+      this.fields.set(field.name, arrow(self, this.typeFromExpr(field.type, params)));
+    }
+    this.recordFields.set(owner, fields.map(f => f.name));
+  }
+
+  // ── Modules ─────────────────────────────────────────────────────────────
+  private checkModule(node: { name: string; body: ModuleExpr; line: number }, env: TypeEnv): ModuleSig {
+    const sig = this.checkModuleExpr(node.body, env, node.name, node.line);
+    env.setModule(node.name, sig);
+    if (sig.kind === 'struct') this.exportTypeNames(node.name, sig);
+    return sig;
+  }
+
+  /** Check a module expression. Types it declares are named after `name` (null: the enclosing module). */
+  private checkModuleExpr(expr: ModuleExpr, env: TypeEnv, name: string | null, line: number): ModuleSig {
+    switch (expr.kind) {
+      case 'modpath': {
+        const sig = this.lookupModule(expr.path, env);
+        if (!sig) throw new TypeError(`Unbound module ${expr.path}`, line);
+        return sig;
+      }
+      case 'structure': {
+        const structEnv = env.extend();
+        const savedNames = new Map(this.typeNames);
+        const types = new Map<string, string>();
+        if (name) this.modulePath.push(name);
+        this.structTypes.push(types);
+        for (const item of expr.items) this.checkTopLevel(item, structEnv);
+        this.structTypes.pop();
+        if (name) this.modulePath.pop();
+        this.typeNames = savedNames;
+        return { kind: 'struct', values: structEnv.bindings, types, modules: structEnv.modules, moduleTypes: structEnv.moduleTypes };
+      }
+      case 'constraint': {
+        const impl = this.expectStruct(this.checkModuleExpr(expr.body, env, name, line), line);
+        return this.matchSignature(impl, this.signatureItems(expr.signature, env, line), 'seal', line);
+      }
+      case 'functor':
+        return this.checkFunctor(expr, env, name ?? 'Functor', line);
+      case 'apply': {
+        const functor = this.checkModuleExpr(expr.functor, env, null, line);
+        if (functor.kind !== 'functor') throw new TypeError('This module is not a functor', line);
+        const arg = this.expectStruct(this.checkModuleExpr(expr.arg, env, 'Arg', line), line);
+        return functor.apply(arg, name ?? 'Apply', line);
+      }
+    }
+  }
+
+  private checkFunctor(expr: Extract<ModuleExpr, { kind: 'functor' }>, env: TypeEnv, name: string, line: number): FunctorSig {
+    const withParam = (arg: StructSig, resultName: string): ModuleSig => {
+      const bodyEnv = env.extend();
+      bodyEnv.setModule(expr.param, arg);
+      const savedNames = new Map(this.typeNames);
+      this.exportTypeNames(expr.param, arg);
+      const result = this.checkModuleExpr(expr.body, bodyEnv, resultName, line);
+      this.typeNames = savedNames;
+      return result;
+    };
+
+    // Check the body once against the declared parameter type, so errors show up without an application
+    const param = this.instantiateSignature(this.signatureItems(expr.paramType, env, line), expr.param);
+    return {
+      kind: 'functor',
+      param: expr.param,
+      paramType: expr.paramType,
+      result: withParam(param, name),
+      apply: (arg, resultName, appLine) =>
+        withParam(this.matchSignature(arg, this.signatureItems(expr.paramType, env, appLine), 'view', appLine), resultName),
+    };
+  }
+
+  /** Signature of a stdlib functor, read from its OCaml module type. */
+  private stdlibFunctor(mt: ModuleTypeExpr, env: TypeEnv): FunctorSig {
+    if (mt.kind !== 'functortype') throw new TypeError('Malformed functor type');
+    return {
+      kind: 'functor',
+      param: mt.param,
+      paramType: mt.paramType,
+      apply: (arg, name, line) => {
+        this.matchSignature(arg, this.signatureItems(mt.paramType, env, line), 'check', line);
+        const savedNames = new Map(this.typeNames);
+        this.exportTypeNames(mt.param, arg);
+        const result = this.instantiateSignature(this.signatureItems(mt.result, env, line), name);
+        this.typeNames = savedNames;
+        return result;
+      },
+    };
+  }
+
+  private stdlibModuleSig(mod: ModuleValue): ModuleSig {
+    if (mod.tag === 'functor') {
+      return this.stdlibFunctor(new Parser(new Lexer(mod.name).tokenize()).parseModuleType(), this.env);
+    }
+    const sig: StructSig = { kind: 'struct', values: new Map(), types: new Map(), modules: new Map(), moduleTypes: mod.env.moduleTypes };
+    for (const [name, val] of mod.env.bindings) {
+      if (val.tag === 'builtin') sig.values.set(name, this.parseSignature(val.name));
+      else if (STDLIB_VALUE_TYPES[`${mod.name}.${name}`]) sig.values.set(name, this.parseSignature(STDLIB_VALUE_TYPES[`${mod.name}.${name}`]));
+    }
+    for (const [name, sub] of mod.env.modules) sig.modules.set(name, this.stdlibModuleSig(sub));
+    return sig;
+  }
+
+  /** Build a structure signature from signature items, declaring its types under `name`. */
+  private instantiateSignature(items: SignatureItem[], name: string): StructSig {
+    const sig: StructSig = { kind: 'struct', values: new Map(), types: new Map(), modules: new Map(), moduleTypes: new Map() };
+    const savedNames = new Map(this.typeNames);
+    this.modulePath.push(name);
+    this.structTypes.push(sig.types);
+    // The types of a signature may refer to each other, like those of `type ... and ...`
+    this.declareTypes(items.filter((item): item is TypeDeclNode => item.kind === 'typedecl'));
+    for (const item of items) {
+      if (item.kind === 'exceptiondecl') this.declareException(item.name, item.type);
+    }
+    for (const item of items) {
+      if (item.kind === 'valspec') sig.values.set(item.name, this.parseSignature(item.type));
+    }
+    this.structTypes.pop();
+    this.modulePath.pop();
+    this.typeNames = savedNames;
+    return sig;
+  }
+
+  private signatureItems(mt: ModuleTypeExpr, env: TypeEnv, line: number): SignatureItem[] {
+    switch (mt.kind) {
+      case 'signature': return mt.items;
+      case 'signame': {
+        const dot = mt.name.lastIndexOf('.');
+        const named = dot < 0
+          ? env.getModuleType(mt.name)
+          : this.lookupStruct(mt.name.slice(0, dot), env)?.moduleTypes.get(mt.name.slice(dot + 1));
+        if (!named) throw new TypeError(`Unbound module type ${mt.name}`, line);
+        return this.signatureItems(named, env, line);
+      }
+      case 'functortype':
+        throw new TypeError('Signature mismatch: a structure was expected, not a functor', line);
+    }
+  }
+
+  /**
+   * Check an implementation against a signature. `seal` returns the
+   * restricted view: abstract types (`type t` without a definition) stop
+   * being interchangeable with their implementation from here on. `view`
+   * (a functor's argument, as its body sees it) restricts the values to the
+   * signature's types but keeps what the types are equal to. `check` returns
+   * the implementation unchanged.
+   */
+  private matchSignature(impl: StructSig, items: SignatureItem[], mode: 'seal' | 'view' | 'check', line: number): StructSig {
+    const result: StructSig = { kind: 'struct', values: new Map(), types: new Map(), modules: new Map(), moduleTypes: new Map() };
+    const savedNames = new Map(this.typeNames);
+    for (const [local, canonical] of impl.types) this.typeNames.set(local, canonical);
+
+    const abstract: string[] = [];
+    const vals: ValSpec[] = [];
+    for (const item of items) {
+      if (item.kind === 'valspec') {
+        vals.push(item);
+      } else if (item.kind === 'typedecl') {
+        const canonical = impl.types.get(item.name);
+        if (!canonical) throw new TypeError(`Signature mismatch: The type \`${item.name}' is required but not provided`, line);
+        result.types.set(item.name, canonical);
+        if (item.definition.kind === 'abstract') abstract.push(canonical);
+      } else if (!this.constructors.has(item.name)) {
+        throw new TypeError(`Signature mismatch: The extension constructor \`${item.name}' is required but not provided`, line);
+      }
+    }
+
+    for (const item of vals) {
+      const actual = impl.values.get(item.name);
+      if (!actual) throw new TypeError(`Signature mismatch: The value \`${item.name}' is required but not provided`, line);
+      const expected = this.parseSignature(item.type);
+      if (!this.tryUnify(this.instantiate(actual), this.skolemize(expected))) {
+        throw new TypeError(
+          `Signature mismatch: Values do not match:\n  val ${item.name} : ${this.show(actual, new Map())}\n` +
+          `is not included in\n  val ${item.name} : ${this.show(expected, new Map())}`,
+          line
+        );
+      }
+    }
+
+    if (mode === 'seal') for (const canonical of abstract) this.aliases.delete(canonical);
+    if (mode !== 'check') for (const item of vals) result.values.set(item.name, this.parseSignature(item.type));
+    this.typeNames = savedNames;
+    return mode === 'check' ? impl : result;
+  }
+
+  /** Replace quantified variables by rigid constants, so they only unify with themselves. */
+  private skolemize(t: Type): Type {
+    const subst = new Map<number, Type>();
+    const collect = (t: Type): void => {
+      t = this.repr(t);
+      switch (t.kind) {
+        case 'tvar':
+          if (t.level === GENERIC_LEVEL && !subst.has(t.id)) subst.set(t.id, con("'" + this.varName(subst.size)));
+          break;
+        case 'tcon': t.args.forEach(collect); break;
+        case 'tarrow': collect(t.param); collect(t.result); break;
+        case 'ttuple': t.elements.forEach(collect); break;
+        case 'tvariant':
+          t.tags.forEach(arg => arg && collect(arg));
+          if (t.row) collect(t.row);
+          break;
+      }
+    };
+    collect(t);
+    return this.substitute(t, subst);
+  }
+
+  /** Look up a module path (M or M.N). Flat stdlib modules are assembled from their `List.x` builtins. */
+  private lookupModule(path: string, env: TypeEnv): ModuleSig | undefined {
+    const [head, ...rest] = path.split('.');
+    let sig = env.getModule(head) ?? this.flatStdlibModule(head);
+    for (const name of rest) sig = sig?.kind === 'struct' ? sig.modules.get(name) : undefined;
+    return sig;
+  }
+
+  private lookupStruct(path: string, env: TypeEnv): StructSig | undefined {
+    const sig = this.lookupModule(path, env);
+    return sig?.kind === 'struct' ? sig : undefined;
+  }
+
+  private expectStruct(sig: ModuleSig, line: number): StructSig {
+    if (sig.kind === 'functor') throw new TypeError('This module is a functor; it must be applied before use', line);
+    return sig;
+  }
+
+  private flatStdlibModule(name: string): StructSig | undefined {
+    const prefix = name + '.';
+    const values = new Map<string, Type>();
+    for (const [key, type] of this.env.bindings) {
+      if (key.startsWith(prefix)) values.set(key.slice(prefix.length), type);
+    }
+    if (values.size === 0) return undefined;
+    const types = new Map<string, string>();
+    if (STDLIB_MODULE_TYPES[name]) types.set('t', STDLIB_MODULE_TYPES[name]);
+    return { kind: 'struct', values, types, modules: new Map(), moduleTypes: new Map() };
+  }
+
+  private openModule(sig: StructSig, env: TypeEnv): void {
+    for (const [name, type] of sig.values) env.set(name, type);
+    for (const [name, sub] of sig.modules) env.setModule(name, sub);
+    for (const [name, mt] of sig.moduleTypes) env.setModuleType(name, mt);
+    for (const [local, canonical] of sig.types) this.typeNames.set(local, canonical);
+  }
+
+  private exportTypeNames(prefix: string, sig: StructSig): void {
+    for (const [local, canonical] of sig.types) this.typeNames.set(`${prefix}.${local}`, canonical);
+    for (const [name, sub] of sig.modules) {
+      if (sub.kind === 'struct') this.exportTypeNames(`${prefix}.${name}`, sub);
+    }
+  }
+
+  private declareException(name: string, type?: string): void {
+    this.constructors.set(name, type ? arrow(this.parseTypeString(type, new Map()), EXN) : EXN);
+  }
+
+  // ── Bindings ────────────────────────────────────────────────────────────
+  private inferBinding(node: LetNode | LetRecNode, env: TypeEnv): Type {
+    const bindings = letBindings(node);
+    const names = new Set<string>();
+    for (const b of bindings) {
+      for (const { name } of b.pattern ? patternBinders(b.pattern) : [b]) {
+        if (name === '_' || name === '()') continue;
+        if (names.has(name)) throw new TypeError(`Variable ${name} is bound several times in this matching`, b.line);
+        names.add(name);
+      }
+    }
+    if (node.kind === 'letrec') {
+      // Only functions and lazy values can refer to themselves here. OCaml also builds
+      // cyclic values (let rec l = 1 :: l), which this interpreter doesn't
+      const bad = bindings.find(b => b.params.length === 0 && b.body.kind !== 'fun' && b.body.kind !== 'lazy' && this.mentions(b.body, names));
+      if (bad) {
+        throw new TypeError("Cyclic values are not supported here: only functions and lazy values can refer to themselves in `let rec'", bad.line);
+      }
+    }
+    const types: Type[] = [];
+    this.enterLevel();
+    if (node.kind === 'letrec') {
+      // The parameters' labels are known before the bodies, for recursive calls that use them
+      const selves = bindings.map(b => b.params.reduceRight<Type>((t, p) => arrow(this.newVar(), t, p.label, p.optional), this.newVar()));
+      const recEnv = node.inExpr ? env.extend() : env;
+      bindings.forEach((b, i) => recEnv.set(b.name, selves[i]));
+      bindings.forEach((b, i) => {
+        types.push(this.inferFunction(b.params, b.body, recEnv, b.line));
+        this.unify(selves[i], types[i], b.line);
+      });
+    } else {
+      // No body sees the names bound by the others
+      for (const b of bindings) types.push(this.inferFunction(b.params, b.body, env, b.line));
+      // Bound before generalizing, so the names share the generalized variables
+      bindings.forEach((b, i) => {
+        if (b.pattern) this.inferPatternAgainst(b.pattern, types[i], env, b.line);
+      });
+    }
+    this.leaveLevel();
+
+    bindings.forEach((b, i) => {
+      if (b.params.length > 0 || this.isNonExpansive(b.body)) this.generalize(types[i]);
+      if (b.name === '()') this.unify(types[i], UNIT, b.line);
+      if (b.name !== '()' && b.name !== '_') env.set(b.name, types[i]);
+    });
+    return types[0];
+  }
+
+  private inferFunction(params: Param[], body: ASTNode, env: TypeEnv, line: number): Type {
+    if (params.length === 0) return this.infer(body, env);
+    const fnEnv = env.extend();
+    const paramTypes = params.map(p => {
+      if (!p.optional) return this.inferPattern(p.pattern, fnEnv, line);
+      // ?(x = d) binds x : t; a plain ?x binds x : t option
+      const t = this.newVar();
+      if (p.default) {
+        this.expect(p.default, t, fnEnv);
+        this.inferPatternAgainst(p.pattern, t, fnEnv, line);
+      } else {
+        this.inferPatternAgainst(p.pattern, con('option', t), fnEnv, line);
+      }
+      return t;
+    });
+    let type = this.infer(body, fnEnv);
+    for (let i = paramTypes.length - 1; i >= 0; i--) type = arrow(paramTypes[i], type, params[i].label, params[i].optional);
+    return type;
+  }
+
+  /** Does the expression refer to any of `names`? Shadowing is ignored. */
+  private mentions(node: unknown, names: Set<string>): boolean {
+    if (Array.isArray(node)) return node.some(n => this.mentions(n, names));
+    if (!node || typeof node !== 'object') return false;
+    if ((node as ASTNode).kind === 'var' && names.has((node as { name: string }).name)) return true;
+    return Object.values(node).some(child => this.mentions(child, names));
+  }
+
+  private isNonExpansive(node: ASTNode): boolean {
+    switch (node.kind) {
+      case 'literal': case 'unit': case 'var': case 'fun': return true;
+      case 'constructor': return !node.arg || this.isNonExpansive(node.arg);
+      case 'tuple': case 'list': case 'array': return node.kind !== 'array' && node.elements.every(e => this.isNonExpansive(e));
+      case 'record':
+        return !node.base && node.fields.every(f => !this.mutableFields.has(f.name) && this.isNonExpansive(f.value));
+      case 'cons': return this.isNonExpansive(node.head) && this.isNonExpansive(node.tail);
+      case 'begin': return this.isNonExpansive(node.expr);
+      case 'fieldaccess': return node.expr.kind === 'constructor';
+      case 'let': case 'letrec':
+        return letBindings(node).every(b => b.params.length > 0 || this.isNonExpansive(b.body))
+          && (!node.inExpr || this.isNonExpansive(node.inExpr));
+      default: return false;
+    }
+  }
+
+  // ── Expressions ─────────────────────────────────────────────────────────
+  private infer(node: ASTNode, env: TypeEnv): Type {
+    switch (node.kind) {
+      case 'literal':
+        switch (node.type) {
+          case 'int': return INT;
+          case 'int32': case 'int64': return con(node.type);
+          case 'float': return FLOAT;
+          case 'string': return STRING;
+          case 'char': return CHAR;
+          default: return BOOL;
+        }
+      case 'unit': return UNIT;
+      case 'var': {
+        if (node.name === '_') return this.newVar();
+        const t = env.get(node.name);
+        if (!t) throw new TypeError(`Unbound value ${node.name}`, node.line);
+        return this.instantiate(t);
+      }
+      case 'let':
+      case 'letrec': {
+        if (!node.inExpr) return this.inferBinding(node, env);
+        const letEnv = env.extend();
+        this.inferBinding(node, letEnv);
+        return this.infer(node.inExpr, letEnv);
+      }
+      case 'fun': return this.inferFunction(node.params, node.body, env, node.line);
+      case 'app': return this.inferApp(node.func, node.args, env, node.line);
+      case 'binop': return this.inferBinOp(node, env);
+      case 'unary': {
+        if (node.op === 'not') return this.expect(node.expr, BOOL, env);
+        if (node.op === '-.') return this.expect(node.expr, FLOAT, env);
+        // Unary minus on a float literal is a float constant (e.g. x *. -2.0)
+        if (node.expr.kind === 'literal' && node.expr.type === 'float') return FLOAT;
+        return this.expect(node.expr, INT, env);
+      }
+      case 'if': {
+        this.expect(node.cond, BOOL, env);
+        const thenType = this.infer(node.then, env);
+        if (node.else) {
+          this.unify(this.infer(node.else, env), thenType, node.else.line);
+        } else {
+          this.unify(thenType, UNIT, node.then.line);
+        }
+        return thenType;
+      }
+      case 'match': {
+        const scrutinee = this.infer(node.expr, env);
+        return this.inferCases(node.cases, scrutinee, env, node.line);
+      }
+      case 'tuple': return { kind: 'ttuple', elements: node.elements.map(e => this.infer(e, env)) };
+      case 'list': {
+        const elem = this.newVar();
+        for (const e of node.elements) this.unify(this.infer(e, env), elem, e.line);
+        return con('list', elem);
+      }
+      case 'cons': {
+        const head = this.infer(node.head, env);
+        return this.expect(node.tail, con('list', head), env);
+      }
+      case 'sequence': {
+        let type: Type = UNIT;
+        for (const e of node.exprs) type = this.infer(e, env);
+        return type;
+      }
+      case 'ref': return con('ref', this.infer(node.expr, env));
+      case 'deref': {
+        const inner = this.newVar();
+        this.expect(node.expr, con('ref', inner), env);
+        return inner;
+      }
+      case 'assign': {
+        const inner = this.newVar();
+        this.expect(node.ref, con('ref', inner), env);
+        this.expect(node.value, inner, env);
+        return UNIT;
+      }
+      case 'constructor': {
+        const ctor = node.name.startsWith('`') ? this.variantTag(node.name, !!node.arg) : this.lookupConstructor(node.name, node.line);
+        if (!node.arg) return ctor;
+        if (ctor.kind !== 'tarrow') {
+          throw new TypeError(`The constructor ${node.name} expects 0 argument(s), but is applied here to 1 argument(s)`, node.line);
+        }
+        this.expect(node.arg, ctor.param, env);
+        return ctor.result;
+      }
+      case 'typedecl':
+      case 'exceptiondecl':
+      case 'open':
+        this.checkTopLevel(node, env);
+        return UNIT;
+      case 'raise': {
+        this.expect(node.expr, EXN, env);
+        return this.newVar();
+      }
+      case 'lazy': return con('lazy_t', this.infer(node.expr, env));
+      case 'assert': {
+        // `assert false` never returns, so it fits any type
+        if (node.expr.kind === 'literal' && node.expr.value === false) return this.newVar();
+        this.expect(node.expr, BOOL, env);
+        return UNIT;
+      }
+      case 'trywith': {
+        const type = this.infer(node.expr, env);
+        for (const c of node.cases) {
+          const caseEnv = env.extend();
+          this.inferPatternAgainst(c.pattern, EXN, caseEnv, node.line);
+          if (c.guard) this.expect(c.guard, BOOL, caseEnv);
+          this.expect(c.body, type, caseEnv);
+        }
+        return type;
+      }
+      case 'begin': return this.infer(node.expr, env);
+      case 'record': return this.inferRecord(node, env);
+      case 'fieldaccess': {
+        if (node.expr.kind === 'constructor' && !node.expr.arg) {
+          // Module access: M.x
+          const path = node.expr.name;
+          const sig = this.lookupStruct(path, env);
+          // A module's own members come first: a user's Stack hides the stdlib one
+          const t = sig?.values.get(node.field) ?? env.get(`${path}.${node.field}`);
+          if (t) return this.instantiate(t);
+          if (!sig) throw new TypeError(`Unbound module ${path}`, node.line);
+          throw new TypeError(`Unbound value ${path}.${node.field}`, node.line);
+        }
+        const field = this.lookupField(node.field, node.line);
+        this.expect(node.expr, field.param, env);
+        return field.result;
+      }
+      case 'fieldset': {
+        const field = this.lookupField(node.field, node.line);
+        if (!this.mutableFields.has(node.field)) {
+          throw new TypeError(`The record field ${node.field} is not mutable`, node.line);
+        }
+        this.expect(node.expr, field.param, env);
+        this.expect(node.value, field.result, env);
+        return UNIT;
+      }
+      case 'for': {
+        this.expect(node.start, INT, env);
+        this.expect(node.end, INT, env);
+        const bodyEnv = env.extend();
+        bodyEnv.set(node.var, INT);
+        this.infer(node.body, bodyEnv);
+        return UNIT;
+      }
+      case 'while':
+        this.expect(node.cond, BOOL, env);
+        this.infer(node.body, env);
+        return UNIT;
+      case 'array': {
+        const elem = this.newVar();
+        for (const e of node.elements) this.unify(this.infer(e, env), elem, e.line);
+        return con('array', elem);
+      }
+      case 'arrayaccess': {
+        const elem = this.newVar();
+        this.expect(node.array, con('array', elem), env);
+        this.expect(node.index, INT, env);
+        return elem;
+      }
+      case 'arrayset': {
+        const elem = this.newVar();
+        this.expect(node.array, con('array', elem), env);
+        this.expect(node.index, INT, env);
+        this.expect(node.value, elem, env);
+        return UNIT;
+      }
+      case 'scanf': {
+        if (node.source) this.expect(node.source, STRING, env);
+        return this.inferScanf(node.format, node.args, env, node.line);
+      }
+      default:
+        return this.newVar();
+    }
+  }
+
+  private expect(node: ASTNode, expected: Type, env: TypeEnv): Type {
+    // A string literal where a format is expected is a format (Printf.printf "%d\n")
+    const target = this.repr(expected);
+    if (node.kind === 'literal' && node.type === 'string' && target.kind === 'tcon' && target.name === 'format4') {
+      this.unify(this.formatType(node.value, node.line), expected, node.line);
+      return expected;
+    }
+    const actual = this.infer(node, env);
+    this.unify(actual, expected, node.line);
+    return expected;
+  }
+
+  private inferApp(funcNode: ASTNode, args: Arg[], env: TypeEnv, line: number): Type {
+    return this.applyType(this.infer(funcNode, env), args, env, line, funcNode.line);
+  }
+
+  /**
+   * Apply a function type to arguments. A labeled argument goes to the first
+   * parameter with its label, wherever it is; an unlabeled one to the first
+   * unlabeled parameter, omitting the optional parameters before it that no
+   * argument names. A function known to be one takes no labels beyond its own.
+   */
+  private applyType(fnType: Type, args: Arg[], env: TypeEnv, line: number, funcLine: number): Type {
+    type Slot = { arrow: TArrow; filled: boolean };
+    const slots: Slot[] = [];
+    let tail = fnType;
+    const expand = () => {
+      for (let t = this.repr(tail); t.kind === 'tarrow'; t = this.repr(tail)) {
+        slots.push({ arrow: t, filled: false });
+        tail = t.result;
+      }
+    };
+    const findLabel = (label: string) => slots.find(s => !s.filled && s.arrow.label === label);
+
+    // Labeled arguments are placed first, so `f () ~y:1` still gives ?y
+    expand();
+    const known = slots.length > 0;
+    const named = new Map<Arg, Slot>();
+    for (const arg of args) {
+      const slot = arg.label ? findLabel(arg.label) : undefined;
+      if (slot) {
+        slot.filled = true;
+        named.set(arg, slot);
+      }
+    }
+
+    for (const arg of args) {
+      expand();
+      let slot = named.get(arg) ?? (arg.label ? findLabel(arg.label) : undefined);
+      if (!slot && !arg.label) {
+        const i = slots.findIndex(s => !s.filled && !s.arrow.label);
+        if (i >= 0) {
+          slots.slice(0, i).forEach(s => { if (s.arrow.optional) s.filled = true; });
+          slot = slots[i];
+        }
+      }
+
+      if (slot && !(arg.optional && !slot.arrow.optional)) {
+        slot.filled = true;
+        this.expect(arg.value, arg.optional ? con('option', slot.arrow.param) : slot.arrow.param, env);
+        continue;
+      }
+      const fn = this.repr(tail);
+      if (!slot && fn.kind === 'tvar' && !(arg.label && known)) {
+        // An unknown function: it takes this argument, with its label
+        const param = this.newVar();
+        const result = this.newVar();
+        this.expect(arg.value, arg.optional ? con('option', param) : param, env);
+        this.unify(fn, arrow(param, result, arg.label, arg.optional), line);
+        slots.push({ arrow: this.repr(fn) as TArrow, filled: true });
+        tail = result;
+        continue;
+      }
+      if (arg.label || slots.some(s => !s.filled)) {
+        const how = arg.label ? `with label ${arg.optional ? '?' : '~'}${arg.label}` : 'without label';
+        throw new TypeError(
+          `The function applied to this argument has type ${this.show(fnType, new Map())}\nThis argument cannot be applied ${how}`,
+          arg.value.line || line
+        );
+      }
+      throw new TypeError(`This expression has type ${this.show(fn, new Map())}\nThis is not a function; it cannot be applied.`, funcLine);
+    }
+
+    let type = tail;
+    for (let i = slots.length - 1; i >= 0; i--) {
+      const { arrow: a, filled } = slots[i];
+      if (!filled) type = arrow(a.param, type, a.label, a.optional);
+    }
+    return type;
+  }
+
+  private inferBinOp(node: any, env: TypeEnv): Type {
+    const both = (operand: Type, result: Type) => {
+      this.expect(node.left, operand, env);
+      this.expect(node.right, operand, env);
+      return result;
+    };
+    switch (node.op) {
+      case '+': case '-': case '*': case '/': case 'mod':
+      case 'land': case 'lor': case 'lxor': case 'lsl': case 'lsr': case 'asr':
+        return both(INT, INT);
+      case '+.': case '-.': case '*.': case '/.': return both(FLOAT, FLOAT);
+      case '^': return both(STRING, STRING);
+      case '&&': case '||': return both(BOOL, BOOL);
+      case '@': {
+        const list = con('list', this.newVar());
+        return both(list, list);
+      }
+      default: {
+        // Polymorphic comparison: 'a -> 'a -> bool
+        const left = this.infer(node.left, env);
+        this.expect(node.right, left, env);
+        return BOOL;
+      }
+    }
+  }
+
+  private inferCases(cases: MatchCase[], scrutinee: Type, env: TypeEnv, line: number): Type {
+    const result = this.newVar();
+    // Without a catch-all case, a polymorphic variant matched has at most the
+    // tags listed ([< `A | `B ]): the patterns are typed on their own first
+    const closed = !cases.some(c => !c.guard && this.isCatchAll(c.pattern))
+      && cases.every(c => c.pattern.kind === 'pexception' || this.isTagPattern(c.pattern));
+    const matched = closed ? this.newVar() : scrutinee;
+    for (const c of cases) {
+      const caseEnv = env.extend();
+      if (c.pattern.kind === 'pexception') {
+        this.inferPatternAgainst(c.pattern.pattern, EXN, caseEnv, c.body.line || line);
+      } else {
+        this.inferPatternAgainst(c.pattern, matched, caseEnv, c.body.line || line);
+      }
+      if (c.guard) this.expect(c.guard, BOOL, caseEnv);
+      this.expect(c.body, result, caseEnv);
+    }
+    const matchedType = this.repr(matched);
+    if (closed && matchedType.kind === 'tvariant') {
+      const row = this.newVar();
+      row.bound = this.variantTags(matchedType).tags;
+      this.unify(scrutinee, { kind: 'tvariant', tags: new Map(), row }, line);
+    } else if (closed) {
+      this.unify(scrutinee, matched, line);
+    }
+    return result;
+  }
+
+  private isTagPattern(pat: Pattern): boolean {
+    switch (pat.kind) {
+      case 'pconstructor': return pat.name.startsWith('`');
+      case 'palias': case 'pconstraint': return this.isTagPattern(pat.pattern);
+      case 'por': return this.isTagPattern(pat.left) && this.isTagPattern(pat.right);
+      default: return false;
+    }
+  }
+
+  private isCatchAll(pat: Pattern): boolean {
+    switch (pat.kind) {
+      case 'pwild': case 'pvar': return true;
+      case 'palias': case 'pconstraint': return this.isCatchAll(pat.pattern);
+      case 'por': return this.isCatchAll(pat.left) || this.isCatchAll(pat.right);
+      default: return false;
+    }
+  }
+
+  private inferRecord(node: any, env: TypeEnv): Type {
+    const record = node.base ? this.infer(node.base, env) : this.newVar();
+    const seen: string[] = [];
+    let owner: string | null = null;
+    for (const f of node.fields) {
+      const field = this.lookupField(f.name, node.line);
+      this.unify(field.param, record, node.line);
+      this.expect(f.value, field.result, env);
+      seen.push(f.name);
+      const r = this.repr(field.param);
+      if (r.kind === 'tcon') owner = r.name;
+    }
+    const declared = owner && !node.base ? this.recordFields.get(owner) : undefined;
+    const missing = declared?.filter(f => !seen.includes(f)) ?? [];
+    if (missing.length > 0) {
+      throw new TypeError(`Some record fields are undefined: ${missing.join(' ')}`, node.line);
+    }
+    return record;
+  }
+
+  /**
+   * `"%d %a"` : `(int -> ('b -> 'x -> 'c) -> 'x -> 'd, 'b, 'c, 'd) format4`: the
+   * conversions' arguments, what %a and %t printers get and return, and the result.
+   */
+  private formatType(format: string, line: number): Type {
+    const [printerArg, printerResult, result] = [this.newVar(), this.newVar(), this.newVar()];
+    let type: Type = result;
+    for (const item of parseFormat(format, false, line).reverse()) {
+      if (item.kind !== 'conversion') continue;
+      if (item.conversion === 'a') {
+        const value = this.newVar();
+        type = arrow(arrow(printerArg, arrow(value, printerResult)), arrow(value, type));
+      } else if (item.conversion === 't') {
+        type = arrow(arrow(printerArg, printerResult), type);
+      } else {
+        type = arrow(this.resolveTypeName(conversionType(item.conversion), []), type);
+      }
+      if (item.precision === '*') type = arrow(INT, type);
+      if (item.width === '*') type = arrow(INT, type);
+    }
+    return con('format4', type, printerArg, printerResult, result);
+  }
+
+  /** `Scanf.scanf "%d %s" : (int -> string -> 'r) -> 'r` */
+  private inferScanf(format: string, args: ASTNode[], env: TypeEnv, line: number): Type {
+    const specs: Type[] = [];
+    for (let i = 0; i < format.length - 1; i++) {
+      if (format[i] !== '%') continue;
+      let spec = format[++i];
+      if (spec === '_') { i++; continue; } // skipped conversion
+      while (/\d/.test(spec) && i < format.length - 1) spec = format[++i]; // field width
+      if (spec === 'd' || spec === 'i' || spec === 'u' || spec === 'x') specs.push(INT);
+      else if (spec === 'f' || spec === 'e' || spec === 'g') specs.push(FLOAT);
+      else if (spec === 's' || spec === '[') specs.push(STRING);
+      else if (spec === 'c') specs.push(CHAR);
+      else if (spec === 'b') specs.push(BOOL);
+    }
+    const result = this.newVar();
+    let k: Type = result;
+    for (let i = specs.length - 1; i >= 0; i--) k = arrow(specs[i], k);
+    return this.applyType(arrow(k, result), args.map(value => ({ value })), env, line, line);
+  }
+
+  /** `A : [> `A ], and `A of 'a : 'a -> [> `A of 'a ] */
+  private variantTag(name: string, hasArg: boolean): Type {
+    const arg = hasArg ? this.newVar() : null;
+    const variant: TVariant = { kind: 'tvariant', tags: new Map([[name, arg]]), row: this.newVar() };
+    return arg ? arrow(arg, variant) : variant;
+  }
+
+  private lookupConstructor(name: string, line: number): Type {
+    // Constructors are global; a module qualifier (Shape.Circle) is only syntax
+    const ctor = this.constructors.get(name.slice(name.lastIndexOf('.') + 1));
+    if (!ctor) throw new TypeError(`Unbound constructor ${name}`, line);
+    return this.instantiate(ctor);
+  }
+
+  private lookupField(name: string, line: number): { param: Type; result: Type } {
+    const field = this.fields.get(name);
+    if (!field) throw new TypeError(`Unbound record field ${name}`, line);
+    const t = this.instantiate(field);
+    if (t.kind !== 'tarrow') throw new TypeError(`Unbound record field ${name}`, line);
+    return t;
+  }
+
+  // ── Patterns ────────────────────────────────────────────────────────────
+  private inferPattern(pat: Pattern, env: TypeEnv, line: number): Type {
+    const t = this.newVar();
+    this.inferPatternAgainst(pat, t, env, line);
+    return t;
+  }
+
+  private inferPatternAgainst(pat: Pattern, expected: Type, env: TypeEnv, line: number): void {
+    const unify = (actual: Type) => {
+      if (!this.tryUnify(actual, expected)) {
+        const names = new Map<number, string>();
+        throw new TypeError(
+          `This pattern matches values of type ${this.show(actual, names)} but a pattern was expected which matches values of type ${this.show(expected, names)}`,
+          line
+        );
+      }
+    };
+
+    switch (pat.kind) {
+      case 'pwild': return;
+      case 'pvar': env.set(pat.name, expected); return;
+      case 'punit': unify(UNIT); return;
+      case 'pliteral':
+        unify(pat.type === 'int' ? INT : pat.type === 'float' ? FLOAT : pat.type === 'string' ? STRING : pat.type === 'char' ? CHAR
+          : pat.type === 'bool' ? BOOL : con(pat.type));
+        return;
+      case 'ptuple': {
+        const elements = pat.elements.map(() => this.newVar());
+        unify({ kind: 'ttuple', elements });
+        pat.elements.forEach((p, i) => this.inferPatternAgainst(p, elements[i], env, line));
+        return;
+      }
+      case 'plist': {
+        const elem = this.newVar();
+        unify(con('list', elem));
+        pat.elements.forEach(p => this.inferPatternAgainst(p, elem, env, line));
+        return;
+      }
+      case 'pcons': {
+        const elem = this.newVar();
+        unify(con('list', elem));
+        this.inferPatternAgainst(pat.head, elem, env, line);
+        this.inferPatternAgainst(pat.tail, con('list', elem), env, line);
+        return;
+      }
+      case 'pconstructor': {
+        const ctor = pat.name.startsWith('`') ? this.variantTag(pat.name, !!pat.arg) : this.lookupConstructor(pat.name, line);
+        if (ctor.kind === 'tarrow') {
+          unify(ctor.result);
+          if (pat.arg) this.inferPatternAgainst(pat.arg, ctor.param, env, line);
+        } else {
+          if (pat.arg) throw new TypeError(`The constructor ${pat.name} expects 0 argument(s), but is applied here to 1 argument(s)`, line);
+          unify(ctor);
+        }
+        return;
+      }
+      case 'por': {
+        // Both alternatives must bind the same variables at the same types
+        const leftEnv = env.extend();
+        const rightEnv = env.extend();
+        this.inferPatternAgainst(pat.left, expected, leftEnv, line);
+        this.inferPatternAgainst(pat.right, expected, rightEnv, line);
+        for (const { name } of patternBinders(pat.left)) {
+          const l = leftEnv.get(name)!;
+          const r = rightEnv.get(name);
+          if (!r) throw new TypeError(`Variable ${name} must occur on both sides of this | pattern`, line);
+          this.unify(r, l, line);
+          env.set(name, l);
+        }
+        return;
+      }
+      case 'palias':
+        this.inferPatternAgainst(pat.pattern, expected, env, line);
+        env.set(pat.name, expected);
+        return;
+      case 'precord':
+        for (const f of pat.fields) {
+          const field = this.lookupField(f.name, line);
+          unify(field.param);
+          this.inferPatternAgainst(f.pattern, field.result, env, line);
+        }
+        return;
+      case 'parray': {
+        const elem = this.newVar();
+        unify(con('array', elem));
+        pat.elements.forEach(p => this.inferPatternAgainst(p, elem, env, line));
+        return;
+      }
+      case 'prange': unify(CHAR); return;
+      case 'pconstraint':
+        unify(this.parseTypeString(pat.type, new Map()));
+        this.inferPatternAgainst(pat.pattern, expected, env, line);
+        return;
+      case 'plazy': {
+        const inner = this.newVar();
+        unify(con('lazy_t', inner));
+        this.inferPatternAgainst(pat.pattern, inner, env, line);
+        return;
+      }
+      case 'pexception':
+        throw new TypeError('Exception patterns are only allowed at the top of a match case', line);
+    }
+  }
+
+  // ── Type Expressions ────────────────────────────────────────────────────
+  private parseSignature(signature: string): Type {
+    const t = this.parseTypeString(signature, new Map(), true);
+    this.generalize(t);
+    return t;
+  }
+
+  /**
+   * Parse a type written in OCaml syntax (as stored in builtin names and
+   * type declarations). Type variables are looked up in (or added to) `vars`.
+   */
+  private parseTypeString(source: string, vars: Map<string, TVar>, generic: boolean = false): Type {
+    return this.typeFromExpr(new Parser(new Lexer(source).tokenize()).parseTypeExpr(), vars, generic);
+  }
+
+  /** The type a type expression denotes; `vars` holds its type variables, and gets the new ones. */
+  private typeFromExpr(t: TypeExpr, vars: Map<string, TVar>, generic: boolean = false): Type {
+    const fresh = () => this.newVar(generic ? GENERIC_LEVEL : this.level);
+    switch (t.kind) {
+      case 'tyvar': {
+        let v = vars.get(t.name);
+        if (!v) {
+          v = fresh();
+          vars.set(t.name, v);
+        }
+        return v;
+      }
+      case 'tyany': return fresh();
+      case 'tyname': return this.resolveTypeName(t.name, t.args.map(a => this.typeFromExpr(a, vars, generic)));
+      case 'tytuple': return { kind: 'ttuple', elements: t.elements.map(e => this.typeFromExpr(e, vars, generic)) };
+      case 'tyarrow':
+        return arrow(this.typeFromExpr(t.param, vars, generic), this.typeFromExpr(t.result, vars, generic), t.label, t.optional);
+      case 'tyvariant': {
+        const tags = new Map<string, Type | null>();
+        for (const tag of t.tags) tags.set(tag.name, tag.arg ? this.typeFromExpr(tag.arg, vars, generic) : null);
+        if (t.bound === 'closed') {
+          // [< `A | `B ]: none of the tags has to be there
+          const row = fresh();
+          row.bound = tags;
+          return { kind: 'tvariant', tags: new Map(), row };
+        }
+        return { kind: 'tvariant', tags, row: t.bound === 'open' ? fresh() : null };
+      }
+    }
+  }
+
+  private resolveTypeName(localName: string, args: Type[]): Type {
+    const name = this.typeNames.get(localName) ?? localName;
+    const alias = this.aliases.get(name);
+    if (alias) {
+      const subst = new Map<number, Type>();
+      alias.params.forEach((p, i) => subst.set(p.id, args[i] ?? this.newVar()));
+      return this.substitute(alias.body, subst);
+    }
+    const arity = this.typeArity.get(name);
+    if (arity !== undefined && arity !== args.length) {
+      throw new TypeError(`The type constructor ${unstamped(name)} expects ${arity} argument(s), but is here applied to ${args.length} argument(s)`);
+    }
+    return con(name, ...args);
+  }
+
+  private substitute(t: Type, subst: Map<number, Type>): Type {
+    t = this.repr(t);
+    switch (t.kind) {
+      case 'tvar': return subst.get(t.id) ?? t;
+      case 'tcon': return { kind: 'tcon', name: t.name, args: t.args.map(a => this.substitute(a, subst)) };
+      case 'tarrow': return arrow(this.substitute(t.param, subst), this.substitute(t.result, subst), t.label, t.optional);
+      case 'ttuple': return { kind: 'ttuple', elements: t.elements.map(e => this.substitute(e, subst)) };
+      case 'tvariant': return this.mapVariant(t, arg => this.substitute(arg, subst));
+    }
+  }
+
+  // ── Printing ────────────────────────────────────────────────────────────
+  /**
+   * Print a type in OCaml syntax. Variables are named 'a, 'b, ... in order of
+   * appearance; with `weak`, non-generalized variables print as '_weakN.
+   */
+  show(t: Type, names: Map<number, string>, weak: boolean = false, prec: number = 0): string {
+    t = this.repr(t);
+    switch (t.kind) {
+      case 'tvar': {
+        if (weak && t.level !== GENERIC_LEVEL) {
+          let name = this.weakNames.get(t.id);
+          if (!name) {
+            name = `'_weak${this.weakNames.size + 1}`;
+            this.weakNames.set(t.id, name);
+          }
+          return name;
+        }
+        let name = names.get(t.id);
+        if (!name) {
+          name = "'" + this.varName(names.size);
+          names.set(t.id, name);
+        }
+        return name;
+      }
+      case 'tcon': {
+        const shown = unstamped(t.name);
+        const name = this.showScope && shown.startsWith(this.showScope) ? shown.slice(this.showScope.length) : shown;
+        if (t.args.length === 0) return name;
+        if (t.args.length === 1) return `${this.show(t.args[0], names, weak, 2)} ${name}`;
+        return `(${t.args.map(a => this.show(a, names, weak, 0)).join(', ')}) ${name}`;
+      }
+      case 'ttuple': {
+        const s = t.elements.map(e => this.show(e, names, weak, 2)).join(' * ');
+        return prec > 1 ? `(${s})` : s;
+      }
+      case 'tarrow': {
+        const label = t.label ? `${t.optional ? '?' : ''}${t.label}:` : '';
+        const s = `${label}${this.show(t.param, names, weak, 1)} -> ${this.show(t.result, names, weak, 0)}`;
+        return prec > 0 ? `(${s})` : s;
+      }
+      case 'tvariant': {
+        // [ `A | `B of int ] when closed, [> `A ] when more tags can be added,
+        // [< `A | `B > `A ] when only `A is sure to be there
+        const { tags, row } = this.variantTags(t);
+        const showTags = (tags: Map<string, Type | null>) => [...tags].sort(([a], [b]) => a.localeCompare(b))
+          .map(([name, arg]) => arg ? `${name} of ${this.show(arg, names, weak, 0)}` : name).join(' | ');
+        if (row?.kind === 'tvar' && row.bound && row.bound.size > 0) {
+          const present = tags.size > 0 ? ` > ${showTags(tags)}` : '';
+          return `[< ${showTags(new Map([...tags, ...row.bound]))}${present} ]`;
+        }
+        return `[${row && !(row.kind === 'tvar' && row.bound) ? '>' : ''} ${showTags(tags)} ]`;
+      }
+    }
+  }
+
+  /**
+   * Print a module signature the way the toplevel does, one item per line.
+   * Types named under `scope` (the module's own path) print unqualified.
+   */
+  private showModule(sig: ModuleSig, scope: string, indent: string = ''): string {
+    if (sig.kind === 'functor') {
+      const result = sig.result ? this.showModule(sig.result, scope, indent) : 'sig ... end';
+      return `functor (${sig.param} : ${this.showModuleType(sig.paramType)}) -> ${result}`;
+    }
+    const lines = ['sig'];
+    const outerScope = this.showScope;
+    this.showScope = scope;
+    for (const [local, canonical] of sig.types) {
+      const arity = this.typeArity.get(canonical) ?? 0;
+      const names = new Map<number, string>();
+      const params = Array.from({ length: arity }, (_, i) => "'" + this.varName(i));
+      const prefix = arity === 0 ? '' : arity === 1 ? `${params[0]} ` : `(${params.join(', ')}) `;
+      // Manifest types (type key = string, or one brought in by include) show their definition
+      const alias = this.aliases.get(canonical);
+      alias?.params.forEach((p, i) => names.set(p.id, params[i]));
+      const manifest = alias ? ` = ${this.show(alias.body, names)}`
+        : unstamped(canonical) !== `${scope}${local}` ? ` = ${prefix}${unstamped(canonical)}` : '';
+      lines.push(`${indent}  type ${prefix}${local}${manifest}`);
+    }
+    for (const [name, sub] of sig.modules) {
+      lines.push(`${indent}  module ${name} : ${this.showModule(sub, `${scope}${name}.`, indent + '  ')}`);
+    }
+    for (const [name, type] of sig.values) lines.push(`${indent}  val ${name} : ${this.show(type, new Map(), true)}`);
+    this.showScope = outerScope;
+    lines.push(`${indent}end`);
+    return lines.join('\n');
+  }
+
+  private showModuleType(mt: ModuleTypeExpr): string {
+    switch (mt.kind) {
+      case 'signame': return mt.name;
+      case 'functortype': return `functor (${mt.param} : ${this.showModuleType(mt.paramType)}) -> ${this.showModuleType(mt.result)}`;
+      case 'signature': {
+        const items = mt.items.map(item => {
+          if (item.kind === 'valspec') return `val ${item.name} : ${item.type}`;
+          if (item.kind === 'exceptiondecl') return `exception ${item.name}`;
+          return `type ${item.params.length > 0 ? `${item.params.join(', ')} ` : ''}${item.name}`;
+        });
+        return `sig ${items.join(' ')} end`;
+      }
+    }
+  }
+
+  private varName(index: number): string {
+    const letter = String.fromCharCode(97 + (index % 26));
+    return index < 26 ? letter : letter + Math.floor(index / 26);
+  }
+}
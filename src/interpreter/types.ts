@@ -9,6 +9,8 @@ export enum TokenType {
 
   // Identifiers
   IDENT = 'IDENT', UPPER_IDENT = 'UPPER_IDENT',
+  // Polymorphic variant tags, with the backtick in the value: `Red
+  VARIANT_TAG = 'VARIANT_TAG',
 
   // Keywords
   LET = 'LET', REC = 'REC', IN = 'IN', AND = 'AND',
@@ -19,8 +21,9 @@ export enum TokenType {
   BEGIN = 'BEGIN', END = 'END',
   TRUE = 'TRUE', FALSE = 'FALSE',
   NOT = 'NOT', MOD = 'MOD', REF = 'REF',
-  TRY = 'TRY', RAISE = 'RAISE', EXCEPTION = 'EXCEPTION',
-  OPEN = 'OPEN', MODULE = 'MODULE', STRUCT = 'STRUCT', SIG = 'SIG',
+  LAND = 'LAND', LOR = 'LOR', LXOR = 'LXOR', LSL = 'LSL', LSR = 'LSR', ASR = 'ASR',
+  TRY = 'TRY', RAISE = 'RAISE', ASSERT = 'ASSERT', LAZY = 'LAZY', EXCEPTION = 'EXCEPTION',
+  OPEN = 'OPEN', INCLUDE = 'INCLUDE', MODULE = 'MODULE', STRUCT = 'STRUCT', SIG = 'SIG', FUNCTOR = 'FUNCTOR',
   FOR = 'FOR', WHILE = 'WHILE', DO = 'DO', DONE = 'DONE', TO = 'TO', DOWNTO = 'DOWNTO',
   MUTABLE = 'MUTABLE',
 
@@ -32,7 +35,9 @@ export enum TokenType {
   COLON = 'COLON', COLONCOLON = 'COLONCOLON',
   COMMA = 'COMMA', DOT = 'DOT',
   ARROW = 'ARROW', PIPE = 'PIPE', UNDERSCORE = 'UNDERSCORE',
-  HASH = 'HASH',
+  HASH = 'HASH', TILDE = 'TILDE', QUESTION = 'QUESTION',
+  // `~name:` and `?name:`, with the name as value
+  LABEL = 'LABEL', OPTLABEL = 'OPTLABEL',
 
   // Operators
   PLUS = 'PLUS', MINUS = 'MINUS', STAR = 'STAR', SLASH = 'SLASH',
@@ -41,7 +46,7 @@ export enum TokenType {
   PHYSICAL_EQ = 'PHYSICAL_EQ', PHYSICAL_NEQ = 'PHYSICAL_NEQ',
   AMPAMP = 'AMPAMP', PIPEPIPE = 'PIPEPIPE',
   CARET = 'CARET', AT = 'AT',
-  BANG = 'BANG', COLONEQUAL = 'COLONEQUAL',
+  BANG = 'BANG', COLONEQUAL = 'COLONEQUAL', LARROW = 'LARROW',
   PIPE_GT = 'PIPE_GT',
 
   // Special
@@ -77,11 +82,14 @@ export type ASTNode =
   | TypeDeclNode
   | ExceptionDeclNode
   | RaiseNode
+  | AssertNode
+  | LazyNode
   | TryWithNode
   | BeginEndNode
   | ConstructorNode
   | RecordNode
   | FieldAccessNode
+  | FieldSetNode
   | UnitNode
   | ForNode
   | WhileNode
@@ -89,15 +97,21 @@ export type ASTNode =
   | ArrayAccessNode
   | ArraySetNode
   | OpenNode
-  | PrintfNode;
+  | IncludeNode
+  | ModuleDeclNode
+  | ModuleTypeDeclNode
+  | ScanfNode;
 
-export interface LiteralNode { kind: 'literal'; type: 'int' | 'float' | 'string' | 'char' | 'bool'; value: any; line: number; }
+export interface LiteralNode { kind: 'literal'; type: 'int' | 'int32' | 'int64' | 'float' | 'string' | 'char' | 'bool'; value: any; line: number; }
 export interface UnitNode { kind: 'unit'; line: number; }
 export interface VarNode { kind: 'var'; name: string; line: number; }
-export interface LetNode { kind: 'let'; name: string; params: Pattern[]; body: ASTNode; inExpr?: ASTNode; line: number; }
-export interface LetRecNode { kind: 'letrec'; name: string; params: Pattern[]; body: ASTNode; inExpr?: ASTNode; line: number; }
-export interface FunNode { kind: 'fun'; params: Pattern[]; body: ASTNode; line: number; }
-export interface AppNode { kind: 'app'; func: ASTNode; args: ASTNode[]; line: number; }
+// `let (a, b) = e` has a pattern; its name is then '_'
+// The node itself is the first binding; `and` holds the ones after it
+export interface LetNode { kind: 'let'; name: string; pattern?: Pattern; params: Param[]; body: ASTNode; and?: LetBinding[]; inExpr?: ASTNode; line: number; }
+export interface LetRecNode { kind: 'letrec'; name: string; params: Param[]; body: ASTNode; and?: LetBinding[]; inExpr?: ASTNode; line: number; }
+export interface LetBinding { name: string; pattern?: Pattern; params: Param[]; body: ASTNode; line: number; }
+export interface FunNode { kind: 'fun'; params: Param[]; body: ASTNode; line: number; }
+export interface AppNode { kind: 'app'; func: ASTNode; args: Arg[]; line: number; }
 export interface BinOpNode { kind: 'binop'; op: string; left: ASTNode; right: ASTNode; line: number; }
 export interface UnaryOpNode { kind: 'unary'; op: string; expr: ASTNode; line: number; }
 export interface IfNode { kind: 'if'; cond: ASTNode; then: ASTNode; else?: ASTNode; line: number; }
@@ -109,21 +123,54 @@ export interface SequenceNode { kind: 'sequence'; exprs: ASTNode[]; line: number
 export interface RefNode { kind: 'ref'; expr: ASTNode; line: number; }
 export interface DerefNode { kind: 'deref'; expr: ASTNode; line: number; }
 export interface AssignNode { kind: 'assign'; ref: ASTNode; value: ASTNode; line: number; }
-export interface TypeDeclNode { kind: 'typedecl'; name: string; params: string[]; variants: { name: string; type?: string }[]; line: number; }
+export interface TypeDeclNode {
+  kind: 'typedecl'; name: string; params: string[]; definition: TypeDefinition;
+  // `constraint 'a = t` clauses
+  constraints?: { param: string; type: TypeExpr }[];
+  and?: TypeDeclNode[]; line: number;
+}
 export interface ExceptionDeclNode { kind: 'exceptiondecl'; name: string; type?: string; line: number; }
 export interface RaiseNode { kind: 'raise'; expr: ASTNode; line: number; }
+export interface AssertNode { kind: 'assert'; expr: ASTNode; line: number; column: number; }
+export interface LazyNode { kind: 'lazy'; expr: ASTNode; line: number; }
 export interface TryWithNode { kind: 'trywith'; expr: ASTNode; cases: MatchCase[]; line: number; }
 export interface BeginEndNode { kind: 'begin'; expr: ASTNode; line: number; }
+// Polymorphic variant tags are constructors whose name starts with a backtick
 export interface ConstructorNode { kind: 'constructor'; name: string; arg?: ASTNode; line: number; }
-export interface RecordNode { kind: 'record'; fields: { name: string; value: ASTNode }[]; line: number; }
+// `{ base with f = v }` copies `base` with the given fields replaced
+export interface RecordNode { kind: 'record'; fields: { name: string; value: ASTNode }[]; base?: ASTNode; line: number; }
 export interface FieldAccessNode { kind: 'fieldaccess'; expr: ASTNode; field: string; line: number; }
+export interface FieldSetNode { kind: 'fieldset'; expr: ASTNode; field: string; value: ASTNode; line: number; }
 export interface ForNode { kind: 'for'; var: string; start: ASTNode; end: ASTNode; up: boolean; body: ASTNode; line: number; }
 export interface WhileNode { kind: 'while'; cond: ASTNode; body: ASTNode; line: number; }
 export interface ArrayNode { kind: 'array'; elements: ASTNode[]; line: number; }
 export interface ArrayAccessNode { kind: 'arrayaccess'; array: ASTNode; index: ASTNode; line: number; }
 export interface ArraySetNode { kind: 'arrayset'; array: ASTNode; index: ASTNode; value: ASTNode; line: number; }
 export interface OpenNode { kind: 'open'; module: string; line: number; }
-export interface PrintfNode { kind: 'printf'; format: string; args: ASTNode[]; line: number; }
+export interface IncludeNode { kind: 'include'; module: ModuleExpr; line: number; }
+export interface ModuleDeclNode { kind: 'moduledecl'; name: string; body: ModuleExpr; line: number; }
+export interface ModuleTypeDeclNode { kind: 'moduletypedecl'; name: string; signature: ModuleTypeExpr; line: number; }
+/** `Scanf.scanf fmt k` reads stdin; `Scanf.sscanf src fmt k` reads the string `source`. */
+export interface ScanfNode { kind: 'scanf'; format: string; source?: ASTNode; args: ASTNode[]; line: number; }
+
+// ── Labels ──────────────────────────────────────────────────────────────────
+/** How a parameter is passed: by position, as `~label:`, or as an optional `?label:`. */
+export interface ParamLabel { label?: string; optional?: boolean; }
+
+/** `p`, `~x` / `~x:p`, `?x` / `?x:p`; an optional parameter may have a `?(x = default)`. */
+export interface Param extends ParamLabel { pattern: Pattern; default?: ASTNode; }
+
+/** `e`, `~x:e` or `?x:e`; `~x` stands for `~x:x`. */
+export interface Arg extends ParamLabel { value: ASTNode; }
+
+export interface ArgValue extends ParamLabel { value: Value; }
+
+/**
+ * Arguments given so far to a function with labeled parameters: one slot per
+ * parameter (null for an omitted optional one, undefined while missing), and
+ * the arguments left over for the function's result.
+ */
+export interface LabeledApplication { supplied: (Value | null | undefined)[]; extra: ArgValue[]; }
 
 // ── Pattern Types ───────────────────────────────────────────────────────────
 export type Pattern =
@@ -135,7 +182,122 @@ export type Pattern =
   | { kind: 'pcons'; head: Pattern; tail: Pattern }
   | { kind: 'pconstructor'; name: string; arg?: Pattern }
   | { kind: 'punit' }
-  | { kind: 'por'; left: Pattern; right: Pattern };
+  | { kind: 'por'; left: Pattern; right: Pattern }
+  | { kind: 'palias'; pattern: Pattern; name: string }
+  | { kind: 'precord'; fields: { name: string; pattern: Pattern }[] }
+  | { kind: 'parray'; elements: Pattern[] }
+  | { kind: 'prange'; from: string; to: string }
+  | { kind: 'pconstraint'; pattern: Pattern; type: string }
+  // `lazy p` forces the value it matches
+  | { kind: 'plazy'; pattern: Pattern }
+  // Only at the top of a match case: `| exception Not_found -> ...`
+  | { kind: 'pexception'; pattern: Pattern };
+
+/** A pattern that binds a name. */
+export type PatternBinder = Extract<Pattern, { kind: 'pvar' | 'palias' }>;
+
+/** The binders of a pattern, left to right; an or-pattern's are those of its left side. */
+export function patternBinders(pat: Pattern): PatternBinder[] {
+  switch (pat.kind) {
+    case 'pvar': return [pat];
+    case 'palias': return [...patternBinders(pat.pattern), pat];
+    case 'ptuple': case 'plist': case 'parray': return pat.elements.flatMap(patternBinders);
+    case 'pcons': return [...patternBinders(pat.head), ...patternBinders(pat.tail)];
+    case 'pconstructor': return pat.arg ? patternBinders(pat.arg) : [];
+    case 'precord': return pat.fields.flatMap(f => patternBinders(f.pattern));
+    case 'por': return patternBinders(pat.left);
+    case 'pconstraint': case 'pexception': case 'plazy': return patternBinders(pat.pattern);
+    default: return [];
+  }
+}
+
+/** The bindings of `let ... and ...`, in source order. */
+export function letBindings(node: LetNode | LetRecNode): LetBinding[] {
+  return node.and ? [node, ...node.and] : [node];
+}
+
+/** The types of `type ... and ...`, in source order. */
+export function typeDecls(node: TypeDeclNode): TypeDeclNode[] {
+  return node.and ? [node, ...node.and] : [node];
+}
+
+// ── Type Expressions ────────────────────────────────────────────────────────
+export type TypeExpr =
+  | { kind: 'tyvar'; name: string } // 'a
+  | { kind: 'tyany' } // _
+  | { kind: 'tyname'; name: string; args: TypeExpr[] } // int, 'a list, (int, string) Hashtbl.t
+  | { kind: 'tytuple'; elements: TypeExpr[] }
+  | { kind: 'tyarrow'; param: TypeExpr; result: TypeExpr; label?: string; optional?: boolean }
+  // [ `A | `B of int ] is exact, [> `A ] open (at least these tags), [< `A | `B ] closed (at most these)
+  | { kind: 'tyvariant'; tags: { name: string; arg?: TypeExpr }[]; bound: 'exact' | 'open' | 'closed' };
+
+export interface FieldDecl { name: string; type: TypeExpr; mutable: boolean; }
+// `record` holds the fields of an inline record: C of { x : int }. `result`
+// is the type a GADT constructor builds: Int : int -> int expr
+export interface ConstructorDecl { name: string; arg?: TypeExpr; record?: FieldDecl[]; result?: TypeExpr; }
+
+export type TypeDefinition =
+  | { kind: 'abstract' }
+  | { kind: 'alias'; type: TypeExpr }
+  | { kind: 'variant'; constructors: ConstructorDecl[] }
+  | { kind: 'record'; fields: FieldDecl[] };
+
+/** Print a type expression in OCaml syntax. `prec`: 0 anywhere, 1 an arrow's parameter, 2 a tuple element or argument. */
+export function showTypeExpr(t: TypeExpr, prec: number = 0): string {
+  switch (t.kind) {
+    case 'tyvar': return t.name;
+    case 'tyany': return '_';
+    case 'tyname':
+      if (t.args.length === 0) return t.name;
+      if (t.args.length === 1) return `${showTypeExpr(t.args[0], 2)} ${t.name}`;
+      return `(${t.args.map(a => showTypeExpr(a)).join(', ')}) ${t.name}`;
+    case 'tytuple': {
+      const s = t.elements.map(e => showTypeExpr(e, 2)).join(' * ');
+      return prec > 1 ? `(${s})` : s;
+    }
+    case 'tyarrow': {
+      const label = t.label ? `${t.optional ? '?' : ''}${t.label}:` : '';
+      const s = `${label}${showTypeExpr(t.param, 1)} -> ${showTypeExpr(t.result)}`;
+      return prec > 0 ? `(${s})` : s;
+    }
+    case 'tyvariant': {
+      const bound = t.bound === 'open' ? '>' : t.bound === 'closed' ? '<' : '';
+      const tags = t.tags.map(tag => tag.arg ? `${tag.name} of ${showTypeExpr(tag.arg)}` : tag.name);
+      return `[${bound} ${tags.join(' | ')} ]`;
+    }
+  }
+}
+
+/** Print the right-hand side of a type declaration. */
+export function showTypeDefinition(def: TypeDefinition): string {
+  const fields = (fs: FieldDecl[]) => `{${fs.map(f => `${f.mutable ? 'mutable ' : ''}${f.name}: ${showTypeExpr(f.type)}`).join('; ')}}`;
+  switch (def.kind) {
+    case 'abstract': return '';
+    case 'alias': return showTypeExpr(def.type);
+    case 'record': return fields(def.fields);
+    case 'variant':
+      return def.constructors.map(c =>
+        c.result ? `${c.name} : ${c.arg ? `${showTypeExpr(c.arg, 1)} -> ` : ''}${showTypeExpr(c.result)}`
+          : c.record ? `${c.name} of ${fields(c.record)}` : c.arg ? `${c.name} of ${showTypeExpr(c.arg)}` : c.name
+      ).join(' | ');
+  }
+}
+
+// ── Module Types ────────────────────────────────────────────────────────────
+export type ModuleExpr =
+  | { kind: 'structure'; items: ASTNode[] }
+  | { kind: 'modpath'; path: string }
+  | { kind: 'functor'; param: string; paramType: ModuleTypeExpr; body: ModuleExpr }
+  | { kind: 'apply'; functor: ModuleExpr; arg: ModuleExpr }
+  | { kind: 'constraint'; body: ModuleExpr; signature: ModuleTypeExpr };
+
+export type ModuleTypeExpr =
+  | { kind: 'signame'; name: string }
+  | { kind: 'signature'; items: SignatureItem[] }
+  | { kind: 'functortype'; param: string; paramType: ModuleTypeExpr; result: ModuleTypeExpr };
+
+export interface ValSpec { kind: 'valspec'; name: string; type: string; line: number; }
+export type SignatureItem = ValSpec | TypeDeclNode | ExceptionDeclNode;
 
 export interface MatchCase {
   pattern: Pattern;
@@ -145,11 +307,15 @@ export interface MatchCase {
 
 // ── Value Types ─────────────────────────────────────────────────────────────
 export type Value =
-  | VInt | VFloat | VString | VChar | VBool | VUnit
-  | VList | VTuple | VFun | VRecFun | VRef | VConstructor
-  | VBuiltin | VRecord | VArray;
+  | VInt | VInt32 | VInt64 | VFloat | VString | VChar | VBool | VUnit
+  | VList | VTuple | VFun | VRecFun | VRef | VConstructor | VException
+  | VBuiltin | VRecord | VArray | VModule | VFunctor | VMap | VSet | VHashtbl
+  | VChannel | VBuffer | VFormatter | VStack | VQueue | VLazy;
 
-export interface VInt { tag: 'int'; value: number; }
+// Integers are wrapped to their width (see integers.ts)
+export interface VInt { tag: 'int'; value: bigint; }
+export interface VInt32 { tag: 'int32'; value: bigint; }
+export interface VInt64 { tag: 'int64'; value: bigint; }
 export interface VFloat { tag: 'float'; value: number; }
 export interface VString { tag: 'string'; value: string; }
 export interface VChar { tag: 'char'; value: string; }
@@ -157,22 +323,75 @@ export interface VBool { tag: 'bool'; value: boolean; }
 export interface VUnit { tag: 'unit'; }
 export interface VList { tag: 'list'; elements: Value[]; }
 export interface VTuple { tag: 'tuple'; elements: Value[]; }
-export interface VFun { tag: 'fun'; params: Pattern[]; body: ASTNode; env: Environment; }
-export interface VRecFun { tag: 'recfun'; name: string; params: Pattern[]; body: ASTNode; env: Environment; }
+// `name` is the binding a closure was defined by (`let f x = ...`), which backtraces show
+export interface VFun { tag: 'fun'; params: Param[]; body: ASTNode; env: Environment; labeled?: LabeledApplication; name?: string; }
+export interface VRecFun { tag: 'recfun'; name: string; params: Param[]; body: ASTNode; env: Environment; labeled?: LabeledApplication; }
 export interface VRef { tag: 'ref'; value: Value; id: number; }
 export interface VConstructor { tag: 'constructor'; name: string; value?: Value; }
-export interface VBuiltin { tag: 'builtin'; name: string; fn: (args: Value[]) => Value; arity: number; applied: Value[]; }
-export interface VRecord { tag: 'record'; fields: Map<string, Value>; }
+// A value of type exn; raised as an OCamlException (see exceptions.ts)
+export interface VException { tag: 'exn'; name: string; value?: Value; }
+// Builtins with labels in their signature take their arguments through `labeled`
+export interface VBuiltin {
+  tag: 'builtin'; name: string; fn: (args: Value[]) => Value; arity: number; applied: Value[];
+  labels?: ParamLabel[]; labeled?: LabeledApplication;
+}
+// Records with mutable fields live on the heap, under `id`
+export interface VRecord { tag: 'record'; fields: Map<string, Value>; id?: number; }
 export interface VArray { tag: 'array'; elements: Value[]; id: number; }
+export interface VModule { tag: 'module'; name: string; env: Environment; }
+// For stdlib functors `name` holds the OCaml module type, like VBuiltin signatures
+export interface VFunctor { tag: 'functor'; name: string; apply: (arg: VModule) => VModule; }
+export type ModuleValue = VModule | VFunctor;
+// Values of the abstract types produced by Map.Make and Set.Make
+export interface VMap { tag: 'map'; bindings: [Value, Value][]; }
+export interface VSet { tag: 'set'; elements: Value[]; }
+// Mutable containers live on the heap, under `id`
+export interface VHashtbl { tag: 'hashtbl'; buckets: Map<number, [Value, Value][]>; size: number; id?: number; }
+// A stack keeps its top last, a queue its front first
+export interface VStack { tag: 'stack'; elements: Value[]; id?: number; }
+export interface VQueue { tag: 'queue'; elements: Value[]; id?: number; }
+// A suspension on the heap: `thunk` runs the first time it is forced, and its
+// value, or the exception it raised, is kept for later forcings
+export interface VLazy {
+  tag: 'lazy'; id: number; thunk?: () => Value; forcing?: boolean;
+  value?: Value; raised?: VException;
+}
+// Output channels print to the program output, stderr included
+export interface VChannel { tag: 'channel'; name: 'stdout' | 'stderr'; }
+export interface VBuffer { tag: 'buffer'; contents: string; id?: number; }
+// A Format formatter prints to its channel or buffer, laying out the boxes open on it
+export interface VFormatter {
+  tag: 'formatter'; out: VChannel | VBuffer; column: number; margin: number;
+  boxes: { kind: 'h' | 'v' | 'hov'; indent: number }[];
+}
+
+// ── Static Types ────────────────────────────────────────────────────────────
+export type Type = TVar | TCon | TArrow | TTuple | TVariant;
+
+// A variant's row variable may have a `bound`: the only tags it can still stand for ([< `A | `B ])
+export interface TVar { kind: 'tvar'; id: number; level: number; link: Type | null; bound?: Map<string, Type | null>; }
+export interface TCon { kind: 'tcon'; name: string; args: Type[]; }
+// A `?label:` parameter's type is the one without the option, as it is written
+export interface TArrow { kind: 'tarrow'; param: Type; result: Type; label?: string; optional?: boolean; }
+export interface TTuple { kind: 'ttuple'; elements: Type[]; }
+// Polymorphic variants. `row` stands for the other tags: null when there are
+// none, a variable when more can be added (it may get linked to another TVariant)
+export interface TVariant { kind: 'tvariant'; tags: Map<string, Type | null>; row: Type | null; }
 
 // ── Environment ─────────────────────────────────────────────────────────────
 export class Environment {
   bindings: Map<string, Value>;
+  modules: Map<string, ModuleValue>;
+  moduleTypes: Map<string, ModuleTypeExpr>;
   parent: Environment | null;
   name: string;
+  // Scopes brought in with `open`, most recent last
+  private opened: Environment[] = [];
 
   constructor(parent: Environment | null = null, name: string = 'global') {
     this.bindings = new Map();
+    this.modules = new Map();
+    this.moduleTypes = new Map();
     this.parent = parent;
     this.name = name;
   }
@@ -180,6 +399,10 @@ export class Environment {
   get(name: string): Value | undefined {
     const val = this.bindings.get(name);
     if (val !== undefined) return val;
+    for (let i = this.opened.length - 1; i >= 0; i--) {
+      const opened = this.opened[i].bindings.get(name);
+      if (opened !== undefined) return opened;
+    }
     if (this.parent) return this.parent.get(name);
     return undefined;
   }
@@ -188,6 +411,33 @@ export class Environment {
     this.bindings.set(name, value);
   }
 
+  getModule(name: string): ModuleValue | undefined {
+    const mod = this.modules.get(name);
+    if (mod !== undefined) return mod;
+    for (let i = this.opened.length - 1; i >= 0; i--) {
+      const opened = this.opened[i].modules.get(name);
+      if (opened !== undefined) return opened;
+    }
+    if (this.parent) return this.parent.getModule(name);
+    return undefined;
+  }
+
+  setModule(name: string, mod: ModuleValue): void {
+    this.modules.set(name, mod);
+  }
+
+  getModuleType(name: string): ModuleTypeExpr | undefined {
+    return this.moduleTypes.get(name) ?? this.parent?.getModuleType(name);
+  }
+
+  setModuleType(name: string, mt: ModuleTypeExpr): void {
+    this.moduleTypes.set(name, mt);
+  }
+
+  open(scope: Environment): void {
+    this.opened.push(scope);
+  }
+
   extend(name: string = 'local'): Environment {
     return new Environment(this, name);
   }
@@ -238,8 +488,3 @@ export class RuntimeError extends OCamlError {
   }
 }
 
-export class MatchFailure extends OCamlError {
-  constructor(line: number = 0) {
-    super('Match failure', line, 0, 'Exception');
-  }
-}
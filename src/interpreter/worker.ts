@@ -0,0 +1,94 @@
+import { interpret, interpretProject, debugInterpret, debugProject, ToplevelSession, type InterpretOptions } from './index';
+import type { DebugRecording } from './debugger';
+import type { ExecutionResult, ProjectFiles } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Interpreter Worker
+// ═══════════════════════════════════════════════════════════════════════════
+//
+// Runs programs off the UI thread. A run is synchronous, so the worker can't
+// read messages until it finishes: cancelling a run means terminating the
+// worker (see services/browserRunner.ts).
+
+/** What to run: a single source, or a project with its entry file. */
+export type BrowserRunRequest =
+  | { kind: 'source'; source: string; options?: Omit<InterpretOptions, 'onProgress'> }
+  | { kind: 'project'; files: ProjectFiles; entry: string; options?: Omit<InterpretOptions, 'onProgress'> };
+
+/**
+ * A toplevel phrase. The session lives in the worker, so a fresh worker
+ * first replays `replay`, the phrases that succeeded before it was restarted.
+ */
+export interface BrowserPhraseRequest {
+  code: string;
+  replay: string[];
+  options?: Omit<InterpretOptions, 'onProgress'>;
+}
+
+/** Page → worker */
+export type WorkerRequest =
+  | { type: 'run'; id: number; request: BrowserRunRequest }
+  | { type: 'debug'; id: number; request: BrowserRunRequest }
+  | { type: 'phrase'; id: number; request: BrowserPhraseRequest };
+
+/** Worker → page. `progress.output` is the text printed since the previous message. */
+export type WorkerResponse =
+  | { type: 'progress'; id: number; steps: number; output: string }
+  | { type: 'result'; id: number; result: ExecutionResult }
+  | { type: 'recording'; id: number; recording: DebugRecording }
+  | { type: 'error'; id: number; message: string };
+
+// Progress messages are throttled; output in between is accumulated
+const PROGRESS_INTERVAL_MS = 100;
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse) => void;
+};
+
+let toplevel: ToplevelSession | null = null;
+
+function runPhrase({ code, replay, options }: BrowserPhraseRequest): ExecutionResult {
+  if (!toplevel) {
+    toplevel = new ToplevelSession(options);
+    for (const phrase of replay) toplevel.run(phrase);
+  }
+  return toplevel.run(code);
+}
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  const { id } = message;
+  let pending = '';
+  let lastReport = Date.now();
+  const onProgress = (steps: number, output: string) => {
+    pending += output;
+    if (Date.now() - lastReport < PROGRESS_INTERVAL_MS) return;
+    lastReport = Date.now();
+    scope.postMessage({ type: 'progress', id, steps, output: pending });
+    pending = '';
+  };
+
+  try {
+    if (message.type === 'phrase') {
+      scope.postMessage({ type: 'result', id, result: runPhrase(message.request) });
+      return;
+    }
+    const { request } = message;
+    if (message.type === 'debug') {
+      const recording = request.kind === 'project'
+        ? debugProject(request.files, request.entry, request.options)
+        : debugInterpret(request.source, request.options);
+      scope.postMessage({ type: 'recording', id, recording });
+      return;
+    }
+    const options = { ...request.options, onProgress };
+    const result = request.kind === 'project'
+      ? interpretProject(request.files, request.entry, options)
+      : interpret(request.source, options);
+    scope.postMessage({ type: 'result', id, result });
+  } catch (e: any) {
+    // Project bundling reports clashing module names by throwing
+    scope.postMessage({ type: 'error', id, message: e?.message || 'Unknown error' });
+  }
+};
@@ -9,7 +9,8 @@ import { MemoryViewer } from '../components/MemoryViewer';
 import { FileTree } from '../components/FileTree';
 import { AuthModal } from '../components/AuthModal';
 import { ShareModal } from '../components/ShareModal';
-import { interpret } from '../interpreter';
+import type { BrowserRunRequest } from '../services/browserRunner';
+import type { NativeRunRequest } from '../types';
 import { Loader2, X } from 'lucide-react';
 import {
   computeAutoFileTreeWidth,
@@ -19,14 +20,6 @@ import {
   RESIZE_HANDLE_WIDTH,
 } from '../utils/panelSizing';
 
-function isAbortError(error: unknown): boolean {
-  if (error instanceof DOMException) return error.name === 'AbortError';
-  if (typeof error === 'object' && error !== null && 'name' in error) {
-    return (error as { name?: string }).name === 'AbortError';
-  }
-  return false;
-}
-
 export function IDEPage() {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
@@ -34,7 +27,8 @@ export function IDEPage() {
     user, currentProject, isProjectLoading, loadProject,
     activeFile, openTabs, setActiveFile, closeTab,
     showFileTree, showConsole, showMemoryPanel,
-    setExecutionResult, setIsRunning, isRunning,
+    isRunning, runProgram, debugProgram, stopRun, cancelRun,
+    debugSession, debugStep, stopDebug, showTrace,
     isDirty, saveProject, capabilities, loadCapabilities,
     addNotification, memoryState,
     fileTreeWidth, memoryPanelWidth, fileTreeWidthMode, memoryPanelWidthMode,
@@ -45,9 +39,6 @@ export function IDEPage() {
   const autoSaveRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const layoutRef = useRef<HTMLDivElement | null>(null);
   const dragStateRef = useRef<{ panel: 'fileTree' | 'memory'; startX: number; startWidth: number } | null>(null);
-  const runAbortRef = useRef<AbortController | null>(null);
-  const fallbackTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const runSeqRef = useRef(0);
   const fileNames = currentProject ? Object.keys(currentProject.files).sort() : [];
   const fileNamesKey = fileNames.join('\u0000');
 
@@ -192,100 +183,41 @@ export function IDEPage() {
   ]);
 
   // ── Run: Use real OCaml backend if available, fallback to browser interpreter
-  const handleRun = useCallback(async () => {
+  const handleRun = useCallback(() => {
     if (!currentProject || !activeFile) return;
     const file = currentProject.files[activeFile];
     if (!file) return;
 
-    if (runAbortRef.current) {
-      runAbortRef.current.abort();
-      runAbortRef.current = null;
-    }
-    if (fallbackTimerRef.current) {
-      clearTimeout(fallbackTimerRef.current);
-      fallbackTimerRef.current = null;
-    }
-
-    const runSeq = ++runSeqRef.current;
-    setIsRunning(true);
-
-    let controller: AbortController | null = null;
-    const finalizeIfCurrent = () => {
-      if (runSeqRef.current === runSeq) {
-        setIsRunning(false);
-      }
-    };
-    const scheduleFallback = () => {
-      fallbackTimerRef.current = setTimeout(() => {
-        if (runSeqRef.current !== runSeq) return;
-        try {
-          const result = interpret(file.content);
-          setExecutionResult(result);
-        } catch (err: any) {
-          if (runSeqRef.current !== runSeq) return;
-          setExecutionResult({
-            output: '',
-            values: [],
-            errors: [{ line: 0, column: 0, message: err.message || 'Unknown error' }],
-            memoryState: { stack: [], heap: [], environment: [], typeDefinitions: [] },
-            executionTimeMs: 0,
-          });
-        } finally {
-          if (fallbackTimerRef.current) {
-            clearTimeout(fallbackTimerRef.current);
-            fallbackTimerRef.current = null;
-          }
-          finalizeIfCurrent();
-        }
-      }, 10);
-    };
-
-    try {
-      if (capabilities.ocaml) {
-        controller = new AbortController();
-        runAbortRef.current = controller;
-        const toplevelResult = await api.runToplevel(file.content, controller.signal);
-
-        if (runAbortRef.current === controller) {
-          runAbortRef.current = null;
-        }
-        if (runSeqRef.current !== runSeq) return;
-
-        if (toplevelResult.backend) {
-          // Also run the browser interpreter for memory visualization
-          let memoryState: import('../types').MemoryState = { stack: [], heap: [], environment: [], typeDefinitions: [] };
-          try {
-            const localResult = interpret(file.content);
-            memoryState = localResult.memoryState;
-          } catch {
-            // Memory visualization is best-effort
-          }
-
-          setExecutionResult({
-            output: toplevelResult.output || '',
-            values: toplevelResult.values || [],
-            errors: toplevelResult.errors || [],
-            memoryState,
-            executionTimeMs: toplevelResult.executionTimeMs || 0,
-          });
-          finalizeIfCurrent();
-          return;
-        }
-      }
+    // With several .ml files, run the whole project with the active file as entry point
+    const files = currentProject.files;
+    const isProjectRun = activeFile.endsWith('.ml') &&
+      Object.keys(files).some(name => name !== activeFile && name.endsWith('.ml'));
+    const browser: BrowserRunRequest = isProjectRun
+      ? { kind: 'project', files, entry: activeFile }
+      : { kind: 'source', source: file.content };
+    // Projects with dune files are built by dune rather than bundled
+    const isDuneProject = Object.keys(files).some(name => name === 'dune' || name.endsWith('/dune'));
+    const native: NativeRunRequest = capabilities.dune && isDuneProject ? { kind: 'build', files }
+      : isProjectRun ? { kind: 'bundle', files, entry: activeFile }
+      : { kind: 'toplevel', code: file.content };
+    stopDebug();
+    void runProgram({ browser, native, trace: showTrace });
+  }, [currentProject, activeFile, capabilities, stopDebug, runProgram, showTrace]);
+
+  // ── Debug: record a run in the interpreter worker and stop at its first pause
+  const handleDebug = useCallback(() => {
+    if (!currentProject || !activeFile) return;
+    const file = currentProject.files[activeFile];
+    if (!file) return;
 
-      if (runSeqRef.current !== runSeq) return;
-      scheduleFallback();
-    } catch (err: unknown) {
-      if (runAbortRef.current === controller) {
-        runAbortRef.current = null;
-      }
-      if (isAbortError(err)) {
-        return;
-      }
-      if (runSeqRef.current !== runSeq) return;
-      scheduleFallback();
-    }
-  }, [currentProject, activeFile, setExecutionResult, setIsRunning, capabilities]);
+    const files = currentProject.files;
+    const isProjectRun = activeFile.endsWith('.ml') &&
+      Object.keys(files).some(name => name !== activeFile && name.endsWith('.ml'));
+    const request: BrowserRunRequest = isProjectRun
+      ? { kind: 'project', files, entry: activeFile }
+      : { kind: 'source', source: file.content };
+    void debugProgram(activeFile, request);
+  }, [currentProject, activeFile, debugProgram]);
 
   // ── Format: Use ocamlformat if available
   const handleFormat = useCallback(async () => {
@@ -315,7 +247,7 @@ export function IDEPage() {
       if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
         if (insideMonaco) return;
         e.preventDefault();
-        void handleRun();
+        handleRun();
         return;
       }
       if ((e.ctrlKey || e.metaKey) && e.key === 's') {
@@ -327,26 +259,26 @@ export function IDEPage() {
       if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key === 'F') {
         e.preventDefault();
         void handleFormat();
+        return;
+      }
+      // Debugger: F5 start/continue, Shift+F5 stop, F10 step over, F11 step into, Shift+F11 step out
+      if (e.key === 'F5') {
+        e.preventDefault();
+        if (e.shiftKey) stopDebug();
+        else if (debugSession) debugStep('continue');
+        else handleDebug();
+        return;
+      }
+      if (debugSession && (e.key === 'F10' || e.key === 'F11')) {
+        e.preventDefault();
+        debugStep(e.key === 'F10' ? 'over' : e.shiftKey ? 'out' : 'into');
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleRun, saveProject, handleFormat]);
+  }, [handleRun, saveProject, handleFormat, handleDebug, debugSession, debugStep, stopDebug]);
 
-  useEffect(() => {
-    return () => {
-      runSeqRef.current += 1;
-      if (runAbortRef.current) {
-        runAbortRef.current.abort();
-        runAbortRef.current = null;
-      }
-      if (fallbackTimerRef.current) {
-        clearTimeout(fallbackTimerRef.current);
-        fallbackTimerRef.current = null;
-      }
-      setIsRunning(false);
-    };
-  }, [setIsRunning]);
+  useEffect(() => cancelRun, [cancelRun]);
 
   if (isProjectLoading && (!currentProject || currentProject.id !== projectId)) {
     return (
@@ -386,7 +318,7 @@ export function IDEPage() {
 
   return (
     <div className="h-screen flex flex-col bg-ide-bg overflow-hidden">
-      <Header mode="ide" onRun={handleRun} onFormat={handleFormat} />
+      <Header mode="ide" onRun={handleRun} onStop={stopRun} onDebug={handleDebug} onFormat={handleFormat} />
 
       <div ref={layoutRef} className="flex-1 flex overflow-hidden">
         {/* File Tree Sidebar */}
@@ -3,24 +3,14 @@ import { useParams, useNavigate } from 'react-router-dom';
 import MonacoEditor from '@monaco-editor/react';
 import { useStore } from '../store';
 import { Console } from '../components/Console';
-import { api } from '../services/api';
-import { interpret } from '../interpreter';
 import { registerOcamlLanguage } from '../components/Editor';
 import {
   ArrowLeft, Loader2, Play, CheckCircle2, AlertCircle,
   GraduationCap, FileText, Code, Upload, Trophy,
   ChevronDown, ChevronUp, Clock, UploadCloud,
-  PanelBottomClose, PanelBottomOpen,
+  PanelBottomClose, PanelBottomOpen, Square,
 } from 'lucide-react';
 
-function isAbortError(error: unknown): boolean {
-  if (error instanceof DOMException) return error.name === 'AbortError';
-  if (typeof error === 'object' && error !== null && 'name' in error) {
-    return (error as { name?: string }).name === 'AbortError';
-  }
-  return false;
-}
-
 export function LearnOcamlExercisePage() {
   const params = useParams();
   // Exercise IDs contain slashes (e.g. "tp1/lists"), so we use wildcard route
@@ -28,8 +18,8 @@ export function LearnOcamlExercisePage() {
   const navigate = useNavigate();
   const {
     learnOcaml, learnOcamlLoadExercise, learnOcamlSyncAnswer, learnOcamlGrade,
-    setExecutionResult, setIsRunning, isRunning, executionResult,
-    capabilities, loadCapabilities, addNotification,
+    isRunning, executionResult, runProgram, stopRun, cancelRun, getExecutionLimits,
+    loadCapabilities, addNotification,
     editorFontSize, consoleFontSize,
   } = useStore();
 
@@ -42,9 +32,6 @@ export function LearnOcamlExercisePage() {
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
   const autoSyncRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const hasSetInitialCode = useRef(false);
-  const runAbortRef = useRef<AbortController | null>(null);
-  const fallbackTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const runSeqRef = useRef(0);
 
   const exercise = learnOcaml.currentExercise;
   const gradeResult = learnOcaml.lastGradeResult;
@@ -82,100 +69,18 @@ export function LearnOcamlExercisePage() {
 
   // ── Run Code ───────────────────────────────────────────────────────────
 
-  const handleRun = useCallback(async () => {
+  const handleRun = useCallback(() => {
     if (!code) return;
-
-    if (runAbortRef.current) {
-      runAbortRef.current.abort();
-      runAbortRef.current = null;
-    }
-    if (fallbackTimerRef.current) {
-      clearTimeout(fallbackTimerRef.current);
-      fallbackTimerRef.current = null;
-    }
-
-    const runSeq = ++runSeqRef.current;
-    setIsRunning(true);
-
     // Prepend prelude if available
     const fullCode = exercise?.prelude
       ? `${exercise.prelude}\n\n(* === Your code === *)\n${code}`
       : code;
-
-    let controller: AbortController | null = null;
-    const finalizeIfCurrent = () => {
-      if (runSeqRef.current === runSeq) {
-        setIsRunning(false);
-      }
-    };
-    const scheduleFallback = () => {
-      fallbackTimerRef.current = setTimeout(() => {
-        if (runSeqRef.current !== runSeq) return;
-        try {
-          const result = interpret(code);
-          setExecutionResult(result);
-        } catch (err: any) {
-          if (runSeqRef.current !== runSeq) return;
-          setExecutionResult({
-            output: '',
-            values: [],
-            errors: [{ line: 0, column: 0, message: err.message || 'Unknown error' }],
-            memoryState: { stack: [], heap: [], environment: [], typeDefinitions: [] },
-            executionTimeMs: 0,
-          });
-        } finally {
-          if (fallbackTimerRef.current) {
-            clearTimeout(fallbackTimerRef.current);
-            fallbackTimerRef.current = null;
-          }
-          finalizeIfCurrent();
-        }
-      }, 10);
-    };
-
-    try {
-      if (capabilities.ocaml) {
-        controller = new AbortController();
-        runAbortRef.current = controller;
-        const toplevelResult = await api.runToplevel(fullCode, controller.signal);
-
-        if (runAbortRef.current === controller) {
-          runAbortRef.current = null;
-        }
-        if (runSeqRef.current !== runSeq) return;
-
-        if (toplevelResult.backend) {
-          let memoryState: import('../types').MemoryState = { stack: [], heap: [], environment: [], typeDefinitions: [] };
-          try {
-            const localResult = interpret(code);
-            memoryState = localResult.memoryState;
-          } catch {}
-
-          setExecutionResult({
-            output: toplevelResult.output || '',
-            values: toplevelResult.values || [],
-            errors: toplevelResult.errors || [],
-            memoryState,
-            executionTimeMs: toplevelResult.executionTimeMs || 0,
-          });
-          finalizeIfCurrent();
-          return;
-        }
-      }
-
-      if (runSeqRef.current !== runSeq) return;
-      scheduleFallback();
-    } catch (err: unknown) {
-      if (runAbortRef.current === controller) {
-        runAbortRef.current = null;
-      }
-      if (isAbortError(err)) {
-        return;
-      }
-      if (runSeqRef.current !== runSeq) return;
-      scheduleFallback();
-    }
-  }, [code, capabilities, exercise, setExecutionResult, setIsRunning]);
+    void runProgram({
+      browser: { kind: 'source', source: code },
+      native: { kind: 'toplevel', code: fullCode },
+      limits: getExecutionLimits(null),
+    });
+  }, [code, exercise, runProgram, getExecutionLimits]);
 
   // ── Sync to Learn OCaml ────────────────────────────────────────────────
 
@@ -218,7 +123,7 @@ export function LearnOcamlExercisePage() {
       if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
         if (insideMonaco) return;
         e.preventDefault();
-        void handleRun();
+        handleRun();
         return;
       }
       if ((e.ctrlKey || e.metaKey) && e.key === 's') {
@@ -235,20 +140,7 @@ export function LearnOcamlExercisePage() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [handleRun, handleSync, handleGrade]);
 
-  useEffect(() => {
-    return () => {
-      runSeqRef.current += 1;
-      if (runAbortRef.current) {
-        runAbortRef.current.abort();
-        runAbortRef.current = null;
-      }
-      if (fallbackTimerRef.current) {
-        clearTimeout(fallbackTimerRef.current);
-        fallbackTimerRef.current = null;
-      }
-      setIsRunning(false);
-    };
-  }, [setIsRunning]);
+  useEffect(() => cancelRun, [cancelRun]);
 
   // ── Loading State ──────────────────────────────────────────────────────
 
@@ -301,10 +193,17 @@ export function LearnOcamlExercisePage() {
 
         {/* Center Controls */}
         <div className="flex items-center gap-1">
-          <button onClick={handleRun} disabled={isRunning} className="btn-primary btn-sm gap-1.5" title="Run (Ctrl+Enter)">
-            {isRunning ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
-            <span className="hidden sm:inline">Run</span>
-          </button>
+          {isRunning ? (
+            <button onClick={stopRun} className="btn-danger btn-sm gap-1.5" title="Stop">
+              <Square size={14} />
+              <span className="hidden sm:inline">Stop</span>
+            </button>
+          ) : (
+            <button onClick={handleRun} className="btn-primary btn-sm gap-1.5" title="Run (Ctrl+Enter)">
+              <Play size={14} />
+              <span className="hidden sm:inline">Run</span>
+            </button>
+          )}
           <button onClick={() => handleSync(true)} disabled={isSaving} className="btn-secondary btn-sm gap-1.5" title="Sync to Learn OCaml (Ctrl+S)">
             {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
             <span className="hidden sm:inline">Sync</span>
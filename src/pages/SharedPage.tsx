@@ -7,8 +7,7 @@ import { Editor } from '../components/Editor';
 import { Console } from '../components/Console';
 import { MemoryViewer } from '../components/MemoryViewer';
 import { AuthModal } from '../components/AuthModal';
-import { interpret } from '../interpreter';
-import { Loader2, GitFork, User as UserIcon } from 'lucide-react';
+import { Loader2, GitFork, User as UserIcon, Square } from 'lucide-react';
 import {
   computeAutoMemoryPanelWidth,
   EDITOR_MIN_WIDTH,
@@ -16,23 +15,15 @@ import {
   RESIZE_HANDLE_WIDTH,
 } from '../utils/panelSizing';
 
-function isAbortError(error: unknown): boolean {
-  if (error instanceof DOMException) return error.name === 'AbortError';
-  if (typeof error === 'object' && error !== null && 'name' in error) {
-    return (error as { name?: string }).name === 'AbortError';
-  }
-  return false;
-}
-
 export function SharedPage() {
   const { shareId } = useParams<{ shareId: string }>();
   const navigate = useNavigate();
   const {
     user, setCurrentProject, currentProject,
     showConsole, showMemoryPanel,
-    setExecutionResult, setIsRunning, isRunning,
+    isRunning, runProgram, stopRun, cancelRun,
     activeFile, setActiveFile,
-    addNotification, capabilities, loadCapabilities,
+    addNotification, loadCapabilities,
     memoryState, memoryPanelWidth, memoryPanelWidthMode,
     setMemoryPanelWidth, persistPanelWidths,
   } = useStore();
@@ -43,9 +34,6 @@ export function SharedPage() {
   const [isForking, setIsForking] = useState(false);
   const layoutRef = useRef<HTMLDivElement | null>(null);
   const dragStateRef = useRef<{ startX: number; startWidth: number } | null>(null);
-  const runAbortRef = useRef<AbortController | null>(null);
-  const fallbackTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const runSeqRef = useRef(0);
 
   const getLayoutWidth = useCallback(() => {
     return layoutRef.current?.clientWidth ?? window.innerWidth;
@@ -137,110 +125,17 @@ export function SharedPage() {
     return () => setCurrentProject(null);
   }, [shareId]);
 
-  const handleRun = useCallback(async () => {
+  const handleRun = useCallback(() => {
     if (!currentProject || !activeFile) return;
     const file = currentProject.files[activeFile];
     if (!file) return;
+    void runProgram({
+      browser: { kind: 'source', source: file.content },
+      native: { kind: 'toplevel', code: file.content },
+    });
+  }, [currentProject, activeFile, runProgram]);
 
-    if (runAbortRef.current) {
-      runAbortRef.current.abort();
-      runAbortRef.current = null;
-    }
-    if (fallbackTimerRef.current) {
-      clearTimeout(fallbackTimerRef.current);
-      fallbackTimerRef.current = null;
-    }
-
-    const runSeq = ++runSeqRef.current;
-    setIsRunning(true);
-
-    let controller: AbortController | null = null;
-    const finalizeIfCurrent = () => {
-      if (runSeqRef.current === runSeq) {
-        setIsRunning(false);
-      }
-    };
-    const scheduleFallback = () => {
-      fallbackTimerRef.current = setTimeout(() => {
-        if (runSeqRef.current !== runSeq) return;
-        try {
-          const result = interpret(file.content);
-          setExecutionResult(result);
-        } catch (err: any) {
-          if (runSeqRef.current !== runSeq) return;
-          setExecutionResult({
-            output: '', values: [],
-            errors: [{ line: 0, column: 0, message: err.message || 'Unknown error' }],
-            memoryState: { stack: [], heap: [], environment: [], typeDefinitions: [] },
-            executionTimeMs: 0,
-          });
-        } finally {
-          if (fallbackTimerRef.current) {
-            clearTimeout(fallbackTimerRef.current);
-            fallbackTimerRef.current = null;
-          }
-          finalizeIfCurrent();
-        }
-      }, 10);
-    };
-
-    try {
-      if (capabilities.ocaml) {
-        controller = new AbortController();
-        runAbortRef.current = controller;
-        const toplevelResult = await api.runToplevel(file.content, controller.signal);
-
-        if (runAbortRef.current === controller) {
-          runAbortRef.current = null;
-        }
-        if (runSeqRef.current !== runSeq) return;
-
-        if (toplevelResult.backend) {
-          let memoryState: import('../types').MemoryState = { stack: [], heap: [], environment: [], typeDefinitions: [] };
-          try {
-            const localResult = interpret(file.content);
-            memoryState = localResult.memoryState;
-          } catch {}
-          setExecutionResult({
-            output: toplevelResult.output || '',
-            values: toplevelResult.values || [],
-            errors: toplevelResult.errors || [],
-            memoryState,
-            executionTimeMs: toplevelResult.executionTimeMs || 0,
-          });
-          finalizeIfCurrent();
-          return;
-        }
-      }
-
-      if (runSeqRef.current !== runSeq) return;
-      scheduleFallback();
-    } catch (err: unknown) {
-      if (runAbortRef.current === controller) {
-        runAbortRef.current = null;
-      }
-      if (isAbortError(err)) {
-        return;
-      }
-      if (runSeqRef.current !== runSeq) return;
-      scheduleFallback();
-    }
-  }, [currentProject, activeFile, capabilities, setExecutionResult, setIsRunning]);
-
-  useEffect(() => {
-    return () => {
-      runSeqRef.current += 1;
-      if (runAbortRef.current) {
-        runAbortRef.current.abort();
-        runAbortRef.current = null;
-      }
-      if (fallbackTimerRef.current) {
-        clearTimeout(fallbackTimerRef.current);
-        fallbackTimerRef.current = null;
-      }
-      setIsRunning(false);
-    };
-  }, [setIsRunning]);
+  useEffect(() => cancelRun, [cancelRun]);
 
   const handleFork = async () => {
     if (!user) {
@@ -308,10 +203,17 @@ export function SharedPage() {
             <span>by {authorName}</span>
           </div>
 
-          <button onClick={handleRun} disabled={isRunning} className="btn-primary btn-sm">
-            {isRunning ? <Loader2 size={14} className="animate-spin" /> : '▶'}
-            Run
-          </button>
+          {isRunning ? (
+            <button onClick={stopRun} className="btn-danger btn-sm">
+              <Square size={12} />
+              Stop
+            </button>
+          ) : (
+            <button onClick={handleRun} className="btn-primary btn-sm">
+              {'▶'}
+              Run
+            </button>
+          )}
 
           <button onClick={handleFork} disabled={isForking} className="btn-secondary btn-sm">
             {isForking ? <Loader2 size={14} className="animate-spin" /> : <GitFork size={14} />}
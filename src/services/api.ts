@@ -1,5 +1,129 @@
+import type { ExecutionLimits, ProjectFiles } from '../types';
+
 const API_BASE = '/api';
 
+// How often a waiting run asks the server for its place in the queue
+const QUEUE_POLL_INTERVAL_MS = 1000;
+
+/** A failed request, with the HTTP status (429 when the server's job queue is full). */
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** Called with a run's place in the server's queue, or null once it has started or ended. */
+export type QueuePositionHandler = (position: number | null) => void;
+
+export interface ToplevelPhraseResult {
+  output: string;
+  values: { name: string; type: string; value: string }[];
+  errors: { line: number; column: number; message: string }[];
+  executionTimeMs: number;
+}
+
+export interface ToplevelSessionHandlers {
+  onStdout?: (data: string) => void;
+  onStderr?: (data: string) => void;
+  /** The toplevel process exited (e.g. the program called `exit`). */
+  onExit?: (code: number | null) => void;
+  /** The socket closed, e.g. when the server reaped an idle session. */
+  onClose?: () => void;
+}
+
+/**
+ * A persistent native toplevel reached over a WebSocket. Output is streamed
+ * through the handlers while a phrase runs; `eval` resolves when it is done.
+ */
+export class ToplevelConnection {
+  private socket: WebSocket;
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (result: ToplevelPhraseResult) => void; reject: (error: Error) => void }>();
+  private readyWaiters: (() => void)[] = [];
+  sessionId: string | null = null;
+
+  /** The server takes the sign-in token as a subprotocol, since a WebSocket can't carry headers. */
+  constructor(url: string, token: string, private handlers: ToplevelSessionHandlers = {}) {
+    this.socket = new WebSocket(url, ['caraml', `token.${token}`]);
+    this.socket.onmessage = (event) => this.handleMessage(JSON.parse(event.data));
+    this.socket.onclose = () => {
+      for (const { reject } of this.pending.values()) reject(new Error('Toplevel session closed'));
+      this.pending.clear();
+      this.handlers.onClose?.();
+    };
+  }
+
+  /** Resolves once the server has started the toplevel. */
+  ready(): Promise<void> {
+    if (this.sessionId) return Promise.resolve();
+    return new Promise((resolve, reject) => {
+      this.readyWaiters.push(resolve);
+      this.socket.addEventListener('close', () => reject(new Error('Toplevel session unavailable')), { once: true });
+    });
+  }
+
+  /** `limits.timeoutMs` bounds the phrase; past it, the server interrupts it. */
+  eval(code: string, limits?: Partial<ExecutionLimits>): Promise<ToplevelPhraseResult> {
+    if (this.socket.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Toplevel session closed'));
+    }
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.socket.send(JSON.stringify({ type: 'eval', id, code, limits }));
+    });
+  }
+
+  interrupt() {
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify({ type: 'interrupt' }));
+  }
+
+  /** Replace the toplevel with a fresh one, dropping all bindings. */
+  reset(): Promise<void> {
+    if (this.socket.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Toplevel session closed'));
+    }
+    this.sessionId = null;
+    this.socket.send(JSON.stringify({ type: 'reset' }));
+    return this.ready();
+  }
+
+  close() {
+    this.socket.close();
+  }
+
+  private handleMessage(message: any) {
+    switch (message.type) {
+      case 'ready':
+        this.sessionId = message.sessionId;
+        for (const resolve of this.readyWaiters.splice(0)) resolve();
+        break;
+      case 'stdout':
+        this.handlers.onStdout?.(message.data);
+        break;
+      case 'stderr':
+        this.handlers.onStderr?.(message.data);
+        break;
+      case 'done': {
+        const { id, type: _type, ...result } = message;
+        this.pending.get(id)?.resolve(result);
+        this.pending.delete(id);
+        break;
+      }
+      case 'error':
+        if (message.id !== undefined) {
+          this.pending.get(message.id)?.reject(new Error(message.message));
+          this.pending.delete(message.id);
+        }
+        break;
+      case 'exit':
+        this.handlers.onExit?.(message.code);
+        break;
+    }
+  }
+}
+
 class ApiClient {
   private token: string | null = null;
 
@@ -37,12 +161,43 @@ class ApiClient {
     const data = await response.json();
 
     if (!response.ok) {
-      throw new Error(data.error || `HTTP ${response.status}`);
+      throw new ApiError(data.error || `HTTP ${response.status}`, response.status);
     }
 
     return data;
   }
 
+  /**
+   * POST a run that may wait in the server's job queue. While the response is
+   * pending, the job's queue position is polled and passed to `onQueue`.
+   */
+  private async queuedRequest<T>(path: string, body: object, signal?: AbortSignal, onQueue?: QueuePositionHandler): Promise<T> {
+    if (!onQueue) {
+      return this.request<T>(path, { method: 'POST', body: JSON.stringify(body), signal });
+    }
+    const jobId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    let settled = false;
+    const poll = async () => {
+      while (!settled) {
+        await new Promise((resolve) => setTimeout(resolve, QUEUE_POLL_INTERVAL_MS));
+        if (settled) return;
+        try {
+          const status = await this.request<{ state: 'queued' | 'running'; position?: number }>(`/jobs/${jobId}`);
+          if (!settled) onQueue(status.state === 'queued' ? status.position ?? null : null);
+        } catch {
+          // Not registered yet, or already finished
+        }
+      }
+    };
+    void poll();
+    try {
+      return await this.request<T>(path, { method: 'POST', body: JSON.stringify({ ...body, jobId }), signal });
+    } finally {
+      settled = true;
+      onQueue(null);
+    }
+  }
+
   // ── Auth ────────────────────────────────────────────────────────────────
   async register(username: string, email: string, password: string) {
     return this.request<{ token: string; user: any }>('/auth/register', {
@@ -62,7 +217,7 @@ class ApiClient {
     return this.request<{ user: any }>('/auth/me');
   }
 
-  async updatePreferences(data: { panelWidths?: { fileTree?: number; memory?: number } }) {
+  async updatePreferences(data: { panelWidths?: { fileTree?: number; memory?: number }; limits?: Partial<ExecutionLimits> }) {
     return this.request<{ user: any }>('/auth/preferences', {
       method: 'PUT',
       body: JSON.stringify(data),
@@ -123,11 +278,19 @@ class ApiClient {
 
   // ── OCaml Tooling ─────────────────────────────────────────────────────
   async getCapabilities() {
-    return this.request<{ ocaml: boolean; ocamlVersion: string | null; merlin: boolean; ocamlformat: boolean }>('/capabilities');
+    return this.request<{
+      ocaml: boolean;
+      ocamlVersion: string | null;
+      merlin: boolean;
+      ocamlformat: boolean;
+      dune: boolean;
+      limitCeilings: ExecutionLimits;
+      sandbox: { kind: 'bwrap' | 'unshare' | 'none'; required: boolean };
+    }>('/capabilities');
   }
 
-  async executeCode(code: string) {
-    return this.request<{
+  async executeCode(code: string, signal?: AbortSignal, stdin?: string, limits?: ExecutionLimits, onQueue?: QueuePositionHandler) {
+    return this.queuedRequest<{
       backend: boolean;
       stdout?: string;
       stderr?: string;
@@ -135,14 +298,24 @@ class ApiClient {
       errors?: any[];
       executionTimeMs?: number;
       message?: string;
-    }>('/execute', {
-      method: 'POST',
-      body: JSON.stringify({ code }),
-    });
+    }>('/execute', { code, stdin, limits }, signal, onQueue);
   }
 
-  async runToplevel(code: string, signal?: AbortSignal) {
-    return this.request<{
+  async buildProject(files: ProjectFiles, signal?: AbortSignal, stdin?: string, limits?: ExecutionLimits, onQueue?: QueuePositionHandler) {
+    return this.queuedRequest<{
+      backend: boolean;
+      stage?: 'build' | 'exec';
+      stdout?: string;
+      stderr?: string;
+      exitCode?: number;
+      errors?: { line: number; column: number; message: string; file?: string }[];
+      executionTimeMs?: number;
+      message?: string;
+    }>('/build', { files, stdin, limits }, signal, onQueue);
+  }
+
+  async runToplevel(code: string, signal?: AbortSignal, stdin?: string, limits?: ExecutionLimits, onQueue?: QueuePositionHandler) {
+    return this.queuedRequest<{
       backend: boolean;
       output?: string;
       rawOutput?: string;
@@ -150,11 +323,20 @@ class ApiClient {
       errors?: any[];
       exitCode?: number;
       executionTimeMs?: number;
-    }>('/toplevel', {
-      method: 'POST',
-      body: JSON.stringify({ code }),
-      signal,
-    });
+    }>('/toplevel', { code, stdin, limits }, signal, onQueue);
+  }
+
+  /**
+   * Open a persistent native toplevel session; rejects if the server has no OCaml.
+   * Sessions are for signed-in users; this rejects for everyone else.
+   */
+  async openToplevelSession(handlers: ToplevelSessionHandlers = {}) {
+    const token = this.getToken();
+    if (!token) throw new Error('Sign in to use the native toplevel');
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const connection = new ToplevelConnection(`${protocol}//${window.location.host}${API_BASE}/toplevel/session`, token, handlers);
+    await connection.ready();
+    return connection;
   }
 
   async formatCode(code: string) {
@@ -0,0 +1,116 @@
+import type { ExecutionResult } from '../types';
+import type { DebugRecording } from '../interpreter/debugger';
+import type { BrowserRunRequest, BrowserPhraseRequest, WorkerRequest, WorkerResponse } from '../interpreter/worker';
+
+export type { BrowserRunRequest } from '../interpreter/worker';
+
+/** Partial output and step count of a run in progress. */
+export type RunProgressHandler = (progress: { steps: number; output: string }) => void;
+
+type WorkerReply = Extract<WorkerResponse, { type: 'result' | 'recording' }>;
+
+/**
+ * Runs the browser interpreter in a Web Worker, one run at a time. Starting
+ * a run cancels the previous one; cancelling terminates the worker, so even
+ * an infinite loop stops at once. The next run starts a fresh worker.
+ */
+class BrowserRunner {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private current: {
+    id: number;
+    resolve: (reply: WorkerReply) => void;
+    reject: (error: Error) => void;
+    onProgress?: RunProgressHandler;
+  } | null = null;
+
+  /** Rejects with an AbortError if the run is cancelled or superseded. */
+  run(request: BrowserRunRequest, onProgress?: RunProgressHandler): Promise<ExecutionResult> {
+    return this.result({ type: 'run', id: this.nextId++, request }, onProgress);
+  }
+
+  /** Record a run for the debugger; cancelled like `run`. */
+  async debug(request: BrowserRunRequest): Promise<DebugRecording> {
+    const reply = await this.send({ type: 'debug', id: this.nextId++, request });
+    if (reply.type !== 'recording') throw new Error('Interpreter worker sent no debug recording');
+    return reply.recording;
+  }
+
+  /** Evaluate a phrase in the toplevel kept by the worker; cancelled like `run`. */
+  phrase(request: BrowserPhraseRequest): Promise<ExecutionResult> {
+    return this.result({ type: 'phrase', id: this.nextId++, request });
+  }
+
+  get isRunning(): boolean {
+    return this.current !== null;
+  }
+
+  /** Stop the current run, if any. */
+  cancel() {
+    if (!this.current) return;
+    this.worker?.terminate();
+    this.worker = null;
+    this.current.reject(new DOMException('Run cancelled', 'AbortError'));
+    this.current = null;
+  }
+
+  /** Cancel any run and drop the worker, with the state it kept between requests. */
+  reset() {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private async result(message: WorkerRequest, onProgress?: RunProgressHandler): Promise<ExecutionResult> {
+    const reply = await this.send(message, onProgress);
+    if (reply.type !== 'result') throw new Error('Interpreter worker sent no result');
+    return reply.result;
+  }
+
+  private send(message: WorkerRequest, onProgress?: RunProgressHandler): Promise<WorkerReply> {
+    this.cancel();
+    const worker = this.getWorker();
+    return new Promise((resolve, reject) => {
+      this.current = { id: message.id, resolve, reject, onProgress };
+      worker.postMessage(message);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+    const worker = new Worker(new URL('../interpreter/worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+    worker.onerror = (event) => {
+      // A crash in the worker itself, not an OCaml error
+      event.preventDefault();
+      const current = this.current;
+      this.current = null;
+      worker.terminate();
+      if (this.worker === worker) this.worker = null;
+      current?.reject(new Error(event.message || 'Interpreter worker failed'));
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleMessage(message: WorkerResponse) {
+    const current = this.current;
+    if (!current || message.id !== current.id) return;
+    if (message.type === 'progress') {
+      current.onProgress?.({ steps: message.steps, output: message.output });
+      return;
+    }
+    this.current = null;
+    if (message.type === 'error') current.reject(new Error(message.message));
+    else current.resolve(message);
+  }
+}
+
+/** Runs and debugging sessions. */
+export const browserRunner = new BrowserRunner();
+
+/**
+ * The Console's browser toplevel, in a worker of its own so that runs don't
+ * replace its session.
+ */
+export const toplevelRunner = new BrowserRunner();
@@ -1,11 +1,13 @@
 import { create } from 'zustand';
 import type {
-  User, Project, ProjectFiles, ExecutionResult, MemoryState, Notification, EditorTab,
+  User, Project, ProjectFiles, ExecutionResult, ExecutionLimits, MemoryState, Notification, EditorTab, ReplEntry, NativeRunRequest,
   LearnOcamlConnection, LearnOcamlExerciseIndexEntry, LearnOcamlExercise,
   LearnOcamlExerciseGroup, LearnOcamlGradeResult,
 } from '../types';
-import { api } from '../services/api';
+import { api, ApiError, type ToplevelConnection } from '../services/api';
 import { learnOcamlApi } from '../services/learnOcamlApi';
+import { browserRunner, toplevelRunner, type BrowserRunRequest } from '../services/browserRunner';
+import { nextPause, memoryStateAt, type DebugRecording, type StepMode } from '../interpreter';
 import {
   clampPanelWidth,
   DEFAULT_FILE_TREE_WIDTH,
@@ -13,12 +15,37 @@ import {
   PANEL_LIMITS,
   type PanelWidthMode,
 } from '../utils/panelSizing';
+import { DEFAULT_LIMIT_CEILINGS, resolveExecutionLimits, sanitizeExecutionLimits } from '../utils/executionLimits';
+import { bundleProject, mapBundleErrors } from '../utils/projectBundle';
 
 interface Capabilities {
   ocaml: boolean;
   ocamlVersion: string | null;
   merlin: boolean;
   ocamlformat: boolean;
+  dune: boolean;
+  /** The highest execution limits the server allows. */
+  limitCeilings: ExecutionLimits;
+  /** How native runs are isolated; `required`: they are refused without isolation. */
+  sandbox: { kind: 'bwrap' | 'unshare' | 'none'; required: boolean };
+}
+
+interface ProgramRun {
+  /** What the browser interpreter runs: instead of the native run, or beside it for the memory visualization. */
+  browser: BrowserRunRequest;
+  native: NativeRunRequest | null;
+  /** The current project's limits when left out. */
+  limits?: ExecutionLimits;
+  /** Record a trace of the browser run for the time-travel scrubber. */
+  trace?: boolean;
+}
+
+/** A recorded debug run and the pause the user is looking at. */
+interface DebugSession {
+  /** The file that was run; pauses without a `file` belong to it. */
+  file: string;
+  recording: DebugRecording;
+  index: number;
 }
 
 function getStoredPanelWidths(user: User | null | undefined) {
@@ -32,6 +59,159 @@ function clampRuntimePanelWidth(kind: 'fileTree' | 'memory', width: number, fall
   return Math.round(Math.min(PANEL_LIMITS[kind].max, Math.max(0, width)));
 }
 
+// The Console REPL talks to a native toplevel session over a WebSocket when
+// the server has OCaml and the user is signed in, and otherwise keeps a browser toplevel alive in a
+// worker. Interrupting terminates that worker, so the phrases that succeeded
+// are kept to be replayed in the next one.
+let replSession: { kind: 'native'; connection: ToplevelConnection } | { kind: 'browser'; phrases: string[] } | null = null;
+
+const EMPTY_MEMORY_STATE: MemoryState = { stack: [], heap: [], environment: [], typeDefinitions: [] };
+
+// Set by stopRun, so a cancelled run can tell a Stop click from being superseded by a new run
+let stopRequested = false;
+
+// The native request of the current run, and a count of the runs started: a
+// run that finishes after another started, or after a stop, shows nothing
+let nativeRequest: AbortController | null = null;
+let runCount = 0;
+
+/** Abandon the current run's native request, and number the next run. */
+function abandonRun(): number {
+  nativeRequest?.abort();
+  nativeRequest = null;
+  return ++runCount;
+}
+
+function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
+}
+
+/** The result of a native run, or null when the server turns out to have no backend for it. */
+async function runNatively(
+  native: NativeRunRequest,
+  browser: BrowserRunRequest,
+  stdin: string,
+  limits: ExecutionLimits,
+  signal: AbortSignal,
+  onQueue: (position: number | null) => void,
+): Promise<ExecutionResult | null> {
+  // The browser interpreter supplies the memory visualization
+  const runLocal = () => browserRunner.run(browser).catch(() => null);
+  switch (native.kind) {
+    case 'build': {
+      const result = await api.buildProject(native.files, signal, stdin, limits, onQueue);
+      if (!result.backend) return null;
+      return {
+        output: result.stdout || '',
+        values: [],
+        errors: result.errors || [],
+        memoryState: EMPTY_MEMORY_STATE,
+        executionTimeMs: result.executionTimeMs || 0,
+      };
+    }
+    case 'bundle': {
+      // The toplevel can't map phrases back to files, so the bundle runs as a script
+      const bundle = bundleProject(native.files, native.entry);
+      const result = await api.executeCode(bundle.code, signal, stdin, limits, onQueue);
+      if (!result.backend) return null;
+      // Scripts print no values, so these come from the browser interpreter too
+      const local = await runLocal();
+      return {
+        output: result.stdout || '',
+        values: local && local.errors.length === 0 ? local.values : [],
+        errors: mapBundleErrors(bundle, result.errors || []),
+        memoryState: local?.memoryState ?? EMPTY_MEMORY_STATE,
+        executionTimeMs: result.executionTimeMs || 0,
+        trace: local?.trace,
+      };
+    }
+    case 'toplevel': {
+      const result = await api.runToplevel(native.code, signal, stdin, limits, onQueue);
+      if (!result.backend) return null;
+      const local = await runLocal();
+      return {
+        output: result.output || '',
+        values: result.values || [],
+        errors: result.errors || [],
+        memoryState: local?.memoryState ?? EMPTY_MEMORY_STATE,
+        executionTimeMs: result.executionTimeMs || 0,
+        trace: local?.trace,
+      };
+    }
+  }
+}
+
+// Streamed toplevel output goes to the phrase still waiting for its result
+function appendReplOutput(data: string) {
+  useStore.setState((state) => {
+    const last = state.replEntries[state.replEntries.length - 1];
+    if (!last?.pending) return {};
+    const result = { ...last.result, output: last.result.output + data };
+    return { replEntries: [...state.replEntries.slice(0, -1), { ...last, result }] };
+  });
+}
+
+async function openNativeRepl(): Promise<ToplevelConnection | null> {
+  try {
+    const connection = await api.openToplevelSession({
+      onStdout: appendReplOutput,
+      onStderr: appendReplOutput,
+      onExit: () => {
+        if (replSession?.kind === 'native' && replSession.connection === connection) replSession = null;
+        connection.close();
+      },
+      onClose: () => {
+        if (replSession?.kind === 'native' && replSession.connection === connection) replSession = null;
+      },
+    });
+    return connection;
+  } catch {
+    return null;
+  }
+}
+
+async function runReplPhrase(code: string, useNative: boolean): Promise<ExecutionResult> {
+  if (useNative && !replSession) {
+    const connection = await openNativeRepl();
+    if (connection) replSession = { kind: 'native', connection };
+  }
+
+  if (replSession?.kind === 'native') {
+    try {
+      const result = await replSession.connection.eval(code, useStore.getState().getExecutionLimits());
+      return { ...result, memoryState: EMPTY_MEMORY_STATE };
+    } catch (err: any) {
+      return {
+        output: '',
+        values: [],
+        errors: [{ line: 0, column: 0, message: err.message }],
+        memoryState: EMPTY_MEMORY_STATE,
+        executionTimeMs: 0,
+      };
+    }
+  }
+
+  if (!replSession) replSession = { kind: 'browser', phrases: [] };
+  const session = replSession;
+  try {
+    const result = await toplevelRunner.phrase({
+      code,
+      replay: session.phrases,
+      options: { limits: useStore.getState().getExecutionLimits() },
+    });
+    if (result.errors.length === 0) session.phrases.push(code);
+    return result;
+  } catch (err: any) {
+    return {
+      output: '',
+      values: [],
+      errors: [{ line: 0, column: 0, message: err?.name === 'AbortError' ? 'Interrupted.' : err?.message || 'Unknown error' }],
+      memoryState: EMPTY_MEMORY_STATE,
+      executionTimeMs: 0,
+    };
+  }
+}
+
 interface AppState {
   // Capabilities
   capabilities: Capabilities;
@@ -71,13 +251,67 @@ interface AppState {
   // Execution
   executionResult: ExecutionResult | null;
   isRunning: boolean;
+  /** Place of the current native run in the server's job queue; null once it runs. */
+  queuePosition: number | null;
   setExecutionResult: (result: ExecutionResult | null) => void;
+  /** Also clears `queuePosition`. */
   setIsRunning: (running: boolean) => void;
+  setQueuePosition: (position: number | null) => void;
+  /**
+   * Run in the browser interpreter's worker, streaming output to the Console.
+   * Resolves with null when the run is stopped or superseded by another.
+   */
+  runInBrowser: (request: BrowserRunRequest) => Promise<ExecutionResult | null>;
+  /**
+   * Run a program with the Console's input: natively when the server can,
+   * otherwise, or when the server turns it down, in the browser interpreter.
+   * Starting a run abandons the one before.
+   */
+  runProgram: (run: ProgramRun) => Promise<void>;
+  /** Record a browser run of `file` for the debugger, with the Console's input, and stop at its first pause. */
+  debugProgram: (file: string, request: BrowserRunRequest) => Promise<void>;
+  /** Stop a run immediately, saying so in the Console. */
+  stopRun: () => void;
+  /** Abandon a run silently, as when leaving its page. */
+  cancelRun: () => void;
+  /** Event of `executionResult.trace` shown in the Memory panel; null for the end of the run. */
+  traceIndex: number | null;
+  setTraceIndex: (index: number | null) => void;
+  /** The Memory panel's time-travel scrubber is open, so browser runs record a trace. */
+  showTrace: boolean;
+  toggleTrace: () => void;
+  /** Text piped to the program's standard input on each run. */
+  programInput: string;
+  setProgramInput: (input: string) => void;
+  /**
+   * Limits for the next run: the project's, over the user's defaults, within
+   * the server's ceilings. Pass null for runs outside a project.
+   */
+  getExecutionLimits: (project?: Project | null) => ExecutionLimits;
+  setProjectLimits: (limits: Partial<ExecutionLimits>) => Promise<void>;
+  setDefaultLimits: (limits: Partial<ExecutionLimits>) => Promise<void>;
 
   // Memory
   memoryState: MemoryState | null;
   setMemoryState: (state: MemoryState | null) => void;
 
+  // REPL
+  replEntries: ReplEntry[];
+  replHistory: string[];
+  isReplBusy: boolean;
+  evalReplPhrase: (code: string) => Promise<void>;
+  interruptRepl: () => void;
+  resetRepl: () => Promise<void>;
+
+  // Debugger
+  debugSession: DebugSession | null;
+  /** Breakpoint lines by filename. */
+  breakpoints: Record<string, number[]>;
+  toggleBreakpoint: (file: string, line: number) => void;
+  startDebug: (file: string, recording: DebugRecording) => void;
+  debugStep: (mode: StepMode) => void;
+  stopDebug: () => void;
+
   // UI
   showMemoryPanel: boolean;
   showFileTree: boolean;
@@ -138,7 +372,7 @@ interface AppState {
 
 export const useStore = create<AppState>((set, get) => ({
   // ── Capabilities ────────────────────────────────────────────────────────
-  capabilities: { ocaml: false, ocamlVersion: null, merlin: false, ocamlformat: false },
+  capabilities: { ocaml: false, ocamlVersion: null, merlin: false, ocamlformat: false, dune: false, limitCeilings: DEFAULT_LIMIT_CEILINGS, sandbox: { kind: 'none', required: false } },
   loadCapabilities: async () => {
     try {
       const caps = await api.getCapabilities();
@@ -172,6 +406,10 @@ export const useStore = create<AppState>((set, get) => ({
 
   logout: () => {
     api.setToken(null);
+    // A native session runs as the signed-out user, so it is closed rather than reset
+    if (replSession?.kind === 'native') replSession.connection.close();
+    replSession = null;
+    void get().resetRepl();
     set({
       user: null,
       projects: [],
@@ -231,6 +469,8 @@ export const useStore = create<AppState>((set, get) => ({
         executionResult: null,
         memoryState: null,
         isDirty: false,
+        debugSession: null,
+        breakpoints: {},
       });
     } catch {
       set({ isProjectLoading: false });
@@ -379,13 +619,244 @@ export const useStore = create<AppState>((set, get) => ({
   // ── Execution State ─────────────────────────────────────────────────────
   executionResult: null,
   isRunning: false,
-  setExecutionResult: (result) => set({ executionResult: result, memoryState: result?.memoryState || null }),
-  setIsRunning: (running) => set({ isRunning: running }),
+  queuePosition: null,
+  setExecutionResult: (result) => set({ executionResult: result, memoryState: result?.memoryState || null, traceIndex: null }),
+  setIsRunning: (running) => set({ isRunning: running, queuePosition: null }),
+  setQueuePosition: (position) => set({ queuePosition: position }),
+
+  runInBrowser: async (request) => {
+    stopRequested = false;
+    const startTime = performance.now();
+    let output = '';
+    const partialResult = (): ExecutionResult => ({
+      output, values: [], errors: [], memoryState: EMPTY_MEMORY_STATE, executionTimeMs: performance.now() - startTime,
+    });
+    try {
+      const result = await browserRunner.run(request, (progress) => {
+        if (!progress.output) return;
+        output += progress.output;
+        get().setExecutionResult(partialResult());
+      });
+      get().setExecutionResult(result);
+      return result;
+    } catch (err: any) {
+      if (err?.name === 'AbortError') {
+        if (stopRequested) {
+          get().setExecutionResult({ ...partialResult(), errors: [{ line: 0, column: 0, message: 'Execution stopped' }] });
+        }
+        return null;
+      }
+      get().setExecutionResult({ ...partialResult(), errors: [{ line: 0, column: 0, message: err?.message || 'Unknown error' }] });
+      return null;
+    }
+  },
+
+  runProgram: async ({ browser, native, limits = get().getExecutionLimits(), trace = false }) => {
+    const { capabilities, programInput } = get();
+    const request: BrowserRunRequest = { ...browser, options: { stdin: programInput, trace, limits } };
+    const run = abandonRun();
+    const isCurrent = () => runCount === run;
+    get().setIsRunning(true);
+
+    if (native && (native.kind === 'build' ? capabilities.dune : capabilities.ocaml)) {
+      const controller = new AbortController();
+      nativeRequest = controller;
+      try {
+        const result = await runNatively(native, request, programInput, limits, controller.signal, (position) => {
+          if (isCurrent()) get().setQueuePosition(position);
+        });
+        if (nativeRequest === controller) nativeRequest = null;
+        if (!isCurrent()) return;
+        if (result) {
+          get().setExecutionResult(result);
+          get().setIsRunning(false);
+          return;
+        }
+      } catch (err: unknown) {
+        if (nativeRequest === controller) nativeRequest = null;
+        if (isAbortError(err) || !isCurrent()) return;
+        if (err instanceof ApiError && err.status === 429) {
+          get().addNotification('warning', `${err.message}. Running in the browser interpreter instead.`);
+        }
+      }
+    }
+
+    await get().runInBrowser(request);
+    if (isCurrent()) get().setIsRunning(false);
+  },
+
+  debugProgram: async (file, request) => {
+    const run = abandonRun();
+    const isCurrent = () => runCount === run;
+    get().setIsRunning(true);
+    try {
+      const recording = await browserRunner.debug({
+        ...request,
+        options: { stdin: get().programInput, limits: get().getExecutionLimits() },
+      });
+      if (!isCurrent()) return;
+      if (recording.truncated) {
+        get().addNotification('warning', `Only the first ${recording.pauses.length} steps were recorded for debugging`);
+      }
+      get().startDebug(file, recording);
+    } catch (err: any) {
+      if (isAbortError(err) || !isCurrent()) return;
+      get().setExecutionResult({
+        output: '',
+        values: [],
+        errors: [{ line: 0, column: 0, message: err.message || 'Unknown error' }],
+        memoryState: EMPTY_MEMORY_STATE,
+        executionTimeMs: 0,
+      });
+    } finally {
+      if (isCurrent()) get().setIsRunning(false);
+    }
+  },
+
+  stopRun: () => {
+    abandonRun();
+    stopRequested = true;
+    browserRunner.cancel();
+    set({ isRunning: false, queuePosition: null });
+  },
+
+  cancelRun: () => {
+    abandonRun();
+    browserRunner.cancel();
+    set({ isRunning: false, queuePosition: null });
+  },
+  traceIndex: null,
+  setTraceIndex: (index) => set({ traceIndex: index }),
+  showTrace: false,
+  toggleTrace: () => set((s) => ({ showTrace: !s.showTrace, traceIndex: null })),
+  programInput: '',
+  setProgramInput: (input) => set({ programInput: input }),
+  getExecutionLimits: (project = get().currentProject) => {
+    const { user, capabilities } = get();
+    return resolveExecutionLimits(user?.ui_prefs?.limits, project?.limits, capabilities.limitCeilings);
+  },
+  setProjectLimits: async (limits) => {
+    const { currentProject, capabilities } = get();
+    if (!currentProject) return;
+    const next = sanitizeExecutionLimits(limits, capabilities.limitCeilings);
+    set({ currentProject: { ...currentProject, limits: next } });
+    try {
+      await api.updateProject(currentProject.id, { limits: next });
+    } catch (err: any) {
+      get().addNotification('error', err.message || 'Failed to save execution limits');
+    }
+  },
+  setDefaultLimits: async (limits) => {
+    const { user, capabilities } = get();
+    if (!user) return;
+    const next = sanitizeExecutionLimits(limits, capabilities.limitCeilings);
+    set({ user: { ...user, ui_prefs: { ...user.ui_prefs, limits: next } } });
+    try {
+      const { user: updatedUser } = await api.updatePreferences({ limits: next });
+      set((state) => ({
+        user: state.user ? { ...state.user, ui_prefs: updatedUser?.ui_prefs || {} } : state.user,
+      }));
+    } catch (err: any) {
+      get().addNotification('error', err.message || 'Failed to save default execution limits');
+    }
+  },
 
   // ── Memory State ────────────────────────────────────────────────────────
   memoryState: null,
   setMemoryState: (state) => set({ memoryState: state }),
 
+  // ── REPL State ──────────────────────────────────────────────────────────
+  replEntries: [],
+  replHistory: [],
+  isReplBusy: false,
+
+  evalReplPhrase: async (code) => {
+    const input = code.trim();
+    if (!input || get().isReplBusy) return;
+    const pendingResult: ExecutionResult = { output: '', values: [], errors: [], memoryState: EMPTY_MEMORY_STATE, executionTimeMs: 0 };
+    set((state) => ({
+      isReplBusy: true,
+      replEntries: [...state.replEntries, { input, result: pendingResult, pending: true }],
+      replHistory: state.replHistory[state.replHistory.length - 1] === input
+        ? state.replHistory
+        : [...state.replHistory, input],
+    }));
+
+    const result = await runReplPhrase(input, get().capabilities.ocaml);
+    set((state) => ({
+      replEntries: state.replEntries.map((entry) => entry.pending ? { input: entry.input, result } : entry),
+      isReplBusy: false,
+      // Browser sessions can show their environment in the memory panel
+      memoryState: replSession?.kind === 'browser' ? result.memoryState : state.memoryState,
+    }));
+  },
+
+  interruptRepl: () => {
+    if (replSession?.kind === 'native') replSession.connection.interrupt();
+    else toplevelRunner.cancel();
+  },
+
+  resetRepl: async () => {
+    set({ replEntries: [] });
+    if (replSession?.kind === 'native') {
+      try {
+        await replSession.connection.reset();
+        return;
+      } catch {
+        // The socket is gone; a new session opens with the next phrase
+      }
+    }
+    toplevelRunner.reset();
+    replSession = null;
+  },
+
+  // ── Debugger State ──────────────────────────────────────────────────────
+  debugSession: null,
+  breakpoints: {},
+
+  toggleBreakpoint: (file, line) => set((state) => {
+    const lines = state.breakpoints[file] ?? [];
+    return {
+      breakpoints: {
+        ...state.breakpoints,
+        [file]: lines.includes(line) ? lines.filter(l => l !== line) : [...lines, line].sort((a, b) => a - b),
+      },
+    };
+  }),
+
+  startDebug: (file, recording) => {
+    set({ debugSession: { file, recording, index: -1 } });
+    // Stop on the first breakpoint, or on the first line when there are none
+    const hasBreakpoints = Object.values(get().breakpoints).some(lines => lines.length > 0);
+    get().debugStep(hasBreakpoints ? 'continue' : 'into');
+  },
+
+  debugStep: (mode) => {
+    const session = get().debugSession;
+    if (!session) return;
+    const { breakpoints } = get();
+    const { pauses, result } = session.recording;
+    const index = nextPause(pauses, session.index, mode, (pause) =>
+      (breakpoints[pause.file ?? session.file] ?? []).includes(pause.line));
+    if (index < 0) {
+      // Ran off the end: show the finished run
+      set({ debugSession: null });
+      get().setExecutionResult(result);
+      return;
+    }
+    const pause = pauses[index];
+    set({ debugSession: { ...session, index } });
+    get().setExecutionResult({
+      output: result.output.slice(0, pause.outputLength),
+      values: [],
+      errors: [],
+      memoryState: memoryStateAt(pauses, index),
+      executionTimeMs: result.executionTimeMs,
+    });
+  },
+
+  stopDebug: () => set({ debugSession: null }),
+
   // ── UI State ────────────────────────────────────────────────────────────
   showMemoryPanel: true,
   showFileTree: true,
@@ -13,6 +13,8 @@ export interface UserUiPreferences {
     fileTree?: number;
     memory?: number;
   };
+  /** Default execution limits for the user's runs. */
+  limits?: Partial<ExecutionLimits>;
 }
 
 // ── Project Types ───────────────────────────────────────────────────────────
@@ -36,6 +38,8 @@ export interface Project {
   last_opened_file?: string;
   author_name?: string;
   is_owner?: boolean;
+  /** Overrides the user's default execution limits. */
+  limits?: Partial<ExecutionLimits>;
   created_at: string;
   updated_at: string;
 }
@@ -51,6 +55,25 @@ export interface ProjectListItem {
   updated_at: string;
 }
 
+// ── Execution Limits ────────────────────────────────────────────────────────
+/** Resources a run may use; the server clamps each one to its ceiling. */
+export interface ExecutionLimits {
+  /** Wall-clock time, in milliseconds. */
+  timeoutMs: number;
+  /** Evaluation steps; browser interpreter only. */
+  maxSteps: number;
+  /** Nested function calls; browser interpreter only. */
+  maxRecursionDepth: number;
+  /** Program output, in KB. */
+  maxOutputKb: number;
+  /**
+   * Memory, in MB. The browser interpreter counts what arrays, lists, records,
+   * refs, containers and built strings allocate over the run; closures and
+   * tuples are not counted.
+   */
+  maxMemoryMb: number;
+}
+
 // ── Interpreter Types ───────────────────────────────────────────────────────
 export interface StackFrame {
   name: string;
@@ -69,6 +92,8 @@ export interface HeapObject {
   type: string;
   value: string;
   refCount: number;
+  /** Suspensions (`lazy e`): whether the value has been computed yet. */
+  lazy?: 'unforced' | 'forced';
 }
 
 export interface MemoryState {
@@ -78,12 +103,88 @@ export interface MemoryState {
   typeDefinitions: { name: string; definition: string }[];
 }
 
+/**
+ * Changes to a list of named entries: the entries added or changed, and the
+ * new order of the names unless it is the old one with additions at the end.
+ */
+export interface ListDelta<T, K> {
+  changed: T[];
+  order?: K[];
+}
+
+/**
+ * How a memory state differs from the one before it; sections left out are
+ * unchanged. Debugger pauses and trace events store these rather than copies.
+ */
+export interface MemoryDelta {
+  /** The call frames after the first `keep`. The Global frame is not included: it lists the environment. */
+  stack?: { keep: number; frames: StackFrame[] };
+  environment?: ListDelta<VariableInfo, string>;
+  heap?: ListDelta<HeapObject, number>;
+  typeDefinitions?: ListDelta<{ name: string; definition: string }, string>;
+}
+
+/** One evaluator event of a recorded run, with the memory state right after it. Values are cut short. */
+export interface TraceEvent {
+  kind: 'call' | 'return' | 'bind' | 'assign' | 'arrayset' | 'fieldset';
+  line: number;
+  /** Project runs: the file the line belongs to. */
+  file?: string;
+  depth: number;
+  /** The function, variable, ref, array element or record field concerned. */
+  name: string;
+  /** Arguments of a call, returned or bound value, or the value written. */
+  value: string;
+  /** The value a ref, array element or record field held before the write. */
+  previous?: string;
+  /** The memory state, relative to the previous event. */
+  memory: MemoryDelta;
+}
+
+export interface ExecutionTrace {
+  events: TraceEvent[];
+  /** The event or size cap was reached; later events were not recorded. */
+  truncated: boolean;
+}
+
+/** A function an uncaught exception went through, and the line it was at. */
+export interface BacktraceFrame {
+  name: string;
+  line: number;
+  file?: string;
+}
+
+/**
+ * What a run does natively, when the server can: build a dune project, run a
+ * project bundled into one script, or run a single source in the toplevel.
+ */
+export type NativeRunRequest =
+  | { kind: 'build'; files: ProjectFiles }
+  | { kind: 'bundle'; files: ProjectFiles; entry: string }
+  | { kind: 'toplevel'; code: string };
+
 export interface ExecutionResult {
   output: string;
   values: { name: string; type: string; value: string }[];
-  errors: { line: number; column: number; message: string }[];
+  /**
+   * `file` is set when the run spans several project files. `backtrace` lists
+   * where an uncaught exception was raised and called from, innermost first.
+   */
+  errors: { line: number; column: number; message: string; file?: string; backtrace?: BacktraceFrame[] }[];
+  /** Browser interpreter: non-exhaustive matches and unused match cases. */
+  warnings?: { line: number; column: number; message: string; file?: string }[];
   memoryState: MemoryState;
   executionTimeMs: number;
+  /** Browser runs with tracing on: what happened, step by step. */
+  trace?: ExecutionTrace;
+}
+
+/** One phrase typed into the Console REPL and what the toplevel answered. */
+export interface ReplEntry {
+  input: string;
+  result: ExecutionResult;
+  /** Still running; `result.output` holds what has been streamed so far. */
+  pending?: boolean;
 }
 
 // ── UI Types ────────────────────────────────────────────────────────────────
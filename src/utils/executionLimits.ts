@@ -0,0 +1,58 @@
+import type { ExecutionLimits } from '../types';
+
+export type ExecutionLimitKey = keyof ExecutionLimits;
+
+// Keep in sync with DEFAULT_EXECUTION_LIMITS in server.js
+export const DEFAULT_EXECUTION_LIMITS: ExecutionLimits = {
+  timeoutMs: 10_000,
+  maxSteps: 1_000_000,
+  maxRecursionDepth: 5_000,
+  maxOutputKb: 1_024,
+  maxMemoryMb: 256,
+};
+
+/** The server's default ceilings, used until /api/capabilities reports the real ones. */
+export const DEFAULT_LIMIT_CEILINGS: ExecutionLimits = {
+  timeoutMs: 60_000,
+  maxSteps: 100_000_000,
+  maxRecursionDepth: 50_000,
+  maxOutputKb: 10_240,
+  maxMemoryMb: 2_048,
+};
+
+export const EXECUTION_LIMIT_FIELDS: { key: ExecutionLimitKey; label: string; unit: string }[] = [
+  { key: 'timeoutMs', label: 'Time', unit: 'ms' },
+  { key: 'maxSteps', label: 'Steps', unit: '' },
+  { key: 'maxRecursionDepth', label: 'Call depth', unit: '' },
+  { key: 'maxOutputKb', label: 'Output', unit: 'KB' },
+  { key: 'maxMemoryMb', label: 'Memory', unit: 'MB' },
+];
+
+/** Keep the positive limits, rounded and capped at the ceilings. */
+export function sanitizeExecutionLimits(
+  limits: Partial<ExecutionLimits> | null | undefined,
+  ceilings: ExecutionLimits = DEFAULT_LIMIT_CEILINGS,
+): Partial<ExecutionLimits> {
+  const next: Partial<ExecutionLimits> = {};
+  if (!limits || typeof limits !== 'object') return next;
+  for (const { key } of EXECUTION_LIMIT_FIELDS) {
+    const value = limits[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+      next[key] = Math.round(Math.min(value, ceilings[key]));
+    }
+  }
+  return next;
+}
+
+/** The limits a run gets: project overrides, then user defaults, then the built-in defaults. */
+export function resolveExecutionLimits(
+  userLimits: Partial<ExecutionLimits> | undefined,
+  projectLimits: Partial<ExecutionLimits> | undefined,
+  ceilings: ExecutionLimits = DEFAULT_LIMIT_CEILINGS,
+): ExecutionLimits {
+  return {
+    ...(sanitizeExecutionLimits(DEFAULT_EXECUTION_LIMITS, ceilings) as ExecutionLimits),
+    ...sanitizeExecutionLimits(userLimits, ceilings),
+    ...sanitizeExecutionLimits(projectLimits, ceilings),
+  };
+}
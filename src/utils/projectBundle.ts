@@ -0,0 +1,203 @@
+import type { ExecutionResult, ProjectFiles } from '../types';
+
+/** Where one file's lines landed in the bundled source (1-based, inclusive). */
+export interface BundleSegment {
+  filename: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface ProjectBundle {
+  code: string;
+  /** Files in execution order, the entry file last. */
+  order: string[];
+  segments: BundleSegment[];
+  /** The `module ... end` wrapper around each dependency. */
+  wrappers: BundleSegment[];
+}
+
+export class DependencyCycleError extends Error {
+  constructor(public cycle: string[]) {
+    super(`Dependency cycle between files: ${cycle.join(' -> ')}`);
+    this.name = 'DependencyCycleError';
+  }
+}
+
+/** Two files defining the same module, or a file whose name isn't a module name. */
+export class ModuleNameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModuleNameError';
+  }
+}
+
+/** `utils.ml` and `utils.mli` both define the module `Utils`, and so does `lib/utils.ml`. */
+export function moduleNameOf(filename: string): string {
+  const base = filename.slice(filename.lastIndexOf('/') + 1).replace(/\.mli?$/, '');
+  return base.charAt(0).toUpperCase() + base.slice(1);
+}
+
+// Length of the character literal at `i` ('a', '"', '\'', '\065'), or 0: a type variable ('a) has no closing quote
+function charLiteralLength(source: string, i: number): number {
+  if (source[i] !== "'") return 0;
+  if (source[i + 1] !== '\\') return source[i + 2] === "'" ? 3 : 0;
+  const end = source.indexOf("'", i + 3);
+  return end < 0 ? 0 : end + 1 - i;
+}
+
+/** Blank out comments, string and character literals so they don't count as references. */
+function stripCommentsAndStrings(source: string): string {
+  let out = '';
+  let depth = 0;
+  let i = 0;
+  while (i < source.length) {
+    if (source.startsWith('(*', i)) {
+      depth++;
+      i += 2;
+      out += '  ';
+    } else if (depth > 0 && source.startsWith('*)', i)) {
+      depth--;
+      i += 2;
+      out += '  ';
+    } else if (depth === 0 && source[i] === '"') {
+      out += ' ';
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === '\\') { out += ' '; i++; }
+        out += source[i] === '\n' ? '\n' : ' ';
+        i++;
+      }
+      out += ' ';
+      i++;
+    } else if (depth === 0 && charLiteralLength(source, i) > 0) {
+      const length = charLiteralLength(source, i);
+      out += ' '.repeat(length);
+      i += length;
+    } else {
+      out += depth > 0 && source[i] !== '\n' ? ' ' : source[i];
+      i++;
+    }
+  }
+  return out;
+}
+
+/** Project modules referenced by `source`, as `Utils.foo`, `open Utils` or `include Utils`. */
+export function findModuleReferences(source: string, moduleNames: Set<string>): Set<string> {
+  const refs = new Set<string>();
+  const code = stripCommentsAndStrings(source);
+  const pattern = /\b(?:(?:open|include)\s+([A-Z]\w*)|([A-Z]\w*)\s*\.)/g;
+  let match;
+  while ((match = pattern.exec(code)) !== null) {
+    const name = match[1] ?? match[2];
+    if (moduleNames.has(name)) refs.add(name);
+  }
+  return refs;
+}
+
+/**
+ * Order the project's `.ml` files so every file comes after the modules it
+ * references. The entry file always runs last; a cycle throws.
+ */
+export function dependencyOrder(files: ProjectFiles, entry: string): string[] {
+  const sources = Object.keys(files).filter(name => name.endsWith('.ml')).sort();
+  const byModule = new Map<string, string>();
+  for (const name of sources) {
+    const module = moduleNameOf(name);
+    const other = byModule.get(module);
+    if (other) throw new ModuleNameError(`Files ${other} and ${name} both define the module ${module}`);
+    // The entry file runs at the top level, so only the others need a valid module name
+    if (name !== entry && !/^[A-Z][A-Za-z0-9_']*$/.test(module)) {
+      throw new ModuleNameError(`The file name ${name} does not give a valid module name (${module})`);
+    }
+    byModule.set(module, name);
+  }
+  const moduleNames = new Set(byModule.keys());
+
+  const order: string[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (filename: string, path: string[]) => {
+    if (state.get(filename) === 'done') return;
+    if (state.get(filename) === 'visiting') {
+      throw new DependencyCycleError([...path.slice(path.indexOf(filename)), filename]);
+    }
+    state.set(filename, 'visiting');
+    const own = moduleNameOf(filename);
+    for (const ref of findModuleReferences(files[filename].content, moduleNames)) {
+      if (ref !== own) visit(byModule.get(ref)!, [...path, filename]);
+    }
+    state.set(filename, 'done');
+    if (filename !== entry) order.push(filename);
+  };
+
+  visit(entry, []);
+  // Files the entry doesn't reach are still linked, like an executable's other modules
+  for (const filename of sources) visit(filename, []);
+  return [...order, entry];
+}
+
+/**
+ * Concatenate a project into one program: every file but the entry becomes
+ * `module Utils = struct ... end` (sealed by `utils.mli` when there is one),
+ * and the entry file runs at the top level.
+ */
+export function bundleProject(files: ProjectFiles, entry: string): ProjectBundle {
+  const order = dependencyOrder(files, entry);
+  const lines: string[] = [];
+  const segments: BundleSegment[] = [];
+  const wrappers: BundleSegment[] = [];
+
+  const append = (filename: string) => {
+    const content = files[filename].content.split('\n');
+    segments.push({ filename, startLine: lines.length + 1, endLine: lines.length + content.length });
+    lines.push(...content);
+  };
+
+  for (const filename of order) {
+    if (filename === entry) break;
+    const name = moduleNameOf(filename);
+    const startLine = lines.length + 1;
+    const iface = `${filename}i`;
+    if (files[iface]) {
+      lines.push(`module ${name} : sig`);
+      append(iface);
+      lines.push('end = struct');
+    } else {
+      lines.push(`module ${name} = struct`);
+    }
+    append(filename);
+    lines.push('end');
+    wrappers.push({ filename, startLine, endLine: lines.length });
+  }
+  append(entry);
+
+  return { code: lines.join('\n'), order, segments, wrappers };
+}
+
+/** Map a line of the bundled source back to the file it came from. */
+export function locateBundleLine(bundle: ProjectBundle, line: number): { filename: string; line: number } | null {
+  for (const segment of bundle.segments) {
+    if (line >= segment.startLine && line <= segment.endLine) {
+      return { filename: segment.filename, line: line - segment.startLine + 1 };
+    }
+  }
+  // Errors on the wrapper itself point at the file's first line (e.g. a signature
+  // mismatch), or its last one for the closing `end` (e.g. an unclosed `struct`)
+  const wrapper = bundle.wrappers.find(w => line >= w.startLine && line <= w.endLine);
+  if (!wrapper) return null;
+  const file = bundle.segments.find(s => s.filename === wrapper.filename);
+  const last = file ? file.endLine - file.startLine + 1 : 1;
+  return { filename: wrapper.filename, line: line === wrapper.endLine ? last : 1 };
+}
+
+/** Rewrite error positions from bundle lines to per-file lines. */
+export function mapBundleErrors(bundle: ProjectBundle, errors: ExecutionResult['errors']): ExecutionResult['errors'] {
+  const locate = <T extends { line: number; file?: string }>(item: T): T => {
+    if (item.line <= 0) return item;
+    const location = locateBundleLine(bundle, item.line);
+    return location ? { ...item, line: location.line, file: location.filename } : item;
+  };
+  return errors.map(error => {
+    const located = locate(error);
+    return error.backtrace ? { ...located, backtrace: error.backtrace.map(locate) } : located;
+  });
+}
@@ -13,6 +13,7 @@ export default defineConfig({
       '/api': {
         target: `http://127.0.0.1:${apiPort}`,
         changeOrigin: true,
+        ws: true,
       },
     },
   },